@@ -0,0 +1,7 @@
+// Secrets the services refuse to start without outside development
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-access-secret';
+process.env.JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || 'test-refresh-secret';
+process.env.LINK_SIGNING_SECRET = process.env.LINK_SIGNING_SECRET || 'test-link-secret';
+
+// Shared with the frontend so its NextAuth session tokens are accepted
+process.env.NEXTAUTH_SECRET = process.env.NEXTAUTH_SECRET || 'test-nextauth-secret';
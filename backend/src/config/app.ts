@@ -0,0 +1,35 @@
+/**
+ * App-level settings shared across services
+ */
+
+/**
+ * The stand-in for a secret missing from the environment
+ * Only allowed with NODE_ENV=development: anywhere else a known default would
+ * let anyone forge what the secret signs, so the server refuses to start.
+ */
+export function developmentSecret(name: string, fallback: string): string {
+  if (process.env.NODE_ENV !== 'development') {
+    throw new Error(`${name} must be set unless NODE_ENV=development`);
+  }
+
+  console.warn(`⚠️  ${name} is not set, using an insecure development default`);
+  return fallback;
+}
+
+// Base URL of this API as reached from recipients' inboxes (verification links etc.)
+export const PUBLIC_API_URL = process.env.PUBLIC_API_URL || `http://localhost:${process.env.PORT || 3001}/api`;
+
+// Sender used when a schedule has no sender identity, and for system emails
+export const DEFAULT_SENDER = process.env.DEFAULT_SENDER || 'noreply@reachinbox.app';
+
+// Signs public links placed in emails (click tracking, unsubscribe); its own key,
+// since these signatures are handed to every recipient
+export const LINK_SIGNING_SECRET =
+  process.env.LINK_SIGNING_SECRET || developmentSecret('LINK_SIGNING_SECRET', 'dev-link-secret-change-me');
+
+if ([process.env.JWT_SECRET, process.env.JWT_REFRESH_SECRET].includes(LINK_SIGNING_SECRET)) {
+  throw new Error('LINK_SIGNING_SECRET must differ from JWT_SECRET and JWT_REFRESH_SECRET');
+}
+
+// Shared secret bounce/complaint webhooks must present; unset disables the endpoint
+export const INBOUND_WEBHOOK_SECRET = process.env.INBOUND_WEBHOOK_SECRET || '';
@@ -1,8 +1,13 @@
 import Redis from 'ioredis';
-import nodemailer from 'nodemailer';
+import { EmailTransport } from '../types';
+import {
+  getTransportConfigFromEnv,
+  getTransportForConfig,
+  closeTransports,
+} from '../services/transports';
 
 let redisClient: Redis | null = null;
-let emailTransporter: nodemailer.Transporter | null = null;
+let emailTransporter: EmailTransport | null = null;
 
 export async function initializeRedis(): Promise<Redis> {
   if (redisClient) return redisClient;
@@ -31,26 +36,18 @@ export async function initializeRedis(): Promise<Redis> {
   return redisClient;
 }
 
-export async function initializeEmailTransporter(): Promise<nodemailer.Transporter> {
+export async function initializeEmailTransporter(): Promise<EmailTransport> {
   if (emailTransporter) return emailTransporter;
 
   try {
-    // For Ethereal Email (fake SMTP for testing)
-    const testAccount = await nodemailer.createTestAccount();
-
-    emailTransporter = nodemailer.createTransport({
-      host: 'smtp.ethereal.email',
-      port: 587,
-      secure: false,
-      auth: {
-        user: process.env.ETHEREAL_USER || testAccount.user,
-        pass: process.env.ETHEREAL_PASS || testAccount.pass,
-      },
-    });
+    // Provider is chosen by EMAIL_TRANSPORT (ethereal, smtp, file, memory, http)
+    const config = getTransportConfigFromEnv();
+    const transport = await getTransportForConfig(config);
 
     // Verify connection
-    await emailTransporter.verify();
-    console.log('✅ Email transporter configured');
+    await transport.verify();
+    emailTransporter = transport;
+    console.log(`✅ Email transporter configured (${config.provider})`);
 
     return emailTransporter;
   } catch (error) {
@@ -66,7 +63,7 @@ export function getRedis(): Redis {
   return redisClient;
 }
 
-export function getEmailTransporter(): nodemailer.Transporter {
+export function getEmailTransporter(): EmailTransport {
   if (!emailTransporter) {
     throw new Error('Email transporter not initialized. Call initializeEmailTransporter() first.');
   }
@@ -78,4 +75,6 @@ export async function closeConnections(): Promise<void> {
     await redisClient.quit();
     redisClient = null;
   }
+  await closeTransports();
+  emailTransporter = null;
 }
@@ -0,0 +1,273 @@
+import { Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { authenticateBearerToken, hashPassword, issueTokens, verifyAccessToken } from '../../services/authService';
+import { login, logout, refresh, signup, syncOAuthUser } from '../authController';
+
+type UserRow = {
+  id: string;
+  email: string;
+  name: string | null;
+  avatar: string | null;
+  passwordHash: string | null;
+  googleId: string | null;
+  tokenVersion: number;
+};
+type UserWhere = { id?: string; email?: string; googleId?: string };
+
+const users = new Map<string, UserRow>();
+
+function findUser(where: UserWhere): UserRow | null {
+  return (
+    [...users.values()].find(
+      (row) =>
+        (where.id === undefined || row.id === where.id) &&
+        (where.email === undefined || row.email === where.email) &&
+        (where.googleId === undefined || row.googleId === where.googleId)
+    ) ?? null
+  );
+}
+
+// Just enough of prisma.user for the auth flows, with email and googleId unique
+jest.mock('../../config/prisma', () => ({
+  __esModule: true,
+  default: {
+    user: {
+      findUnique: jest.fn(async ({ where }: { where: UserWhere }) => findUser(where)),
+      create: jest.fn(async ({ data }: { data: Partial<UserRow> & { email: string } }) => {
+        const row: UserRow = {
+          id: `u${users.size + 1}`,
+          name: null,
+          avatar: null,
+          passwordHash: null,
+          googleId: null,
+          tokenVersion: 0,
+          ...data,
+        };
+        users.set(row.id, row);
+        return row;
+      }),
+      update: jest.fn(async ({ where, data }: { where: { id: string }; data: Record<string, unknown> }) => {
+        const row = users.get(where.id)!;
+        for (const [key, value] of Object.entries(data)) {
+          if (value === undefined) continue;
+          if (key === 'tokenVersion') {
+            row.tokenVersion += (value as { increment: number }).increment;
+          } else {
+            (row as Record<string, unknown>)[key] = value;
+          }
+        }
+        return row;
+      }),
+    },
+  },
+}));
+
+function response() {
+  const res = { status: jest.fn(), json: jest.fn(), send: jest.fn() };
+  res.status.mockReturnValue(res);
+  res.json.mockReturnValue(res);
+  res.send.mockReturnValue(res);
+  return res;
+}
+
+async function call(
+  handler: (req: Request, res: Response) => Promise<void>,
+  request: { body?: unknown; headers?: Record<string, string>; user?: { id: string; email: string } }
+) {
+  const res = response();
+  await handler({ body: {}, headers: {}, ...request } as unknown as Request, res as unknown as Response);
+  return { status: res.status.mock.calls[0]?.[0], body: res.json.mock.calls[0]?.[0] };
+}
+
+async function addPasswordUser(email: string, password: string): Promise<UserRow> {
+  const row: UserRow = {
+    id: `u${users.size + 1}`,
+    email,
+    name: null,
+    avatar: null,
+    passwordHash: await hashPassword(password),
+    googleId: null,
+    tokenVersion: 0,
+  };
+  users.set(row.id, row);
+  return row;
+}
+
+// The token the frontend's signIn callback sends for a Google sign-in
+function googleSignIn(email: string, googleId: string) {
+  const token = jwt.sign({ email, name: 'Ada G', googleId }, process.env.NEXTAUTH_SECRET!, { issuer: 'nextauth' });
+  return { headers: { authorization: `Bearer ${token}` } };
+}
+
+beforeEach(() => {
+  users.clear();
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('signup', () => {
+  it('creates an account and signs it in', async () => {
+    const { status, body } = await call(signup, {
+      body: { email: ' Ada@Example.com ', password: 'long enough', name: ' Ada ' },
+    });
+
+    expect(status).toBe(201);
+    expect(body.user).toEqual({ id: 'u1', email: 'ada@example.com', name: 'Ada', avatar: null, tokenVersion: 0 });
+    expect(verifyAccessToken(body.accessToken).id).toBe('u1');
+  });
+
+  it.each([
+    [{ email: 'ada@example.com', password: 'long enough', name: { first: 'Ada' } }],
+    [{ email: ['ada@example.com'], password: 'long enough' }],
+    [{ email: 'ada@example.com', password: 12345678 }],
+  ])('rejects fields that are not strings with 400: %j', async (body) => {
+    const result = await call(signup, { body });
+
+    expect(result).toEqual({ status: 400, body: { error: 'name, email and password must be strings' } });
+  });
+
+  it('rejects a short password or a taken address', async () => {
+    await addPasswordUser('ada@example.com', 'long enough');
+
+    expect((await call(signup, { body: { email: 'new@example.com', password: 'short' } })).status).toBe(400);
+    expect((await call(signup, { body: { email: 'ADA@example.com', password: 'long enough' } })).status).toBe(409);
+  });
+});
+
+describe('login', () => {
+  it('gives the same answer for an unknown address and a wrong password', async () => {
+    await addPasswordUser('ada@example.com', 'long enough');
+
+    const unknown = await call(login, { body: { email: 'nobody@example.com', password: 'long enough' } });
+    const wrong = await call(login, { body: { email: 'ada@example.com', password: 'not the one' } });
+
+    expect(unknown).toEqual({ status: 401, body: { error: 'Invalid email or password' } });
+    expect(wrong).toEqual(unknown);
+  });
+
+  it('rejects fields that are not strings with 400', async () => {
+    const result = await call(login, { body: { email: { $ne: '' }, password: 'long enough' } });
+
+    expect(result.status).toBe(400);
+  });
+});
+
+describe('refresh', () => {
+  it('exchanges a refresh token for a new pair while the token version matches', async () => {
+    const user = await addPasswordUser('ada@example.com', 'long enough');
+    const { refreshToken } = issueTokens(user);
+
+    expect((await call(refresh, { body: { refreshToken } })).status).toBe(200);
+
+    user.tokenVersion++;
+    expect(await call(refresh, { body: { refreshToken } })).toEqual({
+      status: 401,
+      body: { error: 'Refresh token revoked', code: 'TOKEN_INVALID' },
+    });
+  });
+});
+
+describe('syncOAuthUser', () => {
+  it('creates an account for a new Google user and finds it again by Google id', async () => {
+    const first = await call(syncOAuthUser, googleSignIn('ada@example.com', 'google-1'));
+
+    expect(first).toEqual({
+      status: 200,
+      body: { id: 'u1', email: 'ada@example.com', name: 'Ada G', avatar: null, tokenVersion: 0 },
+    });
+
+    // Google can report another address for the same account
+    const again = await call(syncOAuthUser, googleSignIn('ada@new-domain.com', 'google-1'));
+    expect(again.body.id).toBe('u1');
+    expect(users.size).toBe(1);
+  });
+
+  it('refuses to sign a Google account into a password account and hands out a link token', async () => {
+    const user = await addPasswordUser('ada@example.com', 'long enough');
+
+    const { status, body } = await call(syncOAuthUser, googleSignIn('ADA@example.com', 'google-1'));
+
+    expect(status).toBe(409);
+    expect(body).toMatchObject({ code: 'ACCOUNT_NOT_LINKED', linkToken: expect.any(String) });
+    expect(user.googleId).toBeNull();
+  });
+
+  it('never offers to link an address whose account has another Google account', async () => {
+    await call(syncOAuthUser, googleSignIn('ada@example.com', 'google-1'));
+
+    const { status, body } = await call(syncOAuthUser, googleSignIn('ada@example.com', 'google-2'));
+
+    expect(status).toBe(409);
+    expect(body.linkToken).toBeUndefined();
+  });
+
+  it('needs a NextAuth token with a Google account id', async () => {
+    const token = jwt.sign({ email: 'ada@example.com' }, process.env.NEXTAUTH_SECRET!, { issuer: 'nextauth' });
+
+    expect((await call(syncOAuthUser, { headers: { authorization: `Bearer ${token}` } })).status).toBe(400);
+    expect((await call(syncOAuthUser, {})).status).toBe(401);
+  });
+});
+
+describe('linking a Google account', () => {
+  async function linkTokenFor(email: string, googleId: string): Promise<string> {
+    return (await call(syncOAuthUser, googleSignIn(email, googleId))).body.linkToken;
+  }
+
+  it('links it once the password is given, after which Google signs in directly', async () => {
+    const user = await addPasswordUser('ada@example.com', 'long enough');
+    const linkToken = await linkTokenFor('ada@example.com', 'google-1');
+
+    const { status } = await call(login, { body: { email: 'ada@example.com', password: 'long enough', linkToken } });
+
+    expect(status).toBe(200);
+    expect(user.googleId).toBe('google-1');
+    expect((await call(syncOAuthUser, googleSignIn('ada@example.com', 'google-1'))).body.id).toBe(user.id);
+  });
+
+  it('links nothing when the password is wrong', async () => {
+    const user = await addPasswordUser('ada@example.com', 'long enough');
+    const linkToken = await linkTokenFor('ada@example.com', 'google-1');
+
+    await call(login, { body: { email: 'ada@example.com', password: 'a guess', linkToken } });
+
+    expect(user.googleId).toBeNull();
+  });
+
+  it("refuses another account's link token", async () => {
+    await addPasswordUser('ada@example.com', 'long enough');
+    const other = await addPasswordUser('grace@example.com', 'long enough');
+    const linkToken = await linkTokenFor('ada@example.com', 'google-1');
+
+    const { status } = await call(login, { body: { email: 'grace@example.com', password: 'long enough', linkToken } });
+
+    expect(status).toBe(401);
+    expect(other.googleId).toBeNull();
+  });
+
+  it('refuses a Google account linked to someone else in the meantime', async () => {
+    const user = await addPasswordUser('ada@example.com', 'long enough');
+    const linkToken = await linkTokenFor('ada@example.com', 'google-1');
+    await call(syncOAuthUser, googleSignIn('grace@example.com', 'google-1'));
+
+    const { status } = await call(login, { body: { email: 'ada@example.com', password: 'long enough', linkToken } });
+
+    expect(status).toBe(409);
+    expect(user.googleId).toBeNull();
+  });
+});
+
+describe('logout', () => {
+  it('revokes every token the user was issued', async () => {
+    const user = await addPasswordUser('ada@example.com', 'long enough');
+    const { accessToken } = issueTokens(user);
+
+    const { status } = await call(logout, { user: { id: user.id, email: user.email } });
+
+    expect(status).toBe(204);
+    await expect(authenticateBearerToken(accessToken)).rejects.toMatchObject({ code: 'TOKEN_REVOKED' });
+  });
+});
@@ -0,0 +1,331 @@
+import { Request, Response } from 'express';
+import prisma from '../config/prisma';
+import { AuthResponse } from '../types';
+import {
+  hashPassword,
+  verifyPassword,
+  issueTokens,
+  verifyRefreshToken,
+  verifyNextAuthToken,
+  issueLinkToken,
+  verifyLinkToken,
+  AuthError,
+} from '../services/authService';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+function toAuthResponse(user: {
+  id: string;
+  email: string;
+  name: string | null;
+  avatar: string | null;
+  tokenVersion: number;
+}): AuthResponse {
+  return {
+    ...issueTokens(user),
+    user: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      avatar: user.avatar,
+      tokenVersion: user.tokenVersion,
+    },
+  };
+}
+
+/**
+ * Create an account
+ *
+ * Body:
+ * {
+ *   name: string (optional)
+ *   email: string
+ *   password: string (min 8 characters)
+ * }
+ */
+export async function signup(req: Request, res: Response): Promise<void> {
+  try {
+    const { name, email, password } = req.body;
+
+    if (!email || !password) {
+      res.status(400).json({ error: 'Email and password are required' });
+      return;
+    }
+
+    if (typeof email !== 'string' || typeof password !== 'string' || (name != null && typeof name !== 'string')) {
+      res.status(400).json({ error: 'name, email and password must be strings' });
+      return;
+    }
+
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    const normalizedEmail = String(email).trim().toLowerCase();
+
+    if (!emailRegex.test(normalizedEmail)) {
+      res.status(400).json({ error: 'Invalid email address' });
+      return;
+    }
+
+    if (String(password).length < MIN_PASSWORD_LENGTH) {
+      res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+      return;
+    }
+
+    const existing = await prisma.user.findUnique({ where: { email: normalizedEmail } });
+
+    if (existing) {
+      res.status(409).json({ error: 'An account with this email already exists' });
+      return;
+    }
+
+    const user = await prisma.user.create({
+      data: {
+        email: normalizedEmail,
+        name: name?.trim() || normalizedEmail.split('@')[0],
+        passwordHash: await hashPassword(password),
+      },
+    });
+
+    res.status(201).json(toAuthResponse(user));
+  } catch (error) {
+    console.error('Error signing up:', error);
+    res.status(500).json({
+      error: 'Failed to sign up',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Log in with email and password
+ *
+ * Body:
+ * {
+ *   email: string
+ *   password: string
+ *   linkToken: string (optional, from a Google sign-in refused with ACCOUNT_NOT_LINKED; links that Google account)
+ * }
+ */
+export async function login(req: Request, res: Response): Promise<void> {
+  try {
+    const { email, password, linkToken } = req.body;
+
+    if (!email || !password) {
+      res.status(400).json({ error: 'Email and password are required' });
+      return;
+    }
+
+    if (typeof email !== 'string' || typeof password !== 'string') {
+      res.status(400).json({ error: 'email and password must be strings' });
+      return;
+    }
+
+    let user = await prisma.user.findUnique({
+      where: { email: String(email).trim().toLowerCase() },
+    });
+
+    // Same response for unknown email and wrong password
+    if (!user || !user.passwordHash || !(await verifyPassword(password, user.passwordHash))) {
+      res.status(401).json({ error: 'Invalid email or password' });
+      return;
+    }
+
+    if (linkToken) {
+      const link = verifyLinkToken(String(linkToken));
+
+      if (link.userId !== user.id) {
+        res.status(401).json({ error: 'Link token belongs to another account', code: 'TOKEN_INVALID' });
+        return;
+      }
+
+      const linkedElsewhere = await prisma.user.findUnique({ where: { googleId: link.googleId } });
+
+      if (linkedElsewhere && linkedElsewhere.id !== user.id) {
+        res.status(409).json({ error: 'This Google account is already linked to another user' });
+        return;
+      }
+
+      user = await prisma.user.update({ where: { id: user.id }, data: { googleId: link.googleId } });
+    }
+
+    res.status(200).json(toAuthResponse(user));
+  } catch (error) {
+    if (error instanceof AuthError) {
+      res.status(error.status).json({ error: error.message, code: error.code });
+      return;
+    }
+
+    console.error('Error logging in:', error);
+    res.status(500).json({
+      error: 'Failed to log in',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Exchange a refresh token for a new token pair
+ */
+export async function refresh(req: Request, res: Response): Promise<void> {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken) {
+      res.status(400).json({ error: 'refreshToken is required' });
+      return;
+    }
+
+    const { userId, tokenVersion } = verifyRefreshToken(refreshToken);
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user || user.tokenVersion !== tokenVersion) {
+      res.status(401).json({ error: 'Refresh token revoked', code: 'TOKEN_INVALID' });
+      return;
+    }
+
+    res.status(200).json(toAuthResponse(user));
+  } catch (error) {
+    if (error instanceof AuthError) {
+      res.status(error.status).json({ error: error.message, code: error.code });
+      return;
+    }
+
+    console.error('Error refreshing token:', error);
+    res.status(500).json({
+      error: 'Failed to refresh token',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Find or create the user behind a NextAuth (Google) sign-in
+ * Called by the frontend's signIn callback with a token signed by the shared
+ * NEXTAUTH_SECRET carrying the Google profile and account id. A user is matched
+ * by that Google account only; an address that already has a password account
+ * is refused with ACCOUNT_NOT_LINKED and a link token, so the Google account is
+ * only linked once someone logs in with the password (see login).
+ */
+export async function syncOAuthUser(req: Request, res: Response): Promise<void> {
+  try {
+    const [scheme, token] = (req.headers.authorization || '').split(' ');
+
+    if (scheme !== 'Bearer' || !token) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const profile = verifyNextAuthToken(token);
+    const email = profile.email.trim().toLowerCase();
+    const { googleId } = profile;
+
+    if (!googleId) {
+      res.status(400).json({ error: 'Token has no Google account id' });
+      return;
+    }
+
+    const profileFields = { name: profile.name || undefined, avatar: profile.picture || undefined };
+    let user = await prisma.user.findUnique({ where: { googleId } });
+
+    if (user) {
+      user = await prisma.user.update({ where: { id: user.id }, data: profileFields });
+    } else {
+      const existing = await prisma.user.findUnique({ where: { email } });
+
+      if (existing && (existing.passwordHash || existing.googleId)) {
+        res.status(409).json({
+          error: 'An account with this email already exists; log in with its password to link Google',
+          code: 'ACCOUNT_NOT_LINKED',
+          ...(!existing.googleId && { linkToken: issueLinkToken(existing, googleId) }),
+        });
+        return;
+      }
+
+      // No account yet, or one created by a Google sign-in before accounts were linked by id
+      user = existing
+        ? await prisma.user.update({ where: { id: existing.id }, data: { ...profileFields, googleId } })
+        : await prisma.user.create({
+            data: { email, googleId, name: profile.name || email.split('@')[0], avatar: profile.picture },
+          });
+    }
+
+    res.status(200).json({
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      avatar: user.avatar,
+      tokenVersion: user.tokenVersion,
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      res.status(error.status).json({ error: error.message, code: error.code });
+      return;
+    }
+
+    console.error('Error syncing OAuth user:', error);
+    res.status(500).json({
+      error: 'Failed to sync user',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Log out by revoking every token issued to the user, NextAuth session tokens included
+ */
+export async function logout(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { tokenVersion: { increment: 1 } },
+    });
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error logging out:', error);
+    res.status(500).json({
+      error: 'Failed to log out',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Get the authenticated user
+ */
+export async function getCurrentUser(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    res.status(200).json({
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      avatar: user.avatar,
+    });
+  } catch (error) {
+    console.error('Error fetching current user:', error);
+    res.status(500).json({
+      error: 'Failed to fetch user',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -0,0 +1,277 @@
+import { Request, Response } from 'express';
+import prisma from '../config/prisma';
+import {
+  assertListsExist,
+  buildAudienceWhere,
+  ContactError,
+  formatContact,
+  importContacts as importContactsFromCsv,
+  isValidEmail,
+  normalizeAttributes,
+  normalizeTags,
+} from '../services/contactService';
+
+/**
+ * List the user's contacts
+ *
+ * Query:
+ *   listId: string (optional, only contacts in this list)
+ *   tag: string (optional, comma separated; contacts must have every tag)
+ *   search: string (optional, part of the address)
+ *   limit: number (optional, default 50, max 500)
+ *   offset: number (optional, default 0)
+ */
+export async function getContacts(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.user?.id;
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit || '50'), 10) || 50, 1), 500);
+    const offset = Math.max(parseInt(String(req.query.offset || '0'), 10) || 0, 0);
+    const search = typeof req.query.search === 'string' ? req.query.search.trim().toLowerCase() : '';
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const where = {
+      ...buildAudienceWhere(userId, {
+        listIds: typeof req.query.listId === 'string' ? [req.query.listId] : undefined,
+        tags: normalizeTags(req.query.tag),
+      }),
+      ...(search && { email: { contains: search } }),
+    };
+
+    const [contacts, total] = await Promise.all([
+      prisma.contact.findMany({
+        where,
+        include: { lists: { select: { id: true } } },
+        orderBy: { createdAt: 'desc' },
+        skip: offset,
+        take: limit,
+      }),
+      prisma.contact.count({ where }),
+    ]);
+
+    res.status(200).json({ contacts: contacts.map(formatContact), total });
+  } catch (error) {
+    console.error('Error fetching contacts:', error);
+    res.status(500).json({
+      error: 'Failed to fetch contacts',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Save a contact
+ *
+ * Body:
+ * {
+ *   email: string
+ *   attributes: { [name]: string } (optional, merge field values)
+ *   tags: string[] (optional)
+ *   listIds: string[] (optional)
+ * }
+ */
+export async function createContact(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.user?.id;
+    const email = String(req.body.email || '').trim().toLowerCase();
+    const attributes = req.body.attributes === undefined ? {} : normalizeAttributes(req.body.attributes);
+    const listIds: string[] = Array.isArray(req.body.listIds) ? req.body.listIds : [];
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    if (!isValidEmail(email)) {
+      res.status(400).json({ error: 'Invalid email address' });
+      return;
+    }
+
+    if (!attributes) {
+      res.status(400).json({ error: 'attributes must be an object' });
+      return;
+    }
+
+    const existing = await prisma.contact.findUnique({
+      where: { userId_email: { userId, email } },
+    });
+
+    if (existing) {
+      res.status(409).json({ error: 'A contact with this address already exists' });
+      return;
+    }
+
+    await assertListsExist(userId, listIds);
+
+    const contact = await prisma.contact.create({
+      data: {
+        userId,
+        email,
+        attributes: JSON.stringify(attributes),
+        tags: normalizeTags(req.body.tags),
+        lists: { connect: listIds.map((id) => ({ id })) },
+      },
+      include: { lists: { select: { id: true } } },
+    });
+
+    res.status(201).json(formatContact(contact));
+  } catch (error) {
+    if (error instanceof ContactError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error('Error creating contact:', error);
+    res.status(500).json({
+      error: 'Failed to create contact',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Update a contact's attributes, tags or lists
+ * Each field given replaces the saved one; the address cannot change
+ */
+export async function updateContact(req: Request, res: Response): Promise<void> {
+  try {
+    const { contactId } = req.params;
+    const userId = req.user?.id;
+    const { listIds } = req.body;
+    const attributes = req.body.attributes === undefined ? undefined : normalizeAttributes(req.body.attributes);
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    if (attributes === null) {
+      res.status(400).json({ error: 'attributes must be an object' });
+      return;
+    }
+
+    if (listIds !== undefined && !Array.isArray(listIds)) {
+      res.status(400).json({ error: 'listIds must be an array' });
+      return;
+    }
+
+    const existing = await prisma.contact.findFirst({
+      where: { id: contactId, userId },
+    });
+
+    if (!existing) {
+      res.status(404).json({ error: 'Contact not found' });
+      return;
+    }
+
+    if (listIds) {
+      await assertListsExist(userId, listIds);
+    }
+
+    const contact = await prisma.contact.update({
+      where: { id: contactId },
+      data: {
+        ...(attributes && { attributes: JSON.stringify(attributes) }),
+        ...(req.body.tags !== undefined && { tags: normalizeTags(req.body.tags) }),
+        ...(listIds && { lists: { set: listIds.map((id: string) => ({ id })) } }),
+      },
+      include: { lists: { select: { id: true } } },
+    });
+
+    res.status(200).json(formatContact(contact));
+  } catch (error) {
+    if (error instanceof ContactError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error('Error updating contact:', error);
+    res.status(500).json({
+      error: 'Failed to update contact',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Delete a contact
+ * Schedules that already included them are untouched
+ */
+export async function deleteContact(req: Request, res: Response): Promise<void> {
+  try {
+    const { contactId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { count } = await prisma.contact.deleteMany({
+      where: { id: contactId, userId },
+    });
+
+    if (count === 0) {
+      res.status(404).json({ error: 'Contact not found' });
+      return;
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting contact:', error);
+    res.status(500).json({
+      error: 'Failed to delete contact',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Import contacts from a CSV file with a header row
+ *
+ * Body:
+ * {
+ *   csv: string
+ *   mapping: { [columnHeader]: "email" | "tags" | attributeName | "" } (optional;
+ *     by default the email column is found by name and every other column
+ *     becomes an attribute, with a "tags" column read as tags)
+ *   tags: string[] (optional, added to every imported contact)
+ *   listId: string (optional, list to add every imported contact to)
+ * }
+ */
+export async function importContacts(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.user?.id;
+    const { csv, mapping, tags, listId } = req.body;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    if (typeof csv !== 'string' || !csv.trim()) {
+      res.status(400).json({ error: 'csv is required' });
+      return;
+    }
+
+    if (mapping !== undefined && (!mapping || typeof mapping !== 'object' || Array.isArray(mapping))) {
+      res.status(400).json({ error: 'mapping must be an object of column header to field' });
+      return;
+    }
+
+    const result = await importContactsFromCsv(userId, csv, { mapping, tags, listId });
+
+    res.status(200).json(result);
+  } catch (error) {
+    if (error instanceof ContactError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error('Error importing contacts:', error);
+    res.status(500).json({
+      error: 'Failed to import contacts',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
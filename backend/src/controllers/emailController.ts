@@ -1,7 +1,57 @@
 import { Request, Response } from 'express';
+import { EmailSchedule } from '@prisma/client';
 import prisma from '../config/prisma';
 import { EmailScheduleData, ScheduleListResponse, EmailListItem } from '../types';
-import { scheduleEmailJob, getQueueStats } from '../services/queueService';
+import { scheduleEmailJob, removeEmailJob, getQueueStats } from '../services/queueService';
+import { updateScheduleCounts, UNSENT_STATUSES } from '../services/emailService';
+import { getTrackingCounts } from '../services/trackingService';
+import { getSuppressedAddresses } from '../services/suppressionService';
+import { formatDeadLetter, retryDeadLetters, dropDeadLetters } from '../services/deadLetterService';
+import {
+  isRateLimitAlgorithm,
+  isValidPacing,
+  INVALID_PACING_MESSAGE,
+  RATE_LIMIT_ALGORITHMS,
+} from '../services/rateLimitService';
+import {
+  cancelUnsentEmails,
+  prepareSchedule,
+  getRecipientTimezone,
+  isValidLocalTime,
+  isValidTimezone,
+} from '../services/scheduleService';
+import {
+  parseRecurrence,
+  getNextOccurrence,
+  getUpcomingOccurrences,
+  getSkippedOccurrences,
+  isUpcomingOccurrence,
+  queueOccurrence,
+  removeQueuedOccurrence,
+  Recurrence,
+  RecurrenceError,
+} from '../services/recurrenceService';
+import {
+  normalizeRecipients,
+  getRequiredVariables,
+  findMissingVariables,
+  TemplateSyntaxError,
+  PersonalizedRecipient,
+} from '../services/personalizationService';
+import { resolveAudience, normalizeTags, ContactError } from '../services/contactService';
+import { getImportedRecipients } from '../services/recipientImportService';
+import { verifyEmails, summarizeVerifications } from '../services/emailVerificationService';
+import {
+  parseAbTest,
+  getVariantResults,
+  queueAbTestDecision,
+  removeQueuedAbTestDecision,
+  decideAbTest,
+  sendWinnerToRemainder,
+  AbTest,
+  AbTestError,
+  VARIANT_LABELS,
+} from '../services/abTestService';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
@@ -11,133 +61,402 @@ import { v4 as uuidv4 } from 'uuid';
  * {
  *   subject: string
  *   body: string
- *   recipients: string[] (array of email addresses)
- *   startTime: ISO string
- *   delayMs: number (optional, default 2000)
- *   hourlyLimit: number (optional, default 200)
+ *   recipients: Array<string | { email: string, [mergeField]: string }> (optional with listIds, tags or importId)
+ *   listIds: string[] (optional, saved contacts in any of these lists)
+ *   tags: string[] (optional, saved contacts with every one of these tags)
+ *   importId: string (optional, valid recipients of an uploaded file, see POST /api/imports)
+ *   skipRoleAccounts: boolean (optional, leave out the import's info@, support@, ... addresses)
+ *   startTime: ISO string (optional for recurring schedules)
+ *   delayMs: number (optional, whole milliseconds >= 0, default 2000)
+ *   hourlyLimit: number (optional, whole number >= 1, default 200)
+ *   rateLimitAlgorithm: 'fixed-window' | 'sliding-window' | 'token-bucket' (optional, default fixed-window)
+ *   senderIdentityId: string (optional, verified sender; default system sender otherwise)
+ *   templateId: string (optional, records the template used; fills subject/body if omitted)
+ *   templateVersion: number (optional, whole number >= 1, defaults to the template's current version)
+ *   recurrence: { rule, timezone, endsAt, maxOccurrences } (optional, see recurrenceService)
+ *   localSendTime: "HH:MM" (optional, deliver at this time in each recipient's timezone)
+ *   sendTimezone: string (optional, for recipients without a timezone field; default UTC)
+ *   variants: Array<{ subject, body }> (optional, 2-5 A/B test variants; replace subject and body)
+ *   abTest: { share, waitMinutes, metric } (optional with variants, see abTestService)
  * }
  */
 export async function scheduleEmails(req: Request, res: Response): Promise<void> {
   try {
-    const { subject, body, recipients, startTime, delayMs = 2000, hourlyLimit = 200, attachments = [] } = req.body;
-    const userId = req.headers['x-user-id'] as string;
+    const {
+      recipients,
+      startTime,
+      delayMs = 2000,
+      hourlyLimit = 200,
+      rateLimitAlgorithm = 'fixed-window',
+      attachments = [],
+      senderIdentityId,
+      templateId,
+      templateVersion,
+      localSendTime,
+      listIds,
+      tags,
+      importId,
+      skipRoleAccounts,
+      variants,
+    } = req.body;
+    let { subject, body } = req.body;
+    const userId = req.user?.id;
 
     if (!userId) {
-      res.status(401).json({ error: 'User ID required' });
+      res.status(401).json({ error: 'Authentication required' });
       return;
     }
 
-    if (!subject || !body || !recipients || !Array.isArray(recipients) || recipients.length === 0) {
+    let templateVersionId: string | null = null;
+
+    if (templateId) {
+      const versionNumber = templateVersion == null ? null : Number(templateVersion);
+
+      if (versionNumber !== null && !(Number.isInteger(versionNumber) && versionNumber >= 1)) {
+        res.status(400).json({ error: 'templateVersion must be a whole number >= 1' });
+        return;
+      }
+
+      const template = await prisma.emailTemplate.findFirst({
+        where: { id: templateId, userId },
+      });
+
+      const version = template
+        ? await prisma.emailTemplateVersion.findUnique({
+            where: {
+              templateId_version: {
+                templateId,
+                version: versionNumber ?? template.currentVersion,
+              },
+            },
+          })
+        : null;
+
+      if (!version) {
+        res.status(400).json({ error: 'Template version not found' });
+        return;
+      }
+
+      subject = subject || version.subject;
+      body = body || version.body;
+
+      // Only recorded when the schedule sends that version as it is, as when a series is edited
+      if (subject === version.subject && body === version.body && variants === undefined) {
+        templateVersionId = version.id;
+      }
+    }
+
+    let abTest: AbTest | null = null;
+
+    if (variants !== undefined) {
+      try {
+        abTest = parseAbTest(variants, req.body.abTest);
+      } catch (error) {
+        if (error instanceof AbTestError) {
+          res.status(400).json({ error: error.message });
+          return;
+        }
+        throw error;
+      }
+
+      // Variant A doubles as the schedule's own subject and body
+      subject = abTest.variants[0].subject;
+      body = abTest.variants[0].body;
+    }
+
+    const audienceListIds: string[] = Array.isArray(listIds) ? listIds : [];
+    const audienceTags = normalizeTags(tags);
+    const hasAudience = audienceListIds.length > 0 || audienceTags.length > 0;
+
+    if (
+      !subject ||
+      !body ||
+      (recipients !== undefined && !Array.isArray(recipients)) ||
+      ((!recipients || recipients.length === 0) && !hasAudience && !importId)
+    ) {
       res.status(400).json({ error: 'Missing required fields' });
       return;
     }
 
-    if (!startTime) {
+    if (!isRateLimitAlgorithm(rateLimitAlgorithm)) {
+      res.status(400).json({ error: `rateLimitAlgorithm must be one of: ${RATE_LIMIT_ALGORITHMS.join(', ')}` });
+      return;
+    }
+
+    if (!isValidPacing(hourlyLimit, delayMs)) {
+      res.status(400).json({ error: INVALID_PACING_MESSAGE });
+      return;
+    }
+
+    let recurrence: Recurrence | null = null;
+
+    if (req.body.recurrence) {
+      try {
+        recurrence = parseRecurrence(req.body.recurrence);
+      } catch (error) {
+        if (error instanceof RecurrenceError) {
+          res.status(400).json({ error: error.message });
+          return;
+        }
+        throw error;
+      }
+    }
+
+    if (recurrence && abTest) {
+      res.status(400).json({ error: 'A/B tests cannot be combined with a recurrence' });
+      return;
+    }
+
+    const sendTimezone: string | null = localSendTime
+      ? req.body.sendTimezone || recurrence?.timezone || 'UTC'
+      : null;
+
+    if (localSendTime && !isValidLocalTime(localSendTime)) {
+      res.status(400).json({ error: 'localSendTime must be HH:MM (24-hour)' });
+      return;
+    }
+
+    if (sendTimezone && !isValidTimezone(sendTimezone)) {
+      res.status(400).json({ error: `Unknown timezone: ${sendTimezone}` });
+      return;
+    }
+
+    if (!startTime && !recurrence) {
       res.status(400).json({ error: 'startTime is required' });
       return;
     }
 
-    const scheduleStartTime = new Date(startTime);
+    const scheduleStartTime = startTime ? new Date(startTime) : new Date();
 
     if (isNaN(scheduleStartTime.getTime())) {
       res.status(400).json({ error: 'Invalid startTime format' });
       return;
     }
 
-    // Validate recipients are valid emails
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    const invalidEmails = recipients.filter((email) => !emailRegex.test(email.trim()));
+    // Recipients are plain addresses or objects carrying merge field values
+    const recipientSources: PersonalizedRecipient[][] = [normalizeRecipients(recipients || [])];
+
+    // Recipients of an uploaded file, already validated when it was imported
+    if (importId) {
+      const imported = await getImportedRecipients(userId, importId, { skipRoleAccounts: Boolean(skipRoleAccounts) });
+
+      if (!imported) {
+        res.status(400).json({ error: 'Import not found' });
+        return;
+      }
+
+      recipientSources.push(normalizeRecipients(imported));
+    }
+
+    // Saved contacts matching the lists and tags join them, with their attributes as merge fields
+    if (hasAudience) {
+      try {
+        recipientSources.push(await resolveAudience(userId, { listIds: audienceListIds, tags: audienceTags }));
+      } catch (error) {
+        if (error instanceof ContactError) {
+          res.status(400).json({ error: error.message });
+          return;
+        }
+        throw error;
+      }
+    }
+
+    // Each address (in any case) is scheduled once, with the merge fields of its first
+    // appearance: the request, then the uploaded file, then the contacts
+    const listed = new Set<string>();
+    const personalizedRecipients = recipientSources.flat().filter((recipient) => {
+      const address = recipient.email.trim().toLowerCase();
+      if (listed.has(address)) return false;
+      listed.add(address);
+      return true;
+    });
 
-    if (invalidEmails.length > 0) {
+    if (personalizedRecipients.length === 0) {
       res.status(400).json({
-        error: `Invalid email addresses: ${invalidEmails.join(', ')}`,
+        error: hasAudience ? 'No contacts match the given lists and tags' : 'No recipients to schedule',
       });
       return;
     }
 
-    const validRecipients = recipients.map((e) => e.trim()).filter((e) => e);
+    // Verify syntax and the domains' mail servers; undeliverable addresses are dropped,
+    // risky ones (disposable, likely typos) are kept and reported alongside them
+    const verifications = await verifyEmails(personalizedRecipients.map((r) => r.email));
+    const verification = summarizeVerifications(verifications.values());
+    const deliverableRecipients = personalizedRecipients.filter(
+      (r) => verifications.get(r.email.trim().toLowerCase())?.status !== 'invalid'
+    );
 
-    // Ensure user exists in database (create if doesn't exist)
-    await prisma.user.upsert({
-      where: { id: userId },
-      update: {},
-      create: {
-        id: userId,
-        email: userId,
-        name: userId.split('@')[0],
-      },
-    });
+    if (deliverableRecipients.length === 0) {
+      res.status(400).json({ error: 'None of the recipients can receive email', verification });
+      return;
+    }
+
+    // Drop anyone who unsubscribed or was suppressed by the user
+    const suppressedAddresses = await getSuppressedAddresses(
+      userId,
+      deliverableRecipients.map((r) => r.email)
+    );
+    const suppressed = deliverableRecipients
+      .map((r) => r.email)
+      .filter((email) => suppressedAddresses.has(email.toLowerCase()));
+    const validRecipients = deliverableRecipients.filter(
+      (r) => r.email && !suppressedAddresses.has(r.email.toLowerCase())
+    );
+
+    if (validRecipients.length === 0) {
+      res.status(400).json({ error: 'All recipients are suppressed', suppressed, verification });
+      return;
+    }
+
+    if (abTest && validRecipients.length < abTest.variants.length) {
+      res.status(400).json({ error: 'An A/B test needs at least one recipient per variant' });
+      return;
+    }
+
+    // Every recipient must have a value for each merge field without a default, in every variant
+    let requiredVariables: string[];
+    try {
+      requiredVariables = Array.from(
+        new Set((abTest?.variants || [{ subject, body }]).flatMap((v) => getRequiredVariables(v.subject, v.body)))
+      );
+    } catch (error) {
+      if (error instanceof TemplateSyntaxError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      throw error;
+    }
+
+    if (localSendTime) {
+      const invalidTimezones = validRecipients
+        .map((r) => ({ recipient: r.email, timezone: getRecipientTimezone(r.variables) }))
+        .filter((entry) => entry.timezone && !isValidTimezone(entry.timezone));
+
+      if (invalidTimezones.length > 0) {
+        res.status(400).json({
+          error: `${invalidTimezones.length} recipient(s) have an unknown timezone`,
+          invalidTimezones,
+        });
+        return;
+      }
+    }
+
+    const missingVariables = findMissingVariables(requiredVariables, validRecipients);
+
+    if (missingVariables.length > 0) {
+      res.status(400).json({
+        error: `${missingVariables.length} recipient(s) are missing required merge fields`,
+        missingVariables,
+      });
+      return;
+    }
+
+    if (senderIdentityId) {
+      const senderIdentity = await prisma.senderIdentity.findFirst({
+        where: { id: senderIdentityId, userId },
+      });
+
+      if (!senderIdentity) {
+        res.status(400).json({ error: 'Sender not found' });
+        return;
+      }
+
+      if (!senderIdentity.verified) {
+        res.status(400).json({ error: `Sender ${senderIdentity.fromAddress} is not verified yet` });
+        return;
+      }
+    }
+
+    // The first occurrence is the first one at or after startTime (or now)
+    const firstOccurrence = recurrence
+      ? getNextOccurrence(
+          {
+            recurrenceRule: recurrence.rule,
+            timezone: recurrence.timezone,
+            recurrenceEndsAt: recurrence.endsAt,
+            maxOccurrences: recurrence.maxOccurrences,
+            occurrenceCount: 0,
+          },
+          new Date(Math.max(Date.now(), scheduleStartTime.getTime()) - 1)
+        )
+      : null;
+
+    if (recurrence && !firstOccurrence) {
+      res.status(400).json({ error: 'The recurrence has no occurrences after startTime' });
+      return;
+    }
 
     // Create email schedule in database
     const schedule = await prisma.emailSchedule.create({
       data: {
         id: uuidv4(),
         userId,
+        senderIdentityId: senderIdentityId || null,
+        templateVersionId,
         subject,
         body,
-        recipients: JSON.stringify(validRecipients),
-        startTime: scheduleStartTime,
+        recipients: JSON.stringify(validRecipients.map((r) => r.variables)),
+        attachments: attachments.length > 0 ? JSON.stringify(attachments) : null,
+        startTime: firstOccurrence || scheduleStartTime,
         delayMs,
         hourlyLimit,
-        totalCount: validRecipients.length,
-        status: 'scheduled',
+        rateLimitAlgorithm,
+        localSendTime: localSendTime || null,
+        sendTimezone,
+        totalCount: recurrence ? 0 : validRecipients.length,
+        status: recurrence ? 'scheduled' : 'preparing',
+        recurrenceRule: recurrence?.rule,
+        timezone: recurrence?.timezone,
+        recurrenceEndsAt: recurrence?.endsAt,
+        maxOccurrences: recurrence?.maxOccurrences,
+        nextOccurrenceAt: firstOccurrence,
+        abTestShare: abTest?.share,
+        abTestMetric: abTest?.metric,
+        abTestDecideAt: abTest ? new Date(scheduleStartTime.getTime() + abTest.waitMs) : null,
+        abTestStatus: abTest ? 'testing' : null,
+        variants: abTest
+          ? { create: abTest.variants.map((variant, i) => ({ label: VARIANT_LABELS[i], ...variant })) }
+          : undefined,
       },
     });
 
-    // Create email jobs for each recipient and schedule them
-    const createdJobs: any[] = [];
-
-    for (let i = 0; i < validRecipients.length; i++) {
-      const recipient = validRecipients[i];
-      const scheduledTime = new Date(scheduleStartTime.getTime() + i * delayMs);
+    // Recurring schedules create their emails when each occurrence fires
+    if (firstOccurrence) {
+      await queueOccurrence(schedule.id, firstOccurrence);
 
-      const emailJob = await prisma.emailJob.create({
-        data: {
-          id: uuidv4(),
-          scheduleId: schedule.id,
-          userId,
-          recipient,
-          subject,
-          body,
-          scheduledTime,
-          status: 'pending',
-        },
+      res.status(201).json({
+        scheduleId: schedule.id,
+        totalEmails: validRecipients.length,
+        status: 'scheduled',
+        message: `Recurring schedule created, first occurrence at ${firstOccurrence.toISOString()}`,
+        suppressed,
+        verification,
+        upcomingOccurrences: getUpcomingOccurrences(schedule, 5),
       });
+      return;
+    }
 
-      // Schedule job in BullMQ
-        try {
-        const jobId = await scheduleEmailJob({
-          scheduleId: schedule.id,
-          userId,
-          recipient,
-          subject,
-          body,
-          scheduledTime,
-          attachments,
-        });
-
-        createdJobs.push({
-          jobId,
-          recipient,
-          scheduledTime,
-        });
-
-        // Update job ID in database
-        await prisma.emailJob.update({
-          where: { id: emailJob.id },
-          data: { jobId },
-        });
-      } catch (error) {
-        console.error(`Failed to schedule job for ${recipient}:`, error);
-      }
+    if (abTest && abTest.metric !== 'manual') {
+      await queueAbTestDecision(schedule.id, schedule.abTestDecideAt!);
     }
 
-    res.status(201).json({
+    // Emails are created and queued in the background; poll the progress endpoint
+    res.status(202).json({
       scheduleId: schedule.id,
       totalEmails: validRecipients.length,
-      status: 'scheduled',
-      message: `Successfully scheduled ${validRecipients.length} email(s)`,
-      createdJobs: createdJobs.length,
+      status: 'preparing',
+      message: abTest
+        ? `Preparing an A/B test of ${abTest.variants.length} variants on ${abTest.share}% of ${validRecipients.length} recipient(s)`
+        : `Preparing ${validRecipients.length} email(s)`,
+      suppressed,
+      verification,
+      ...(abTest && {
+        abTest: { share: abTest.share, metric: abTest.metric, decideAt: schedule.abTestDecideAt!.toISOString() },
+      }),
+    });
+
+    prepareSchedule(schedule.id).catch((error) => {
+      console.error(`Error preparing schedule ${schedule.id}:`, error);
     });
   } catch (error) {
     console.error('Error scheduling emails:', error);
@@ -153,10 +472,10 @@ export async function scheduleEmails(req: Request, res: Response): Promise<void>
  */
 export async function getScheduledEmails(req: Request, res: Response): Promise<void> {
   try {
-    const userId = req.headers['x-user-id'] as string;
+    const userId = req.user?.id;
 
     if (!userId) {
-      res.status(401).json({ error: 'User ID required' });
+      res.status(401).json({ error: 'Authentication required' });
       return;
     }
 
@@ -174,6 +493,8 @@ export async function getScheduledEmails(req: Request, res: Response): Promise<v
       status: schedule.status,
       createdAt: schedule.createdAt.toISOString(),
       startTime: schedule.startTime.toISOString(),
+      nextOccurrenceAt: schedule.nextOccurrenceAt?.toISOString(),
+      abTestStatus: schedule.abTestStatus || undefined,
     }));
 
     res.status(200).json(formattedSchedules);
@@ -191,17 +512,17 @@ export async function getScheduledEmails(req: Request, res: Response): Promise<v
  */
 export async function getSentEmails(req: Request, res: Response): Promise<void> {
   try {
-    const userId = req.headers['x-user-id'] as string;
+    const userId = req.user?.id;
 
     if (!userId) {
-      res.status(401).json({ error: 'User ID required' });
+      res.status(401).json({ error: 'Authentication required' });
       return;
     }
 
     const emailJobs = await prisma.emailJob.findMany({
       where: {
         userId,
-        status: { in: ['sent', 'failed'] },
+        status: { in: ['sent', 'failed', 'bounced', 'complained'] },
       },
       orderBy: { sentTime: 'desc' },
       select: {
@@ -232,16 +553,56 @@ export async function getSentEmails(req: Request, res: Response): Promise<void>
   }
 }
 
+/**
+ * First and last delivery time, overall and per recipient timezone
+ */
+function getDeliverySpread(
+  schedule: EmailSchedule & { emailJobs: Array<{ scheduledTime: Date; timezone: string | null }> }
+) {
+  const byTimezone = new Map<string, { timezone: string; count: number; firstAt: number; lastAt: number }>();
+  let firstAt = Infinity;
+  let lastAt = -Infinity;
+
+  for (const job of schedule.emailJobs) {
+    const time = job.scheduledTime.getTime();
+    firstAt = Math.min(firstAt, time);
+    lastAt = Math.max(lastAt, time);
+
+    if (!job.timezone) continue;
+
+    const entry = byTimezone.get(job.timezone) || { timezone: job.timezone, count: 0, firstAt: time, lastAt: time };
+    entry.count++;
+    entry.firstAt = Math.min(entry.firstAt, time);
+    entry.lastAt = Math.max(entry.lastAt, time);
+    byTimezone.set(job.timezone, entry);
+  }
+
+  return {
+    localSendTime: schedule.localSendTime,
+    sendTimezone: schedule.sendTimezone,
+    firstAt: schedule.emailJobs.length > 0 ? new Date(firstAt).toISOString() : null,
+    lastAt: schedule.emailJobs.length > 0 ? new Date(lastAt).toISOString() : null,
+    byTimezone: Array.from(byTimezone.values())
+      .sort((a, b) => a.firstAt - b.firstAt)
+      .map((entry) => ({
+        timezone: entry.timezone,
+        count: entry.count,
+        firstAt: new Date(entry.firstAt).toISOString(),
+        lastAt: new Date(entry.lastAt).toISOString(),
+      })),
+  };
+}
+
 /**
  * Get schedule details with email jobs
  */
 export async function getScheduleDetails(req: Request, res: Response): Promise<void> {
   try {
     const { scheduleId } = req.params;
-    const userId = req.headers['x-user-id'] as string;
+    const userId = req.user?.id;
 
     if (!userId) {
-      res.status(401).json({ error: 'User ID required' });
+      res.status(401).json({ error: 'Authentication required' });
       return;
     }
 
@@ -251,6 +612,9 @@ export async function getScheduleDetails(req: Request, res: Response): Promise<v
         emailJobs: {
           orderBy: { scheduledTime: 'asc' },
         },
+        senderIdentity: true,
+        templateVersion: { include: { template: true } },
+        variants: { select: { id: true, label: true } },
       },
     });
 
@@ -259,6 +623,10 @@ export async function getScheduleDetails(req: Request, res: Response): Promise<v
       return;
     }
 
+    const trackingCounts = await getTrackingCounts(schedule.emailJobs.map((job) => job.id));
+    const variantLabels = new Map(schedule.variants.map((variant) => [variant.id, variant.label]));
+    const variantResults = schedule.abTestStatus ? await getVariantResults(schedule.id) : [];
+
     const formattedJobs = schedule.emailJobs.map((job) => ({
       id: job.id,
       recipient: job.recipient,
@@ -267,6 +635,21 @@ export async function getScheduleDetails(req: Request, res: Response): Promise<v
       scheduledTime: job.scheduledTime.toISOString(),
       sentTime: job.sentTime?.toISOString(),
       errorMessage: job.errorMessage,
+      errorCode: job.errorCode,
+      errorCategory: job.errorCategory,
+      messageId: job.messageId,
+      accepted: job.accepted ? JSON.parse(job.accepted) : [],
+      rejected: job.rejected ? JSON.parse(job.rejected) : [],
+      smtpResponse: job.smtpResponse,
+      sendDurationMs: job.sendDurationMs,
+      attemptCount: job.attemptCount,
+      lastAttemptAt: job.lastAttemptAt?.toISOString(),
+      occurrenceAt: job.occurrenceAt?.toISOString(),
+      timezone: job.timezone,
+      variant: job.variantId ? variantLabels.get(job.variantId) : undefined,
+      abTestGroup: job.abTestGroup,
+      opens: trackingCounts.get(job.id)?.opens || 0,
+      clicks: trackingCounts.get(job.id)?.clicks || 0,
     }));
 
     res.status(200).json({
@@ -276,11 +659,60 @@ export async function getScheduleDetails(req: Request, res: Response): Promise<v
       startTime: schedule.startTime.toISOString(),
       delayMs: schedule.delayMs,
       hourlyLimit: schedule.hourlyLimit,
+      rateLimitAlgorithm: schedule.rateLimitAlgorithm,
+      sender: schedule.senderIdentity
+        ? {
+            id: schedule.senderIdentity.id,
+            fromName: schedule.senderIdentity.fromName,
+            fromAddress: schedule.senderIdentity.fromAddress,
+          }
+        : null,
+      template: schedule.templateVersion
+        ? {
+            id: schedule.templateVersion.templateId,
+            name: schedule.templateVersion.template.name,
+            version: schedule.templateVersion.version,
+          }
+        : null,
       status: schedule.status,
       totalCount: schedule.totalCount,
       sentCount: schedule.sentCount,
       failedCount: schedule.failedCount,
       createdAt: schedule.createdAt.toISOString(),
+      rateLimit:
+        schedule.throttledBy && schedule.throttledUntil && schedule.throttledUntil > new Date()
+          ? {
+              heldBy: schedule.throttledBy,
+              until: schedule.throttledUntil.toISOString(),
+            }
+          : null,
+      recurrence: schedule.recurrenceRule
+        ? {
+            rule: schedule.recurrenceRule,
+            timezone: schedule.timezone,
+            endsAt: schedule.recurrenceEndsAt?.toISOString(),
+            maxOccurrences: schedule.maxOccurrences,
+            occurrenceCount: schedule.occurrenceCount,
+            upcoming: getUpcomingOccurrences(schedule, 5),
+          }
+        : null,
+      delivery: getDeliverySpread(schedule),
+      abTest: schedule.abTestStatus
+        ? {
+            status: schedule.abTestStatus,
+            share: schedule.abTestShare,
+            metric: schedule.abTestMetric,
+            decideAt: schedule.abTestDecideAt?.toISOString(),
+            winningVariantId: schedule.winningVariantId,
+            variants: variantResults,
+          }
+        : null,
+      tracking: {
+        opens: formattedJobs.reduce((sum, job) => sum + job.opens, 0),
+        uniqueOpens: formattedJobs.filter((job) => job.opens > 0).length,
+        clicks: formattedJobs.reduce((sum, job) => sum + job.clicks, 0),
+        uniqueClicks: formattedJobs.filter((job) => job.clicks > 0).length,
+      },
       emails: formattedJobs,
     });
   } catch (error) {
@@ -292,6 +724,757 @@ export async function getScheduleDetails(req: Request, res: Response): Promise<v
   }
 }
 
+/**
+ * Pause a schedule
+ * Removes its queued jobs from BullMQ and holds pending emails back until resumed
+ */
+export async function pauseSchedule(req: Request, res: Response): Promise<void> {
+  try {
+    const { scheduleId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const schedule = await prisma.emailSchedule.findFirst({
+      where: { id: scheduleId, userId },
+    });
+
+    if (!schedule) {
+      res.status(404).json({ error: 'Schedule not found' });
+      return;
+    }
+
+    if (schedule.status !== 'scheduled' && schedule.status !== 'in-progress') {
+      res.status(409).json({ error: `Cannot pause a schedule that is ${schedule.status}` });
+      return;
+    }
+
+    // Mark the schedule first so the worker skips anything it picks up meanwhile
+    await prisma.emailSchedule.update({
+      where: { id: scheduleId },
+      data: { status: 'paused' },
+    });
+
+    const pendingJobs = await prisma.emailJob.findMany({
+      where: { scheduleId, status: { in: UNSENT_STATUSES } },
+    });
+
+    for (const emailJob of pendingJobs) {
+      if (emailJob.jobId) {
+        try {
+          await removeEmailJob(emailJob.jobId);
+        } catch (error) {
+          console.error(`Failed to remove job ${emailJob.jobId}:`, error);
+        }
+      }
+    }
+
+    const { count } = await prisma.emailJob.updateMany({
+      where: { scheduleId, status: { in: UNSENT_STATUSES } },
+      data: { status: 'paused' },
+    });
+
+    res.status(200).json({
+      scheduleId,
+      status: 'paused',
+      pausedEmails: count,
+      message: `Paused ${count} email(s)`,
+    });
+  } catch (error) {
+    console.error('Error pausing schedule:', error);
+    res.status(500).json({
+      error: 'Failed to pause schedule',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Resume a paused schedule
+ * Re-queues held emails; any whose time has passed are spread out from now using delayMs
+ *
+ * Body (all optional, to resume at a different pace):
+ * {
+ *   delayMs: number
+ *   hourlyLimit: number
+ * }
+ */
+export async function resumeSchedule(req: Request, res: Response): Promise<void> {
+  try {
+    const { scheduleId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const schedule = await prisma.emailSchedule.findFirst({
+      where: { id: scheduleId, userId },
+    });
+
+    if (!schedule) {
+      res.status(404).json({ error: 'Schedule not found' });
+      return;
+    }
+
+    if (schedule.status !== 'paused') {
+      res.status(409).json({ error: `Cannot resume a schedule that is ${schedule.status}` });
+      return;
+    }
+
+    const { delayMs = schedule.delayMs, hourlyLimit = schedule.hourlyLimit } = req.body || {};
+
+    if (!isValidPacing(hourlyLimit, delayMs)) {
+      res.status(400).json({ error: INVALID_PACING_MESSAGE });
+      return;
+    }
+
+    const attachments = schedule.attachments ? JSON.parse(schedule.attachments) : [];
+
+    const pausedJobs = await prisma.emailJob.findMany({
+      where: { scheduleId, status: 'paused' },
+      orderBy: { scheduledTime: 'asc' },
+    });
+
+    await prisma.emailSchedule.update({
+      where: { id: scheduleId },
+      data: {
+        status: schedule.sentCount + schedule.failedCount > 0 ? 'in-progress' : 'scheduled',
+        delayMs,
+        hourlyLimit,
+      },
+    });
+
+    const now = Date.now();
+    let overdueIndex = 0;
+    let resumedCount = 0;
+
+    for (const emailJob of pausedJobs) {
+      let scheduledTime = emailJob.scheduledTime;
+
+      if (scheduledTime.getTime() <= now) {
+        scheduledTime = new Date(now + overdueIndex * delayMs);
+        overdueIndex++;
+      }
+
+      try {
+        // Drop any leftover queue entry so the email is not sent twice
+        if (emailJob.jobId) {
+          await removeEmailJob(emailJob.jobId);
+        }
+
+        // Queued before the job exists, so the worker never finds it still paused
+        await prisma.emailJob.update({
+          where: { id: emailJob.id },
+          data: { status: 'queued', scheduledTime, jobId: null },
+        });
+
+        const jobId = await scheduleEmailJob({
+          scheduleId,
+          emailJobId: emailJob.id,
+          userId,
+          recipient: emailJob.recipient,
+          subject: emailJob.subject,
+          body: emailJob.body,
+          scheduledTime,
+          attachments,
+        });
+
+        await prisma.emailJob.update({
+          where: { id: emailJob.id },
+          data: { jobId },
+        });
+
+        resumedCount++;
+      } catch (error) {
+        console.error(`Failed to resume job for ${emailJob.recipient}:`, error);
+      }
+    }
+
+    // A decision that came due while paused was skipped; this queues it again (now, if overdue)
+    if (schedule.abTestStatus === 'testing' && schedule.abTestMetric !== 'manual' && schedule.abTestDecideAt) {
+      await queueAbTestDecision(scheduleId, schedule.abTestDecideAt);
+    }
+
+    res.status(200).json({
+      scheduleId,
+      status: 'resumed',
+      resumedEmails: resumedCount,
+      message: `Resumed ${resumedCount} email(s)`,
+    });
+  } catch (error) {
+    console.error('Error resuming schedule:', error);
+    res.status(500).json({
+      error: 'Failed to resume schedule',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Cancel a schedule
+ * Removes its queued jobs from BullMQ and marks unsent emails as cancelled
+ */
+export async function cancelSchedule(req: Request, res: Response): Promise<void> {
+  try {
+    const { scheduleId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const schedule = await prisma.emailSchedule.findFirst({
+      where: { id: scheduleId, userId },
+    });
+
+    if (!schedule) {
+      res.status(404).json({ error: 'Schedule not found' });
+      return;
+    }
+
+    if (schedule.status === 'completed' || schedule.status === 'cancelled') {
+      res.status(409).json({ error: `Cannot cancel a schedule that is ${schedule.status}` });
+      return;
+    }
+
+    await prisma.emailSchedule.update({
+      where: { id: scheduleId },
+      data: { status: 'cancelled', nextOccurrenceAt: null },
+    });
+
+    if (schedule.nextOccurrenceAt) {
+      await removeQueuedOccurrence(scheduleId, schedule.nextOccurrenceAt);
+    }
+
+    if (schedule.abTestStatus === 'testing') {
+      await removeQueuedAbTestDecision(scheduleId);
+    }
+
+    const count = await cancelUnsentEmails(scheduleId);
+
+    await updateScheduleCounts(scheduleId);
+
+    res.status(200).json({
+      scheduleId,
+      status: 'cancelled',
+      cancelledEmails: count,
+      message: `Cancelled ${count} email(s)`,
+    });
+  } catch (error) {
+    console.error('Error cancelling schedule:', error);
+    res.status(500).json({
+      error: 'Failed to cancel schedule',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Pick the winning variant of an A/B test by hand and send it to the rest of the recipients
+ * Works for any metric while the test is running, ending it early
+ *
+ * Body:
+ * {
+ *   variantId: string
+ * }
+ */
+export async function chooseAbTestWinner(req: Request, res: Response): Promise<void> {
+  try {
+    const { scheduleId } = req.params;
+    const { variantId } = req.body;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const schedule = await prisma.emailSchedule.findFirst({
+      where: { id: scheduleId, userId },
+      include: { variants: true },
+    });
+
+    if (!schedule) {
+      res.status(404).json({ error: 'Schedule not found' });
+      return;
+    }
+
+    if (!schedule.abTestStatus) {
+      res.status(400).json({ error: 'This schedule has no A/B test' });
+      return;
+    }
+
+    const winner = schedule.variants.find((variant) => variant.id === variantId);
+
+    if (!winner) {
+      res.status(400).json({ error: 'Variant not found' });
+      return;
+    }
+
+    if (schedule.abTestStatus !== 'testing') {
+      res.status(409).json({ error: 'A winner has already been picked' });
+      return;
+    }
+
+    if (!(await decideAbTest(scheduleId, winner.id))) {
+      res.status(409).json({ error: `Cannot pick a winner while the schedule is ${schedule.status}` });
+      return;
+    }
+
+    // The remainder is prepared in the background; poll the progress endpoint
+    res.status(202).json({
+      scheduleId,
+      winningVariantId: winner.id,
+      status: 'preparing',
+      message: `Sending variant ${winner.label} to the remaining recipients`,
+    });
+
+    sendWinnerToRemainder(scheduleId).catch((error) => {
+      console.error(`Error sending the winner of schedule ${scheduleId}:`, error);
+    });
+  } catch (error) {
+    console.error('Error choosing A/B test winner:', error);
+    res.status(500).json({
+      error: 'Failed to choose winner',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Get how far a schedule's emails have been created and queued
+ */
+export async function getScheduleProgress(req: Request, res: Response): Promise<void> {
+  try {
+    const { scheduleId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const schedule = await prisma.emailSchedule.findFirst({
+      where: { id: scheduleId, userId },
+      select: { id: true, status: true, batchSize: true, preparedCount: true, preparationError: true },
+    });
+
+    if (!schedule) {
+      res.status(404).json({ error: 'Schedule not found' });
+      return;
+    }
+
+    res.status(200).json({
+      scheduleId: schedule.id,
+      status: schedule.status,
+      batchSize: schedule.batchSize,
+      preparedCount: schedule.preparedCount,
+      percent: schedule.batchSize > 0 ? Math.round((schedule.preparedCount / schedule.batchSize) * 100) : 100,
+      error: schedule.preparationError,
+    });
+  } catch (error) {
+    console.error('Error fetching schedule progress:', error);
+    res.status(500).json({
+      error: 'Failed to fetch schedule progress',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * List a schedule's dead letters: emails that failed for good, with their error history
+ */
+export async function getScheduleFailures(req: Request, res: Response): Promise<void> {
+  try {
+    const { scheduleId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const schedule = await prisma.emailSchedule.findFirst({
+      where: { id: scheduleId, userId },
+      select: { id: true },
+    });
+
+    if (!schedule) {
+      res.status(404).json({ error: 'Schedule not found' });
+      return;
+    }
+
+    const deadLetters = await prisma.deadLetter.findMany({
+      where: { scheduleId },
+      orderBy: { failedAt: 'desc' },
+    });
+
+    res.status(200).json(deadLetters.map(formatDeadLetter));
+  } catch (error) {
+    console.error('Error fetching schedule failures:', error);
+    res.status(500).json({
+      error: 'Failed to fetch schedule failures',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Queue failed emails again
+ * With :emailJobId retries that email, otherwise every dead letter of the schedule
+ */
+export async function retryScheduleFailures(req: Request, res: Response): Promise<void> {
+  try {
+    const { scheduleId, emailJobId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const schedule = await prisma.emailSchedule.findFirst({
+      where: { id: scheduleId, userId },
+    });
+
+    if (!schedule) {
+      res.status(404).json({ error: 'Schedule not found' });
+      return;
+    }
+
+    if (['cancelled', 'paused', 'preparing'].includes(schedule.status)) {
+      res.status(409).json({ error: `Cannot retry emails of a schedule that is ${schedule.status}` });
+      return;
+    }
+
+    const retried = await retryDeadLetters(schedule, emailJobId ? [emailJobId] : undefined);
+
+    if (emailJobId && retried === 0) {
+      res.status(404).json({ error: 'Failed email not found' });
+      return;
+    }
+
+    res.status(200).json({
+      scheduleId,
+      retriedEmails: retried,
+      message: `Retrying ${retried} email(s)`,
+    });
+  } catch (error) {
+    console.error('Error retrying failed emails:', error);
+    res.status(500).json({
+      error: 'Failed to retry emails',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Drop dead letters; the emails stay failed
+ * With :emailJobId drops that email, otherwise every dead letter of the schedule
+ */
+export async function dropScheduleFailures(req: Request, res: Response): Promise<void> {
+  try {
+    const { scheduleId, emailJobId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const schedule = await prisma.emailSchedule.findFirst({
+      where: { id: scheduleId, userId },
+      select: { id: true },
+    });
+
+    if (!schedule) {
+      res.status(404).json({ error: 'Schedule not found' });
+      return;
+    }
+
+    const dropped = await dropDeadLetters(scheduleId, emailJobId ? [emailJobId] : undefined);
+
+    if (emailJobId && dropped === 0) {
+      res.status(404).json({ error: 'Failed email not found' });
+      return;
+    }
+
+    res.status(200).json({
+      scheduleId,
+      droppedEmails: dropped,
+      message: `Dropped ${dropped} failed email(s)`,
+    });
+  } catch (error) {
+    console.error('Error dropping failed emails:', error);
+    res.status(500).json({
+      error: 'Failed to drop failed emails',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * List upcoming occurrences of a recurring schedule
+ *
+ * Query: limit (optional, default 10, max 100)
+ */
+export async function getScheduleOccurrences(req: Request, res: Response): Promise<void> {
+  try {
+    const { scheduleId } = req.params;
+    const userId = req.user?.id;
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit || '10'), 10) || 10, 1), 100);
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const schedule = await prisma.emailSchedule.findFirst({
+      where: { id: scheduleId, userId },
+    });
+
+    if (!schedule) {
+      res.status(404).json({ error: 'Schedule not found' });
+      return;
+    }
+
+    if (!schedule.recurrenceRule) {
+      res.status(400).json({ error: 'Schedule is not recurring' });
+      return;
+    }
+
+    res.status(200).json({
+      scheduleId,
+      timezone: schedule.timezone,
+      occurrenceCount: schedule.occurrenceCount,
+      occurrences: getUpcomingOccurrences(schedule, limit),
+    });
+  } catch (error) {
+    console.error('Error fetching occurrences:', error);
+    res.status(500).json({
+      error: 'Failed to fetch occurrences',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Skip, or stop skipping, one upcoming occurrence of a recurring schedule
+ * Skipping is POST, un-skipping is DELETE on the same route
+ */
+export async function setOccurrenceSkipped(req: Request, res: Response): Promise<void> {
+  try {
+    const { scheduleId, occurrence } = req.params;
+    const userId = req.user?.id;
+    const skip = req.method !== 'DELETE';
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const schedule = await prisma.emailSchedule.findFirst({
+      where: { id: scheduleId, userId },
+    });
+
+    if (!schedule) {
+      res.status(404).json({ error: 'Schedule not found' });
+      return;
+    }
+
+    const at = new Date(occurrence);
+
+    if (!schedule.recurrenceRule || isNaN(at.getTime()) || !isUpcomingOccurrence(schedule, at)) {
+      res.status(400).json({ error: 'Not an upcoming occurrence of this schedule' });
+      return;
+    }
+
+    const skipped = new Set(getSkippedOccurrences(schedule));
+    if (skip) {
+      skipped.add(at.toISOString());
+    } else {
+      skipped.delete(at.toISOString());
+    }
+
+    const updated = await prisma.emailSchedule.update({
+      where: { id: scheduleId },
+      data: { skippedOccurrences: skipped.size > 0 ? JSON.stringify(Array.from(skipped).sort()) : null },
+    });
+
+    res.status(200).json({
+      scheduleId,
+      occurrence: at.toISOString(),
+      skipped: skip,
+      occurrences: getUpcomingOccurrences(updated, 10),
+    });
+  } catch (error) {
+    console.error('Error updating occurrence:', error);
+    res.status(500).json({
+      error: 'Failed to update occurrence',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Edit a recurring schedule's rule, end conditions or content
+ * Changes apply from the next occurrence; emails already created are untouched
+ *
+ * Body (all optional):
+ * {
+ *   rule, timezone, endsAt, maxOccurrences: see recurrenceService
+ *   subject: string
+ *   body: string
+ *   delayMs: number
+ *   hourlyLimit: number
+ * }
+ */
+export async function updateRecurrence(req: Request, res: Response): Promise<void> {
+  try {
+    const { scheduleId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const schedule = await prisma.emailSchedule.findFirst({
+      where: { id: scheduleId, userId },
+    });
+
+    if (!schedule) {
+      res.status(404).json({ error: 'Schedule not found' });
+      return;
+    }
+
+    if (!schedule.recurrenceRule) {
+      res.status(400).json({ error: 'Schedule is not recurring' });
+      return;
+    }
+
+    if (schedule.status === 'cancelled' || schedule.status === 'completed') {
+      res.status(409).json({ error: `Cannot edit a schedule that is ${schedule.status}` });
+      return;
+    }
+
+    const pick = <T>(key: string, current: T) => (req.body[key] === undefined ? current : req.body[key]);
+    const subject: string = pick('subject', schedule.subject);
+    const body: string = pick('body', schedule.body);
+    const delayMs: unknown = pick('delayMs', schedule.delayMs);
+    const hourlyLimit: unknown = pick('hourlyLimit', schedule.hourlyLimit);
+
+    let recurrence: Recurrence;
+    try {
+      recurrence = parseRecurrence({
+        rule: pick('rule', schedule.recurrenceRule),
+        timezone: pick('timezone', schedule.timezone),
+        endsAt: pick('endsAt', schedule.recurrenceEndsAt),
+        maxOccurrences: pick('maxOccurrences', schedule.maxOccurrences),
+      });
+    } catch (error) {
+      if (error instanceof RecurrenceError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      throw error;
+    }
+
+    if (!subject || !body) {
+      res.status(400).json({ error: 'subject and body cannot be empty' });
+      return;
+    }
+
+    if (!isValidPacing(hourlyLimit, delayMs)) {
+      res.status(400).json({ error: INVALID_PACING_MESSAGE });
+      return;
+    }
+
+    try {
+      const missingVariables = findMissingVariables(
+        getRequiredVariables(subject, body),
+        normalizeRecipients(JSON.parse(schedule.recipients))
+      );
+
+      if (missingVariables.length > 0) {
+        res.status(400).json({
+          error: `${missingVariables.length} recipient(s) are missing required merge fields`,
+          missingVariables,
+        });
+        return;
+      }
+    } catch (error) {
+      if (error instanceof TemplateSyntaxError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      throw error;
+    }
+
+    const nextOccurrenceAt = getNextOccurrence(
+      {
+        recurrenceRule: recurrence.rule,
+        timezone: recurrence.timezone,
+        recurrenceEndsAt: recurrence.endsAt,
+        maxOccurrences: recurrence.maxOccurrences,
+        occurrenceCount: schedule.occurrenceCount,
+      },
+      new Date()
+    );
+
+    const contentChanged = subject !== schedule.subject || body !== schedule.body;
+
+    const updated = await prisma.emailSchedule.update({
+      where: { id: scheduleId },
+      data: {
+        subject,
+        body,
+        // The series no longer matches the template version it came from
+        templateVersionId: contentChanged ? null : undefined,
+        delayMs: delayMs as number,
+        hourlyLimit: hourlyLimit as number,
+        recurrenceRule: recurrence.rule,
+        timezone: recurrence.timezone,
+        recurrenceEndsAt: recurrence.endsAt,
+        maxOccurrences: recurrence.maxOccurrences,
+        nextOccurrenceAt,
+      },
+    });
+
+    if (schedule.nextOccurrenceAt) {
+      await removeQueuedOccurrence(scheduleId, schedule.nextOccurrenceAt);
+    }
+
+    if (nextOccurrenceAt) {
+      await queueOccurrence(scheduleId, nextOccurrenceAt);
+    } else {
+      // Nothing left to send: let the schedule complete
+      await updateScheduleCounts(scheduleId);
+    }
+
+    res.status(200).json({
+      scheduleId,
+      rule: updated.recurrenceRule,
+      timezone: updated.timezone,
+      endsAt: updated.recurrenceEndsAt?.toISOString(),
+      maxOccurrences: updated.maxOccurrences,
+      occurrences: getUpcomingOccurrences(updated, 10),
+    });
+  } catch (error) {
+    console.error('Error updating recurrence:', error);
+    res.status(500).json({
+      error: 'Failed to update recurrence',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
 /**
  * Get queue statistics
  */
@@ -0,0 +1,120 @@
+import busboy from 'busboy';
+import { Request, Response } from 'express';
+import prisma from '../config/prisma';
+import {
+  detectImportFormat,
+  formatRecipientImport,
+  importRecipients,
+  RecipientImportError,
+  RecipientImportReport,
+} from '../services/recipientImportService';
+
+const MAX_IMPORT_BYTES = parseInt(process.env.MAX_IMPORT_BYTES || String(50 * 1024 * 1024), 10);
+
+/**
+ * Upload a CSV or XLSX recipient file and get its validation report
+ * The file is read as it arrives (multipart/form-data, field "file"); pass the
+ * returned id as importId when scheduling to send to its valid recipients.
+ */
+export async function uploadRecipients(req: Request, res: Response): Promise<void> {
+  const userId = req.user?.id;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Authentication required' });
+    return;
+  }
+
+  if (!req.is('multipart/form-data')) {
+    res.status(400).json({ error: 'Upload the file as multipart/form-data in a "file" field' });
+    return;
+  }
+
+  let tooLarge = false;
+
+  try {
+    const report = await new Promise<RecipientImportReport>((resolve, reject) => {
+      const parser = busboy({ headers: req.headers, limits: { files: 1, fileSize: MAX_IMPORT_BYTES } });
+      let received = false;
+
+      parser.on('file', (field, file, info) => {
+        if (field !== 'file' || received) {
+          file.resume();
+          return;
+        }
+        received = true;
+
+        const format = detectImportFormat(info.filename, info.mimeType);
+        if (!format) {
+          file.resume();
+          reject(new RecipientImportError('Upload a .csv, .txt or .xlsx file'));
+          return;
+        }
+
+        file.on('limit', () => {
+          tooLarge = true;
+          file.destroy(new RecipientImportError('File is too large'));
+        });
+
+        importRecipients(userId, file, { filename: info.filename, format })
+          .then(resolve, reject)
+          // Drain anything the reader left unread (e.g. later worksheets) so the request completes
+          .finally(() => file.resume());
+      });
+
+      parser.on('error', reject);
+      parser.on('close', () => {
+        if (!received) reject(new RecipientImportError('No file in the "file" field'));
+      });
+
+      req.pipe(parser);
+    });
+
+    res.status(201).json(report);
+  } catch (error) {
+    if (tooLarge) {
+      res.status(413).json({ error: `File is larger than ${Math.floor(MAX_IMPORT_BYTES / (1024 * 1024))} MB` });
+      return;
+    }
+    if (error instanceof RecipientImportError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error('Error importing recipients:', error);
+    res.status(500).json({
+      error: 'Failed to import recipients',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Get the validation report of an earlier upload
+ */
+export async function getRecipientImport(req: Request, res: Response): Promise<void> {
+  try {
+    const { importId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const recipientImport = await prisma.recipientImport.findFirst({
+      where: { id: importId, userId },
+    });
+
+    if (!recipientImport) {
+      res.status(404).json({ error: 'Import not found' });
+      return;
+    }
+
+    res.status(200).json(formatRecipientImport(recipientImport));
+  } catch (error) {
+    console.error('Error fetching import:', error);
+    res.status(500).json({
+      error: 'Failed to fetch import',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -0,0 +1,275 @@
+import { Request, Response } from 'express';
+import { ContactList } from '@prisma/client';
+import prisma from '../config/prisma';
+
+/**
+ * Shape a list for API responses
+ */
+function toListResponse(list: ContactList & { _count: { contacts: number } }) {
+  return {
+    id: list.id,
+    name: list.name,
+    description: list.description,
+    contactCount: list._count.contacts,
+    createdAt: list.createdAt.toISOString(),
+    updatedAt: list.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * List the user's contact lists with their sizes
+ */
+export async function getLists(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const lists = await prisma.contactList.findMany({
+      where: { userId },
+      include: { _count: { select: { contacts: true } } },
+      orderBy: { name: 'asc' },
+    });
+
+    res.status(200).json(lists.map(toListResponse));
+  } catch (error) {
+    console.error('Error fetching lists:', error);
+    res.status(500).json({
+      error: 'Failed to fetch lists',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Create a contact list
+ *
+ * Body:
+ * {
+ *   name: string
+ *   description: string (optional)
+ * }
+ */
+export async function createList(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.user?.id;
+    const name = String(req.body.name || '').trim();
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    if (!name) {
+      res.status(400).json({ error: 'name is required' });
+      return;
+    }
+
+    const existing = await prisma.contactList.findUnique({
+      where: { userId_name: { userId, name } },
+    });
+
+    if (existing) {
+      res.status(409).json({ error: 'A list with this name already exists' });
+      return;
+    }
+
+    const list = await prisma.contactList.create({
+      data: { userId, name, description: req.body.description || null },
+      include: { _count: { select: { contacts: true } } },
+    });
+
+    res.status(201).json(toListResponse(list));
+  } catch (error) {
+    console.error('Error creating list:', error);
+    res.status(500).json({
+      error: 'Failed to create list',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Rename a list or change its description
+ */
+export async function updateList(req: Request, res: Response): Promise<void> {
+  try {
+    const { listId } = req.params;
+    const userId = req.user?.id;
+    const name = req.body.name === undefined ? undefined : String(req.body.name).trim();
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    if (name === '') {
+      res.status(400).json({ error: 'name cannot be empty' });
+      return;
+    }
+
+    const existing = await prisma.contactList.findFirst({
+      where: { id: listId, userId },
+    });
+
+    if (!existing) {
+      res.status(404).json({ error: 'List not found' });
+      return;
+    }
+
+    if (name && name !== existing.name) {
+      const clash = await prisma.contactList.findUnique({
+        where: { userId_name: { userId, name } },
+      });
+
+      if (clash) {
+        res.status(409).json({ error: 'A list with this name already exists' });
+        return;
+      }
+    }
+
+    const list = await prisma.contactList.update({
+      where: { id: listId },
+      data: {
+        ...(name && { name }),
+        ...(req.body.description !== undefined && { description: req.body.description || null }),
+      },
+      include: { _count: { select: { contacts: true } } },
+    });
+
+    res.status(200).json(toListResponse(list));
+  } catch (error) {
+    console.error('Error updating list:', error);
+    res.status(500).json({
+      error: 'Failed to update list',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Delete a list; its contacts are kept
+ */
+export async function deleteList(req: Request, res: Response): Promise<void> {
+  try {
+    const { listId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { count } = await prisma.contactList.deleteMany({
+      where: { id: listId, userId },
+    });
+
+    if (count === 0) {
+      res.status(404).json({ error: 'List not found' });
+      return;
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting list:', error);
+    res.status(500).json({
+      error: 'Failed to delete list',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Add saved contacts to a list
+ *
+ * Body:
+ * {
+ *   contactIds: string[]
+ * }
+ */
+export async function addListContacts(req: Request, res: Response): Promise<void> {
+  try {
+    const { listId } = req.params;
+    const userId = req.user?.id;
+    const { contactIds } = req.body;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    if (!Array.isArray(contactIds) || contactIds.length === 0) {
+      res.status(400).json({ error: 'contactIds must be a non-empty array' });
+      return;
+    }
+
+    const existing = await prisma.contactList.findFirst({
+      where: { id: listId, userId },
+    });
+
+    if (!existing) {
+      res.status(404).json({ error: 'List not found' });
+      return;
+    }
+
+    // Only the user's own contacts can be added
+    const contacts = await prisma.contact.findMany({
+      where: { userId, id: { in: contactIds } },
+      select: { id: true },
+    });
+
+    const list = await prisma.contactList.update({
+      where: { id: listId },
+      data: { contacts: { connect: contacts } },
+      include: { _count: { select: { contacts: true } } },
+    });
+
+    res.status(200).json({ ...toListResponse(list), added: contacts.length });
+  } catch (error) {
+    console.error('Error adding contacts to list:', error);
+    res.status(500).json({
+      error: 'Failed to add contacts to list',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Remove a contact from a list; the contact itself is kept
+ */
+export async function removeListContact(req: Request, res: Response): Promise<void> {
+  try {
+    const { listId, contactId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const existing = await prisma.contactList.findFirst({
+      where: { id: listId, userId },
+    });
+
+    if (!existing) {
+      res.status(404).json({ error: 'List not found' });
+      return;
+    }
+
+    await prisma.contactList.update({
+      where: { id: listId },
+      data: { contacts: { disconnect: { id: contactId } } },
+    });
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error removing contact from list:', error);
+    res.status(500).json({
+      error: 'Failed to remove contact from list',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -0,0 +1,299 @@
+import { Request, Response } from 'express';
+import prisma from '../config/prisma';
+import {
+  parseTransportConfig,
+  toSenderResponse,
+  generateVerificationToken,
+  sendVerificationEmail,
+} from '../services/senderService';
+
+const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * List the user's sender identities
+ */
+export async function getSenders(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const identities = await prisma.senderIdentity.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.status(200).json(identities.map(toSenderResponse));
+  } catch (error) {
+    console.error('Error fetching senders:', error);
+    res.status(500).json({
+      error: 'Failed to fetch senders',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Create a sender identity and email it a verification link
+ *
+ * Body:
+ * {
+ *   fromName: string
+ *   fromAddress: string
+ *   replyTo: string (optional)
+ *   signature: string (optional, HTML)
+ *   transport: TransportConfig (optional, defaults to the server transport)
+ * }
+ */
+export async function createSender(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.user?.id;
+    const { fromName, fromAddress, replyTo, signature, transport } = req.body;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    if (!fromName || !fromAddress) {
+      res.status(400).json({ error: 'fromName and fromAddress are required' });
+      return;
+    }
+
+    const normalizedAddress = String(fromAddress).trim().toLowerCase();
+
+    if (!emailRegex.test(normalizedAddress) || (replyTo && !emailRegex.test(replyTo))) {
+      res.status(400).json({ error: 'Invalid email address' });
+      return;
+    }
+
+    let transportConfig;
+    try {
+      transportConfig = parseTransportConfig(transport);
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid transport' });
+      return;
+    }
+
+    const existing = await prisma.senderIdentity.findUnique({
+      where: { userId_fromAddress: { userId, fromAddress: normalizedAddress } },
+    });
+
+    if (existing) {
+      res.status(409).json({ error: 'You already have a sender with this address' });
+      return;
+    }
+
+    const identity = await prisma.senderIdentity.create({
+      data: {
+        userId,
+        fromName,
+        fromAddress: normalizedAddress,
+        replyTo: replyTo || null,
+        signature: signature || null,
+        transport: transportConfig ? JSON.stringify(transportConfig) : null,
+        verificationToken: generateVerificationToken(),
+      },
+    });
+
+    try {
+      await sendVerificationEmail(identity);
+    } catch (error) {
+      // The identity is kept; the user can ask for the link again
+      console.error(`Failed to send verification email to ${identity.fromAddress}:`, error);
+    }
+
+    res.status(201).json(toSenderResponse(identity));
+  } catch (error) {
+    console.error('Error creating sender:', error);
+    res.status(500).json({
+      error: 'Failed to create sender',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Update a sender identity
+ * Changing the From address resets verification
+ */
+export async function updateSender(req: Request, res: Response): Promise<void> {
+  try {
+    const { senderId } = req.params;
+    const userId = req.user?.id;
+    const { fromName, fromAddress, replyTo, signature, transport } = req.body;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const identity = await prisma.senderIdentity.findFirst({
+      where: { id: senderId, userId },
+    });
+
+    if (!identity) {
+      res.status(404).json({ error: 'Sender not found' });
+      return;
+    }
+
+    const normalizedAddress = fromAddress ? String(fromAddress).trim().toLowerCase() : identity.fromAddress;
+
+    if (!emailRegex.test(normalizedAddress) || (replyTo && !emailRegex.test(replyTo))) {
+      res.status(400).json({ error: 'Invalid email address' });
+      return;
+    }
+
+    let transportConfig;
+    try {
+      transportConfig = transport === undefined ? undefined : parseTransportConfig(transport);
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid transport' });
+      return;
+    }
+
+    const addressChanged = normalizedAddress !== identity.fromAddress;
+
+    const updated = await prisma.senderIdentity.update({
+      where: { id: senderId },
+      data: {
+        fromName: fromName ?? undefined,
+        fromAddress: normalizedAddress,
+        replyTo: replyTo === undefined ? undefined : replyTo || null,
+        signature: signature === undefined ? undefined : signature || null,
+        transport:
+          transportConfig === undefined ? undefined : transportConfig ? JSON.stringify(transportConfig) : null,
+        ...(addressChanged && {
+          verified: false,
+          verifiedAt: null,
+          verificationToken: generateVerificationToken(),
+        }),
+      },
+    });
+
+    if (addressChanged) {
+      try {
+        await sendVerificationEmail(updated);
+      } catch (error) {
+        console.error(`Failed to send verification email to ${updated.fromAddress}:`, error);
+      }
+    }
+
+    res.status(200).json(toSenderResponse(updated));
+  } catch (error) {
+    console.error('Error updating sender:', error);
+    res.status(500).json({
+      error: 'Failed to update sender',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Delete a sender identity
+ * Schedules that used it fall back to the default sender
+ */
+export async function deleteSender(req: Request, res: Response): Promise<void> {
+  try {
+    const { senderId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { count } = await prisma.senderIdentity.deleteMany({
+      where: { id: senderId, userId },
+    });
+
+    if (count === 0) {
+      res.status(404).json({ error: 'Sender not found' });
+      return;
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting sender:', error);
+    res.status(500).json({
+      error: 'Failed to delete sender',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Send the verification link again
+ */
+export async function resendSenderVerification(req: Request, res: Response): Promise<void> {
+  try {
+    const { senderId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const identity = await prisma.senderIdentity.findFirst({
+      where: { id: senderId, userId },
+    });
+
+    if (!identity) {
+      res.status(404).json({ error: 'Sender not found' });
+      return;
+    }
+
+    if (identity.verified) {
+      res.status(409).json({ error: 'Sender is already verified' });
+      return;
+    }
+
+    const updated = await prisma.senderIdentity.update({
+      where: { id: senderId },
+      data: { verificationToken: generateVerificationToken() },
+    });
+
+    await sendVerificationEmail(updated);
+
+    res.status(200).json({ message: `Verification email sent to ${updated.fromAddress}` });
+  } catch (error) {
+    console.error('Error resending verification:', error);
+    res.status(500).json({
+      error: 'Failed to resend verification',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Verify a sender from the link in the verification email
+ * Public: the token itself proves access to the inbox
+ */
+export async function verifySender(req: Request, res: Response): Promise<void> {
+  try {
+    const { token } = req.params;
+
+    const identity = await prisma.senderIdentity.findUnique({
+      where: { verificationToken: token },
+    });
+
+    if (!identity) {
+      res.status(404).send('<p>This verification link is invalid or has already been used.</p>');
+      return;
+    }
+
+    await prisma.senderIdentity.update({
+      where: { id: identity.id },
+      data: { verified: true, verifiedAt: new Date(), verificationToken: null },
+    });
+
+    res.status(200).send('<p>Your sender address is verified. You can close this page.</p>');
+  } catch (error) {
+    console.error('Error verifying sender:', error);
+    res.status(500).send('<p>Failed to verify sender. Please try again later.</p>');
+  }
+}
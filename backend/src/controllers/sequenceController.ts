@@ -0,0 +1,691 @@
+import { Request, Response } from 'express';
+import { Sequence } from '@prisma/client';
+import prisma from '../config/prisma';
+import { buildAudienceWhere, assertListsExist, normalizeTags, ContactError } from '../services/contactService';
+import { findMissingVariables, getRequiredVariables, TemplateSyntaxError } from '../services/personalizationService';
+import {
+  enrollContacts as enrollSequenceContacts,
+  exitEnrollment,
+  parseSequenceSteps,
+  queuePausedEmails,
+  queueWaitingSteps,
+  SequenceError,
+} from '../services/sequenceService';
+import { isValidPacing, INVALID_PACING_MESSAGE } from '../services/rateLimitService';
+
+const ENROLLMENT_STATUSES = ['active', 'completed', 'exited'];
+
+/**
+ * Count each sequence's enrollments by status
+ */
+async function getEnrollmentCounts(sequenceIds: string[]): Promise<Map<string, Record<string, number>>> {
+  const groups = await prisma.enrollment.groupBy({
+    by: ['sequenceId', 'status'],
+    where: { sequenceId: { in: sequenceIds } },
+    _count: { _all: true },
+  });
+
+  const counts = new Map<string, Record<string, number>>();
+
+  for (const group of groups) {
+    const entry = counts.get(group.sequenceId) || { active: 0, completed: 0, exited: 0 };
+    entry[group.status] = group._count._all;
+    counts.set(group.sequenceId, entry);
+  }
+
+  return counts;
+}
+
+/**
+ * Shape a sequence for API responses
+ */
+function toSequenceResponse(sequence: Sequence, stepCount: number, enrollments?: Record<string, number>) {
+  return {
+    id: sequence.id,
+    name: sequence.name,
+    status: sequence.status,
+    senderIdentityId: sequence.senderIdentityId,
+    hourlyLimit: sequence.hourlyLimit,
+    delayMs: sequence.delayMs,
+    stepCount,
+    enrollments: enrollments || { active: 0, completed: 0, exited: 0 },
+    createdAt: sequence.createdAt.toISOString(),
+    updatedAt: sequence.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Make sure a sender belongs to the user and is verified
+ * Returns the error to respond with, or null
+ */
+async function checkSender(userId: string, senderIdentityId: string): Promise<string | null> {
+  const senderIdentity = await prisma.senderIdentity.findFirst({
+    where: { id: senderIdentityId, userId },
+  });
+
+  if (!senderIdentity) return 'Sender not found';
+  if (!senderIdentity.verified) return `Sender ${senderIdentity.fromAddress} is not verified yet`;
+  return null;
+}
+
+/**
+ * List the user's sequences with their enrollment counts
+ */
+export async function getSequences(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const sequences = await prisma.sequence.findMany({
+      where: { userId },
+      include: { _count: { select: { steps: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const enrollmentCounts = await getEnrollmentCounts(sequences.map((sequence) => sequence.id));
+
+    res.status(200).json(
+      sequences.map((sequence) =>
+        toSequenceResponse(sequence, sequence._count.steps, enrollmentCounts.get(sequence.id))
+      )
+    );
+  } catch (error) {
+    console.error('Error fetching sequences:', error);
+    res.status(500).json({
+      error: 'Failed to fetch sequences',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Create a sequence
+ *
+ * Body:
+ * {
+ *   name: string
+ *   steps: Array<{
+ *     subject: string
+ *     body: string
+ *     delayMinutes: number (optional, default 0; after enrollment for the first step, after the previous step otherwise)
+ *     condition: 'not_opened' | 'not_clicked' (optional, skip the step if an earlier one was opened/clicked)
+ *   }>
+ *   senderIdentityId: string (optional, verified sender; default system sender otherwise)
+ *   hourlyLimit: number (optional, default 200)
+ *   delayMs: number (optional, default 2000)
+ * }
+ */
+export async function createSequence(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.user?.id;
+    const name = String(req.body.name || '').trim();
+    const { senderIdentityId, hourlyLimit = 200, delayMs = 2000 } = req.body;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    if (!name) {
+      res.status(400).json({ error: 'name is required' });
+      return;
+    }
+
+    if (!isValidPacing(hourlyLimit, delayMs)) {
+      res.status(400).json({ error: INVALID_PACING_MESSAGE });
+      return;
+    }
+
+    const steps = parseSequenceSteps(req.body.steps);
+
+    const existing = await prisma.sequence.findUnique({
+      where: { userId_name: { userId, name } },
+    });
+
+    if (existing) {
+      res.status(409).json({ error: 'A sequence with this name already exists' });
+      return;
+    }
+
+    if (senderIdentityId) {
+      const senderError = await checkSender(userId, senderIdentityId);
+      if (senderError) {
+        res.status(400).json({ error: senderError });
+        return;
+      }
+    }
+
+    const sequence = await prisma.sequence.create({
+      data: {
+        userId,
+        name,
+        senderIdentityId: senderIdentityId || null,
+        hourlyLimit,
+        delayMs,
+        steps: { create: steps.map((step, i) => ({ ...step, position: i + 1 })) },
+      },
+    });
+
+    res.status(201).json(toSequenceResponse(sequence, steps.length));
+  } catch (error) {
+    if (error instanceof SequenceError || error instanceof TemplateSyntaxError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error('Error creating sequence:', error);
+    res.status(500).json({
+      error: 'Failed to create sequence',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Get a sequence with its steps
+ * Each step reports how many contacts are waiting for it, and the sends,
+ * unique opens and unique clicks of its emails.
+ */
+export async function getSequence(req: Request, res: Response): Promise<void> {
+  try {
+    const { sequenceId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const sequence = await prisma.sequence.findFirst({
+      where: { id: sequenceId, userId },
+      include: { steps: { orderBy: { position: 'asc' } } },
+    });
+
+    if (!sequence) {
+      res.status(404).json({ error: 'Sequence not found' });
+      return;
+    }
+
+    const [enrollmentCounts, waiting, sent, events] = await Promise.all([
+      getEnrollmentCounts([sequence.id]),
+      prisma.enrollment.groupBy({
+        by: ['currentStep'],
+        where: { sequenceId, status: 'active' },
+        _count: { _all: true },
+      }),
+      prisma.emailJob.groupBy({
+        by: ['sequenceStepId'],
+        where: { enrollment: { sequenceId }, status: { in: ['sent', 'complained'] } },
+        _count: { _all: true },
+      }),
+      // One row per email and event type, so repeat opens count once
+      prisma.trackingEvent.findMany({
+        where: { emailJob: { enrollment: { sequenceId } } },
+        distinct: ['emailJobId', 'type'],
+        select: { type: true, emailJob: { select: { sequenceStepId: true } } },
+      }),
+    ]);
+
+    res.status(200).json({
+      ...toSequenceResponse(sequence, sequence.steps.length, enrollmentCounts.get(sequence.id)),
+      steps: sequence.steps.map((step) => {
+        const stepEvents = events.filter((event) => event.emailJob.sequenceStepId === step.id);
+
+        return {
+          id: step.id,
+          position: step.position,
+          subject: step.subject,
+          body: step.body,
+          delayMinutes: step.delayMinutes,
+          condition: step.condition,
+          waiting: waiting.find((group) => group.currentStep === step.position - 1)?._count._all || 0,
+          sent: sent.find((group) => group.sequenceStepId === step.id)?._count._all || 0,
+          uniqueOpens: stepEvents.filter((event) => event.type === 'opened').length,
+          uniqueClicks: stepEvents.filter((event) => event.type === 'clicked').length,
+        };
+      }),
+    });
+  } catch (error) {
+    console.error('Error fetching sequence:', error);
+    res.status(500).json({
+      error: 'Failed to fetch sequence',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Rename a sequence or change its sender or limits
+ * Steps cannot change once created, since enrollments may be partway through them.
+ *
+ * Body:
+ * {
+ *   name: string (optional)
+ *   senderIdentityId: string | null (optional)
+ *   hourlyLimit: number (optional)
+ *   delayMs: number (optional)
+ * }
+ */
+export async function updateSequence(req: Request, res: Response): Promise<void> {
+  try {
+    const { sequenceId } = req.params;
+    const userId = req.user?.id;
+    const { name, senderIdentityId, hourlyLimit, delayMs } = req.body;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const sequence = await prisma.sequence.findFirst({
+      where: { id: sequenceId, userId },
+    });
+
+    if (!sequence) {
+      res.status(404).json({ error: 'Sequence not found' });
+      return;
+    }
+
+    if (name !== undefined && !String(name).trim()) {
+      res.status(400).json({ error: 'name cannot be empty' });
+      return;
+    }
+
+    if (!isValidPacing(hourlyLimit ?? sequence.hourlyLimit, delayMs ?? sequence.delayMs)) {
+      res.status(400).json({ error: INVALID_PACING_MESSAGE });
+      return;
+    }
+
+    if (name !== undefined && String(name).trim() !== sequence.name) {
+      const existing = await prisma.sequence.findUnique({
+        where: { userId_name: { userId, name: String(name).trim() } },
+      });
+
+      if (existing) {
+        res.status(409).json({ error: 'A sequence with this name already exists' });
+        return;
+      }
+    }
+
+    if (senderIdentityId) {
+      const senderError = await checkSender(userId, senderIdentityId);
+      if (senderError) {
+        res.status(400).json({ error: senderError });
+        return;
+      }
+    }
+
+    const updated = await prisma.sequence.update({
+      where: { id: sequenceId },
+      data: {
+        ...(name !== undefined && { name: String(name).trim() }),
+        ...(senderIdentityId !== undefined && { senderIdentityId: senderIdentityId || null }),
+        hourlyLimit,
+        delayMs,
+      },
+      include: { _count: { select: { steps: true } } },
+    });
+
+    const enrollmentCounts = await getEnrollmentCounts([sequenceId]);
+
+    res.status(200).json(toSequenceResponse(updated, updated._count.steps, enrollmentCounts.get(sequenceId)));
+  } catch (error) {
+    console.error('Error updating sequence:', error);
+    res.status(500).json({
+      error: 'Failed to update sequence',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Delete a sequence with its enrollments and their emails
+ */
+export async function deleteSequence(req: Request, res: Response): Promise<void> {
+  try {
+    const { sequenceId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { count } = await prisma.sequence.deleteMany({
+      where: { id: sequenceId, userId },
+    });
+
+    if (count === 0) {
+      res.status(404).json({ error: 'Sequence not found' });
+      return;
+    }
+
+    // Queued steps and emails find their enrollment gone and do nothing
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting sequence:', error);
+    res.status(500).json({
+      error: 'Failed to delete sequence',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Pause a sequence
+ * Steps that come due while paused wait, and so do emails already queued.
+ */
+export async function pauseSequence(req: Request, res: Response): Promise<void> {
+  try {
+    const { sequenceId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const sequence = await prisma.sequence.findFirst({
+      where: { id: sequenceId, userId },
+    });
+
+    if (!sequence) {
+      res.status(404).json({ error: 'Sequence not found' });
+      return;
+    }
+
+    if (sequence.status === 'paused') {
+      res.status(409).json({ error: 'Sequence is already paused' });
+      return;
+    }
+
+    await prisma.sequence.update({
+      where: { id: sequenceId },
+      data: { status: 'paused' },
+    });
+
+    res.status(200).json({ sequenceId, status: 'paused', message: 'Sequence paused' });
+  } catch (error) {
+    console.error('Error pausing sequence:', error);
+    res.status(500).json({
+      error: 'Failed to pause sequence',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Resume a paused sequence
+ * Steps and emails held back while paused are sent now.
+ */
+export async function resumeSequence(req: Request, res: Response): Promise<void> {
+  try {
+    const { sequenceId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const sequence = await prisma.sequence.findFirst({
+      where: { id: sequenceId, userId },
+    });
+
+    if (!sequence) {
+      res.status(404).json({ error: 'Sequence not found' });
+      return;
+    }
+
+    if (sequence.status !== 'paused') {
+      res.status(409).json({ error: 'Sequence is not paused' });
+      return;
+    }
+
+    await prisma.sequence.update({
+      where: { id: sequenceId },
+      data: { status: 'active' },
+    });
+
+    const queued = await queueWaitingSteps(sequenceId);
+    const resumedEmails = await queuePausedEmails(sequence);
+
+    res.status(200).json({
+      sequenceId,
+      status: 'active',
+      resumedEmails,
+      message: `Sequence resumed, ${queued} step(s) and ${resumedEmails} email(s) queued`,
+    });
+  } catch (error) {
+    console.error('Error resuming sequence:', error);
+    res.status(500).json({
+      error: 'Failed to resume sequence',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Enroll contacts in a sequence
+ * Contacts enrolled before and suppressed addresses are left out.
+ *
+ * Body (at least one of):
+ * {
+ *   contactIds: string[] (optional)
+ *   listIds: string[] (optional, contacts in any of these lists)
+ *   tags: string[] (optional, contacts with every one of these tags)
+ * }
+ */
+export async function enrollContacts(req: Request, res: Response): Promise<void> {
+  try {
+    const { sequenceId } = req.params;
+    const userId = req.user?.id;
+    const contactIds: string[] = Array.isArray(req.body.contactIds) ? req.body.contactIds : [];
+    const listIds: string[] = Array.isArray(req.body.listIds) ? req.body.listIds : [];
+    const tags = normalizeTags(req.body.tags);
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    if (contactIds.length === 0 && listIds.length === 0 && tags.length === 0) {
+      res.status(400).json({ error: 'contactIds, listIds or tags is required' });
+      return;
+    }
+
+    const sequence = await prisma.sequence.findFirst({
+      where: { id: sequenceId, userId },
+      include: { steps: true },
+    });
+
+    if (!sequence) {
+      res.status(404).json({ error: 'Sequence not found' });
+      return;
+    }
+
+    await assertListsExist(userId, listIds);
+
+    const contacts = await prisma.contact.findMany({
+      where: {
+        OR: [
+          ...(contactIds.length > 0 ? [{ userId, id: { in: contactIds } }] : []),
+          ...(listIds.length > 0 || tags.length > 0 ? [buildAudienceWhere(userId, { listIds, tags })] : []),
+        ],
+      },
+      select: { id: true, email: true, attributes: true },
+    });
+
+    // Every step is rendered for every contact, so each needs the fields of all of them
+    const requiredVariables = getRequiredVariables(...sequence.steps.flatMap((step) => [step.subject, step.body]));
+    const missingVariables = findMissingVariables(
+      requiredVariables,
+      contacts.map((contact) => ({
+        email: contact.email,
+        variables: { ...JSON.parse(contact.attributes), email: contact.email },
+      }))
+    );
+
+    if (missingVariables.length > 0) {
+      res.status(400).json({
+        error: `${missingVariables.length} contact(s) are missing required merge fields`,
+        missingVariables,
+      });
+      return;
+    }
+
+    const result = await enrollSequenceContacts(sequence, contacts.map((contact) => contact.id));
+
+    res.status(201).json({
+      sequenceId,
+      ...result,
+      message:
+        sequence.status === 'paused'
+          ? `${result.enrolled} contact(s) enrolled; they start when the sequence is resumed`
+          : `${result.enrolled} contact(s) enrolled`,
+    });
+  } catch (error) {
+    if (error instanceof ContactError || error instanceof SequenceError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error('Error enrolling contacts:', error);
+    res.status(500).json({
+      error: 'Failed to enroll contacts',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * List a sequence's enrollments: where each contact is and what was last sent
+ *
+ * Query:
+ *   status: active | completed | exited (optional)
+ *   contactId: string (optional)
+ *   limit: number (optional, default 50, max 500)
+ *   offset: number (optional, default 0)
+ */
+export async function getEnrollments(req: Request, res: Response): Promise<void> {
+  try {
+    const { sequenceId } = req.params;
+    const userId = req.user?.id;
+    const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+    const contactId = typeof req.query.contactId === 'string' ? req.query.contactId : undefined;
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit || '50'), 10) || 50, 1), 500);
+    const offset = Math.max(parseInt(String(req.query.offset || '0'), 10) || 0, 0);
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    if (status && !ENROLLMENT_STATUSES.includes(status)) {
+      res.status(400).json({ error: `status must be one of: ${ENROLLMENT_STATUSES.join(', ')}` });
+      return;
+    }
+
+    const sequence = await prisma.sequence.findFirst({
+      where: { id: sequenceId, userId },
+      include: { _count: { select: { steps: true } } },
+    });
+
+    if (!sequence) {
+      res.status(404).json({ error: 'Sequence not found' });
+      return;
+    }
+
+    const where = { sequenceId, ...(status && { status }), ...(contactId && { contactId }) };
+
+    const [enrollments, total] = await Promise.all([
+      prisma.enrollment.findMany({
+        where,
+        include: {
+          contact: { select: { email: true } },
+          emailJobs: {
+            orderBy: { createdAt: 'desc' },
+            take: 1,
+            select: { status: true, sentTime: true, sequenceStep: { select: { position: true } } },
+          },
+        },
+        orderBy: { enrolledAt: 'desc' },
+        skip: offset,
+        take: limit,
+      }),
+      prisma.enrollment.count({ where }),
+    ]);
+
+    res.status(200).json({
+      enrollments: enrollments.map((enrollment) => {
+        const lastEmail = enrollment.emailJobs[0];
+
+        return {
+          id: enrollment.id,
+          contactId: enrollment.contactId,
+          email: enrollment.contact.email,
+          status: enrollment.status,
+          currentStep: enrollment.currentStep,
+          totalSteps: sequence._count.steps,
+          nextStepAt: enrollment.nextStepAt?.toISOString() || null,
+          exitReason: enrollment.exitReason,
+          lastEmail: lastEmail
+            ? {
+                step: lastEmail.sequenceStep?.position ?? null,
+                status: lastEmail.status,
+                sentTime: lastEmail.sentTime?.toISOString() || null,
+              }
+            : null,
+          enrolledAt: enrollment.enrolledAt.toISOString(),
+          finishedAt: enrollment.finishedAt?.toISOString() || null,
+        };
+      }),
+      total,
+    });
+  } catch (error) {
+    console.error('Error fetching enrollments:', error);
+    res.status(500).json({
+      error: 'Failed to fetch enrollments',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Take a contact out of a sequence by hand
+ */
+export async function stopEnrollment(req: Request, res: Response): Promise<void> {
+  try {
+    const { sequenceId, enrollmentId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const enrollment = await prisma.enrollment.findFirst({
+      where: { id: enrollmentId, sequenceId, sequence: { userId } },
+    });
+
+    if (!enrollment) {
+      res.status(404).json({ error: 'Enrollment not found' });
+      return;
+    }
+
+    if (!(await exitEnrollment(enrollmentId, 'stopped'))) {
+      res.status(409).json({ error: `Enrollment is already ${enrollment.status}` });
+      return;
+    }
+
+    res.status(200).json({ enrollmentId, status: 'exited', exitReason: 'stopped', message: 'Enrollment stopped' });
+  } catch (error) {
+    console.error('Error stopping enrollment:', error);
+    res.status(500).json({
+      error: 'Failed to stop enrollment',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -0,0 +1,153 @@
+import { Request, Response } from 'express';
+import prisma from '../config/prisma';
+import { addSuppression, parseUnsubscribeToken } from '../services/suppressionService';
+import { escapeHtml } from '../services/personalizationService';
+import { exitEnrollmentsOfAddress } from '../services/sequenceService';
+
+const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * List the user's suppressed addresses
+ */
+export async function getSuppressions(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const suppressions = await prisma.suppression.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    res.status(200).json(
+      suppressions.map((suppression) => ({
+        email: suppression.email,
+        reason: suppression.reason,
+        createdAt: suppression.createdAt.toISOString(),
+      }))
+    );
+  } catch (error) {
+    console.error('Error fetching suppressions:', error);
+    res.status(500).json({
+      error: 'Failed to fetch suppressions',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Suppress an address by hand
+ *
+ * Body:
+ * {
+ *   email: string
+ * }
+ */
+export async function createSuppression(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.user?.id;
+    const email = String(req.body.email || '').trim().toLowerCase();
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    if (!emailRegex.test(email)) {
+      res.status(400).json({ error: 'Invalid email address' });
+      return;
+    }
+
+    await addSuppression(userId, email, 'manual');
+    await exitEnrollmentsOfAddress(userId, email, 'stopped');
+
+    res.status(201).json({ email, message: `${email} will no longer be emailed` });
+  } catch (error) {
+    console.error('Error creating suppression:', error);
+    res.status(500).json({
+      error: 'Failed to create suppression',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Remove an address from the suppression list
+ */
+export async function deleteSuppression(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.user?.id;
+    const email = req.params.email.trim().toLowerCase();
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { count } = await prisma.suppression.deleteMany({
+      where: { userId, email },
+    });
+
+    if (count === 0) {
+      res.status(404).json({ error: 'Suppression not found' });
+      return;
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting suppression:', error);
+    res.status(500).json({
+      error: 'Failed to delete suppression',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Confirmation page for the unsubscribe link in an email body
+ * Public. Does not unsubscribe by itself, so link scanners that prefetch
+ * URLs cannot unsubscribe people by accident.
+ */
+export async function showUnsubscribePage(req: Request, res: Response): Promise<void> {
+  const target = parseUnsubscribeToken(req.params.token);
+
+  if (!target) {
+    res.status(404).send('<p>This unsubscribe link is invalid.</p>');
+    return;
+  }
+
+  res.status(200).send(
+    `<form method="POST">
+       <p>Stop receiving these emails at <strong>${escapeHtml(target.email)}</strong>?</p>
+       <button type="submit">Unsubscribe</button>
+     </form>`
+  );
+}
+
+/**
+ * Unsubscribe the recipient behind a token
+ * Public. Target of the confirmation form and of RFC 8058 one-click
+ * unsubscribe (List-Unsubscribe-Post) from mail clients.
+ */
+export async function unsubscribe(req: Request, res: Response): Promise<void> {
+  try {
+    const target = parseUnsubscribeToken(req.params.token);
+
+    if (!target) {
+      res.status(404).send('<p>This unsubscribe link is invalid.</p>');
+      return;
+    }
+
+    await addSuppression(target.userId, target.email, 'unsubscribed');
+    await exitEnrollmentsOfAddress(target.userId, target.email, 'unsubscribed');
+
+    res.status(200).send(`<p><strong>${escapeHtml(target.email)}</strong> has been unsubscribed. You can close this page.</p>`);
+  } catch (error) {
+    console.error('Error unsubscribing:', error);
+    res.status(500).send('<p>Failed to unsubscribe. Please try again later.</p>');
+  }
+}
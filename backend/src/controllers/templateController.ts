@@ -0,0 +1,304 @@
+import { Request, Response } from 'express';
+import { EmailTemplate, EmailTemplateVersion } from '@prisma/client';
+import prisma from '../config/prisma';
+import { parseTemplate, TemplateSyntaxError } from '../services/personalizationService';
+
+/**
+ * Shape a template and one of its versions for API responses
+ */
+function toTemplateResponse(template: EmailTemplate, version: EmailTemplateVersion) {
+  return {
+    id: template.id,
+    name: template.name,
+    version: version.version,
+    currentVersion: template.currentVersion,
+    subject: version.subject,
+    body: version.body,
+    createdAt: template.createdAt.toISOString(),
+    updatedAt: template.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Reject subjects and bodies with broken merge field syntax
+ * Returns the error message, or null when both parse
+ */
+function validateTemplateContent(subject: string, body: string): string | null {
+  try {
+    parseTemplate(subject);
+    parseTemplate(body);
+    return null;
+  } catch (error) {
+    if (error instanceof TemplateSyntaxError) return error.message;
+    throw error;
+  }
+}
+
+/**
+ * List the user's templates at their current version
+ */
+export async function getTemplates(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const templates = await prisma.emailTemplate.findMany({
+      where: { userId },
+      orderBy: { updatedAt: 'desc' },
+      include: { versions: { orderBy: { version: 'desc' }, take: 1 } },
+    });
+
+    res.status(200).json(templates.map((template) => toTemplateResponse(template, template.versions[0])));
+  } catch (error) {
+    console.error('Error fetching templates:', error);
+    res.status(500).json({
+      error: 'Failed to fetch templates',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Get a template at its current version, with its version history
+ */
+export async function getTemplate(req: Request, res: Response): Promise<void> {
+  try {
+    const { templateId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const template = await prisma.emailTemplate.findFirst({
+      where: { id: templateId, userId },
+      include: { versions: { orderBy: { version: 'desc' } } },
+    });
+
+    if (!template) {
+      res.status(404).json({ error: 'Template not found' });
+      return;
+    }
+
+    res.status(200).json({
+      ...toTemplateResponse(template, template.versions[0]),
+      versions: template.versions.map((version) => ({
+        version: version.version,
+        subject: version.subject,
+        createdAt: version.createdAt.toISOString(),
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching template:', error);
+    res.status(500).json({
+      error: 'Failed to fetch template',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Get one specific version of a template
+ */
+export async function getTemplateVersion(req: Request, res: Response): Promise<void> {
+  try {
+    const { templateId, version } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const template = await prisma.emailTemplate.findFirst({
+      where: { id: templateId, userId },
+      include: { versions: { where: { version: parseInt(version, 10) || 0 } } },
+    });
+
+    if (!template || template.versions.length === 0) {
+      res.status(404).json({ error: 'Template version not found' });
+      return;
+    }
+
+    res.status(200).json(toTemplateResponse(template, template.versions[0]));
+  } catch (error) {
+    console.error('Error fetching template version:', error);
+    res.status(500).json({
+      error: 'Failed to fetch template version',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Create a template
+ *
+ * Body:
+ * {
+ *   name: string (unique per user)
+ *   subject: string
+ *   body: string
+ * }
+ */
+export async function createTemplate(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.user?.id;
+    const { name, subject, body } = req.body;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    if (!name?.trim() || !subject || !body) {
+      res.status(400).json({ error: 'name, subject and body are required' });
+      return;
+    }
+
+    const syntaxError = validateTemplateContent(subject, body);
+    if (syntaxError) {
+      res.status(400).json({ error: syntaxError });
+      return;
+    }
+
+    const existing = await prisma.emailTemplate.findUnique({
+      where: { userId_name: { userId, name: name.trim() } },
+    });
+
+    if (existing) {
+      res.status(409).json({ error: 'A template with this name already exists' });
+      return;
+    }
+
+    const template = await prisma.emailTemplate.create({
+      data: {
+        userId,
+        name: name.trim(),
+        currentVersion: 1,
+        versions: { create: { version: 1, subject, body } },
+      },
+      include: { versions: true },
+    });
+
+    res.status(201).json(toTemplateResponse(template, template.versions[0]));
+  } catch (error) {
+    console.error('Error creating template:', error);
+    res.status(500).json({
+      error: 'Failed to create template',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Update a template
+ * A changed subject or body is saved as a new version; older versions stay
+ * available so schedules keep pointing at what they actually sent
+ */
+export async function updateTemplate(req: Request, res: Response): Promise<void> {
+  try {
+    const { templateId } = req.params;
+    const userId = req.user?.id;
+    const { name, subject, body } = req.body;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const template = await prisma.emailTemplate.findFirst({
+      where: { id: templateId, userId },
+      include: { versions: { orderBy: { version: 'desc' }, take: 1 } },
+    });
+
+    if (!template) {
+      res.status(404).json({ error: 'Template not found' });
+      return;
+    }
+
+    const latest = template.versions[0];
+    const nextSubject = subject ?? latest.subject;
+    const nextBody = body ?? latest.body;
+
+    const syntaxError = validateTemplateContent(nextSubject, nextBody);
+    if (syntaxError) {
+      res.status(400).json({ error: syntaxError });
+      return;
+    }
+
+    if (name?.trim() && name.trim() !== template.name) {
+      const clash = await prisma.emailTemplate.findUnique({
+        where: { userId_name: { userId, name: name.trim() } },
+      });
+
+      if (clash) {
+        res.status(409).json({ error: 'A template with this name already exists' });
+        return;
+      }
+    }
+
+    const contentChanged = nextSubject !== latest.subject || nextBody !== latest.body;
+    const nextVersion = contentChanged ? template.currentVersion + 1 : template.currentVersion;
+
+    const [updated, version] = await prisma.$transaction([
+      prisma.emailTemplate.update({
+        where: { id: templateId },
+        data: {
+          name: name?.trim() || undefined,
+          currentVersion: nextVersion,
+        },
+      }),
+      contentChanged
+        ? prisma.emailTemplateVersion.create({
+            data: { templateId, version: nextVersion, subject: nextSubject, body: nextBody },
+          })
+        : prisma.emailTemplateVersion.findUniqueOrThrow({ where: { id: latest.id } }),
+    ]);
+
+    res.status(200).json(toTemplateResponse(updated, version));
+  } catch (error) {
+    console.error('Error updating template:', error);
+    res.status(500).json({
+      error: 'Failed to update template',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Delete a template and its versions
+ * Schedules that used it keep their subject and body but lose the link
+ */
+export async function deleteTemplate(req: Request, res: Response): Promise<void> {
+  try {
+    const { templateId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { count } = await prisma.emailTemplate.deleteMany({
+      where: { id: templateId, userId },
+    });
+
+    if (count === 0) {
+      res.status(404).json({ error: 'Template not found' });
+      return;
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting template:', error);
+    res.status(500).json({
+      error: 'Failed to delete template',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -0,0 +1,52 @@
+import { Request, Response } from 'express';
+import { TRACKING_PIXEL, recordTrackingEvent, verifyTrackingUrl } from '../services/trackingService';
+
+/**
+ * Record an open and return the tracking pixel
+ * Public: loaded by the recipient's mail client. Always answers with the
+ * image so a tracking failure never shows up as a broken image.
+ */
+export async function trackOpen(req: Request, res: Response): Promise<void> {
+  try {
+    await recordTrackingEvent(req.params.emailJobId, 'opened', {
+      userAgent: req.get('user-agent'),
+      ipAddress: req.ip,
+    });
+  } catch (error) {
+    console.error('Error recording open:', error);
+  }
+
+  res.set({
+    'Content-Type': 'image/gif',
+    'Content-Length': String(TRACKING_PIXEL.length),
+    'Cache-Control': 'no-store, no-cache, must-revalidate, private',
+  });
+  res.status(200).end(TRACKING_PIXEL);
+}
+
+/**
+ * Record a click and redirect to the original link
+ * Public: the signature ties the target URL to the email it was sent in
+ */
+export async function trackClick(req: Request, res: Response): Promise<void> {
+  const { emailJobId } = req.params;
+  const url = typeof req.query.url === 'string' ? req.query.url : '';
+  const signature = typeof req.query.sig === 'string' ? req.query.sig : '';
+
+  if (!/^https?:\/\//i.test(url) || !verifyTrackingUrl(emailJobId, url, signature)) {
+    res.status(400).send('<p>This link is invalid.</p>');
+    return;
+  }
+
+  try {
+    await recordTrackingEvent(emailJobId, 'clicked', {
+      url,
+      userAgent: req.get('user-agent'),
+      ipAddress: req.ip,
+    });
+  } catch (error) {
+    console.error('Error recording click:', error);
+  }
+
+  res.redirect(302, url);
+}
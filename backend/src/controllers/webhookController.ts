@@ -0,0 +1,124 @@
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+import { INBOUND_WEBHOOK_SECRET } from '../config/app';
+import {
+  applyDeliveryEvent,
+  confirmSnsSubscription,
+  parseDsn,
+  parseProviderWebhook,
+  DeliveryEvent,
+  DeliveryReportError,
+} from '../services/bounceService';
+import { applyReply, parseRawReply, parseReplyWebhook } from '../services/replyService';
+
+function hasValidSecret(req: Request): boolean {
+  // Not the Authorization header: authMiddleware would take it for a user token
+  const provided = req.get('x-webhook-token') || (typeof req.query.token === 'string' ? req.query.token : '');
+
+  const expected = Buffer.from(INBOUND_WEBHOOK_SECRET);
+  const actual = Buffer.from(provided);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Receive bounce and complaint reports
+ * Public, authenticated by INBOUND_WEBHOOK_SECRET in an X-Webhook-Token header or ?token=.
+ * JSON bodies are provider webhooks; anything else is read as a raw DSN
+ * (SNS posts its JSON as text/plain, so text that parses as JSON counts as JSON).
+ */
+export async function receiveBounces(req: Request, res: Response): Promise<void> {
+  try {
+    if (!INBOUND_WEBHOOK_SECRET) {
+      res.status(503).json({ error: 'Inbound webhooks are not configured' });
+      return;
+    }
+
+    if (!hasValidSecret(req)) {
+      res.status(401).json({ error: 'Invalid webhook token' });
+      return;
+    }
+
+    let payload: unknown = req.body;
+
+    if (typeof payload === 'string') {
+      try {
+        payload = JSON.parse(payload);
+      } catch {
+        // Not JSON, so a raw DSN
+      }
+    }
+
+    let events: DeliveryEvent[];
+    try {
+      // SNS asks for the subscription to be confirmed by visiting a URL
+      if (payload && (payload as { Type?: string }).Type === 'SubscriptionConfirmation') {
+        const topicArn = await confirmSnsSubscription(payload);
+        console.log(`📬 Confirmed SNS subscription to ${topicArn}`);
+        res.status(200).json({ confirmed: topicArn });
+        return;
+      }
+
+      events = typeof payload === 'string' ? parseDsn(payload) : parseProviderWebhook(payload);
+    } catch (error) {
+      if (error instanceof DeliveryReportError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      throw error;
+    }
+
+    let applied = 0;
+    let unmatched = 0;
+
+    for (const event of events) {
+      const outcome = await applyDeliveryEvent(event);
+      if (outcome === 'applied') applied++;
+      if (outcome === 'unmatched') unmatched++;
+    }
+
+    res.status(200).json({ received: events.length, applied, unmatched });
+  } catch (error) {
+    console.error('Error processing bounce webhook:', error);
+    res.status(500).json({
+      error: 'Failed to process bounce report',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Receive replies to sent emails
+ * Public, authenticated like the bounce webhook. JSON and form bodies are
+ * inbound-mail webhooks; anything else is read as the raw reply message. A
+ * reply to a sequence email takes its contact out of the sequence.
+ */
+export async function receiveReplies(req: Request, res: Response): Promise<void> {
+  try {
+    if (!INBOUND_WEBHOOK_SECRET) {
+      res.status(503).json({ error: 'Inbound webhooks are not configured' });
+      return;
+    }
+
+    if (!hasValidSecret(req)) {
+      res.status(401).json({ error: 'Invalid webhook token' });
+      return;
+    }
+
+    const reply = typeof req.body === 'string' ? parseRawReply(req.body) : parseReplyWebhook(req.body);
+
+    if (!reply) {
+      res.status(400).json({ error: 'Unrecognized reply payload' });
+      return;
+    }
+
+    const outcome = await applyReply(reply);
+
+    res.status(200).json({ outcome });
+  } catch (error) {
+    console.error('Error processing reply webhook:', error);
+    res.status(500).json({
+      error: 'Failed to process reply',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
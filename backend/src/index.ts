@@ -1,14 +1,37 @@
 import express, { Express } from 'express';
 import cors from 'cors';
 import bodyParser from 'body-parser';
-import { authMiddleware, securityMiddleware, errorHandler } from './middleware';
+import { securityMiddleware, errorHandler } from './middleware';
 import emailRoutes from './routes/emailRoutes';
+import authRoutes from './routes/authRoutes';
+import senderRoutes from './routes/senderRoutes';
+import templateRoutes from './routes/templateRoutes';
+import trackingRoutes from './routes/trackingRoutes';
+import suppressionRoutes from './routes/suppressionRoutes';
+import webhookRoutes from './routes/webhookRoutes';
+import contactRoutes from './routes/contactRoutes';
+import listRoutes from './routes/listRoutes';
+import importRoutes from './routes/importRoutes';
+import sequenceRoutes from './routes/sequenceRoutes';
 import {
   initializeRedis,
   initializeEmailTransporter,
   closeConnections,
 } from './config/connections';
 import { initializeQueue, initializeWorker, closeQueue } from './services/queueService';
+import {
+  initializeRecurrenceQueue,
+  initializeRecurrenceWorker,
+  closeRecurrenceQueue,
+} from './services/recurrenceService';
+import { initializeAbTestQueue, initializeAbTestWorker, closeAbTestQueue } from './services/abTestService';
+import {
+  initializeSequenceQueue,
+  initializeSequenceWorker,
+  closeSequenceQueue,
+} from './services/sequenceService';
+import { resumePreparingSchedules } from './services/scheduleService';
+import { initializeReconciliation, closeReconciliation } from './services/reconciliationService';
 import prisma from './config/prisma';
 
 const app: Express = express();
@@ -21,7 +44,6 @@ app.use(cors({ origin: process.env.FRONTEND_URL || 'http://localhost:3000' }));
 app.use(bodyParser.json({ limit: '10mb' }));
 app.use(bodyParser.urlencoded({ limit: '10mb', extended: true }));
 app.use(securityMiddleware);
-app.use(authMiddleware);
 
 /**
  * Health check endpoint
@@ -32,8 +54,20 @@ app.get('/api/health', (req, res) => {
 
 /**
  * API Routes
+ * Each router applies authMiddleware itself, after any public routes, so tracking
+ * links, unsubscribes and provider webhooks never have their Authorization header parsed
  */
+app.use('/api/auth', authRoutes);
 app.use('/api/emails', emailRoutes);
+app.use('/api/senders', senderRoutes);
+app.use('/api/templates', templateRoutes);
+app.use('/api/track', trackingRoutes);
+app.use('/api/suppressions', suppressionRoutes);
+app.use('/api/webhooks', webhookRoutes);
+app.use('/api/contacts', contactRoutes);
+app.use('/api/lists', listRoutes);
+app.use('/api/imports', importRoutes);
+app.use('/api/sequences', sequenceRoutes);
 
 /**
  * 404 handler
@@ -63,6 +97,18 @@ async function start(): Promise<void> {
     console.log('📬 Initializing BullMQ...');
     await initializeQueue();
     await initializeWorker();
+    await initializeRecurrenceQueue();
+    await initializeRecurrenceWorker();
+    await initializeAbTestQueue();
+    await initializeAbTestWorker();
+    await initializeSequenceQueue();
+    await initializeSequenceWorker();
+    await initializeReconciliation();
+
+    // Finish batches that were being prepared when the server stopped
+    resumePreparingSchedules().catch((error) => {
+      console.error('❌ Failed to resume preparing schedules:', error);
+    });
 
     // Start Express server
     app.listen(PORT, () => {
@@ -85,6 +131,10 @@ async function shutdown(): Promise<void> {
   console.log('🛑 Shutting down gracefully...');
 
   try {
+    await closeReconciliation();
+    await closeRecurrenceQueue();
+    await closeAbTestQueue();
+    await closeSequenceQueue();
     await closeQueue();
     await closeConnections();
     await prisma.$disconnect();
@@ -1,21 +1,101 @@
 import { Request, Response, NextFunction } from 'express';
+import { authenticateBearerToken, AuthError } from '../services/authService';
+import {
+  beginIdempotentRequest,
+  finishIdempotentRequest,
+  hashRequestBody,
+} from '../services/idempotencyService';
+
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
 
 /**
- * Simple auth middleware for demo
- * In production, this would verify JWT tokens or OAuth sessions
+ * Auth middleware
+ * Verifies the `Authorization: Bearer <token>` header (our own access token or a
+ * NextAuth session token) and puts the user on req.user.
+ * Requests without a token pass through unauthenticated; endpoints check req.user themselves.
+ * Mounted by each router ahead of its authenticated routes, never in front of public ones.
  */
 export function authMiddleware(req: Request, res: Response, next: NextFunction): void {
-  // For demo, we extract user ID from header
-  // In production, this would validate JWT/OAuth tokens
-  const userId = req.headers['x-user-id'];
+  const header = req.headers.authorization;
 
-  if (!userId) {
-    // Allow unauth requests but endpoints will check for user-id header
+  if (!header) {
     next();
     return;
   }
 
-  next();
+  const [scheme, token] = header.split(' ');
+
+  if (scheme !== 'Bearer' || !token) {
+    res.status(401).json({ error: 'Malformed Authorization header', code: 'TOKEN_INVALID' });
+    return;
+  }
+
+  authenticateBearerToken(token).then(
+    (user) => {
+      if (user) {
+        req.user = user;
+      }
+      next();
+    },
+    (error) => {
+      if (error instanceof AuthError) {
+        res.status(error.status).json({ error: error.message, code: error.code });
+        return;
+      }
+      next(error);
+    }
+  );
+}
+
+/**
+ * Idempotency-Key middleware
+ * Repeats of an authenticated request with the same key and body get the first
+ * response replayed (with an Idempotent-Replayed header) instead of running again.
+ * Requests without the header are unaffected.
+ */
+export function idempotencyMiddleware(req: Request, res: Response, next: NextFunction): void {
+  const key = req.header('Idempotency-Key');
+  const userId = req.user?.id;
+
+  if (!key || !userId) {
+    next();
+    return;
+  }
+
+  if (key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    res.status(400).json({ error: `Idempotency-Key must be at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters` });
+    return;
+  }
+
+  const endpoint = `${req.method} ${req.baseUrl}${req.path}`;
+
+  beginIdempotentRequest(userId, endpoint, key, hashRequestBody(req.body))
+    .then((request) => {
+      switch (request.state) {
+        case 'replay':
+          res.setHeader('Idempotent-Replayed', 'true');
+          res.status(request.status).json(request.body);
+          return;
+        case 'in-progress':
+          res.status(409).json({ error: 'A request with this Idempotency-Key is still being processed' });
+          return;
+        case 'mismatch':
+          res.status(422).json({ error: 'Idempotency-Key was already used with a different request body' });
+          return;
+      }
+
+      // Store whatever the handler responds with
+      const json = res.json.bind(res);
+      res.json = (body: unknown) => {
+        finishIdempotentRequest(request.id, res.statusCode, body).catch((error) => {
+          console.error('Error storing idempotent response:', error);
+        });
+        return json(body);
+      };
+
+      next();
+    })
+    .catch(next);
 }
 
 /**
@@ -0,0 +1,35 @@
+import { Router } from 'express';
+import {
+  signup,
+  login,
+  refresh,
+  syncOAuthUser,
+  logout,
+  getCurrentUser,
+} from '../controllers/authController';
+import { authMiddleware } from '../middleware';
+
+const router = Router();
+
+// POST /api/auth/signup - Create an account
+router.post('/signup', signup);
+
+// POST /api/auth/login - Log in with email and password
+router.post('/login', login);
+
+// POST /api/auth/refresh - Exchange a refresh token for a new token pair
+router.post('/refresh', refresh);
+
+// POST /api/auth/oauth - Find or create the user behind a NextAuth (Google) sign-in
+router.post('/oauth', syncOAuthUser);
+
+// Everything below requires a signed-in user
+router.use(authMiddleware);
+
+// POST /api/auth/logout - Revoke every token issued to the user
+router.post('/logout', logout);
+
+// GET /api/auth/me - Get the authenticated user
+router.get('/me', getCurrentUser);
+
+export default router;
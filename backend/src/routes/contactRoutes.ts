@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import {
+  getContacts,
+  createContact,
+  updateContact,
+  deleteContact,
+  importContacts,
+} from '../controllers/contactController';
+import { authMiddleware } from '../middleware';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+// GET /api/contacts - List contacts, filtered by list, tags or address
+router.get('/', getContacts);
+
+// POST /api/contacts - Save a contact
+router.post('/', createContact);
+
+// POST /api/contacts/import - Import contacts from CSV
+router.post('/import', importContacts);
+
+// PUT /api/contacts/:contactId - Update a contact's attributes, tags or lists
+router.put('/:contactId', updateContact);
+
+// DELETE /api/contacts/:contactId - Delete a contact
+router.delete('/:contactId', deleteContact);
+
+export default router;
@@ -5,12 +5,26 @@ import {
   getSentEmails,
   getScheduleDetails,
   getQueueStatus,
+  pauseSchedule,
+  resumeSchedule,
+  cancelSchedule,
+  getScheduleProgress,
+  getScheduleFailures,
+  retryScheduleFailures,
+  dropScheduleFailures,
+  getScheduleOccurrences,
+  setOccurrenceSkipped,
+  updateRecurrence,
+  chooseAbTestWinner,
 } from '../controllers/emailController';
+import { authMiddleware, idempotencyMiddleware } from '../middleware';
 
 const router = Router();
 
-// POST /api/emails/schedule - Schedule emails
-router.post('/schedule', scheduleEmails);
+router.use(authMiddleware);
+
+// POST /api/emails/schedule - Schedule emails (honours Idempotency-Key)
+router.post('/schedule', idempotencyMiddleware, scheduleEmails);
 
 // GET /api/emails/scheduled - Get user's scheduled emails
 router.get('/scheduled', getScheduledEmails);
@@ -21,6 +35,48 @@ router.get('/sent', getSentEmails);
 // GET /api/emails/schedule/:scheduleId - Get schedule details
 router.get('/schedule/:scheduleId', getScheduleDetails);
 
+// POST /api/emails/schedule/:scheduleId/pause - Hold back unsent emails
+router.post('/schedule/:scheduleId/pause', pauseSchedule);
+
+// POST /api/emails/schedule/:scheduleId/resume - Re-queue held emails
+router.post('/schedule/:scheduleId/resume', resumeSchedule);
+
+// POST /api/emails/schedule/:scheduleId/cancel - Cancel unsent emails
+router.post('/schedule/:scheduleId/cancel', cancelSchedule);
+
+// GET /api/emails/schedule/:scheduleId/progress - Get how many emails have been prepared
+router.get('/schedule/:scheduleId/progress', getScheduleProgress);
+
+// GET /api/emails/schedule/:scheduleId/failures - List emails that failed for good
+router.get('/schedule/:scheduleId/failures', getScheduleFailures);
+
+// POST /api/emails/schedule/:scheduleId/failures/retry - Retry every failed email
+router.post('/schedule/:scheduleId/failures/retry', retryScheduleFailures);
+
+// POST /api/emails/schedule/:scheduleId/failures/:emailJobId/retry - Retry one failed email
+router.post('/schedule/:scheduleId/failures/:emailJobId/retry', retryScheduleFailures);
+
+// DELETE /api/emails/schedule/:scheduleId/failures - Drop every failed email
+router.delete('/schedule/:scheduleId/failures', dropScheduleFailures);
+
+// DELETE /api/emails/schedule/:scheduleId/failures/:emailJobId - Drop one failed email
+router.delete('/schedule/:scheduleId/failures/:emailJobId', dropScheduleFailures);
+
+// GET /api/emails/schedule/:scheduleId/occurrences - List upcoming occurrences of a recurring schedule
+router.get('/schedule/:scheduleId/occurrences', getScheduleOccurrences);
+
+// POST /api/emails/schedule/:scheduleId/occurrences/:occurrence/skip - Skip one occurrence
+router.post('/schedule/:scheduleId/occurrences/:occurrence/skip', setOccurrenceSkipped);
+
+// DELETE /api/emails/schedule/:scheduleId/occurrences/:occurrence/skip - Stop skipping an occurrence
+router.delete('/schedule/:scheduleId/occurrences/:occurrence/skip', setOccurrenceSkipped);
+
+// PUT /api/emails/schedule/:scheduleId/recurrence - Edit a recurring series
+router.put('/schedule/:scheduleId/recurrence', updateRecurrence);
+
+// POST /api/emails/schedule/:scheduleId/ab-test/winner - Pick an A/B test's winner by hand
+router.post('/schedule/:scheduleId/ab-test/winner', chooseAbTestWinner);
+
 // GET /api/emails/queue/status - Get queue statistics
 router.get('/queue/status', getQueueStatus);
 
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { uploadRecipients, getRecipientImport } from '../controllers/importController';
+import { authMiddleware } from '../middleware';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+// POST /api/imports - Upload a CSV/XLSX recipient file and validate it (multipart, field "file")
+router.post('/', uploadRecipients);
+
+// GET /api/imports/:importId - Validation report of an upload
+router.get('/:importId', getRecipientImport);
+
+export default router;
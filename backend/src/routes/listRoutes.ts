@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import {
+  getLists,
+  createList,
+  updateList,
+  deleteList,
+  addListContacts,
+  removeListContact,
+} from '../controllers/listController';
+import { authMiddleware } from '../middleware';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+// GET /api/lists - List contact lists with their sizes
+router.get('/', getLists);
+
+// POST /api/lists - Create a contact list
+router.post('/', createList);
+
+// PUT /api/lists/:listId - Rename a list or change its description
+router.put('/:listId', updateList);
+
+// DELETE /api/lists/:listId - Delete a list, keeping its contacts
+router.delete('/:listId', deleteList);
+
+// POST /api/lists/:listId/contacts - Add saved contacts to a list
+router.post('/:listId/contacts', addListContacts);
+
+// DELETE /api/lists/:listId/contacts/:contactId - Remove a contact from a list
+router.delete('/:listId/contacts/:contactId', removeListContact);
+
+export default router;
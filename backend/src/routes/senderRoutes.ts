@@ -0,0 +1,35 @@
+import { Router } from 'express';
+import {
+  getSenders,
+  createSender,
+  updateSender,
+  deleteSender,
+  resendSenderVerification,
+  verifySender,
+} from '../controllers/senderController';
+import { authMiddleware } from '../middleware';
+
+const router = Router();
+
+// GET /api/senders/verify/:token - Verification link target (public)
+router.get('/verify/:token', verifySender);
+
+// Everything below requires a signed-in user
+router.use(authMiddleware);
+
+// GET /api/senders - List the user's sender identities
+router.get('/', getSenders);
+
+// POST /api/senders - Create a sender identity and send a verification link
+router.post('/', createSender);
+
+// PUT /api/senders/:senderId - Update a sender identity
+router.put('/:senderId', updateSender);
+
+// DELETE /api/senders/:senderId - Delete a sender identity
+router.delete('/:senderId', deleteSender);
+
+// POST /api/senders/:senderId/resend-verification - Send the verification link again
+router.post('/:senderId/resend-verification', resendSenderVerification);
+
+export default router;
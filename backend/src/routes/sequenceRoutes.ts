@@ -0,0 +1,50 @@
+import { Router } from 'express';
+import {
+  getSequences,
+  createSequence,
+  getSequence,
+  updateSequence,
+  deleteSequence,
+  pauseSequence,
+  resumeSequence,
+  enrollContacts,
+  getEnrollments,
+  stopEnrollment,
+} from '../controllers/sequenceController';
+import { authMiddleware } from '../middleware';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+// GET /api/sequences - List sequences with their enrollment counts
+router.get('/', getSequences);
+
+// POST /api/sequences - Create a sequence with its steps
+router.post('/', createSequence);
+
+// GET /api/sequences/:sequenceId - Get a sequence with per-step stats
+router.get('/:sequenceId', getSequence);
+
+// PUT /api/sequences/:sequenceId - Rename a sequence or change its sender or limits
+router.put('/:sequenceId', updateSequence);
+
+// DELETE /api/sequences/:sequenceId - Delete a sequence and its enrollments
+router.delete('/:sequenceId', deleteSequence);
+
+// POST /api/sequences/:sequenceId/pause - Hold back steps that come due
+router.post('/:sequenceId/pause', pauseSequence);
+
+// POST /api/sequences/:sequenceId/resume - Resume a paused sequence
+router.post('/:sequenceId/resume', resumeSequence);
+
+// POST /api/sequences/:sequenceId/enrollments - Enroll contacts, lists or tags
+router.post('/:sequenceId/enrollments', enrollContacts);
+
+// GET /api/sequences/:sequenceId/enrollments - Where each enrolled contact is
+router.get('/:sequenceId/enrollments', getEnrollments);
+
+// POST /api/sequences/:sequenceId/enrollments/:enrollmentId/stop - Take a contact out of the sequence
+router.post('/:sequenceId/enrollments/:enrollmentId/stop', stopEnrollment);
+
+export default router;
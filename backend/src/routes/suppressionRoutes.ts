@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import {
+  getSuppressions,
+  createSuppression,
+  deleteSuppression,
+  showUnsubscribePage,
+  unsubscribe,
+} from '../controllers/suppressionController';
+import { authMiddleware } from '../middleware';
+
+const router = Router();
+
+// GET /api/suppressions/unsubscribe/:token - Unsubscribe confirmation page (public)
+router.get('/unsubscribe/:token', showUnsubscribePage);
+
+// POST /api/suppressions/unsubscribe/:token - Unsubscribe, also used for one-click (public)
+router.post('/unsubscribe/:token', unsubscribe);
+
+// Everything below requires a signed-in user
+router.use(authMiddleware);
+
+// GET /api/suppressions - List suppressed addresses
+router.get('/', getSuppressions);
+
+// POST /api/suppressions - Suppress an address
+router.post('/', createSuppression);
+
+// DELETE /api/suppressions/:email - Allow emailing an address again
+router.delete('/:email', deleteSuppression);
+
+export default router;
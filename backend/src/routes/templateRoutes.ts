@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import {
+  getTemplates,
+  getTemplate,
+  getTemplateVersion,
+  createTemplate,
+  updateTemplate,
+  deleteTemplate,
+} from '../controllers/templateController';
+import { authMiddleware } from '../middleware';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+// GET /api/templates - List templates at their current version
+router.get('/', getTemplates);
+
+// POST /api/templates - Create a template
+router.post('/', createTemplate);
+
+// GET /api/templates/:templateId - Get a template with its version history
+router.get('/:templateId', getTemplate);
+
+// GET /api/templates/:templateId/versions/:version - Get a specific version
+router.get('/:templateId/versions/:version', getTemplateVersion);
+
+// PUT /api/templates/:templateId - Update a template (new version if content changed)
+router.put('/:templateId', updateTemplate);
+
+// DELETE /api/templates/:templateId - Delete a template
+router.delete('/:templateId', deleteTemplate);
+
+export default router;
@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { trackOpen, trackClick } from '../controllers/trackingController';
+
+const router = Router();
+
+// GET /api/track/open/:emailJobId.gif - Open tracking pixel (public)
+router.get('/open/:emailJobId.gif', trackOpen);
+
+// GET /api/track/click/:emailJobId - Click redirect (public, signed)
+router.get('/click/:emailJobId', trackClick);
+
+export default router;
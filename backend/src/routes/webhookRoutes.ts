@@ -0,0 +1,15 @@
+import { Router, text } from 'express';
+import { receiveBounces, receiveReplies } from '../controllers/webhookController';
+
+const router = Router();
+
+// Raw DSNs (message/delivery-status, multipart/report...), raw replies (message/rfc822) and SNS's text/plain JSON
+const rawBody = text({ type: ['message/*', 'multipart/*', 'text/*'], limit: '10mb' });
+
+// POST /api/webhooks/bounces - Bounce and complaint reports (public, token)
+router.post('/bounces', rawBody, receiveBounces);
+
+// POST /api/webhooks/replies - Replies to sent emails, ending sequence enrollments (public, token)
+router.post('/replies', rawBody, receiveReplies);
+
+export default router;
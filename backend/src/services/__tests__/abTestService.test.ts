@@ -0,0 +1,147 @@
+import prisma from '../../config/prisma';
+import { AbTestError, decideAbTest, getVariantResults, parseAbTest, pickWinner, VariantResult } from '../abTestService';
+
+jest.mock('../../config/prisma', () => ({
+  __esModule: true,
+  default: {
+    scheduleVariant: { findMany: jest.fn() },
+    emailJob: { groupBy: jest.fn() },
+    trackingEvent: { findMany: jest.fn() },
+    emailSchedule: { updateMany: jest.fn() },
+  },
+}));
+jest.mock('../scheduleService', () => ({ prepareSchedule: jest.fn() }));
+jest.mock('../emailService', () => ({ updateScheduleCounts: jest.fn() }));
+
+const mocked = prisma as unknown as {
+  scheduleVariant: { findMany: jest.Mock };
+  emailJob: { groupBy: jest.Mock };
+  trackingEvent: { findMany: jest.Mock };
+  emailSchedule: { updateMany: jest.Mock };
+};
+
+const variants = [
+  { subject: 'Subject A', body: 'Body A' },
+  { subject: 'Subject B', body: 'Body B' },
+];
+
+function result(label: string, overrides: Partial<VariantResult>): VariantResult {
+  return {
+    id: `v-${label}`,
+    label,
+    subject: '',
+    body: '',
+    recipients: 0,
+    sent: 0,
+    uniqueOpens: 0,
+    uniqueClicks: 0,
+    openRate: 0,
+    clickRate: 0,
+    remainder: 0,
+    ...overrides,
+  };
+}
+
+afterEach(() => {
+  jest.resetAllMocks();
+});
+
+describe('parseAbTest', () => {
+  it('defaults to a 20% test decided on opens after four hours', () => {
+    expect(parseAbTest(variants)).toEqual({ variants, share: 20, waitMs: 4 * 60 * 60 * 1000, metric: 'opens' });
+  });
+
+  it('takes the share, wait and metric given', () => {
+    expect(parseAbTest(variants, { share: 50, waitMinutes: 30, metric: 'clicks' })).toMatchObject({
+      share: 50,
+      waitMs: 30 * 60 * 1000,
+      metric: 'clicks',
+    });
+  });
+
+  const countMessage = 'variants must be an array of 2 to 5 { subject, body } objects';
+
+  it.each([
+    ['one variant', [variants[0]], {}, countMessage],
+    ['six variants', [...variants, ...variants, ...variants], {}, countMessage],
+    ['an empty body', [variants[0], { subject: 'B', body: ' ' }], {}, 'Variant B needs a subject and a body'],
+    ['a zero share', variants, { share: 0 }, 'abTest.share must be a whole percentage from 1 to 100'],
+    ['a fractional share', variants, { share: 12.5 }, 'abTest.share must be a whole percentage from 1 to 100'],
+    ['no wait', variants, { waitMinutes: 0 }, 'abTest.waitMinutes must be between 1 and 43200'],
+    ['an unknown metric', variants, { metric: 'replies' }, 'abTest.metric must be one of: opens, clicks, manual'],
+  ])('rejects %s', (_case, input, options, message) => {
+    expect(() => parseAbTest(input, options)).toThrow(new AbTestError(message));
+  });
+});
+
+describe('pickWinner', () => {
+  it('picks the best rate for the metric', () => {
+    const results = [
+      result('A', { sent: 100, openRate: 0.3, clickRate: 0.02 }),
+      result('B', { sent: 100, openRate: 0.2, clickRate: 0.05 }),
+    ];
+
+    expect(pickWinner(results, 'opens').label).toBe('A');
+    expect(pickWinner(results, 'clicks').label).toBe('B');
+  });
+
+  it('breaks a tie by sends, then by the earlier label', () => {
+    expect(
+      pickWinner([result('A', { sent: 10, openRate: 0.5 }), result('B', { sent: 20, openRate: 0.5 })], 'opens').label
+    ).toBe('B');
+    expect(
+      pickWinner([result('C', { sent: 10, openRate: 0.5 }), result('B', { sent: 10, openRate: 0.5 })], 'opens').label
+    ).toBe('B');
+  });
+
+  it('falls back to variant A when nothing was opened yet', () => {
+    expect(pickWinner([result('B', {}), result('A', {})], 'opens').label).toBe('A');
+  });
+});
+
+describe('getVariantResults', () => {
+  it('rates each variant by unique opens and clicks over emails delivered in the test', async () => {
+    mocked.scheduleVariant.findMany.mockResolvedValue([
+      { id: 'v-A', label: 'A', subject: 'Subject A', body: 'Body A' },
+      { id: 'v-B', label: 'B', subject: 'Subject B', body: 'Body B' },
+    ]);
+    mocked.emailJob.groupBy.mockResolvedValue([
+      { variantId: 'v-A', abTestGroup: 'test', status: 'sent', _count: { _all: 3 } },
+      { variantId: 'v-A', abTestGroup: 'test', status: 'complained', _count: { _all: 1 } },
+      { variantId: 'v-A', abTestGroup: 'test', status: 'bounced', _count: { _all: 1 } },
+      { variantId: 'v-B', abTestGroup: 'test', status: 'sent', _count: { _all: 5 } },
+      { variantId: 'v-B', abTestGroup: 'remainder', status: 'queued', _count: { _all: 40 } },
+    ]);
+    mocked.trackingEvent.findMany.mockResolvedValue([
+      { type: 'opened', emailJob: { variantId: 'v-A' } },
+      { type: 'opened', emailJob: { variantId: 'v-A' } },
+      { type: 'clicked', emailJob: { variantId: 'v-A' } },
+      { type: 'opened', emailJob: { variantId: 'v-B' } },
+    ]);
+
+    const [a, b] = await getVariantResults('s1');
+
+    expect(a).toMatchObject({ recipients: 5, sent: 4, uniqueOpens: 2, uniqueClicks: 1, openRate: 0.5, remainder: 0 });
+    expect(b).toMatchObject({ recipients: 5, sent: 5, uniqueOpens: 1, openRate: 0.2, clickRate: 0, remainder: 40 });
+    expect(pickWinner([a, b], 'opens').label).toBe('A');
+  });
+
+  it('returns nothing for a schedule without variants', async () => {
+    mocked.scheduleVariant.findMany.mockResolvedValue([]);
+
+    expect(await getVariantResults('s1')).toEqual([]);
+    expect(mocked.emailJob.groupBy).not.toHaveBeenCalled();
+  });
+});
+
+describe('decideAbTest', () => {
+  it('records a winner only for a test still waiting for one', async () => {
+    mocked.emailSchedule.updateMany.mockResolvedValue({ count: 0 });
+
+    expect(await decideAbTest('s1', 'v-A')).toBe(false);
+    expect(mocked.emailSchedule.updateMany).toHaveBeenCalledWith({
+      where: { id: 's1', abTestStatus: 'testing', status: { in: ['scheduled', 'in-progress'] } },
+      data: { abTestStatus: 'decided', winningVariantId: 'v-A', status: 'preparing' },
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import jwt from 'jsonwebtoken';
+import prisma from '../../config/prisma';
+import {
+  authenticateBearerToken,
+  AuthError,
+  hashPassword,
+  issueLinkToken,
+  issueTokens,
+  verifyAccessToken,
+  verifyLinkToken,
+  verifyPassword,
+  verifyRefreshToken,
+} from '../authService';
+
+jest.mock('../../config/prisma', () => ({ __esModule: true, default: { user: { findUnique: jest.fn() } } }));
+
+const findUser = prisma.user.findUnique as jest.Mock;
+const user = { id: 'u1', email: 'ada@example.com', tokenVersion: 2 };
+
+// As the frontend's session callback signs it
+function nextAuthToken(claims: Record<string, unknown>, secret = process.env.NEXTAUTH_SECRET!): string {
+  return jwt.sign({ email: 'ada@example.com', ...claims }, secret, { issuer: 'nextauth', expiresIn: '1h' });
+}
+
+function authErrorOf(fn: () => unknown): AuthError {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof AuthError) return error;
+    throw error;
+  }
+  throw new Error('Expected an AuthError');
+}
+
+describe('passwords', () => {
+  it('verifies only the password that was hashed', async () => {
+    const hash = await hashPassword('correct horse');
+
+    expect(hash).not.toContain('correct horse');
+    expect(await verifyPassword('correct horse', hash)).toBe(true);
+    expect(await verifyPassword('wrong horse', hash)).toBe(false);
+  });
+});
+
+describe('issueTokens', () => {
+  it('issues an access token for the user and a refresh token carrying the token version', () => {
+    const { accessToken, refreshToken } = issueTokens(user);
+
+    expect(verifyAccessToken(accessToken)).toEqual({ id: 'u1', email: 'ada@example.com' });
+    expect(verifyRefreshToken(refreshToken)).toEqual({ userId: 'u1', tokenVersion: 2 });
+  });
+
+  it('never accepts one kind of token as the other', () => {
+    const { accessToken, refreshToken } = issueTokens(user);
+
+    expect(authErrorOf(() => verifyAccessToken(refreshToken)).code).toBe('TOKEN_INVALID');
+    expect(authErrorOf(() => verifyRefreshToken(accessToken)).code).toBe('TOKEN_INVALID');
+  });
+
+  it('rejects an access token signed with another secret or of the wrong type', () => {
+    const forged = jwt.sign({ sub: 'u1', email: 'ada@example.com', type: 'access' }, 'guessed-secret');
+    const wrongType = jwt.sign({ sub: 'u1', email: 'ada@example.com', type: 'link' }, process.env.JWT_SECRET!);
+
+    expect(authErrorOf(() => verifyAccessToken(forged)).code).toBe('TOKEN_INVALID');
+    expect(authErrorOf(() => verifyAccessToken(wrongType)).message).toBe('Invalid token type');
+  });
+
+  it('reports an expired token as expired', () => {
+    const expired = jwt.sign(
+      { sub: 'u1', email: 'ada@example.com', type: 'access', exp: Math.floor(Date.now() / 1000) - 60 },
+      process.env.JWT_SECRET!
+    );
+
+    expect(authErrorOf(() => verifyAccessToken(expired))).toMatchObject({ code: 'TOKEN_EXPIRED', status: 401 });
+  });
+});
+
+describe('authenticateBearerToken', () => {
+  beforeEach(() => {
+    findUser.mockResolvedValue({ tokenVersion: 2 });
+  });
+
+  afterEach(() => {
+    findUser.mockReset();
+  });
+
+  it('accepts an access token while its token version is current', async () => {
+    expect(await authenticateBearerToken(issueTokens(user).accessToken)).toEqual({
+      id: 'u1',
+      email: 'ada@example.com',
+    });
+  });
+
+  it('rejects tokens of either kind issued before a logout', async () => {
+    const accessToken = issueTokens(user).accessToken;
+    const sessionToken = nextAuthToken({ sub: 'u1', tokenVersion: 2 });
+    findUser.mockResolvedValue({ tokenVersion: 3 });
+
+    await expect(authenticateBearerToken(accessToken)).rejects.toMatchObject({ code: 'TOKEN_REVOKED' });
+    await expect(authenticateBearerToken(sessionToken)).rejects.toMatchObject({ code: 'TOKEN_REVOKED' });
+  });
+
+  it('rejects a NextAuth token without a token version, or for a deleted user', async () => {
+    await expect(authenticateBearerToken(nextAuthToken({ sub: 'u1' }))).rejects.toMatchObject({
+      code: 'TOKEN_REVOKED',
+    });
+
+    findUser.mockResolvedValue(null);
+    await expect(authenticateBearerToken(nextAuthToken({ sub: 'u1', tokenVersion: 2 }))).rejects.toMatchObject({
+      code: 'TOKEN_REVOKED',
+    });
+  });
+
+  it('accepts a NextAuth session of a linked user', async () => {
+    expect(await authenticateBearerToken(nextAuthToken({ sub: 'u1', tokenVersion: 2 }))).toEqual({
+      id: 'u1',
+      email: 'ada@example.com',
+    });
+  });
+
+  it('treats a NextAuth token with no user yet as signed out', async () => {
+    expect(await authenticateBearerToken(nextAuthToken({}))).toBeNull();
+    expect(findUser).not.toHaveBeenCalled();
+  });
+
+  it('rejects a NextAuth token signed with another secret', async () => {
+    await expect(
+      authenticateBearerToken(nextAuthToken({ sub: 'u1', tokenVersion: 2 }, 'guessed-secret'))
+    ).rejects.toMatchObject({ code: 'TOKEN_INVALID' });
+  });
+
+  it('never accepts a link token as an access token', async () => {
+    await expect(authenticateBearerToken(issueLinkToken(user, 'google-1'))).rejects.toMatchObject({
+      code: 'TOKEN_INVALID',
+    });
+  });
+});
+
+describe('link tokens', () => {
+  it('name the user and the Google account to link', () => {
+    expect(verifyLinkToken(issueLinkToken(user, 'google-1'))).toEqual({ userId: 'u1', googleId: 'google-1' });
+  });
+
+  it('cannot be made from an access token', () => {
+    expect(authErrorOf(() => verifyLinkToken(issueTokens(user).accessToken)).message).toBe('Invalid token type');
+  });
+});
+
+describe('LINK_SIGNING_SECRET', () => {
+  const env = process.env;
+
+  afterEach(() => {
+    process.env = env;
+  });
+
+  function loadConfig(overrides: Record<string, string | undefined>) {
+    process.env = { ...env, ...overrides };
+    jest.isolateModules(() => {
+      require('../../config/app');
+    });
+  }
+
+  it('refuses to reuse a JWT secret for signing links', () => {
+    expect(() => loadConfig({ LINK_SIGNING_SECRET: env.JWT_SECRET })).toThrow(
+      'LINK_SIGNING_SECRET must differ from JWT_SECRET and JWT_REFRESH_SECRET'
+    );
+    expect(() => loadConfig({ LINK_SIGNING_SECRET: env.JWT_REFRESH_SECRET })).toThrow(
+      'LINK_SIGNING_SECRET must differ'
+    );
+  });
+
+  it('is required outside development', () => {
+    expect(() => loadConfig({ LINK_SIGNING_SECRET: undefined, NODE_ENV: 'production' })).toThrow(
+      'LINK_SIGNING_SECRET must be set unless NODE_ENV=development'
+    );
+    expect(() => loadConfig({ LINK_SIGNING_SECRET: 'its-own-secret' })).not.toThrow();
+  });
+});
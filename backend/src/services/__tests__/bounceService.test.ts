@@ -0,0 +1,305 @@
+import prisma from '../../config/prisma';
+import { updateEmailJobStatus, updateScheduleCounts } from '../emailService';
+import { addSuppression } from '../suppressionService';
+import { updateEnrollmentProgress } from '../sequenceService';
+import {
+  applyDeliveryEvent,
+  confirmSnsSubscription,
+  DeliveryReportError,
+  parseDsn,
+  parseProviderWebhook,
+} from '../bounceService';
+
+jest.mock('../../config/prisma', () => ({
+  __esModule: true,
+  default: { emailJob: { findFirst: jest.fn() } },
+}));
+jest.mock('../emailService', () => ({ updateEmailJobStatus: jest.fn(), updateScheduleCounts: jest.fn() }));
+jest.mock('../suppressionService', () => ({ addSuppression: jest.fn() }));
+jest.mock('../sequenceService', () => ({ updateEnrollmentProgress: jest.fn() }));
+
+const findEmailJob = prisma.emailJob.findFirst as jest.Mock;
+const updateStatus = updateEmailJobStatus as jest.Mock;
+
+const TOPIC_ARN = 'arn:aws:sns:eu-west-1:123456789012:ses-bounces';
+
+afterEach(() => {
+  jest.resetAllMocks();
+  jest.restoreAllMocks();
+});
+
+describe('parseDsn', () => {
+  const dsn = [
+    'From: MAILER-DAEMON@mx.example.com',
+    'Message-ID: <dsn-1@mx.example.com>',
+    'Content-Type: multipart/report; report-type=delivery-status; boundary="b"',
+    '',
+    '--b',
+    'Content-Type: message/delivery-status',
+    '',
+    'Reporting-MTA: dns; mx.example.com',
+    '',
+    'Final-Recipient: rfc822; gone@example.com',
+    'Action: failed',
+    'Status: 5.1.1',
+    'Diagnostic-Code: smtp; 550 5.1.1 The email account',
+    '  does not exist',
+    '',
+    'Final-Recipient: rfc822; full@example.com',
+    'Action: failed',
+    'Status: 4.2.2',
+    '',
+    'Final-Recipient: rfc822; slow@example.com',
+    'Action: delayed',
+    'Status: 4.4.1',
+    '',
+    '--b',
+    'Content-Type: text/rfc822-headers',
+    '',
+    'Message-ID: <original-1@reachinbox.app>',
+    'Subject: Hello',
+    '--b--',
+  ].join('\r\n');
+
+  it('reports each failed recipient against the original Message-ID', () => {
+    expect(parseDsn(dsn)).toEqual([
+      {
+        type: 'bounce',
+        messageId: 'original-1@reachinbox.app',
+        recipient: 'gone@example.com',
+        hard: true,
+        status: '5.1.1',
+        diagnostic: '550 5.1.1 The email account does not exist',
+      },
+      {
+        type: 'bounce',
+        messageId: 'original-1@reachinbox.app',
+        recipient: 'full@example.com',
+        hard: false,
+        status: '4.2.2',
+        diagnostic: undefined,
+      },
+    ]);
+  });
+
+  it('prefers Original-Message-ID when the report has one', () => {
+    const events = parseDsn(`Original-Message-ID: <original-2@reachinbox.app>\r\n${dsn}`);
+
+    expect(events.map((event) => event.messageId)).toEqual(['original-2@reachinbox.app', 'original-2@reachinbox.app']);
+  });
+
+  it('treats a failure without a status as hard', () => {
+    const events = parseDsn('Message-ID: <m@x>\n\nFinal-Recipient: rfc822; a@example.com\nAction: failed\n');
+
+    expect(events).toMatchObject([{ recipient: 'a@example.com', hard: true, status: undefined }]);
+  });
+
+  it('ignores a report without any Message-ID', () => {
+    expect(parseDsn('Final-Recipient: rfc822; a@example.com\nAction: failed\n')).toEqual([]);
+  });
+});
+
+describe('parseProviderWebhook', () => {
+  it('reads an SES bounce wrapped in an SNS notification', () => {
+    const notification = {
+      notificationType: 'Bounce',
+      mail: { messageId: 'ses-id', commonHeaders: { messageId: '<original@reachinbox.app>' } },
+      bounce: {
+        bounceType: 'Permanent',
+        bouncedRecipients: [{ emailAddress: 'gone@example.com', status: '5.1.1', diagnosticCode: 'smtp; 550' }],
+      },
+    };
+
+    expect(parseProviderWebhook({ Type: 'Notification', Message: JSON.stringify(notification) })).toEqual([
+      {
+        type: 'bounce',
+        messageId: 'original@reachinbox.app',
+        recipient: 'gone@example.com',
+        hard: true,
+        status: '5.1.1',
+        diagnostic: 'smtp; 550',
+      },
+    ]);
+  });
+
+  it('reads an SES complaint sent straight to the webhook', () => {
+    const events = parseProviderWebhook({
+      notificationType: 'Complaint',
+      mail: { messageId: 'ses-id' },
+      complaint: { complainedRecipients: [{ emailAddress: 'angry@example.com' }] },
+    });
+
+    expect(events).toEqual([{ type: 'complaint', messageId: 'ses-id', recipient: 'angry@example.com' }]);
+  });
+
+  it('rejects an SNS notification whose Message is not JSON', () => {
+    expect(() => parseProviderWebhook({ Type: 'Notification', Message: 'not json' })).toThrow(DeliveryReportError);
+  });
+
+  it('reads a SendGrid batch, keeping blocked messages soft', () => {
+    const events = parseProviderWebhook([
+      { event: 'bounce', 'smtp-id': '<a@reachinbox.app>', email: 'a@example.com', status: '5.0.0', reason: 'gone' },
+      { event: 'bounce', type: 'blocked', 'smtp-id': '<b@reachinbox.app>', email: 'b@example.com', status: '5.7.1' },
+      { event: 'spamreport', sg_message_id: 'c@reachinbox.app', email: 'c@example.com' },
+      { event: 'delivered', 'smtp-id': '<d@reachinbox.app>' },
+    ]);
+
+    expect(events).toMatchObject([
+      { type: 'bounce', messageId: 'a@reachinbox.app', hard: true, diagnostic: 'gone' },
+      { type: 'bounce', messageId: 'b@reachinbox.app', hard: false },
+      { type: 'complaint', messageId: 'c@reachinbox.app', recipient: 'c@example.com' },
+    ]);
+    expect(events).toHaveLength(3);
+  });
+
+  it('reads Postmark bounces and spam complaints', () => {
+    expect(
+      parseProviderWebhook({ RecordType: 'Bounce', Type: 'SoftBounce', MessageID: 'p-1', Email: 'a@example.com' })
+    ).toMatchObject([{ type: 'bounce', messageId: 'p-1', hard: false }]);
+    expect(
+      parseProviderWebhook({ RecordType: 'Bounce', Type: 'HardBounce', MessageID: 'p-2', Email: 'a@example.com' })
+    ).toMatchObject([{ type: 'bounce', messageId: 'p-2', hard: true }]);
+    expect(parseProviderWebhook({ RecordType: 'SpamComplaint', MessageID: 'p-3', Email: 'a@example.com' })).toEqual([
+      { type: 'complaint', messageId: 'p-3', recipient: 'a@example.com' },
+    ]);
+  });
+
+  it('reads a Mailgun permanent failure', () => {
+    const events = parseProviderWebhook({
+      'event-data': {
+        event: 'failed',
+        severity: 'permanent',
+        recipient: 'gone@example.com',
+        message: { headers: { 'message-id': 'mg-1@reachinbox.app' } },
+        'delivery-status': { code: 550, description: 'No such user' },
+      },
+    });
+
+    expect(events).toEqual([
+      {
+        type: 'bounce',
+        messageId: 'mg-1@reachinbox.app',
+        recipient: 'gone@example.com',
+        hard: true,
+        status: '550',
+        diagnostic: 'No such user',
+      },
+    ]);
+  });
+
+  it('reads the generic shape and ignores anything else', () => {
+    expect(parseProviderWebhook({ type: 'bounce', messageId: '<g@x>', bounceType: 'soft' })).toMatchObject([
+      { type: 'bounce', messageId: 'g@x', hard: false },
+    ]);
+    expect(parseProviderWebhook({ type: 'delivered', messageId: 'g@x' })).toEqual([]);
+    expect(parseProviderWebhook('text')).toEqual([]);
+  });
+});
+
+describe('confirmSnsSubscription', () => {
+  const confirmation = {
+    Type: 'SubscriptionConfirmation',
+    TopicArn: TOPIC_ARN,
+    SubscribeURL: 'https://sns.eu-west-1.amazonaws.com/?Action=ConfirmSubscription&Token=abc',
+  };
+
+  it('fetches the SubscribeURL of a topic in the same region', async () => {
+    const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(new Response('', { status: 200 }));
+
+    await expect(confirmSnsSubscription(confirmation)).resolves.toBe(TOPIC_ARN);
+    expect(String(fetchMock.mock.calls[0][0])).toBe(confirmation.SubscribeURL);
+  });
+
+  it.each([
+    ['a host outside SNS', { SubscribeURL: 'https://attacker.example.com/?Action=ConfirmSubscription' }],
+    ['a look-alike host', { SubscribeURL: 'https://sns.eu-west-1.amazonaws.com.attacker.example/' }],
+    ['another region', { SubscribeURL: 'https://sns.us-east-1.amazonaws.com/?Action=ConfirmSubscription' }],
+    ['plain http', { SubscribeURL: 'http://sns.eu-west-1.amazonaws.com/?Action=ConfirmSubscription' }],
+    ['no SubscribeURL', { SubscribeURL: undefined }],
+    ['an invalid TopicArn', { TopicArn: 'arn:aws:sqs:eu-west-1:123456789012:queue' }],
+  ])('refuses %s without fetching', async (_case, override) => {
+    const fetchMock = jest.spyOn(global, 'fetch');
+
+    await expect(confirmSnsSubscription({ ...confirmation, ...override })).rejects.toThrow(DeliveryReportError);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('fails when SNS does not accept the confirmation', async () => {
+    jest.spyOn(global, 'fetch').mockResolvedValue(new Response('', { status: 403 }));
+
+    await expect(confirmSnsSubscription(confirmation)).rejects.toThrow('SNS subscription confirmation failed (403)');
+  });
+
+  it('only confirms topics listed in SNS_TOPIC_ARNS when it is set', async () => {
+    process.env.SNS_TOPIC_ARNS = `${TOPIC_ARN}, arn:aws:sns:eu-west-1:123456789012:other`;
+    const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(new Response('', { status: 200 }));
+
+    try {
+      let isolated: typeof import('../bounceService') | undefined;
+      jest.isolateModules(() => {
+        isolated = require('../bounceService');
+      });
+
+      await expect(isolated!.confirmSnsSubscription(confirmation)).resolves.toBe(TOPIC_ARN);
+      await expect(
+        isolated!.confirmSnsSubscription({ ...confirmation, TopicArn: 'arn:aws:sns:eu-west-1:123456789012:unknown' })
+      ).rejects.toThrow('is not in SNS_TOPIC_ARNS');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    } finally {
+      delete process.env.SNS_TOPIC_ARNS;
+    }
+  });
+});
+
+describe('applyDeliveryEvent', () => {
+  const scheduleJob = { id: 'job-1', scheduleId: 's1', enrollmentId: null, userId: 'u1', recipient: 'a@example.com' };
+
+  it('suppresses a hard bounce and updates the schedule counts', async () => {
+    findEmailJob.mockResolvedValue(scheduleJob);
+    updateStatus.mockResolvedValue(true);
+
+    const outcome = await applyDeliveryEvent({ type: 'bounce', messageId: 'm', hard: true, status: '5.1.1' });
+
+    expect(outcome).toBe('applied');
+    expect(updateStatus).toHaveBeenCalledWith('job-1', 'bounced', {
+      errorMessage: 'Hard bounce',
+      errorCode: '5.1.1',
+      errorCategory: 'permanent',
+    });
+    expect(addSuppression).toHaveBeenCalledWith('u1', 'a@example.com', 'bounced');
+    expect(updateScheduleCounts).toHaveBeenCalledWith('s1');
+  });
+
+  it('only marks a soft bounce', async () => {
+    findEmailJob.mockResolvedValue(scheduleJob);
+    updateStatus.mockResolvedValue(true);
+
+    await applyDeliveryEvent({ type: 'bounce', messageId: 'm', hard: false });
+
+    expect(addSuppression).not.toHaveBeenCalled();
+  });
+
+  it('suppresses a complaint and moves the sequence enrollment on', async () => {
+    findEmailJob.mockResolvedValue({ ...scheduleJob, scheduleId: null, enrollmentId: 'e1' });
+
+    await applyDeliveryEvent({ type: 'complaint', messageId: 'm', recipient: 'b@example.com' });
+
+    expect(updateStatus).toHaveBeenCalledWith('job-1', 'complained');
+    expect(addSuppression).toHaveBeenCalledWith('u1', 'b@example.com', 'complained');
+    expect(updateEnrollmentProgress).toHaveBeenCalledWith('job-1');
+  });
+
+  it('ignores a bounce for an email that cannot become bounced', async () => {
+    findEmailJob.mockResolvedValue(scheduleJob);
+    updateStatus.mockResolvedValue(false);
+
+    expect(await applyDeliveryEvent({ type: 'bounce', messageId: 'm', hard: true })).toBe('ignored');
+    expect(addSuppression).not.toHaveBeenCalled();
+  });
+
+  it('reports a Message-ID it never sent as unmatched', async () => {
+    findEmailJob.mockResolvedValue(null);
+
+    expect(await applyDeliveryEvent({ type: 'complaint', messageId: 'm' })).toBe('unmatched');
+  });
+});
@@ -0,0 +1,161 @@
+import { getRedis } from '../../config/connections';
+import { createStubResolver, setDnsResolver } from '../resolvers';
+import {
+  isDisposableDomain,
+  isValidEmailSyntax,
+  suggestDomain,
+  summarizeVerifications,
+  verifyEmails,
+} from '../emailVerificationService';
+
+jest.mock('../../config/connections', () => {
+  const RedisMock = require('ioredis-mock');
+  const redis = new RedisMock();
+  return { getRedis: () => redis };
+});
+
+beforeEach(async () => {
+  await getRedis().flushall();
+  setDnsResolver(
+    createStubResolver({
+      'example.com': { mx: ['mx1.example.com'] },
+      'gmail.com': { mx: ['gmail-smtp-in.l.google.com'] },
+      'gmial.com': { mx: ['mx.gmial.com'] },
+      'mailinator.com': { mx: ['mail.mailinator.com'] },
+      'web-only.example': { a: ['203.0.113.7'] },
+      'nomail.example': { mx: ['.'] },
+      'gone.example': {},
+      'slow.example': { error: 'ETIMEOUT' },
+    })
+  );
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('isValidEmailSyntax', () => {
+  it.each([
+    ['a plain address', 'ada@example.com'],
+    ['atext and dots in the local part', "o'brien+news.x@mail.example.co.uk"],
+    ['a quoted local part', '"ada lovelace"@example.com'],
+    ['a punycode TLD', 'ada@example.xn--p1ai'],
+  ])('accepts %s', (_case, email) => {
+    expect(isValidEmailSyntax(email)).toBe(true);
+  });
+
+  it.each([
+    ['no local part', '@example.com'],
+    ['consecutive dots', 'ada..l@example.com'],
+    ['a local part over 64 characters', `${'a'.repeat(65)}@example.com`],
+    ['a bare host', 'ada@localhost'],
+    ['a numeric TLD', 'ada@example.123'],
+    ['a label starting with a hyphen', 'ada@-example.com'],
+    ['an address literal', 'ada@[192.0.2.1]'],
+    ['a space', 'ada lovelace@example.com'],
+  ])('rejects %s', (_case, email) => {
+    expect(isValidEmailSyntax(email)).toBe(false);
+  });
+});
+
+describe('isDisposableDomain', () => {
+  it('matches disposable services and their subdomains', () => {
+    expect(isDisposableDomain('Mailinator.com')).toBe(true);
+    expect(isDisposableDomain('eu.mailinator.com')).toBe(true);
+    expect(isDisposableDomain('notmailinator.com')).toBe(false);
+  });
+});
+
+describe('suggestDomain', () => {
+  it.each([
+    ['gmial.com', 'gmail.com'],
+    ['hotmial.com', 'hotmail.com'],
+    ['example.con', 'example.com'],
+    ['gmail.com', null],
+    ['aon.com', null],
+    ['example.org', null],
+  ])('suggests for %s: %s', (domain, suggestion) => {
+    expect(suggestDomain(domain)).toBe(suggestion);
+  });
+});
+
+describe('verifyEmails', () => {
+  it('rates each address by its syntax and domain', async () => {
+    const results = await verifyEmails([
+      ' Ada@Example.com',
+      'ada@example.com',
+      'not an address',
+      'grace@web-only.example',
+      'grace@nomail.example',
+      'grace@gone.example',
+      'grace@slow.example',
+      'throwaway@mailinator.com',
+      'ada@gmial.com',
+    ]);
+
+    expect([...results.values()]).toEqual([
+      { email: 'ada@example.com', status: 'valid', reasons: [] },
+      { email: 'not an address', status: 'invalid', reasons: ['syntax'] },
+      { email: 'grace@web-only.example', status: 'valid', reasons: [] },
+      { email: 'grace@nomail.example', status: 'invalid', reasons: ['null_mx'] },
+      { email: 'grace@gone.example', status: 'invalid', reasons: ['no_mail_server'] },
+      { email: 'grace@slow.example', status: 'unknown', reasons: ['dns_error'] },
+      { email: 'throwaway@mailinator.com', status: 'risky', reasons: ['disposable'] },
+      { email: 'ada@gmial.com', status: 'risky', reasons: ['possible_typo'], suggestion: 'ada@gmail.com' },
+    ]);
+  });
+
+  it('caches lookups per domain, but not failed ones', async () => {
+    const resolver = createStubResolver({ 'example.com': { mx: ['mx1.example.com'] }, '*': { error: 'ESERVFAIL' } });
+    const resolveMx = jest.spyOn(resolver, 'resolveMx');
+    setDnsResolver(resolver);
+
+    await verifyEmails(['ada@example.com', 'grace@example.com', 'ada@down.example']);
+    const again = await verifyEmails(['ada@example.com', 'ada@down.example']);
+
+    expect(resolveMx.mock.calls.map(([domain]) => domain)).toEqual(['example.com', 'down.example', 'down.example']);
+    expect(await getRedis().get('email-verify:domain:example.com')).toBe('mx');
+    expect(again.get('ada@example.com')?.status).toBe('valid');
+  });
+
+  it('gives up on domains still unchecked after EMAIL_VERIFY_TIMEOUT_MS', async () => {
+    const env = process.env;
+    process.env = { ...env, EMAIL_VERIFY_TIMEOUT_MS: '50', DNS_LOOKUP_CONCURRENCY: '1' };
+
+    try {
+      let verify!: typeof verifyEmails;
+      jest.isolateModules(() => {
+        const resolvers = require('../resolvers');
+        const stub = createStubResolver({ '*': { mx: ['mx.example.com'] } });
+        resolvers.setDnsResolver({
+          ...stub,
+          resolveMx: (domain: string) =>
+            domain === 'hanging.example' ? new Promise(() => undefined) : stub.resolveMx(domain),
+        });
+        verify = require('../emailVerificationService').verifyEmails;
+      });
+
+      const results = await verify(['ada@hanging.example', 'ada@example.com']);
+
+      expect(results.get('ada@hanging.example')?.status).toBe('unknown');
+      expect(results.get('ada@example.com')?.reasons).toEqual(['dns_error']);
+    } finally {
+      process.env = env;
+    }
+  });
+});
+
+describe('summarizeVerifications', () => {
+  it('counts each status and lists flagged results, invalid first', () => {
+    const summary = summarizeVerifications([
+      { email: 'a@x.com', status: 'unknown', reasons: ['dns_error'] },
+      { email: 'b@x.com', status: 'valid', reasons: [] },
+      { email: 'c@x.com', status: 'risky', reasons: ['disposable'] },
+      { email: 'd@x.com', status: 'invalid', reasons: ['syntax'] },
+    ]);
+
+    expect(summary).toMatchObject({ valid: 1, risky: 1, invalid: 1, unknown: 1 });
+    expect(summary.flagged.map((result) => result.email)).toEqual(['d@x.com', 'c@x.com', 'a@x.com']);
+  });
+});
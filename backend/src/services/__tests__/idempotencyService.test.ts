@@ -0,0 +1,219 @@
+import { Prisma } from '@prisma/client';
+import {
+  claimSend,
+  confirmSend,
+  discardSendClaim,
+  getSendRecord,
+  markSendStarted,
+  releaseClaim,
+  releaseSend,
+} from '../idempotencyService';
+
+type Row = {
+  emailJobId: string;
+  attemptId: string;
+  status: string;
+  claimedAt: Date;
+  messageId?: string;
+  startedAt?: Date;
+  sentAt?: Date;
+};
+type Where = { emailJobId: string; attemptId?: string; status?: string | { in: string[] } };
+
+const rows = new Map<string, Row>();
+
+function matches(row: Row | undefined, where: Where): row is Row {
+  if (!row) return false;
+  if (where.attemptId !== undefined && row.attemptId !== where.attemptId) return false;
+  if (typeof where.status === 'string') return row.status === where.status;
+  if (where.status) return where.status.in.includes(row.status);
+  return true;
+}
+
+// Just enough of prisma.sendRecord for the send claim, with emailJobId unique
+jest.mock('../../config/prisma', () => ({
+  __esModule: true,
+  default: {
+    sendRecord: {
+      create: jest.fn(async ({ data }: { data: { emailJobId: string; attemptId: string } }) => {
+        if (rows.has(data.emailJobId)) {
+          throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+            code: 'P2002',
+            clientVersion: 'test',
+          });
+        }
+        const row = { ...data, status: 'claimed', claimedAt: new Date() };
+        rows.set(data.emailJobId, row);
+        return row;
+      }),
+      findUnique: jest.fn(async ({ where }: { where: Where }) => rows.get(where.emailJobId) ?? null),
+      updateMany: jest.fn(async ({ where, data }: { where: Where; data: Partial<Row> }) => {
+        const row = rows.get(where.emailJobId);
+        if (!matches(row, where)) return { count: 0 };
+        Object.assign(row, data);
+        return { count: 1 };
+      }),
+      upsert: jest.fn(async ({ where, create, update }: { where: Where; create: Row; update: Partial<Row> }) => {
+        const row = rows.get(where.emailJobId);
+        if (row) return Object.assign(row, update);
+        rows.set(where.emailJobId, { ...create, claimedAt: new Date() });
+        return rows.get(where.emailJobId);
+      }),
+      deleteMany: jest.fn(async ({ where }: { where: Where }) => {
+        if (!matches(rows.get(where.emailJobId), where)) return { count: 0 };
+        rows.delete(where.emailJobId);
+        return { count: 1 };
+      }),
+    },
+  },
+}));
+
+const START = Date.UTC(2030, 0, 1, 10, 0, 0);
+let now = START;
+
+beforeEach(() => {
+  rows.clear();
+  now = START;
+  jest.spyOn(Date, 'now').mockImplementation(() => now);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+// new Date() ignores the Date.now spy, so claims are dated explicitly
+function age(emailJobId: string, ms: number) {
+  rows.get(emailJobId)!.claimedAt = new Date(now - ms);
+}
+
+describe('claimSend', () => {
+  it('claims a job nobody has tried yet', async () => {
+    expect(await claimSend('job-1', 'a')).toBe('claimed');
+    expect(rows.get('job-1')).toMatchObject({ status: 'claimed', attemptId: 'a' });
+  });
+
+  it('reports a confirmed job as sent', async () => {
+    await claimSend('job-1', 'a');
+    await markSendStarted('job-1', 'a');
+    await confirmSend('job-1', 'a', '<id@mail>');
+
+    expect(await claimSend('job-1', 'b')).toBe('sent');
+  });
+
+  it('reports a job as in doubt once the transport has been called', async () => {
+    await claimSend('job-1', 'a');
+    await markSendStarted('job-1', 'a');
+
+    expect(await claimSend('job-1', 'b')).toBe('in-doubt');
+  });
+
+  it("reports another attempt's fresh claim as busy", async () => {
+    await claimSend('job-1', 'a');
+    age('job-1', 1000);
+
+    expect(await claimSend('job-1', 'b')).toBe('busy');
+    expect(rows.get('job-1')?.attemptId).toBe('a');
+  });
+
+  it('takes over a stale claim that never reached the transport', async () => {
+    await claimSend('job-1', 'a');
+    age('job-1', 5 * 60 * 1000);
+
+    expect(await claimSend('job-1', 'b')).toBe('claimed');
+    expect(rows.get('job-1')?.attemptId).toBe('b');
+
+    // The stalled attempt can no longer start the send
+    expect(await markSendStarted('job-1', 'a')).toBe(false);
+    expect(await markSendStarted('job-1', 'b')).toBe(true);
+  });
+
+  it('claims again after the transport rejected the email', async () => {
+    await claimSend('job-1', 'a');
+    await markSendStarted('job-1', 'a');
+    await releaseSend('job-1', 'a');
+
+    expect(await claimSend('job-1', 'b')).toBe('claimed');
+  });
+});
+
+describe('markSendStarted', () => {
+  it('lets the holder start only once', async () => {
+    await claimSend('job-1', 'a');
+
+    expect(await markSendStarted('job-1', 'a')).toBe(true);
+    expect(await markSendStarted('job-1', 'a')).toBe(false);
+    expect(rows.get('job-1')?.startedAt).toBeInstanceOf(Date);
+  });
+
+  it('does not start a job that has no claim', async () => {
+    expect(await markSendStarted('job-1', 'a')).toBe(false);
+  });
+});
+
+describe('confirmSend', () => {
+  it('stores the message id and send time', async () => {
+    await claimSend('job-1', 'a');
+    await markSendStarted('job-1', 'a');
+    await confirmSend('job-1', 'a', '<id@mail>');
+
+    expect(await getSendRecord('job-1')).toMatchObject({
+      status: 'sent',
+      messageId: '<id@mail>',
+      sentAt: expect.any(Date),
+    });
+  });
+
+  it('records the send even if the claim has gone', async () => {
+    await claimSend('job-1', 'a');
+    await markSendStarted('job-1', 'a');
+    await discardSendClaim('job-1');
+
+    await confirmSend('job-1', 'a', '<id@mail>');
+
+    expect(await claimSend('job-1', 'b')).toBe('sent');
+  });
+});
+
+describe('releaseClaim', () => {
+  it("never releases another attempt's claim", async () => {
+    await claimSend('job-1', 'a');
+    await releaseClaim('job-1', 'b');
+
+    expect(rows.get('job-1')?.attemptId).toBe('a');
+  });
+
+  it('never releases a claim whose transport call has started', async () => {
+    await claimSend('job-1', 'a');
+    await markSendStarted('job-1', 'a');
+    await releaseClaim('job-1', 'a');
+
+    expect(await claimSend('job-1', 'b')).toBe('in-doubt');
+  });
+
+  it('frees a skipped claim for the next attempt', async () => {
+    await claimSend('job-1', 'a');
+    await releaseClaim('job-1', 'a');
+
+    expect(await claimSend('job-1', 'b')).toBe('claimed');
+  });
+});
+
+describe('releaseSend', () => {
+  it("never releases another attempt's send", async () => {
+    await claimSend('job-1', 'a');
+    await markSendStarted('job-1', 'a');
+    await releaseSend('job-1', 'b');
+
+    expect(await claimSend('job-1', 'b')).toBe('in-doubt');
+  });
+
+  it('never releases a sent job', async () => {
+    await claimSend('job-1', 'a');
+    await markSendStarted('job-1', 'a');
+    await confirmSend('job-1', 'a');
+    await releaseSend('job-1', 'a');
+    await discardSendClaim('job-1');
+
+    expect(await claimSend('job-1', 'b')).toBe('sent');
+  });
+});
@@ -0,0 +1,89 @@
+import {
+  findMissingVariables,
+  getRequiredVariables,
+  normalizeRecipients,
+  parseTemplate,
+  renderTemplate,
+  TemplateSyntaxError,
+} from '../personalizationService';
+
+describe('renderTemplate', () => {
+  it('fills values and falls back to defaults for empty ones', () => {
+    const template = 'Hi {{firstName | "there"}}, welcome to {{ company }}';
+
+    expect(renderTemplate(template, { firstName: 'Ada', company: 'Acme' })).toBe('Hi Ada, welcome to Acme');
+    expect(renderTemplate(template, { firstName: '  ', company: 'Acme' })).toBe('Hi there, welcome to Acme');
+  });
+
+  it('renders the branch of a conditional that matches, nested or not', () => {
+    const template = '{{#if company}}At {{company}}{{#if role}} as {{role}}{{/if}}{{else}}Solo{{/if}}';
+
+    expect(renderTemplate(template, { company: 'Acme', role: 'CTO' })).toBe('At Acme as CTO');
+    expect(renderTemplate(template, { company: 'Acme' })).toBe('At Acme');
+    expect(renderTemplate(template, {})).toBe('Solo');
+  });
+
+  it('escapes values, but not the template, when rendering html', () => {
+    const html = renderTemplate('<p>{{name}}</p>', { name: '<script>"x" & \'y\'</script>' }, { html: true });
+
+    expect(html).toBe('<p>&lt;script&gt;&quot;x&quot; &amp; &#39;y&#39;&lt;/script&gt;</p>');
+  });
+
+  it('never reads merge fields from Object.prototype', () => {
+    const template = '[{{constructor}}][{{toString | "none"}}]{{#if hasOwnProperty}}yes{{else}}no{{/if}}';
+
+    expect(renderTemplate(template, {})).toBe('[][none]no');
+  });
+});
+
+describe('parseTemplate', () => {
+  it.each([
+    ['{{else}}', '{{else}} without a matching {{#if}}'],
+    ['{{#if a}}x{{else}}y{{else}}z{{/if}}', '{{else}} without a matching {{#if}}'],
+    ['{{/if}}', '{{/if}} without a matching {{#if}}'],
+    ['{{#if a}}x', 'Unclosed {{#if a}}'],
+    ['{{first name}}', 'Invalid merge field: {{first name}}'],
+  ])('rejects %s', (template, message) => {
+    expect(() => parseTemplate(template)).toThrow(new TemplateSyntaxError(message));
+  });
+});
+
+describe('getRequiredVariables', () => {
+  it('requires fields without a default that are not guarded by their own conditional', () => {
+    const subject = 'Hi {{firstName}} {{lastName | ""}}';
+    const body = '{{#if company}}{{company}} and {{city}}{{else}}{{country}}{{/if}}';
+
+    expect(getRequiredVariables(subject, body).sort()).toEqual(['city', 'country', 'firstName']);
+  });
+});
+
+describe('findMissingVariables', () => {
+  it('lists the required fields each recipient lacks', () => {
+    const recipients = normalizeRecipients([
+      { email: ' ada@example.com ', firstName: 'Ada', city: 'London' },
+      { email: 'grace@example.com', firstName: ' ' },
+      'alan@example.com',
+    ]);
+
+    expect(findMissingVariables(['firstName', 'city'], recipients)).toEqual([
+      { recipient: 'grace@example.com', missing: ['firstName', 'city'] },
+      { recipient: 'alan@example.com', missing: ['firstName', 'city'] },
+    ]);
+  });
+
+  it('does not count an inherited property as a value', () => {
+    const recipients = normalizeRecipients([{ email: 'ada@example.com' }]);
+
+    expect(findMissingVariables(['constructor'], recipients)).toEqual([
+      { recipient: 'ada@example.com', missing: ['constructor'] },
+    ]);
+  });
+});
+
+describe('normalizeRecipients', () => {
+  it('trims values, drops empty ones and always sets email', () => {
+    expect(normalizeRecipients([{ email: ' ada@example.com ', firstName: ' Ada ', age: 36, company: null }])).toEqual([
+      { email: 'ada@example.com', variables: { firstName: 'Ada', age: '36', email: 'ada@example.com' } },
+    ]);
+  });
+});
@@ -0,0 +1,217 @@
+import { getRedis } from '../../config/connections';
+import prisma from '../../config/prisma';
+import {
+  buildRateLimitRules,
+  getHourWindow,
+  getNextHourWindow,
+  RateLimitAlgorithm,
+  RateLimitRule,
+  releaseRateLimits,
+  reserveRateLimits,
+  reserveScheduleSendSlot,
+} from '../rateLimitService';
+
+jest.mock('../../config/connections', () => {
+  const RedisMock = require('ioredis-mock');
+  const redis = new RedisMock();
+  return { getRedis: () => redis };
+});
+
+jest.mock('../../config/prisma', () => ({
+  __esModule: true,
+  default: {
+    rateLimitCounter: {
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+    },
+  },
+}));
+
+const HOUR_MS = 60 * 60 * 1000;
+// 10:15 UTC, so the fixed window ends at 11:00
+const START = Date.UTC(2030, 0, 1, 10, 15, 0);
+
+const counters = prisma.rateLimitCounter as unknown as { findUnique: jest.Mock; upsert: jest.Mock };
+let now = START;
+
+function rule(key: string, limit: number, algorithm: RateLimitAlgorithm, scope: RateLimitRule['scope'] = 'schedule') {
+  return { scope, key, limit, algorithm };
+}
+
+async function reserveTimes(rules: RateLimitRule[], times: number) {
+  return Promise.all(Array.from({ length: times }, () => reserveRateLimits(rules)));
+}
+
+beforeEach(async () => {
+  now = START;
+  jest.spyOn(Date, 'now').mockImplementation(() => now);
+  counters.findUnique.mockResolvedValue(null);
+  counters.upsert.mockResolvedValue({});
+  await getRedis().flushall();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('reserveRateLimits', () => {
+  describe.each<RateLimitAlgorithm>(['fixed-window', 'sliding-window', 'token-bucket'])('%s', (algorithm) => {
+    it('lets concurrent sends through up to the limit and no further', async () => {
+      const results = await reserveTimes([rule('schedule:a', 3, algorithm)], 10);
+
+      expect(results.filter((result) => result.canSend)).toHaveLength(3);
+      expect(results.filter((result) => !result.canSend)).toHaveLength(7);
+    });
+
+    it('frees a slot when a reservation is released', async () => {
+      const rules = [rule('schedule:a', 2, algorithm)];
+      const [first] = await reserveTimes(rules, 2);
+
+      expect((await reserveRateLimits(rules)).canSend).toBe(false);
+
+      await releaseRateLimits(first.reservation!);
+
+      expect((await reserveRateLimits(rules)).canSend).toBe(true);
+    });
+  });
+
+  it('takes no slot in any rule when one of them is exhausted', async () => {
+    const schedule = rule('schedule:a', 1, 'fixed-window');
+    const user = rule('user:u', 5, 'sliding-window', 'user');
+    const sender = rule('ada@example.com', 5, 'token-bucket', 'sender');
+
+    expect((await reserveRateLimits([schedule, user, sender])).canSend).toBe(true);
+
+    const blocked = await reserveRateLimits([schedule, user, sender]);
+
+    expect(blocked.canSend).toBe(false);
+    expect(blocked.reservation).toBeNull();
+    expect(blocked.blockedBy).toMatchObject({ scope: 'schedule', currentCount: 1, limit: 1 });
+
+    // The user and sender limits still have 4 slots each, not 3
+    const results = await reserveTimes([user, sender], 5);
+    expect(results.filter((result) => result.canSend)).toHaveLength(4);
+  });
+
+  it('holds a fixed-window send until the next hour', async () => {
+    await reserveRateLimits([rule('schedule:a', 1, 'fixed-window')]);
+
+    const blocked = await reserveRateLimits([rule('schedule:a', 1, 'fixed-window')]);
+
+    expect(blocked.nextAllowedTime.getTime()).toBe(getNextHourWindow(getHourWindow(new Date(START))).getTime());
+  });
+
+  it('continues a fixed-window count from the database when the Redis key is gone', async () => {
+    counters.findUnique.mockResolvedValue({ count: 4 });
+    const rules = [rule('ada@example.com', 5, 'fixed-window', 'sender')];
+
+    expect((await reserveRateLimits(rules)).canSend).toBe(true);
+    expect(await reserveRateLimits(rules)).toMatchObject({ canSend: false, blockedBy: { currentCount: 5 } });
+    expect(counters.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ create: { hour: getHourWindow(new Date(START)), sender: 'ada@example.com', count: 5 } })
+    );
+  });
+
+  it('holds a sliding-window send until the oldest send leaves the window', async () => {
+    const rules = [rule('schedule:a', 2, 'sliding-window')];
+    await reserveRateLimits(rules);
+    now += 10 * 60 * 1000;
+    await reserveRateLimits(rules);
+    now += 10 * 60 * 1000;
+
+    const blocked = await reserveRateLimits(rules);
+
+    expect(blocked.canSend).toBe(false);
+    expect(blocked.nextAllowedTime.getTime()).toBe(START + HOUR_MS);
+
+    now = START + HOUR_MS + 1;
+    expect((await reserveRateLimits(rules)).canSend).toBe(true);
+  });
+
+  it('refills a token bucket evenly over the hour', async () => {
+    const rules = [rule('schedule:a', 4, 'token-bucket')];
+    await reserveTimes(rules, 4);
+
+    const blocked = await reserveRateLimits(rules);
+
+    // One token comes back every quarter of an hour, rounded up to the next millisecond
+    expect(blocked.canSend).toBe(false);
+    expect(blocked.nextAllowedTime.getTime() - START).toBeGreaterThanOrEqual(HOUR_MS / 4);
+    expect(blocked.nextAllowedTime.getTime() - START).toBeLessThanOrEqual(HOUR_MS / 4 + 1);
+
+    now = blocked.nextAllowedTime.getTime();
+    expect((await reserveRateLimits(rules)).canSend).toBe(true);
+    expect((await reserveRateLimits(rules)).canSend).toBe(false);
+  });
+
+  it('gives held-back sends their own slots an even share of the hour apart', async () => {
+    const rules = [rule('schedule:a', 4, 'fixed-window')];
+    await reserveTimes(rules, 4);
+
+    const blocked = await reserveTimes(rules, 3);
+    const nextHour = getNextHourWindow(getHourWindow(new Date(START))).getTime();
+
+    expect(blocked.map((result) => result.nextAllowedTime.getTime())).toEqual([
+      nextHour,
+      nextHour + HOUR_MS / 4,
+      nextHour + HOUR_MS / 2,
+    ]);
+  });
+});
+
+describe('buildRateLimitRules', () => {
+  it('keys the global limit once for every sender, beside a per-sender limit', () => {
+    const options = {
+      scheduleId: 's1',
+      scheduleLimit: 10,
+      scheduleAlgorithm: 'fixed-window' as const,
+      userId: 'u1',
+      userLimit: 20,
+      userAlgorithm: 'fixed-window' as const,
+      sender: 'ada@example.com',
+      senderLimit: 30,
+      senderAlgorithm: 'fixed-window' as const,
+      globalLimit: 40,
+      globalAlgorithm: 'fixed-window' as const,
+    };
+
+    const rules = buildRateLimitRules(options);
+    const otherSender = buildRateLimitRules({ ...options, sender: 'grace@example.com' });
+
+    expect(rules.map((r) => [r.scope, r.key, r.limit])).toEqual([
+      ['schedule', 'schedule:s1', 10],
+      ['user', 'user:u1', 20],
+      ['sender', 'ada@example.com', 30],
+      ['global', 'global', 40],
+    ]);
+    expect(otherSender[3].key).toBe(rules[3].key);
+  });
+});
+
+describe('reserveScheduleSendSlot', () => {
+  it('gives each waiting job its own slot delayMs after the previous one', async () => {
+    const waits = [];
+    for (const jobId of ['a', 'b', 'c']) {
+      waits.push(await reserveScheduleSendSlot('s1', jobId, 2000));
+    }
+
+    expect(waits).toEqual([0, 2000, 4000]);
+  });
+
+  it('lets a job send when it wakes at its slot, without handing it a new one', async () => {
+    await reserveScheduleSendSlot('s1', 'a', 2000);
+    await reserveScheduleSendSlot('s1', 'b', 2000);
+
+    now += 1000;
+    expect(await reserveScheduleSendSlot('s1', 'b', 2000)).toBe(1000);
+
+    now += 1000;
+    expect(await reserveScheduleSendSlot('s1', 'b', 2000)).toBe(0);
+    expect(await reserveScheduleSendSlot('s1', 'c', 2000)).toBe(2000);
+  });
+
+  it('never holds a schedule without a gap', async () => {
+    expect(await reserveScheduleSendSlot('s1', 'a', 0)).toBe(0);
+    expect(await reserveScheduleSendSlot('s1', 'b', 0)).toBe(0);
+  });
+});
@@ -0,0 +1,173 @@
+import { Readable } from 'stream';
+import ExcelJS from 'exceljs';
+import prisma from '../../config/prisma';
+import { getSuppressedAddresses } from '../suppressionService';
+import {
+  detectImportFormat,
+  getImportedRecipients,
+  importRecipients,
+  isRoleAccount,
+  RecipientImportError,
+} from '../recipientImportService';
+
+jest.mock('../../config/prisma', () => ({
+  __esModule: true,
+  default: { recipientImport: { create: jest.fn(), findFirst: jest.fn() } },
+}));
+jest.mock('../suppressionService', () => ({ getSuppressedAddresses: jest.fn() }));
+
+const recipientImports = prisma.recipientImport as unknown as { create: jest.Mock; findFirst: jest.Mock };
+
+beforeEach(() => {
+  (getSuppressedAddresses as jest.Mock).mockResolvedValue(new Set());
+  recipientImports.create.mockImplementation(async ({ data }) => ({
+    ...data,
+    id: 'imp-1',
+    createdAt: new Date('2030-01-01T00:00:00.000Z'),
+  }));
+});
+
+afterEach(() => {
+  jest.resetAllMocks();
+});
+
+function importCsv(text: string) {
+  return importRecipients('u1', Readable.from([Buffer.from(text)]), { filename: 'list.csv', format: 'csv' });
+}
+
+// Recipients as stored for scheduling
+function storedRecipients(): Array<Record<string, string>> {
+  return JSON.parse(recipientImports.create.mock.calls[0][0].data.recipients);
+}
+
+describe('importRecipients', () => {
+  it('skips title rows above the header and sorts every row', async () => {
+    (getSuppressedAddresses as jest.Mock).mockResolvedValue(new Set(['gone@example.com']));
+
+    const report = await importCsv(
+      [
+        'Conference attendees',
+        '',
+        'First Name,E-mail Address,Company',
+        'Ada,Ada Lovelace <ADA@example.com>,Analytical',
+        'Grace,mailto:grace@example.com,',
+        'Ada again,ada@example.com,Analytical',
+        'Nobody,not-an-address,',
+        'Support,support@example.com,Acme',
+        'Gone,gone@example.com,',
+      ].join('\n')
+    );
+
+    expect(report).toMatchObject({
+      id: 'imp-1',
+      headerRow: 3,
+      emailColumn: 'E-mail Address',
+      fields: ['firstName', 'company'],
+      totalRows: 6,
+      valid: 3,
+      duplicates: { count: 1, rows: [{ row: 6, email: 'ada@example.com' }] },
+      invalid: { count: 1, rows: [{ row: 7, email: 'not-an-address' }] },
+      roleAccounts: { count: 1, rows: [{ row: 8, email: 'support@example.com' }] },
+      suppressed: { count: 1, rows: [{ row: 9, email: 'gone@example.com' }] },
+    });
+    expect(storedRecipients()).toEqual([
+      { firstName: 'Ada', company: 'Analytical', email: 'ada@example.com' },
+      { firstName: 'Grace', email: 'grace@example.com' },
+      { firstName: 'Support', company: 'Acme', email: 'support@example.com' },
+    ]);
+  });
+
+  it('finds the email column of a file without a header', async () => {
+    const report = await importCsv('Ada;ada@example.com\nGrace;grace@example.com\n');
+
+    expect(report).toMatchObject({ headerRow: null, emailColumn: 'column 2', fields: [], valid: 2 });
+    expect(storedRecipients()).toEqual([{ email: 'ada@example.com' }, { email: 'grace@example.com' }]);
+  });
+
+  it('takes an unnamed first row as the header when every row below holds an address', async () => {
+    const rows = Array.from({ length: 12 }, (_, i) => `Person ${i}\tperson${i}@example.com`);
+    const report = await importCsv(['Name\tContact', ...rows].join('\n'));
+
+    expect(report).toMatchObject({ headerRow: 1, emailColumn: 'Contact', fields: ['name'], valid: 12 });
+  });
+
+  it('rejects a file without any addresses', async () => {
+    await expect(importCsv('name,city\nAda,London\n')).rejects.toThrow(
+      new RecipientImportError('No email column found in the file')
+    );
+    expect(recipientImports.create).not.toHaveBeenCalled();
+  });
+
+  it('reads the first worksheet of an XLSX file', async () => {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('People');
+    sheet.addRow(['Email', 'First name']);
+    sheet.addRow(['ada@example.com', 'Ada']);
+    sheet.addRow([
+      { text: 'grace@example.com', hyperlink: 'mailto:grace@example.com' },
+      { richText: [{ text: 'Grace' }] },
+    ]);
+    workbook.addWorksheet('Other').addRow(['Email', 'ignored@example.com']);
+    const buffer = Buffer.from(await workbook.xlsx.writeBuffer());
+
+    const report = await importRecipients('u1', Readable.from([buffer]), { filename: 'list.xlsx', format: 'xlsx' });
+
+    expect(report).toMatchObject({ format: 'xlsx', headerRow: 1, emailColumn: 'Email', valid: 2 });
+    expect(storedRecipients()).toEqual([
+      { firstName: 'Ada', email: 'ada@example.com' },
+      { firstName: 'Grace', email: 'grace@example.com' },
+    ]);
+  });
+
+  it('reports a file that is not a workbook', async () => {
+    await expect(
+      importRecipients('u1', Readable.from([Buffer.from('not a zip')]), { filename: 'list.xlsx', format: 'xlsx' })
+    ).rejects.toThrow(RecipientImportError);
+  });
+
+  it('passes on an error of the upload stream', async () => {
+    const input = new Readable({ read() {} });
+    const imported = importRecipients('u1', input, { filename: 'list.csv', format: 'csv' });
+    input.push('email\nada@example.com\n');
+    input.destroy(new Error('File too large'));
+
+    await expect(imported).rejects.toThrow('File too large');
+  });
+});
+
+describe('getImportedRecipients', () => {
+  it('leaves out role accounts when asked', async () => {
+    recipientImports.findFirst.mockResolvedValue({
+      recipients: JSON.stringify([{ email: 'ada@example.com' }, { email: 'info@example.com' }]),
+    });
+
+    expect(await getImportedRecipients('u1', 'imp-1')).toHaveLength(2);
+    expect(await getImportedRecipients('u1', 'imp-1', { skipRoleAccounts: true })).toEqual([
+      { email: 'ada@example.com' },
+    ]);
+  });
+
+  it("returns null for another user's import", async () => {
+    recipientImports.findFirst.mockResolvedValue(null);
+
+    expect(await getImportedRecipients('u2', 'imp-1')).toBeNull();
+    expect(recipientImports.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'imp-1', userId: 'u2' } })
+    );
+  });
+});
+
+describe('detectImportFormat', () => {
+  it('goes by the extension, then the MIME type', () => {
+    expect(detectImportFormat('list.XLSX', 'application/octet-stream')).toBe('xlsx');
+    expect(detectImportFormat('list', 'text/csv')).toBe('csv');
+    expect(detectImportFormat('list.pdf', 'application/pdf')).toBeNull();
+  });
+});
+
+describe('isRoleAccount', () => {
+  it('matches shared mailboxes by their local part', () => {
+    expect(isRoleAccount('Info@example.com')).toBe(true);
+    expect(isRoleAccount('ada@info.example.com')).toBe(false);
+  });
+});
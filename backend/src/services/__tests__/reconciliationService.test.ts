@@ -0,0 +1,157 @@
+import prisma from '../../config/prisma';
+import { getQueue, scheduleEmailJob } from '../queueService';
+import { updateEmailJobStatus, updateScheduleCounts } from '../emailService';
+import { getSendRecord } from '../idempotencyService';
+import { addDeadLetter } from '../deadLetterService';
+import { updateEnrollmentProgress } from '../sequenceService';
+import { reconcileEmailJobs } from '../reconciliationService';
+
+jest.mock('../../config/connections', () => ({ getRedis: jest.fn() }));
+jest.mock('../../config/prisma', () => ({
+  __esModule: true,
+  default: { emailJob: { findMany: jest.fn(), update: jest.fn() } },
+}));
+jest.mock('../queueService', () => ({ getQueue: jest.fn(), scheduleEmailJob: jest.fn() }));
+jest.mock('../emailService', () => ({ updateEmailJobStatus: jest.fn(), updateScheduleCounts: jest.fn() }));
+jest.mock('../idempotencyService', () => ({ getSendRecord: jest.fn() }));
+jest.mock('../deadLetterService', () => ({ addDeadLetter: jest.fn() }));
+jest.mock('../sequenceService', () => ({ updateEnrollmentProgress: jest.fn() }));
+
+const emailJobs = prisma.emailJob as unknown as { findMany: jest.Mock; update: jest.Mock };
+const queueJobs = new Map<string, Record<string, unknown>>();
+
+function emailJob(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'ej-1',
+    jobId: 'job-1',
+    scheduleId: 'schedule-1',
+    enrollmentId: null,
+    userId: 'user-1',
+    recipient: 'ada@example.com',
+    subject: 'Hello',
+    body: 'Hi',
+    status: 'queued',
+    schedule: { attachments: null },
+    ...overrides,
+  };
+}
+
+function queueJob(state: string, overrides: Record<string, unknown> = {}) {
+  queueJobs.set('job-1', {
+    attemptsMade: 0,
+    data: { emailJobId: 'ej-1', recipient: 'ada@example.com' },
+    getState: async () => state,
+    ...overrides,
+  });
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  queueJobs.clear();
+  (getQueue as jest.Mock).mockReturnValue({ getJob: async (id: string) => queueJobs.get(id) });
+  (getSendRecord as jest.Mock).mockResolvedValue(null);
+  (updateEmailJobStatus as jest.Mock).mockResolvedValue(true);
+  (scheduleEmailJob as jest.Mock).mockResolvedValue('job-2');
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('reconcileEmailJobs', () => {
+  it('marks a job sent when its send record says it went out', async () => {
+    const sentAt = new Date('2030-01-01T10:00:00Z');
+    emailJobs.findMany.mockResolvedValue([emailJob({ status: 'sending' })]);
+    (getSendRecord as jest.Mock).mockResolvedValue({ status: 'sent', sentAt, messageId: '<id@mail>' });
+
+    expect(await reconcileEmailJobs()).toEqual({ checked: 1, repaired: 1 });
+    expect(updateEmailJobStatus).toHaveBeenCalledWith('ej-1', 'sent', { sentTime: sentAt, messageId: '<id@mail>' });
+    expect(updateScheduleCounts).toHaveBeenCalledWith('schedule-1');
+  });
+
+  it('marks a job sent when BullMQ completed it successfully', async () => {
+    emailJobs.findMany.mockResolvedValue([emailJob({ status: 'sending' })]);
+    queueJob('completed', { returnvalue: { success: true, messageId: '<id@mail>' }, finishedOn: 1000 });
+
+    await reconcileEmailJobs();
+
+    expect(updateEmailJobStatus).toHaveBeenCalledWith('ej-1', 'sent', {
+      sentTime: new Date(1000),
+      messageId: '<id@mail>',
+    });
+  });
+
+  it('fails a job BullMQ gave up on and dead-letters it', async () => {
+    emailJobs.findMany.mockResolvedValue([emailJob({ status: 'retrying' })]);
+    queueJob('failed', { failedReason: 'Connection refused' });
+
+    await reconcileEmailJobs();
+
+    expect(updateEmailJobStatus).toHaveBeenCalledWith('ej-1', 'failed', { errorMessage: 'Connection refused' });
+    expect(addDeadLetter).toHaveBeenCalledWith(
+      expect.objectContaining({ emailJobId: 'ej-1' }),
+      [expect.objectContaining({ message: 'Connection refused' })]
+    );
+  });
+
+  it('does not dead-letter a failed job whose row another update already moved on', async () => {
+    emailJobs.findMany.mockResolvedValue([emailJob({ status: 'retrying' })]);
+    queueJob('failed', { failedReason: 'Connection refused' });
+    (updateEmailJobStatus as jest.Mock).mockResolvedValue(false);
+
+    expect(await reconcileEmailJobs()).toEqual({ checked: 1, repaired: 0 });
+    expect(addDeadLetter).not.toHaveBeenCalled();
+  });
+
+  it('puts a row stuck in sending back to retrying while its job waits for another attempt', async () => {
+    emailJobs.findMany.mockResolvedValue([emailJob({ status: 'sending' })]);
+    queueJob('delayed', { attemptsMade: 1 });
+
+    await reconcileEmailJobs();
+
+    expect(updateEmailJobStatus).toHaveBeenCalledWith('ej-1', 'retrying');
+  });
+
+  it('leaves a job alone while a worker has it', async () => {
+    emailJobs.findMany.mockResolvedValue([emailJob({ status: 'sending' })]);
+    queueJob('active');
+
+    expect(await reconcileEmailJobs()).toEqual({ checked: 1, repaired: 0 });
+    expect(updateEmailJobStatus).not.toHaveBeenCalled();
+    expect(scheduleEmailJob).not.toHaveBeenCalled();
+  });
+
+  it('fails rather than resends a lost job whose transport call had started', async () => {
+    emailJobs.findMany.mockResolvedValue([emailJob({ status: 'sending' })]);
+    (getSendRecord as jest.Mock).mockResolvedValue({ status: 'sending' });
+
+    await reconcileEmailJobs();
+
+    expect(updateEmailJobStatus).toHaveBeenCalledWith('ej-1', 'failed', {
+      errorMessage: 'Queue job lost while sending; delivery unknown',
+    });
+    expect(addDeadLetter).toHaveBeenCalled();
+    expect(scheduleEmailJob).not.toHaveBeenCalled();
+  });
+
+  it('queues a lost job again when it never reached the transport', async () => {
+    emailJobs.findMany.mockResolvedValue([emailJob({ status: 'sending' })]);
+    (getSendRecord as jest.Mock).mockResolvedValue({ status: 'claimed' });
+
+    await reconcileEmailJobs();
+
+    expect(scheduleEmailJob).toHaveBeenCalledWith(expect.objectContaining({ emailJobId: 'ej-1', recipient: 'ada@example.com' }));
+    expect(emailJobs.update).toHaveBeenCalledWith({ where: { id: 'ej-1' }, data: { status: 'queued', jobId: 'job-2' } });
+    expect(updateEmailJobStatus).not.toHaveBeenCalled();
+  });
+
+  it('updates sequence progress for sequence emails instead of schedule counts', async () => {
+    emailJobs.findMany.mockResolvedValue([emailJob({ scheduleId: null, enrollmentId: 'enr-1', schedule: null })]);
+
+    await reconcileEmailJobs();
+
+    expect(updateEnrollmentProgress).toHaveBeenCalledWith('ej-1');
+    expect(updateScheduleCounts).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,131 @@
+import {
+  getNextOccurrence,
+  getUpcomingOccurrences,
+  isUpcomingOccurrence,
+  parseRecurrence,
+  RecurrenceError,
+} from '../recurrenceService';
+
+jest.mock('../../config/prisma', () => ({ __esModule: true, default: {} }));
+
+// Wednesday 10:00 UTC
+const NOW = new Date('2030-01-02T10:00:00.000Z');
+
+function series(rule: string, timezone = 'UTC', overrides: Partial<{ maxOccurrences: number; occurrenceCount: number }> = {}) {
+  const recurrence = parseRecurrence({ rule, timezone });
+  return {
+    recurrenceRule: recurrence.rule,
+    timezone: recurrence.timezone,
+    recurrenceEndsAt: recurrence.endsAt,
+    maxOccurrences: overrides.maxOccurrences ?? recurrence.maxOccurrences,
+    occurrenceCount: overrides.occurrenceCount ?? 0,
+  };
+}
+
+function nextOccurrences(rule: string, count: number, timezone = 'UTC'): string[] {
+  const schedule = series(rule, timezone);
+  const first = getNextOccurrence(schedule, NOW)!;
+  return getUpcomingOccurrences({ ...schedule, nextOccurrenceAt: first, skippedOccurrences: null }, count).map(
+    (occurrence) => occurrence.at
+  );
+}
+
+describe('parseRecurrence', () => {
+  it('turns RRULE COUNT and UNTIL into end conditions', () => {
+    expect(parseRecurrence({ rule: 'FREQ=DAILY;COUNT=3' })).toMatchObject({ maxOccurrences: 3, endsAt: null });
+    expect(parseRecurrence({ rule: 'RRULE:FREQ=DAILY;UNTIL=20300110T120000Z' })).toMatchObject({
+      endsAt: new Date('2030-01-10T12:00:00.000Z'),
+      maxOccurrences: null,
+    });
+  });
+
+  it('lets explicit end conditions win over the RRULE', () => {
+    expect(parseRecurrence({ rule: 'FREQ=DAILY;COUNT=3', maxOccurrences: '5', endsAt: '2030-02-01T00:00:00Z' })).toEqual({
+      rule: 'FREQ=DAILY;COUNT=3',
+      timezone: 'UTC',
+      endsAt: new Date('2030-02-01T00:00:00.000Z'),
+      maxOccurrences: 5,
+    });
+  });
+
+  it.each([
+    ['FREQ=MONTHLY;BYDAY=1MO', 'RRULE FREQ=MONTHLY with BYDAY is not supported; use a cron expression'],
+    ['FREQ=MONTHLY;BYDAY=MO;BYMONTHDAY=1', 'RRULE FREQ=MONTHLY with BYDAY is not supported; use a cron expression'],
+    ['FREQ=WEEKLY;BYDAY=MO;BYMONTHDAY=1', 'RRULE FREQ=WEEKLY cannot have BYMONTHDAY'],
+    ['FREQ=DAILY;BYMONTHDAY=1', 'RRULE FREQ=DAILY cannot have BYMONTHDAY'],
+    ['FREQ=MONTHLY;BYMONTHDAY=1;BYSETPOS=1', 'RRULE BYSETPOS is not supported; use a cron expression'],
+    ['FREQ=DAILY;COUNT=3;UNTIL=20300110', 'RRULE cannot have both COUNT and UNTIL'],
+    ['FREQ=DAILY;INTERVAL=2', 'RRULE INTERVAL other than 1 is not supported; use a cron expression'],
+    ['FREQ=WEEKLY', 'RRULE FREQ=WEEKLY needs BYDAY'],
+    ['FREQ=WEEKLY;BYDAY=XX', 'Invalid RRULE BYDAY: XX'],
+    ['FREQ=YEARLY', 'RRULE FREQ must be DAILY, WEEKLY or MONTHLY'],
+    ['FREQ=DAILY;COUNT=0', 'Invalid RRULE COUNT: 0'],
+  ])('rejects %s', (rule, message) => {
+    expect(() => parseRecurrence({ rule })).toThrow(new RecurrenceError(message));
+  });
+
+  it('rejects a bad cron expression, timezone or end condition', () => {
+    expect(() => parseRecurrence({ rule: '0 25 * * *' })).toThrow(RecurrenceError);
+    expect(() => parseRecurrence({ rule: '0 9 * * *', timezone: 'Mars/Olympus' })).toThrow('Unknown timezone');
+    expect(() => parseRecurrence({ rule: '0 9 * * *', endsAt: 'soon' })).toThrow('Invalid recurrence.endsAt');
+    expect(() => parseRecurrence({ rule: '0 9 * * *', maxOccurrences: 1.5 })).toThrow(
+      'recurrence.maxOccurrences must be a positive whole number'
+    );
+  });
+});
+
+describe('occurrences', () => {
+  it('follows a weekly RRULE on its days and time', () => {
+    expect(nextOccurrences('FREQ=WEEKLY;BYDAY=MO,FR;BYHOUR=9;BYMINUTE=30', 3)).toEqual([
+      '2030-01-04T09:30:00.000Z',
+      '2030-01-07T09:30:00.000Z',
+      '2030-01-11T09:30:00.000Z',
+    ]);
+  });
+
+  it('sends a monthly RRULE on the last day of each month', () => {
+    expect(nextOccurrences('FREQ=MONTHLY;BYMONTHDAY=-1;BYHOUR=8', 2)).toEqual([
+      '2030-01-31T08:00:00.000Z',
+      '2030-02-28T08:00:00.000Z',
+    ]);
+  });
+
+  it('keeps the local time across a daylight saving change', () => {
+    // New York moves to daylight time on Sunday 10 March 2030
+    const schedule = series('0 9 * * *', 'America/New_York');
+
+    expect(getNextOccurrence(schedule, new Date('2030-03-08T15:00:00.000Z'))?.toISOString()).toBe(
+      '2030-03-09T14:00:00.000Z'
+    );
+    expect(getNextOccurrence(schedule, new Date('2030-03-09T15:00:00.000Z'))?.toISOString()).toBe(
+      '2030-03-10T13:00:00.000Z'
+    );
+  });
+
+  it('ends after maxOccurrences, not counting skipped ones', () => {
+    const schedule = series('0 9 * * *', 'UTC', { maxOccurrences: 3, occurrenceCount: 1 });
+    const upcoming = getUpcomingOccurrences(
+      {
+        ...schedule,
+        nextOccurrenceAt: new Date('2030-01-03T09:00:00.000Z'),
+        skippedOccurrences: JSON.stringify(['2030-01-03T09:00:00.000Z']),
+      },
+      10
+    );
+
+    expect(upcoming).toEqual([
+      { at: '2030-01-03T09:00:00.000Z', skipped: true },
+      { at: '2030-01-04T09:00:00.000Z', skipped: false },
+      { at: '2030-01-05T09:00:00.000Z', skipped: false },
+    ]);
+    expect(getNextOccurrence({ ...schedule, occurrenceCount: 3 }, NOW)).toBeNull();
+  });
+
+  it('recognises only times the series has yet to reach', () => {
+    const schedule = { ...series('0 9 * * *'), nextOccurrenceAt: new Date('2030-01-03T09:00:00.000Z') };
+
+    expect(isUpcomingOccurrence(schedule, new Date('2030-01-04T09:00:00.000Z'))).toBe(true);
+    expect(isUpcomingOccurrence(schedule, new Date('2030-01-04T09:30:00.000Z'))).toBe(false);
+    expect(isUpcomingOccurrence(schedule, new Date('2030-01-02T09:00:00.000Z'))).toBe(false);
+  });
+});
@@ -0,0 +1,79 @@
+import { planSendTimes } from '../scheduleService';
+import { PersonalizedRecipient } from '../personalizationService';
+
+jest.mock('../../config/prisma', () => ({ __esModule: true, default: {} }));
+jest.mock('../queueService', () => ({}));
+
+const HOUR_MS = 60 * 60 * 1000;
+const START = new Date('2030-01-01T12:00:00Z');
+
+function recipient(email: string, timezone?: string): PersonalizedRecipient {
+  return { email, variables: timezone ? { timezone } : {} };
+}
+
+function times(plan: ReturnType<typeof planSendTimes>) {
+  return plan.map(({ scheduledTime }) => scheduledTime.toISOString());
+}
+
+describe('planSendTimes', () => {
+  const spaced = { delayMs: 2000, hourlyLimit: 100, localSendTime: null, sendTimezone: null };
+
+  it('spaces recipients delayMs apart from the start time', () => {
+    const plan = planSendTimes(spaced, [recipient('a@x.io'), recipient('b@x.io'), recipient('c@x.io')], START);
+
+    expect(times(plan)).toEqual(['2030-01-01T12:00:00.000Z', '2030-01-01T12:00:02.000Z', '2030-01-01T12:00:04.000Z']);
+    expect(plan[0].timezone).toBeUndefined();
+  });
+
+  describe('with a local send time', () => {
+    const local = { delayMs: 2000, hourlyLimit: 100, localSendTime: '09:00', sendTimezone: 'UTC' };
+
+    it("sends at that time in each recipient's own timezone", () => {
+      const plan = planSendTimes(
+        local,
+        [recipient('ny@x.io', 'America/New_York'), recipient('berlin@x.io', 'Europe/Berlin'), recipient('tokyo@x.io', 'Asia/Tokyo')],
+        START
+      );
+
+      // 09:00 has already passed today in Berlin and Tokyo, so they get tomorrow's
+      expect(times(plan)).toEqual(['2030-01-01T14:00:00.000Z', '2030-01-02T08:00:00.000Z', '2030-01-02T00:00:00.000Z']);
+      expect(plan.map((entry) => entry.timezone)).toEqual(['America/New_York', 'Europe/Berlin', 'Asia/Tokyo']);
+    });
+
+    it("falls back to the schedule's timezone when the recipient has none or an unknown one", () => {
+      const plan = planSendTimes(
+        { ...local, sendTimezone: 'America/Los_Angeles' },
+        [recipient('none@x.io'), recipient('bad@x.io', 'Mars/Olympus_Mons')],
+        START
+      );
+
+      expect(times(plan)).toEqual(['2030-01-01T17:00:00.000Z', '2030-01-01T17:00:02.000Z']);
+      expect(plan.map((entry) => entry.timezone)).toEqual(['America/Los_Angeles', 'America/Los_Angeles']);
+    });
+
+    it('spaces recipients due at the same moment and only those', () => {
+      const plan = planSendTimes(
+        local,
+        [recipient('a@x.io', 'America/New_York'), recipient('b@x.io', 'Asia/Tokyo'), recipient('c@x.io', 'America/New_York')],
+        START
+      );
+
+      expect(times(plan)).toEqual(['2030-01-01T14:00:00.000Z', '2030-01-02T00:00:00.000Z', '2030-01-01T14:00:02.000Z']);
+    });
+
+    it('moves recipients past the hourly limit to the following hour', () => {
+      const recipients = ['a', 'b', 'c', 'd', 'e'].map((name) => recipient(`${name}@x.io`, 'America/New_York'));
+
+      const plan = planSendTimes({ ...local, hourlyLimit: 2 }, recipients, START);
+      const dueAt = Date.parse('2030-01-01T14:00:00Z');
+
+      expect(plan.map(({ scheduledTime }) => scheduledTime.getTime() - dueAt)).toEqual([
+        0,
+        2000,
+        HOUR_MS,
+        HOUR_MS + 2000,
+        2 * HOUR_MS,
+      ]);
+    });
+  });
+});
@@ -0,0 +1,360 @@
+import prisma from '../../config/prisma';
+import { removeEmailJob, scheduleEmailJob, scheduleEmailJobsBulk } from '../queueService';
+import { updateEmailJobStatus } from '../emailService';
+import { TemplateSyntaxError } from '../personalizationService';
+import {
+  getSequenceSendSettings,
+  initializeSequenceQueue,
+  parseSequenceSteps,
+  queuePausedEmails,
+  queueSequenceStep,
+  runSequenceStep,
+  SequenceError,
+  updateEnrollmentProgress,
+} from '../sequenceService';
+
+// Stands in for the "sequences" BullMQ queue
+const queue = { add: jest.fn(), getJob: jest.fn() };
+
+jest.mock('bullmq', () => ({ Queue: jest.fn(() => queue), Worker: jest.fn() }));
+jest.mock('../../config/connections', () => ({ getRedis: () => ({}) }));
+jest.mock('../queueService', () => ({
+  scheduleEmailJob: jest.fn(),
+  scheduleEmailJobsBulk: jest.fn(),
+  removeEmailJob: jest.fn(),
+}));
+jest.mock('../emailService', () => ({ updateEmailJobStatus: jest.fn(), UNSENT_STATUSES: ['pending', 'queued'] }));
+jest.mock('../suppressionService', () => ({ getSuppressedAddresses: jest.fn() }));
+jest.mock('../../config/prisma', () => {
+  const client = {
+    enrollment: { findUnique: jest.fn(), updateMany: jest.fn() },
+    sequenceStep: { findUnique: jest.fn() },
+    suppression: { findUnique: jest.fn() },
+    trackingEvent: { count: jest.fn() },
+    emailJob: { findUnique: jest.fn(), findMany: jest.fn(), create: jest.fn(), update: jest.fn() },
+    $transaction: jest.fn(),
+  };
+  client.$transaction.mockImplementation((fn: (tx: typeof client) => unknown) => fn(client));
+  return { __esModule: true, default: client };
+});
+
+const db = prisma as unknown as {
+  enrollment: { findUnique: jest.Mock; updateMany: jest.Mock };
+  sequenceStep: { findUnique: jest.Mock };
+  suppression: { findUnique: jest.Mock };
+  trackingEvent: { count: jest.Mock };
+  emailJob: { findUnique: jest.Mock; findMany: jest.Mock; create: jest.Mock; update: jest.Mock };
+};
+
+const sequence = { id: 'seq-1', userId: 'u1', status: 'active', hourlyLimit: 100, delayMs: 0, senderIdentityId: null };
+const contact = { id: 'c1', email: 'ada@example.com', attributes: JSON.stringify({ firstName: 'Ada' }) };
+const step2 = {
+  id: 'step-2',
+  position: 2,
+  subject: 'Hi {{firstName}}',
+  body: '<p>{{firstName}}, <b>still</b> there?</p>',
+  delayMinutes: 60,
+  condition: null as string | null,
+};
+
+function enrollment(overrides: Record<string, unknown> = {}) {
+  return { id: 'e1', sequenceId: 'seq-1', status: 'active', currentStep: 1, sequence, contact, ...overrides };
+}
+
+beforeAll(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  await initializeSequenceQueue();
+});
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  db.enrollment.updateMany.mockResolvedValue({ count: 1 });
+  db.suppression.findUnique.mockResolvedValue(null);
+  db.trackingEvent.count.mockResolvedValue(0);
+  db.emailJob.findMany.mockResolvedValue([]);
+  queue.getJob.mockResolvedValue(null);
+});
+
+afterEach(() => {
+  jest.clearAllMocks();
+  jest.restoreAllMocks();
+});
+
+describe('parseSequenceSteps', () => {
+  it('defaults the delay to 0 and the condition to none', () => {
+    expect(parseSequenceSteps([{ subject: 'Hi', body: 'Body' }])).toEqual([
+      { subject: 'Hi', body: 'Body', delayMinutes: 0, condition: null },
+    ]);
+  });
+
+  it.each([
+    ['no steps', [], 'steps must be an array of 1 to 20 { subject, body } objects'],
+    ['a blank subject', [{ subject: ' ', body: 'Body' }], 'Step 1 needs a subject and a body'],
+    [
+      'a fractional delay',
+      [{ subject: 'Hi', body: 'Body' }, { subject: 'Hi', body: 'Body', delayMinutes: 1.5 }],
+      'Step 2 delayMinutes must be a whole number from 0 to 525600',
+    ],
+    [
+      'an unknown condition',
+      [{ subject: 'Hi', body: 'Body' }, { subject: 'Hi', body: 'Body', condition: 'not_replied' }],
+      'Step 2 condition must be one of: not_opened, not_clicked',
+    ],
+    [
+      'a condition on the first step',
+      [{ subject: 'Hi', body: 'Body', condition: 'not_opened' }],
+      'The first step cannot have a condition',
+    ],
+  ])('rejects %s', (_case, steps, message) => {
+    expect(() => parseSequenceSteps(steps)).toThrow(new SequenceError(message));
+  });
+
+  it('rejects malformed merge fields', () => {
+    expect(() => parseSequenceSteps([{ subject: 'Hi {{#if a}}', body: 'Body' }])).toThrow(TemplateSyntaxError);
+  });
+});
+
+describe('runSequenceStep', () => {
+  beforeEach(() => {
+    db.sequenceStep.findUnique.mockResolvedValue(step2);
+  });
+
+  it('claims the step and queues the email rendered for the contact', async () => {
+    db.enrollment.findUnique.mockResolvedValue(enrollment());
+
+    await runSequenceStep('e1', 2);
+
+    expect(db.enrollment.updateMany).toHaveBeenCalledWith({
+      where: { id: 'e1', status: 'active', currentStep: 1 },
+      data: { currentStep: 2, nextStepAt: null },
+    });
+    expect(db.emailJob.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        recipient: 'ada@example.com',
+        subject: 'Hi Ada',
+        body: '<p>Ada, <b>still</b> there?</p>',
+        enrollmentId: 'e1',
+        sequenceStepId: 'step-2',
+      }),
+    });
+    expect(scheduleEmailJobsBulk).toHaveBeenCalledTimes(1);
+    expect(updateEmailJobStatus).toHaveBeenCalledWith(expect.any(String), 'queued');
+  });
+
+  it('sends nothing when another run claimed the step first', async () => {
+    db.enrollment.findUnique.mockResolvedValue(enrollment());
+    db.enrollment.updateMany.mockResolvedValue({ count: 0 });
+
+    await runSequenceStep('e1', 2);
+
+    expect(db.emailJob.create).not.toHaveBeenCalled();
+    expect(scheduleEmailJobsBulk).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['the sequence is paused', { sequence: { ...sequence, status: 'paused' } }],
+    ['the enrollment exited', { status: 'exited' }],
+    ['the enrollment moved on', { currentStep: 2 }],
+  ])('does nothing when %s', async (_case, overrides) => {
+    db.enrollment.findUnique.mockResolvedValue(enrollment(overrides));
+
+    await runSequenceStep('e1', 2);
+
+    expect(db.enrollment.updateMany).not.toHaveBeenCalled();
+    expect(scheduleEmailJobsBulk).not.toHaveBeenCalled();
+  });
+
+  it('skips a conditional step the contact no longer needs and times the next one from now', async () => {
+    db.sequenceStep.findUnique.mockResolvedValueOnce({ ...step2, condition: 'not_opened' }).mockResolvedValueOnce({
+      ...step2,
+      id: 'step-3',
+      position: 3,
+    });
+    db.trackingEvent.count.mockResolvedValue(1);
+    // advanceEnrollment re-reads the enrollment after the skip
+    db.enrollment.findUnique.mockResolvedValueOnce(enrollment()).mockResolvedValueOnce(enrollment({ currentStep: 2 }));
+
+    await runSequenceStep('e1', 2);
+
+    expect(db.emailJob.create).not.toHaveBeenCalled();
+    expect(queue.add).toHaveBeenCalledWith('step', { enrollmentId: 'e1', position: 3 }, expect.any(Object));
+  });
+
+  it('exits a contact who lost a merge field the step needs', async () => {
+    db.enrollment.findUnique
+      .mockResolvedValueOnce(enrollment({ contact: { ...contact, attributes: '{}' } }))
+      .mockResolvedValueOnce({ currentStep: 1 });
+
+    await runSequenceStep('e1', 2);
+
+    expect(db.emailJob.create).not.toHaveBeenCalled();
+    expect(db.enrollment.updateMany).toHaveBeenCalledWith({
+      where: { id: 'e1', status: 'active' },
+      data: expect.objectContaining({ status: 'exited', exitReason: 'missing_fields' }),
+    });
+  });
+
+  it('exits a contact whose address was suppressed, with the suppression as the reason', async () => {
+    db.enrollment.findUnique.mockResolvedValueOnce(enrollment()).mockResolvedValueOnce({ currentStep: 1 });
+    db.suppression.findUnique.mockResolvedValue({ reason: 'unsubscribed' });
+
+    await runSequenceStep('e1', 2);
+
+    expect(db.emailJob.create).not.toHaveBeenCalled();
+    expect(db.enrollment.updateMany).toHaveBeenCalledWith({
+      where: { id: 'e1', status: 'active' },
+      data: expect.objectContaining({ status: 'exited', exitReason: 'unsubscribed' }),
+    });
+  });
+});
+
+describe('updateEnrollmentProgress', () => {
+  const emailJob = {
+    status: 'sent',
+    sentTime: new Date('2030-01-01T10:00:00.000Z'),
+    userId: 'u1',
+    recipient: 'ada@example.com',
+    enrollmentId: 'e1',
+    sequenceStep: { position: 1 },
+  };
+
+  it('queues the next step delayMinutes after the email was sent', async () => {
+    db.emailJob.findUnique.mockResolvedValue(emailJob);
+    db.enrollment.findUnique.mockResolvedValue(enrollment());
+    db.sequenceStep.findUnique.mockResolvedValue(step2);
+
+    await updateEnrollmentProgress('job-1');
+
+    const nextStepAt = new Date('2030-01-01T11:00:00.000Z');
+    expect(db.enrollment.updateMany).toHaveBeenCalledWith({
+      where: { id: 'e1', status: 'active', currentStep: 1 },
+      data: { nextStepAt },
+    });
+    expect(queue.add).toHaveBeenCalledWith(
+      'step',
+      { enrollmentId: 'e1', position: 2 },
+      expect.objectContaining({ jobId: 'enrollment-e1-step-2' })
+    );
+  });
+
+  it('completes the enrollment after its last step', async () => {
+    db.emailJob.findUnique.mockResolvedValue(emailJob);
+    db.enrollment.findUnique.mockResolvedValue(enrollment());
+    db.sequenceStep.findUnique.mockResolvedValue(null);
+
+    await updateEnrollmentProgress('job-1');
+
+    expect(db.enrollment.updateMany).toHaveBeenCalledWith({
+      where: { id: 'e1', status: 'active', currentStep: 1 },
+      data: expect.objectContaining({ status: 'completed', nextStepAt: null }),
+    });
+    expect(queue.add).not.toHaveBeenCalled();
+  });
+
+  it('waits for a paused sequence to be resumed before queueing the next step', async () => {
+    db.emailJob.findUnique.mockResolvedValue(emailJob);
+    db.enrollment.findUnique.mockResolvedValue(enrollment({ sequence: { status: 'paused' } }));
+    db.sequenceStep.findUnique.mockResolvedValue(step2);
+
+    await updateEnrollmentProgress('job-1');
+
+    expect(db.enrollment.updateMany).toHaveBeenCalled();
+    expect(queue.add).not.toHaveBeenCalled();
+  });
+
+  it.each(['bounced', 'complained'])('exits the enrollment when its email is %s', async (status) => {
+    db.emailJob.findUnique.mockResolvedValue({ ...emailJob, status });
+    db.enrollment.findUnique.mockResolvedValue({ currentStep: 1 });
+
+    await updateEnrollmentProgress('job-1');
+
+    expect(db.enrollment.updateMany).toHaveBeenCalledWith({
+      where: { id: 'e1', status: 'active' },
+      data: expect.objectContaining({ status: 'exited', exitReason: status }),
+    });
+  });
+
+  it('ignores emails outside a sequence', async () => {
+    db.emailJob.findUnique.mockResolvedValue({ ...emailJob, enrollmentId: null, sequenceStep: null });
+
+    await updateEnrollmentProgress('job-1');
+
+    expect(db.enrollment.findUnique).not.toHaveBeenCalled();
+  });
+});
+
+describe('queueSequenceStep', () => {
+  it('replaces a failed job of the step so it can run again', async () => {
+    const failed = { isFailed: jest.fn().mockResolvedValue(true), remove: jest.fn() };
+    queue.getJob.mockResolvedValue(failed);
+
+    await queueSequenceStep('e1', 2, new Date());
+
+    expect(failed.remove).toHaveBeenCalled();
+    expect(queue.add).toHaveBeenCalledWith(
+      'step',
+      { enrollmentId: 'e1', position: 2 },
+      expect.objectContaining({ jobId: 'enrollment-e1-step-2' })
+    );
+  });
+
+  it('leaves a waiting job of the step in place', async () => {
+    const waiting = { isFailed: jest.fn().mockResolvedValue(false), remove: jest.fn() };
+    queue.getJob.mockResolvedValue(waiting);
+
+    await queueSequenceStep('e1', 2, new Date());
+
+    expect(waiting.remove).not.toHaveBeenCalled();
+  });
+});
+
+describe('getSequenceSendSettings', () => {
+  it("reports the sequence's and the enrollment's status with its limits", async () => {
+    db.enrollment.findUnique.mockResolvedValue({
+      status: 'exited',
+      sequence: { id: 'seq-1', status: 'paused', hourlyLimit: 100, delayMs: 0, senderIdentityId: null },
+    });
+
+    expect(await getSequenceSendSettings('e1')).toEqual({
+      sequenceId: 'seq-1',
+      sequenceStatus: 'paused',
+      enrollmentStatus: 'exited',
+      hourlyLimit: 100,
+      delayMs: 0,
+      senderIdentityId: null,
+    });
+  });
+});
+
+describe('queuePausedEmails', () => {
+  it('queues the emails held back while paused again, delayMs apart from now', async () => {
+    const now = Date.UTC(2030, 0, 1, 10, 0, 0);
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    (updateEmailJobStatus as jest.Mock).mockResolvedValue(true);
+    (scheduleEmailJob as jest.Mock).mockResolvedValueOnce('bull-1').mockResolvedValueOnce('bull-2');
+    db.emailJob.findMany.mockResolvedValue([
+      { id: 'job-1', jobId: 'old-1', enrollmentId: 'e1', userId: 'u1', recipient: 'a@x.com', subject: 'S', body: 'B' },
+      { id: 'job-2', jobId: null, enrollmentId: 'e2', userId: 'u1', recipient: 'b@x.com', subject: 'S', body: 'B' },
+    ]);
+
+    expect(await queuePausedEmails({ ...sequence, delayMs: 2000 } as never)).toBe(2);
+
+    expect(db.emailJob.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { status: 'paused', enrollment: { sequenceId: 'seq-1', status: 'active' } } })
+    );
+    expect(removeEmailJob).toHaveBeenCalledWith('old-1');
+    expect((scheduleEmailJob as jest.Mock).mock.calls.map(([data]) => [data.emailJobId, data.scheduledTime])).toEqual([
+      ['job-1', new Date(now)],
+      ['job-2', new Date(now + 2000)],
+    ]);
+    expect(db.emailJob.update).toHaveBeenCalledWith({ where: { id: 'job-2' }, data: { jobId: 'bull-2' } });
+  });
+
+  it('skips an email that left the paused status in the meantime', async () => {
+    (updateEmailJobStatus as jest.Mock).mockResolvedValue(false);
+    db.emailJob.findMany.mockResolvedValue([{ id: 'job-1', jobId: null, enrollmentId: 'e1' }]);
+
+    expect(await queuePausedEmails(sequence as never)).toBe(0);
+    expect(scheduleEmailJob).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,328 @@
+import { DelayedError, Queue, Worker } from 'bullmq';
+import { getRedis } from '../config/connections';
+import prisma from '../config/prisma';
+import { prepareSchedule } from './scheduleService';
+import { updateScheduleCounts } from './emailService';
+
+/**
+ * A/B Test Service
+ *
+ * A schedule can carry two to five subject/body variants. Its first batch goes
+ * to a random abTestShare percent of the recipients, split evenly across the
+ * variants. At abTestDecideAt a delayed job on the "ab-tests" queue picks the
+ * variant with the best unique open or click rate (unless the metric is manual)
+ * and the winner is sent to everyone else.
+ */
+
+export type AbTestMetric = 'opens' | 'clicks' | 'manual';
+
+export const AB_TEST_METRICS: AbTestMetric[] = ['opens', 'clicks', 'manual'];
+export const VARIANT_LABELS = ['A', 'B', 'C', 'D', 'E'];
+
+export interface AbTest {
+  variants: Array<{ subject: string; body: string }>;
+  share: number; // Percent of recipients in the test
+  waitMs: number; // From the start time until the winner is picked
+  metric: AbTestMetric;
+}
+
+export interface VariantResult {
+  id: string;
+  label: string;
+  subject: string;
+  body: string;
+  recipients: number; // Test emails with this variant
+  sent: number;
+  uniqueOpens: number;
+  uniqueClicks: number;
+  openRate: number; // uniqueOpens / sent
+  clickRate: number; // uniqueClicks / sent
+  remainder: number; // Emails of the winner sent after the test
+}
+
+export interface AbTestDecisionJobData {
+  scheduleId: string;
+}
+
+export class AbTestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AbTestError';
+  }
+}
+
+const MINUTE_MS = 60 * 1000;
+const DEFAULT_SHARE = 20;
+const DEFAULT_WAIT_MINUTES = 4 * 60;
+const MAX_WAIT_MINUTES = 30 * 24 * 60;
+const PREPARING_RECHECK_MS = 30 * 1000;
+// Statuses that count as delivered (complaints were delivered; bounces were not)
+const SENT_STATUSES = ['sent', 'complained'];
+
+let abTestQueue: Queue<AbTestDecisionJobData> | null = null;
+let abTestWorker: Worker<AbTestDecisionJobData> | null = null;
+
+function decisionJobId(scheduleId: string): string {
+  return `ab-test-${scheduleId}`;
+}
+
+/**
+ * Validate the variants and test options of a schedule request
+ * options: { share?: 1-100 (default 20), waitMinutes?: number (default 240), metric?: AbTestMetric }
+ */
+export function parseAbTest(variants: unknown, options: unknown = {}): AbTest {
+  if (!Array.isArray(variants) || variants.length < 2 || variants.length > VARIANT_LABELS.length) {
+    throw new AbTestError(`variants must be an array of 2 to ${VARIANT_LABELS.length} { subject, body } objects`);
+  }
+
+  const parsedVariants = variants.map((variant, i) => {
+    if (
+      !variant ||
+      typeof variant.subject !== 'string' ||
+      typeof variant.body !== 'string' ||
+      !variant.subject.trim() ||
+      !variant.body.trim()
+    ) {
+      throw new AbTestError(`Variant ${VARIANT_LABELS[i]} needs a subject and a body`);
+    }
+    return { subject: variant.subject, body: variant.body };
+  });
+
+  const { share = DEFAULT_SHARE, waitMinutes = DEFAULT_WAIT_MINUTES, metric = 'opens' } =
+    (options as { share?: number; waitMinutes?: number; metric?: string }) || {};
+
+  if (!Number.isInteger(share) || share < 1 || share > 100) {
+    throw new AbTestError('abTest.share must be a whole percentage from 1 to 100');
+  }
+
+  if (typeof waitMinutes !== 'number' || waitMinutes <= 0 || waitMinutes > MAX_WAIT_MINUTES) {
+    throw new AbTestError(`abTest.waitMinutes must be between 1 and ${MAX_WAIT_MINUTES}`);
+  }
+
+  if (!(AB_TEST_METRICS as string[]).includes(metric)) {
+    throw new AbTestError(`abTest.metric must be one of: ${AB_TEST_METRICS.join(', ')}`);
+  }
+
+  return { variants: parsedVariants, share, waitMs: waitMinutes * MINUTE_MS, metric: metric as AbTestMetric };
+}
+
+/**
+ * Sends, unique opens and unique clicks of each variant's test emails
+ */
+export async function getVariantResults(scheduleId: string): Promise<VariantResult[]> {
+  const variants = await prisma.scheduleVariant.findMany({
+    where: { scheduleId },
+    orderBy: { label: 'asc' },
+  });
+
+  if (variants.length === 0) return [];
+
+  const [groups, events] = await Promise.all([
+    prisma.emailJob.groupBy({
+      by: ['variantId', 'abTestGroup', 'status'],
+      where: { scheduleId, variantId: { not: null } },
+      _count: { _all: true },
+    }),
+    // One row per email and event type, so repeat opens count once
+    prisma.trackingEvent.findMany({
+      where: { emailJob: { scheduleId, abTestGroup: 'test' } },
+      distinct: ['emailJobId', 'type'],
+      select: { type: true, emailJob: { select: { variantId: true } } },
+    }),
+  ]);
+
+  return variants.map((variant) => {
+    const testGroups = groups.filter((g) => g.variantId === variant.id && g.abTestGroup === 'test');
+    const sent = testGroups
+      .filter((g) => SENT_STATUSES.includes(g.status))
+      .reduce((sum, g) => sum + g._count._all, 0);
+    const variantEvents = events.filter((event) => event.emailJob.variantId === variant.id);
+    const uniqueOpens = variantEvents.filter((event) => event.type === 'opened').length;
+    const uniqueClicks = variantEvents.filter((event) => event.type === 'clicked').length;
+
+    return {
+      id: variant.id,
+      label: variant.label,
+      subject: variant.subject,
+      body: variant.body,
+      recipients: testGroups.reduce((sum, g) => sum + g._count._all, 0),
+      sent,
+      uniqueOpens,
+      uniqueClicks,
+      openRate: sent > 0 ? uniqueOpens / sent : 0,
+      clickRate: sent > 0 ? uniqueClicks / sent : 0,
+      remainder: groups
+        .filter((g) => g.variantId === variant.id && g.abTestGroup === 'remainder')
+        .reduce((sum, g) => sum + g._count._all, 0),
+    };
+  });
+}
+
+/**
+ * The variant with the best rate for the metric; ties go to the one sent more, then the earlier label
+ */
+export function pickWinner(results: VariantResult[], metric: 'opens' | 'clicks'): VariantResult {
+  const rate = (result: VariantResult) => (metric === 'opens' ? result.openRate : result.clickRate);
+
+  return [...results].sort((a, b) => rate(b) - rate(a) || b.sent - a.sent || a.label.localeCompare(b.label))[0];
+}
+
+/**
+ * Initialize the queue holding each running test's decision
+ */
+export async function initializeAbTestQueue(): Promise<Queue<AbTestDecisionJobData>> {
+  if (abTestQueue) return abTestQueue;
+
+  abTestQueue = new Queue<AbTestDecisionJobData>('ab-tests', {
+    connection: getRedis(),
+    defaultJobOptions: {
+      attempts: 3,
+      backoff: {
+        type: 'exponential',
+        delay: 5000,
+      },
+      removeOnComplete: true,
+      removeOnFail: {
+        age: 86400,
+      },
+    },
+  });
+
+  console.log('✅ A/B test queue initialized');
+  return abTestQueue;
+}
+
+function getAbTestQueue(): Queue<AbTestDecisionJobData> {
+  if (!abTestQueue) {
+    throw new Error('A/B test queue not initialized. Call initializeAbTestQueue() first.');
+  }
+  return abTestQueue;
+}
+
+/**
+ * Queue the automatic decision of a test; queueing it twice is a no-op
+ */
+export async function queueAbTestDecision(scheduleId: string, decideAt: Date): Promise<void> {
+  await getAbTestQueue().add(
+    'decision',
+    { scheduleId },
+    {
+      delay: Math.max(0, decideAt.getTime() - Date.now()),
+      jobId: decisionJobId(scheduleId),
+    }
+  );
+}
+
+/**
+ * Drop a queued decision, e.g. when the winner was picked by hand or the schedule cancelled
+ */
+export async function removeQueuedAbTestDecision(scheduleId: string): Promise<void> {
+  const job = await getAbTestQueue().getJob(decisionJobId(scheduleId));
+
+  if (job && !(await job.isActive())) {
+    await job.remove();
+  }
+}
+
+/**
+ * Record the winning variant and start preparing the remainder batch
+ * Returns false if the test is not waiting for a winner (already decided,
+ * paused, cancelled, or its test batch is still being prepared).
+ */
+export async function decideAbTest(scheduleId: string, variantId: string): Promise<boolean> {
+  const { count } = await prisma.emailSchedule.updateMany({
+    where: { id: scheduleId, abTestStatus: 'testing', status: { in: ['scheduled', 'in-progress'] } },
+    data: { abTestStatus: 'decided', winningVariantId: variantId, status: 'preparing' },
+  });
+
+  if (count === 0) return false;
+
+  await removeQueuedAbTestDecision(scheduleId);
+  return true;
+}
+
+/**
+ * Create and queue the winner's emails for everyone outside the test
+ */
+export async function sendWinnerToRemainder(scheduleId: string): Promise<void> {
+  console.log(`🏆 Sending the winning variant of schedule ${scheduleId} to the remaining recipients`);
+  await prepareSchedule(scheduleId);
+  // Completes the schedule if there was no one left to send to
+  await updateScheduleCounts(scheduleId);
+}
+
+/**
+ * Initialize the worker that picks winners
+ * Re-queues the decision of every running test, in case Redis lost them
+ */
+export async function initializeAbTestWorker(): Promise<Worker<AbTestDecisionJobData>> {
+  if (abTestWorker) return abTestWorker;
+
+  abTestWorker = new Worker<AbTestDecisionJobData>(
+    'ab-tests',
+    async (job, token) => {
+      const { scheduleId } = job.data;
+      const schedule = await prisma.emailSchedule.findUnique({ where: { id: scheduleId } });
+
+      // Decided by hand, cancelled, or failed since the decision was queued; a paused
+      // schedule queues its decision again when resumed
+      if (
+        !schedule ||
+        schedule.abTestStatus !== 'testing' ||
+        schedule.abTestMetric === 'manual' ||
+        ['paused', 'cancelled', 'failed'].includes(schedule.status)
+      ) {
+        return;
+      }
+
+      // The test batch is still being queued; check again shortly
+      if (schedule.status === 'preparing') {
+        await job.moveToDelayed(Date.now() + PREPARING_RECHECK_MS, token);
+        throw new DelayedError();
+      }
+
+      const winner = pickWinner(await getVariantResults(scheduleId), schedule.abTestMetric as 'opens' | 'clicks');
+
+      if (await decideAbTest(scheduleId, winner.id)) {
+        console.log(`🏆 Variant ${winner.label} won the A/B test of schedule ${scheduleId}`);
+        await sendWinnerToRemainder(scheduleId);
+      }
+    },
+    { connection: getRedis() }
+  );
+
+  abTestWorker.on('failed', (job, err) => {
+    console.error(`❌ A/B test decision ${job?.id} failed:`, err.message);
+  });
+
+  const runningTests = await prisma.emailSchedule.findMany({
+    where: {
+      abTestStatus: 'testing',
+      abTestMetric: { not: 'manual' },
+      abTestDecideAt: { not: null },
+      status: { notIn: ['paused', 'cancelled', 'failed'] },
+    },
+    select: { id: true, abTestDecideAt: true },
+  });
+
+  for (const test of runningTests) {
+    await queueAbTestDecision(test.id, test.abTestDecideAt!);
+  }
+
+  console.log(`✅ A/B test worker initialized (${runningTests.length} running test(s))`);
+  return abTestWorker;
+}
+
+/**
+ * Close A/B test queue and worker
+ */
+export async function closeAbTestQueue(): Promise<void> {
+  if (abTestWorker) {
+    await abTestWorker.close();
+    abTestWorker = null;
+  }
+  if (abTestQueue) {
+    await abTestQueue.close();
+    abTestQueue = null;
+  }
+}
@@ -0,0 +1,212 @@
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import { AuthenticatedUser, AuthTokens } from '../types';
+import { developmentSecret } from '../config/app';
+import prisma from '../config/prisma';
+
+/**
+ * Auth Service
+ *
+ * Handles password hashing and JWT issuing/verification.
+ *
+ * Strategy:
+ * - Short-lived access tokens are sent as `Authorization: Bearer <token>` on every request
+ * - Long-lived refresh tokens are exchanged for a new token pair at /api/auth/refresh
+ * - Both carry the user's tokenVersion; bumping it on the User row (logout)
+ *   invalidates every token issued before
+ * - The dashboard signs in through NextAuth instead; its session tokens are
+ *   HS256 JWTs with issuer "nextauth", signed with the shared NEXTAUTH_SECRET,
+ *   and carry the tokenVersion the backend returned at sign-in
+ * - A Google sign-in whose address belongs to a password account gets a link
+ *   token instead; logging in with the password and that token links the two
+ */
+
+const JWT_SECRET = process.env.JWT_SECRET || developmentSecret('JWT_SECRET', 'dev-access-secret-change-me');
+const JWT_REFRESH_SECRET =
+  process.env.JWT_REFRESH_SECRET || developmentSecret('JWT_REFRESH_SECRET', 'dev-refresh-secret-change-me');
+const JWT_ACCESS_EXPIRES_IN = process.env.JWT_ACCESS_EXPIRES_IN || '15m';
+const JWT_REFRESH_EXPIRES_IN = process.env.JWT_REFRESH_EXPIRES_IN || '7d';
+const NEXTAUTH_SECRET = process.env.NEXTAUTH_SECRET || '';
+const NEXTAUTH_ISSUER = 'nextauth';
+const LINK_TOKEN_EXPIRES_IN = '10m';
+const BCRYPT_ROUNDS = 10;
+
+export interface NextAuthProfile {
+  userId?: string; // Absent until the user has been synced on first sign-in
+  email: string;
+  name: string | null;
+  picture: string | null;
+  googleId?: string; // Google account id, on the sign-in sync token
+  tokenVersion?: number;
+}
+
+interface TokenPayload {
+  sub: string;
+  email: string;
+  type: 'access' | 'refresh' | 'link';
+  tokenVersion: number;
+  googleId?: string;
+}
+
+export class AuthError extends Error {
+  status: number;
+  code: string;
+
+  constructor(message: string, code: string, status: number = 401) {
+    super(message);
+    this.name = 'AuthError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, BCRYPT_ROUNDS);
+}
+
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  return bcrypt.compare(password, passwordHash);
+}
+
+/**
+ * Issue a new access/refresh token pair for a user
+ */
+export function issueTokens(user: { id: string; email: string; tokenVersion: number }): AuthTokens {
+  const accessToken = jwt.sign(
+    { sub: user.id, email: user.email, type: 'access', tokenVersion: user.tokenVersion },
+    JWT_SECRET,
+    { expiresIn: JWT_ACCESS_EXPIRES_IN } as jwt.SignOptions
+  );
+
+  const refreshToken = jwt.sign(
+    { sub: user.id, email: user.email, type: 'refresh', tokenVersion: user.tokenVersion },
+    JWT_REFRESH_SECRET,
+    { expiresIn: JWT_REFRESH_EXPIRES_IN } as jwt.SignOptions
+  );
+
+  return { accessToken, refreshToken };
+}
+
+function verifyToken(token: string, secret: string, type: TokenPayload['type']): TokenPayload {
+  try {
+    const payload = jwt.verify(token, secret) as TokenPayload;
+
+    if (payload.type !== type) {
+      throw new AuthError('Invalid token type', 'TOKEN_INVALID');
+    }
+
+    return payload;
+  } catch (error) {
+    if (error instanceof AuthError) throw error;
+    if (error instanceof jwt.TokenExpiredError) {
+      throw new AuthError('Token expired', 'TOKEN_EXPIRED');
+    }
+    throw new AuthError('Invalid token', 'TOKEN_INVALID');
+  }
+}
+
+/**
+ * Verify an access token and return the user it identifies
+ */
+export function verifyAccessToken(token: string): AuthenticatedUser {
+  const payload = verifyToken(token, JWT_SECRET, 'access');
+  return { id: payload.sub, email: payload.email };
+}
+
+/**
+ * Verify a refresh token
+ * The caller must still compare tokenVersion against the stored user
+ */
+export function verifyRefreshToken(token: string): { userId: string; tokenVersion: number } {
+  const payload = verifyToken(token, JWT_REFRESH_SECRET, 'refresh');
+  return { userId: payload.sub, tokenVersion: payload.tokenVersion };
+}
+
+/**
+ * Verify a token signed by the frontend's NextAuth session callback
+ */
+export function verifyNextAuthToken(token: string): NextAuthProfile {
+  if (!NEXTAUTH_SECRET) {
+    throw new AuthError('NextAuth tokens are not accepted: NEXTAUTH_SECRET is not set', 'TOKEN_INVALID');
+  }
+
+  try {
+    const payload = jwt.verify(token, NEXTAUTH_SECRET, {
+      algorithms: ['HS256'],
+      issuer: NEXTAUTH_ISSUER,
+    }) as jwt.JwtPayload;
+
+    if (!payload.email) {
+      throw new AuthError('Token has no email', 'TOKEN_INVALID');
+    }
+
+    return {
+      userId: payload.sub,
+      email: payload.email,
+      name: payload.name || null,
+      picture: payload.picture || null,
+      googleId: typeof payload.googleId === 'string' ? payload.googleId : undefined,
+      tokenVersion: typeof payload.tokenVersion === 'number' ? payload.tokenVersion : undefined,
+    };
+  } catch (error) {
+    if (error instanceof AuthError) throw error;
+    if (error instanceof jwt.TokenExpiredError) {
+      throw new AuthError('Token expired', 'TOKEN_EXPIRED');
+    }
+    throw new AuthError('Invalid token', 'TOKEN_INVALID');
+  }
+}
+
+/**
+ * Issue a token that lets a password login link a Google account to the user
+ */
+export function issueLinkToken(user: { id: string; email: string; tokenVersion: number }, googleId: string): string {
+  return jwt.sign(
+    { sub: user.id, email: user.email, type: 'link', tokenVersion: user.tokenVersion, googleId },
+    JWT_SECRET,
+    { expiresIn: LINK_TOKEN_EXPIRES_IN } as jwt.SignOptions
+  );
+}
+
+/**
+ * Verify a link token and return the user and Google account it links
+ */
+export function verifyLinkToken(token: string): { userId: string; googleId: string } {
+  const payload = verifyToken(token, JWT_SECRET, 'link');
+
+  if (!payload.googleId) {
+    throw new AuthError('Invalid token', 'TOKEN_INVALID');
+  }
+
+  return { userId: payload.sub, googleId: payload.googleId };
+}
+
+/**
+ * Verify a bearer token of either kind
+ * Returns null for a valid NextAuth token that is not linked to a user yet. A
+ * token issued before the user's last logout is rejected as revoked.
+ */
+export async function authenticateBearerToken(token: string): Promise<AuthenticatedUser | null> {
+  const decoded = jwt.decode(token) as jwt.JwtPayload | null;
+  let user: AuthenticatedUser;
+  let tokenVersion: number | undefined;
+
+  if (decoded?.iss === NEXTAUTH_ISSUER) {
+    const profile = verifyNextAuthToken(token);
+    if (!profile.userId) return null;
+
+    user = { id: profile.userId, email: profile.email };
+    tokenVersion = profile.tokenVersion;
+  } else {
+    user = verifyAccessToken(token);
+    tokenVersion = (decoded as TokenPayload).tokenVersion;
+  }
+
+  const stored = await prisma.user.findUnique({ where: { id: user.id }, select: { tokenVersion: true } });
+
+  if (!stored || stored.tokenVersion !== tokenVersion) {
+    throw new AuthError('Token revoked', 'TOKEN_REVOKED');
+  }
+
+  return user;
+}
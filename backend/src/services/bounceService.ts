@@ -0,0 +1,351 @@
+import prisma from '../config/prisma';
+import { updateEmailJobStatus, updateScheduleCounts } from './emailService';
+import { addSuppression } from './suppressionService';
+import { updateEnrollmentProgress } from './sequenceService';
+
+/**
+ * Bounce Service
+ *
+ * Turns bounce and complaint reports into DeliveryEvents and applies them to
+ * the EmailJob whose Message-ID they reference. Reports arrive as raw RFC 3464
+ * delivery status notifications or as JSON webhooks from Amazon SES (via SNS),
+ * SendGrid, Postmark, Mailgun, or a generic { type, messageId, ... } shape.
+ *
+ * Hard bounces (5.x.x, or reported permanent by the provider) and complaints
+ * suppress the recipient; soft bounces only mark the email.
+ */
+
+export interface DeliveryEvent {
+  type: 'bounce' | 'complaint';
+  messageId: string;
+  recipient?: string;
+  hard?: boolean;
+  status?: string; // Enhanced status code, e.g. 5.1.1
+  diagnostic?: string;
+}
+
+export type DeliveryEventOutcome = 'applied' | 'unmatched' | 'ignored';
+
+export type Json = Record<string, unknown>;
+
+export class DeliveryReportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeliveryReportError';
+  }
+}
+
+/**
+ * A webhook field as an object, or an empty one when it is anything else
+ */
+export function asObject(value: unknown): Json {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Json) : {};
+}
+
+/**
+ * A webhook field as a string; numbers (e.g. status codes) are converted
+ */
+export function asString(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  return typeof value === 'number' ? String(value) : undefined;
+}
+
+function asObjects(value: unknown): Json[] {
+  return Array.isArray(value) ? value.map(asObject) : [];
+}
+
+/**
+ * Message-IDs are stored and matched without angle brackets
+ */
+export function normalizeMessageId(messageId: string): string {
+  return messageId.trim().replace(/^<|>$/g, '');
+}
+
+function isHardStatus(status: string | undefined): boolean | undefined {
+  return status ? status.startsWith('5') : undefined;
+}
+
+export function unfoldHeaders(text: string): string {
+  return text.replace(/\r?\n[ \t]+/g, ' ');
+}
+
+export function headerValue(block: string, name: string): string | undefined {
+  const match = block.match(new RegExp(`^${name}:[ \\t]*(.+)$`, 'im'));
+  return match ? match[1].trim() : undefined;
+}
+
+/**
+ * Parse a raw RFC 3464 delivery status notification
+ * Only "failed" recipients become bounces; "delayed" and "delivered" are ignored.
+ */
+export function parseDsn(raw: string): DeliveryEvent[] {
+  const text = unfoldHeaders(raw);
+
+  // The returned original headers come after the report, so the last Message-ID
+  // is the original one, not the DSN's own
+  const originalId =
+    headerValue(text, 'Original-Message-ID') || [...text.matchAll(/^Message-ID:[ \t]*(\S+)/gim)].pop()?.[1];
+
+  if (!originalId) return [];
+
+  const events: DeliveryEvent[] = [];
+
+  for (const block of text.split(/\r?\n\r?\n/)) {
+    const finalRecipient = headerValue(block, 'Final-Recipient');
+    const action = headerValue(block, 'Action');
+
+    if (!finalRecipient || action?.toLowerCase() !== 'failed') continue;
+
+    const status = headerValue(block, 'Status')?.match(/[245]\.\d{1,3}\.\d{1,3}/)?.[0];
+
+    events.push({
+      type: 'bounce',
+      messageId: normalizeMessageId(originalId),
+      // "rfc822; user@example.com"
+      recipient: finalRecipient.split(';').pop()?.trim(),
+      hard: isHardStatus(status) ?? true,
+      status,
+      diagnostic: headerValue(block, 'Diagnostic-Code')?.replace(/^smtp;\s*/i, ''),
+    });
+  }
+
+  return events;
+}
+
+function parseSesNotification(notification: Json): DeliveryEvent[] {
+  const mail = asObject(notification.mail);
+  const messageId = asString(asObject(mail.commonHeaders).messageId) || asString(mail.messageId);
+  if (!messageId) return [];
+
+  if (notification.notificationType === 'Bounce') {
+    const bounce = asObject(notification.bounce);
+    return asObjects(bounce.bouncedRecipients).map((recipient) => ({
+      type: 'bounce' as const,
+      messageId: normalizeMessageId(messageId),
+      recipient: asString(recipient.emailAddress),
+      hard: bounce.bounceType === 'Permanent',
+      status: asString(recipient.status),
+      diagnostic: asString(recipient.diagnosticCode),
+    }));
+  }
+
+  if (notification.notificationType === 'Complaint') {
+    return asObjects(asObject(notification.complaint).complainedRecipients).map((recipient) => ({
+      type: 'complaint' as const,
+      messageId: normalizeMessageId(messageId),
+      recipient: asString(recipient.emailAddress),
+    }));
+  }
+
+  return [];
+}
+
+function parseSendGridEvent(event: Json): DeliveryEvent[] {
+  const messageId = asString(event['smtp-id']) || asString(event.sg_message_id);
+  if (!messageId) return [];
+
+  if (event.event === 'bounce' || event.event === 'dropped') {
+    const status = asString(event.status);
+    return [
+      {
+        type: 'bounce',
+        messageId: normalizeMessageId(messageId),
+        recipient: asString(event.email),
+        hard: event.type !== 'blocked' && (isHardStatus(status) ?? true),
+        status,
+        diagnostic: asString(event.reason),
+      },
+    ];
+  }
+
+  if (event.event === 'spamreport') {
+    return [{ type: 'complaint', messageId: normalizeMessageId(messageId), recipient: asString(event.email) }];
+  }
+
+  return [];
+}
+
+function parsePostmarkEvent(event: Json): DeliveryEvent[] {
+  const messageId = asString(event.MessageID);
+  if (!messageId) return [];
+
+  if (event.RecordType === 'Bounce') {
+    return [
+      {
+        type: 'bounce',
+        messageId: normalizeMessageId(messageId),
+        recipient: asString(event.Email),
+        hard: event.Type === 'HardBounce' || event.Type === 'BadEmailAddress',
+        diagnostic: asString(event.Description),
+      },
+    ];
+  }
+
+  if (event.RecordType === 'SpamComplaint') {
+    return [{ type: 'complaint', messageId: normalizeMessageId(messageId), recipient: asString(event.Email) }];
+  }
+
+  return [];
+}
+
+function parseMailgunEvent(eventData: Json): DeliveryEvent[] {
+  const messageId = asString(asObject(asObject(eventData.message).headers)['message-id']);
+  if (!messageId) return [];
+
+  if (eventData.event === 'failed') {
+    const deliveryStatus = asObject(eventData['delivery-status']);
+    return [
+      {
+        type: 'bounce',
+        messageId: normalizeMessageId(messageId),
+        recipient: asString(eventData.recipient),
+        hard: eventData.severity === 'permanent',
+        status: asString(deliveryStatus['enhanced-code']) || asString(deliveryStatus.code),
+        diagnostic: asString(deliveryStatus.description) || asString(deliveryStatus.message),
+      },
+    ];
+  }
+
+  if (eventData.event === 'complained') {
+    return [{ type: 'complaint', messageId: normalizeMessageId(messageId), recipient: asString(eventData.recipient) }];
+  }
+
+  return [];
+}
+
+function parseGenericEvent(event: Json): DeliveryEvent[] {
+  if ((event.type !== 'bounce' && event.type !== 'complaint') || typeof event.messageId !== 'string') {
+    return [];
+  }
+
+  return [
+    {
+      type: event.type,
+      messageId: normalizeMessageId(event.messageId),
+      recipient: asString(event.recipient),
+      hard: event.type === 'bounce' ? event.bounceType !== 'soft' : undefined,
+      status: asString(event.status),
+      diagnostic: asString(event.diagnostic),
+    },
+  ];
+}
+
+/**
+ * Normalize a provider webhook payload into delivery events
+ * Arrays (SendGrid batches) are parsed item by item. Throws DeliveryReportError
+ * when an SNS notification does not carry a JSON message.
+ */
+export function parseProviderWebhook(payload: unknown): DeliveryEvent[] {
+  if (Array.isArray(payload)) {
+    return payload.flatMap((item) => parseProviderWebhook(item));
+  }
+
+  if (!payload || typeof payload !== 'object') return [];
+
+  const body = payload as Json;
+
+  // SNS wraps the SES notification as a JSON string
+  if (body.Type === 'Notification' && typeof body.Message === 'string') {
+    let notification: unknown;
+    try {
+      notification = JSON.parse(body.Message);
+    } catch {
+      throw new DeliveryReportError('SNS notification Message is not JSON');
+    }
+    return parseSesNotification(asObject(notification));
+  }
+  if (body.notificationType) return parseSesNotification(body);
+  if (body.event && (body['smtp-id'] || body.sg_message_id)) return parseSendGridEvent(body);
+  if (body.RecordType) return parsePostmarkEvent(body);
+  if (body['event-data']) return parseMailgunEvent(asObject(body['event-data']));
+
+  return parseGenericEvent(body);
+}
+
+const SNS_TOPIC_ARN_REGEX = /^arn:aws:sns:([a-z0-9-]+):\d{12}:[\w-]+$/;
+// Topics allowed to subscribe the bounce webhook; empty allows any topic
+const SNS_TOPIC_ARNS = (process.env.SNS_TOPIC_ARNS || '')
+  .split(',')
+  .map((arn) => arn.trim())
+  .filter(Boolean);
+
+/**
+ * Confirm an SNS subscription by fetching its SubscribeURL
+ * The URL must be https://sns.<region>.amazonaws.com/ in the region of the
+ * TopicArn, and the topic one of SNS_TOPIC_ARNS when that is set, so the
+ * webhook cannot be used to fetch arbitrary URLs. Throws DeliveryReportError
+ * for anything else; returns the confirmed TopicArn.
+ */
+export async function confirmSnsSubscription(payload: unknown): Promise<string> {
+  const body = asObject(payload);
+  const topicArn = asString(body.TopicArn) || '';
+  const region = SNS_TOPIC_ARN_REGEX.exec(topicArn)?.[1];
+
+  if (!region) {
+    throw new DeliveryReportError('SNS subscription has no valid TopicArn');
+  }
+
+  if (SNS_TOPIC_ARNS.length > 0 && !SNS_TOPIC_ARNS.includes(topicArn)) {
+    throw new DeliveryReportError(`SNS topic ${topicArn} is not in SNS_TOPIC_ARNS`);
+  }
+
+  let subscribeUrl: URL;
+  try {
+    subscribeUrl = new URL(asString(body.SubscribeURL) || '');
+  } catch {
+    throw new DeliveryReportError('SNS subscription has no valid SubscribeURL');
+  }
+
+  if (subscribeUrl.protocol !== 'https:' || subscribeUrl.host !== `sns.${region}.amazonaws.com`) {
+    throw new DeliveryReportError(`SubscribeURL must be on sns.${region}.amazonaws.com`);
+  }
+
+  const response = await fetch(subscribeUrl);
+
+  if (!response.ok) {
+    throw new Error(`SNS subscription confirmation failed (${response.status})`);
+  }
+
+  return topicArn;
+}
+
+/**
+ * Mark the matching email job bounced or complained, suppressing the recipient when needed
+ */
+export async function applyDeliveryEvent(event: DeliveryEvent): Promise<DeliveryEventOutcome> {
+  const emailJob = await prisma.emailJob.findFirst({
+    where: { messageId: event.messageId },
+    select: { id: true, scheduleId: true, enrollmentId: true, userId: true, recipient: true },
+  });
+
+  if (!emailJob) return 'unmatched';
+
+  const recipient = event.recipient || emailJob.recipient;
+
+  if (event.type === 'complaint') {
+    await updateEmailJobStatus(emailJob.id, 'complained');
+    await addSuppression(emailJob.userId, recipient, 'complained');
+  } else {
+    const applied = await updateEmailJobStatus(emailJob.id, 'bounced', {
+      errorMessage: event.diagnostic || (event.hard ? 'Hard bounce' : 'Soft bounce'),
+      errorCode: event.status || null,
+      errorCategory: event.hard ? 'permanent' : 'temporary',
+    });
+
+    if (!applied) return 'ignored';
+
+    if (event.hard) {
+      await addSuppression(emailJob.userId, recipient, 'bounced');
+    }
+  }
+
+  // A bounced or complained sequence email ends its enrollment
+  if (emailJob.enrollmentId) {
+    await updateEnrollmentProgress(emailJob.id);
+  } else if (emailJob.scheduleId) {
+    await updateScheduleCounts(emailJob.scheduleId);
+  }
+
+  console.log(`📭 ${event.type} for email job ${emailJob.id} (${recipient})`);
+  return 'applied';
+}
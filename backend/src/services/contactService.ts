@@ -0,0 +1,285 @@
+import { Contact, Prisma } from '@prisma/client';
+import prisma from '../config/prisma';
+import { parseCsv, toAttributeName } from './csvService';
+import { isValidEmailSyntax } from './emailVerificationService';
+import { PersonalizedRecipient, RecipientVariables } from './personalizationService';
+
+/**
+ * Contact Service
+ *
+ * Contacts are a user's saved recipients: an address with custom attributes
+ * (used as merge fields) and tags, optionally grouped into lists. A schedule's
+ * audience can name lists and tags; it is resolved into recipients once, when
+ * the schedule is created.
+ */
+
+export type ContactAttributes = RecipientVariables;
+
+export interface ContactAudience {
+  listIds?: string[];
+  tags?: string[]; // A contact must have every one of them
+}
+
+export interface ContactItem {
+  id: string;
+  email: string;
+  attributes: ContactAttributes;
+  tags: string[];
+  listIds: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ContactImportOptions {
+  // Column header -> "email", "tags", an attribute name, or "" to skip the column
+  mapping?: Record<string, string>;
+  tags?: string[]; // Added to every imported contact
+  listId?: string; // List every imported contact is added to
+}
+
+export interface ContactImportResult {
+  total: number; // Data rows in the file
+  created: number;
+  updated: number;
+  duplicates: number; // Rows repeating an address seen earlier in the file
+  invalid: Array<{ row: number; email: string }>; // row is 1-based, header included
+}
+
+export class ContactError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ContactError';
+  }
+}
+
+const EMAIL_HEADER_REGEX = /^e-?mail(\s*address)?$/i;
+const IMPORT_CHUNK_SIZE = 500;
+
+export function isValidEmail(email: string): boolean {
+  return isValidEmailSyntax(email);
+}
+
+/**
+ * Tags from an array or a comma/semicolon separated string: trimmed, lowercased, unique
+ */
+export function normalizeTags(tags: unknown): string[] {
+  const values = Array.isArray(tags) ? tags : typeof tags === 'string' ? tags.split(/[,;]/) : [];
+
+  return Array.from(
+    new Set(values.map((tag) => String(tag).trim().toLowerCase()).filter((tag) => tag !== ''))
+  );
+}
+
+/**
+ * Attributes from a request body: a flat object whose values are kept as strings
+ * Returns null when the value is not an object
+ */
+export function normalizeAttributes(attributes: unknown): ContactAttributes | null {
+  if (!attributes || typeof attributes !== 'object' || Array.isArray(attributes)) return null;
+
+  const normalized: ContactAttributes = {};
+
+  for (const [name, value] of Object.entries(attributes)) {
+    if (name !== 'email' && value !== undefined && value !== null) {
+      normalized[name] = String(value).trim();
+    }
+  }
+
+  return normalized;
+}
+
+export function formatContact(contact: Contact & { lists?: Array<{ id: string }> }): ContactItem {
+  return {
+    id: contact.id,
+    email: contact.email,
+    attributes: JSON.parse(contact.attributes),
+    tags: contact.tags,
+    listIds: contact.lists?.map((list) => list.id) || [],
+    createdAt: contact.createdAt.toISOString(),
+    updatedAt: contact.updatedAt.toISOString(),
+  };
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Make sure every list id belongs to the user
+ */
+export async function assertListsExist(userId: string, listIds: string[]): Promise<void> {
+  if (listIds.length === 0) return;
+
+  const lists = await prisma.contactList.findMany({
+    where: { userId, id: { in: listIds } },
+    select: { id: true },
+  });
+  const found = new Set(lists.map((list) => list.id));
+  const missing = listIds.filter((id) => !found.has(id));
+
+  if (missing.length > 0) {
+    throw new ContactError(`List not found: ${missing.join(', ')}`);
+  }
+}
+
+/**
+ * Work out which column holds what: the given mapping, or by default the
+ * "email" column plus every other column as a camelCased attribute
+ */
+function resolveColumns(header: string[], mapping?: Record<string, string>): string[] {
+  let columns: string[];
+
+  if (mapping) {
+    const unknown = Object.keys(mapping).filter((column) => !header.includes(column));
+    if (unknown.length > 0) {
+      throw new ContactError(`Unknown column(s) in mapping: ${unknown.join(', ')}`);
+    }
+    columns = header.map((column) => (mapping[column] === undefined ? '' : mapping[column].trim()));
+  } else {
+    columns = header.map((column) => (EMAIL_HEADER_REGEX.test(column) ? 'email' : toAttributeName(column)));
+  }
+
+  const emailColumns = columns.filter((target) => target === 'email').length;
+  if (emailColumns !== 1) {
+    throw new ContactError(
+      emailColumns === 0 ? 'No column is mapped to email' : 'Only one column can be mapped to email'
+    );
+  }
+
+  return columns;
+}
+
+/**
+ * Import contacts from CSV with a header row
+ * Addresses already saved get the new attributes merged in and the tags added;
+ * an address repeated within the file keeps its first row.
+ */
+export async function importContacts(
+  userId: string,
+  csv: string,
+  options: ContactImportOptions = {}
+): Promise<ContactImportResult> {
+  const [header = [], ...rows] = parseCsv(csv);
+  const columns = resolveColumns(header, options.mapping);
+  const extraTags = normalizeTags(options.tags);
+
+  if (options.listId) {
+    await assertListsExist(userId, [options.listId]);
+  }
+
+  const result: ContactImportResult = { total: rows.length, created: 0, updated: 0, duplicates: 0, invalid: [] };
+  const parsed = new Map<string, { attributes: ContactAttributes; tags: string[] }>();
+
+  rows.forEach((row, i) => {
+    const attributes: ContactAttributes = {};
+    let tags = extraTags;
+    let email = '';
+
+    columns.forEach((target, column) => {
+      const value = row[column] || '';
+      if (target === 'email') {
+        email = value.toLowerCase();
+      } else if (target === 'tags') {
+        tags = normalizeTags([...tags, ...normalizeTags(value)]);
+      } else if (target && value) {
+        attributes[target] = value;
+      }
+    });
+
+    if (!isValidEmail(email)) {
+      result.invalid.push({ row: i + 2, email });
+    } else if (parsed.has(email)) {
+      result.duplicates++;
+    } else {
+      parsed.set(email, { attributes, tags });
+    }
+  });
+
+  const contactIds: string[] = [];
+
+  for (const emails of chunk(Array.from(parsed.keys()), IMPORT_CHUNK_SIZE)) {
+    const existing = await prisma.contact.findMany({
+      where: { userId, email: { in: emails } },
+    });
+    const existingByEmail = new Map(existing.map((contact) => [contact.email, contact]));
+    const newEmails = emails.filter((email) => !existingByEmail.has(email));
+
+    await prisma.$transaction([
+      ...existing.map((contact) => {
+        const incoming = parsed.get(contact.email)!;
+        return prisma.contact.update({
+          where: { id: contact.id },
+          data: {
+            attributes: JSON.stringify({ ...JSON.parse(contact.attributes), ...incoming.attributes }),
+            tags: normalizeTags([...contact.tags, ...incoming.tags]),
+          },
+        });
+      }),
+      prisma.contact.createMany({
+        data: newEmails.map((email) => ({
+          userId,
+          email,
+          attributes: JSON.stringify(parsed.get(email)!.attributes),
+          tags: parsed.get(email)!.tags,
+        })),
+        skipDuplicates: true,
+      }),
+    ]);
+
+    result.updated += existing.length;
+    result.created += newEmails.length;
+
+    if (options.listId) {
+      const saved = await prisma.contact.findMany({
+        where: { userId, email: { in: emails } },
+        select: { id: true },
+      });
+      contactIds.push(...saved.map((contact) => contact.id));
+    }
+  }
+
+  if (options.listId) {
+    for (const ids of chunk(contactIds, IMPORT_CHUNK_SIZE)) {
+      await prisma.contactList.update({
+        where: { id: options.listId },
+        data: { contacts: { connect: ids.map((id) => ({ id })) } },
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Filter for the contacts in an audience: in any of the lists and carrying every tag
+ */
+export function buildAudienceWhere(userId: string, audience: ContactAudience): Prisma.ContactWhereInput {
+  const tags = normalizeTags(audience.tags);
+
+  return {
+    userId,
+    ...(audience.listIds && audience.listIds.length > 0 && { lists: { some: { id: { in: audience.listIds } } } }),
+    ...(tags.length > 0 && { tags: { hasEvery: tags } }),
+  };
+}
+
+/**
+ * Turn an audience into recipients, with each contact's attributes as merge fields
+ */
+export async function resolveAudience(userId: string, audience: ContactAudience): Promise<PersonalizedRecipient[]> {
+  await assertListsExist(userId, audience.listIds || []);
+
+  const contacts = await prisma.contact.findMany({
+    where: buildAudienceWhere(userId, audience),
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return contacts.map((contact) => ({
+    email: contact.email,
+    variables: { ...JSON.parse(contact.attributes), email: contact.email },
+  }));
+}
@@ -0,0 +1,67 @@
+/**
+ * CSV Service
+ *
+ * A small RFC 4180 parser for uploads: comma separated, fields optionally in
+ * double quotes with "" as an escaped quote and line breaks allowed inside
+ * quotes. A byte order mark and blank lines are ignored.
+ */
+
+/**
+ * Parse CSV text into rows of trimmed cells
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field.trim());
+    if (row.some((cell) => cell !== '')) rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+}
+
+/**
+ * Turn a column header like "First Name" or "first_name" into an attribute name (firstName)
+ */
+export function toAttributeName(header: string): string {
+  const words = header.trim().split(/[^a-zA-Z0-9]+/).filter(Boolean);
+  return words
+    .map((word, i) =>
+      i === 0 ? word.charAt(0).toLowerCase() + word.slice(1) : word.charAt(0).toUpperCase() + word.slice(1)
+    )
+    .join('');
+}
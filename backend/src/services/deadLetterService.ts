@@ -0,0 +1,127 @@
+import { DeadLetter, EmailSchedule } from '@prisma/client';
+import prisma from '../config/prisma';
+import { EmailJobData, SendErrorRecord } from '../types';
+import { scheduleEmailJob, removeEmailJob } from './queueService';
+import { updateEmailJobStatus, updateScheduleCounts } from './emailService';
+import { discardSendClaim } from './idempotencyService';
+
+/**
+ * Dead Letter Service
+ *
+ * BullMQ drops failed jobs after 24 hours, so an email that fails for good is
+ * also stored here with the payload it was queued with and every error it hit.
+ * From here it can be retried (queued again with a fresh set of attempts) or
+ * dropped, leaving the email job failed.
+ */
+
+export interface DeadLetterItem {
+  id: string;
+  emailJobId: string;
+  recipient: string;
+  subject: string;
+  lastError: string;
+  errors: SendErrorRecord[];
+  failedAt: string;
+}
+
+/**
+ * Store a failed email, replacing an earlier dead letter for it
+ */
+export async function addDeadLetter(data: EmailJobData, errors: SendErrorRecord[]): Promise<void> {
+  const { errorHistory, ...payload } = data;
+  const fields = {
+    scheduleId: data.scheduleId,
+    userId: data.userId,
+    payload: JSON.stringify(payload),
+    errors: JSON.stringify(errors),
+    lastError: errors[errors.length - 1]?.message || 'Unknown error',
+    failedAt: new Date(),
+  };
+
+  await prisma.deadLetter.upsert({
+    where: { emailJobId: data.emailJobId },
+    create: { emailJobId: data.emailJobId, ...fields },
+    update: fields,
+  });
+}
+
+export function formatDeadLetter(deadLetter: DeadLetter): DeadLetterItem {
+  const payload: EmailJobData = JSON.parse(deadLetter.payload);
+
+  return {
+    id: deadLetter.id,
+    emailJobId: deadLetter.emailJobId,
+    recipient: payload.recipient,
+    subject: payload.subject,
+    lastError: deadLetter.lastError,
+    errors: JSON.parse(deadLetter.errors),
+    failedAt: deadLetter.failedAt.toISOString(),
+  };
+}
+
+/**
+ * Queue dead letters of a schedule again, all of them or the given email jobs
+ * Retried emails are spaced delayMs apart from now. Returns how many were queued.
+ */
+export async function retryDeadLetters(schedule: EmailSchedule, emailJobIds?: string[]): Promise<number> {
+  const deadLetters = await prisma.deadLetter.findMany({
+    where: { scheduleId: schedule.id, ...(emailJobIds && { emailJobId: { in: emailJobIds } }) },
+    include: { emailJob: { select: { jobId: true } } },
+    orderBy: { failedAt: 'asc' },
+  });
+
+  const now = Date.now();
+  let retried = 0;
+
+  for (const deadLetter of deadLetters) {
+    const scheduledTime = new Date(now + retried * schedule.delayMs);
+
+    // The failed BullMQ job may still exist under the old id
+    if (deadLetter.emailJob.jobId) {
+      await removeEmailJob(deadLetter.emailJob.jobId);
+    }
+
+    // A claim left by an interrupted send would block the retry; retrying accepts the risk
+    await discardSendClaim(deadLetter.emailJobId);
+
+    // Queued before the job exists, so the worker never finds it still failed
+    if (!(await updateEmailJobStatus(deadLetter.emailJobId, 'queued'))) continue;
+
+    await prisma.emailJob.update({
+      where: { id: deadLetter.emailJobId },
+      data: { scheduledTime, attemptCount: 0, jobId: null },
+    });
+
+    const jobId = await scheduleEmailJob({
+      ...JSON.parse(deadLetter.payload),
+      scheduledTime,
+      errorHistory: JSON.parse(deadLetter.errors),
+    });
+
+    await prisma.emailJob.update({
+      where: { id: deadLetter.emailJobId },
+      data: { jobId },
+    });
+    await prisma.deadLetter.delete({ where: { id: deadLetter.id } });
+
+    retried++;
+  }
+
+  if (retried > 0) {
+    await updateScheduleCounts(schedule.id);
+  }
+
+  return retried;
+}
+
+/**
+ * Delete dead letters of a schedule, all of them or the given email jobs
+ * The email jobs stay failed
+ */
+export async function dropDeadLetters(scheduleId: string, emailJobIds?: string[]): Promise<number> {
+  const { count } = await prisma.deadLetter.deleteMany({
+    where: { scheduleId, ...(emailJobIds && { emailJobId: { in: emailJobIds } }) },
+  });
+
+  return count;
+}
@@ -1,36 +1,87 @@
 import { getEmailTransporter } from '../config/connections';
+import { DEFAULT_SENDER } from '../config/app';
 import prisma from '../config/prisma';
-import { EmailJobData } from '../types';
+import { EmailJobStatus, EmailTransport, OutgoingEmail } from '../types';
+import { addTracking } from './trackingService';
+import { classifySendError, SendErrorCategory, SendErrorDetails } from './sendErrorService';
+import { normalizeMessageId } from './bounceService';
 
 /**
  * Email Service
  * 
- * Handles sending emails via Ethereal Email (fake SMTP)
- * All emails are sent from the Ethereal account configured in env
+ * Builds the message and hands it to an EmailTransport.
+ * The default transport comes from EMAIL_TRANSPORT; callers may pass another
+ * (e.g. one built from a sender profile). sendEmail does not care which.
  */
 
+export interface SendEmailOptions {
+  transport?: EmailTransport;
+  replyTo?: string;
+  signature?: string;
+  trackingId?: string; // EmailJob id; adds the open pixel and click redirects
+  unsubscribeUrl?: string; // Adds an unsubscribe link and List-Unsubscribe headers
+}
+
+export interface SendEmailResult {
+  success: boolean;
+  messageId?: string;
+  accepted?: string[];
+  rejected?: string[];
+  response?: string; // Server reply, on success or failure
+  durationMs: number;
+  error?: string;
+  errorDetails?: SendErrorDetails;
+}
+
+// What the transport reported about one send attempt
+export interface DeliveryTranscript {
+  accepted?: string[];
+  rejected?: string[];
+  response?: string;
+  durationMs?: number;
+}
+
 export async function sendEmail(
   recipient: string,
   subject: string,
   body: string,
-  sender: string = 'noreply@reachinbox.app',
-  attachments?: Array<{ filename: string; contentBase64: string; contentType: string }>
-): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  sender: string = DEFAULT_SENDER,
+  attachments?: Array<{ filename: string; contentBase64: string; contentType: string }>,
+  options: SendEmailOptions = {}
+): Promise<SendEmailResult> {
+  const startedAt = Date.now();
+
   try {
-    const transporter = getEmailTransporter();
+    const transport = options.transport || getEmailTransporter();
 
-    const mailOptions: any = {
+    let content = options.signature
+      ? `${body}<div style="margin-top: 1.5rem;">${options.signature}</div>`
+      : body;
+
+    if (options.trackingId) {
+      content = addTracking(content, options.trackingId);
+    }
+
+    const mailOptions: OutgoingEmail = {
       from: sender,
       to: recipient,
+      replyTo: options.replyTo,
       subject,
+      headers: options.unsubscribeUrl
+        ? {
+            'List-Unsubscribe': `<${options.unsubscribeUrl}>`,
+            'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+          }
+        : undefined,
       html: `
         <html>
           <body style="font-family: Arial, sans-serif; line-height: 1.6;">
-            ${body}
+            ${content}
             <hr style="margin-top: 2rem; border: none; border-top: 1px solid #ddd;">
             <p style="color: #666; font-size: 12px;">
-              This is a test email sent via Ethereal Email.<br/>
+              Sent via ReachInbox (${transport.provider}).<br/>
               Message ID: ${new Date().getTime()}
+              ${options.unsubscribeUrl ? `<br/><a href="${options.unsubscribeUrl}" style="color: #666;">Unsubscribe</a>` : ''}
             </p>
           </body>
         </html>
@@ -46,52 +97,135 @@ export async function sendEmail(
       }));
     }
 
-    const info = await transporter.sendMail(mailOptions);
+    const info = await transport.send(mailOptions);
 
     console.log(`✅ Email sent to ${recipient}:`, info.messageId);
 
     return {
       success: true,
       messageId: info.messageId,
+      accepted: info.accepted,
+      rejected: info.rejected,
+      response: info.response,
+      durationMs: Date.now() - startedAt,
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    console.error(`❌ Failed to send email to ${recipient}:`, errorMessage);
+    const errorDetails = classifySendError(error);
+    console.error(`❌ Failed to send email to ${recipient} (${errorDetails.category}):`, errorMessage);
 
     return {
       success: false,
+      response: (error as { response?: string } | null)?.response,
+      durationMs: Date.now() - startedAt,
       error: errorMessage,
+      errorDetails,
     };
   }
 }
 
 /**
- * Update email job status in database
+ * Statuses each EmailJob status may move to
+ * sent and failed can also be reached from queued/retrying when reconciliation
+ * finds BullMQ already finished a job the row never heard about.
+ */
+const EMAIL_JOB_TRANSITIONS: Record<EmailJobStatus, EmailJobStatus[]> = {
+  pending: ['queued', 'paused', 'cancelled'],
+  queued: ['sending', 'retrying', 'sent', 'failed', 'paused', 'cancelled', 'suppressed'],
+  sending: ['sent', 'failed', 'retrying', 'queued'],
+  retrying: ['sending', 'sent', 'failed', 'paused', 'cancelled', 'suppressed'],
+  paused: ['queued', 'cancelled'],
+  sent: ['bounced', 'complained'],
+  failed: ['queued'], // Retried by hand from the dead letters
+  cancelled: [],
+  suppressed: [],
+  bounced: ['complained'],
+  complained: [],
+};
+
+// Waiting to be sent, i.e. in BullMQ or about to be
+export const UNSENT_STATUSES: EmailJobStatus[] = ['pending', 'queued', 'retrying'];
+
+function getAllowedFromStatuses(status: EmailJobStatus): EmailJobStatus[] {
+  return (Object.keys(EMAIL_JOB_TRANSITIONS) as EmailJobStatus[]).filter((from) =>
+    EMAIL_JOB_TRANSITIONS[from].includes(status)
+  );
+}
+
+/**
+ * Move an email job to a new status
+ * Returns false, changing nothing, when its current status does not allow the move.
+ * Entering "sending" counts an attempt.
  */
 export async function updateEmailJobStatus(
   jobId: string,
-  status: 'sent' | 'failed' | 'pending',
+  status: EmailJobStatus,
   options?: {
     sentTime?: Date;
+    messageId?: string;
     errorMessage?: string;
+    errorCode?: string | null;
+    errorCategory?: SendErrorCategory;
+    transcript?: DeliveryTranscript;
   }
-): Promise<void> {
+): Promise<boolean> {
   try {
-    await prisma.emailJob.update({
-      where: { id: jobId },
+    const { count } = await prisma.emailJob.updateMany({
+      where: { id: jobId, status: { in: getAllowedFromStatuses(status) } },
       data: {
         status,
         sentTime: options?.sentTime,
+        messageId: options?.messageId && normalizeMessageId(options.messageId),
         errorMessage: options?.errorMessage,
+        errorCode: options?.errorCode,
+        errorCategory: options?.errorCategory,
+        ...(options?.transcript && {
+          accepted: options.transcript.accepted && JSON.stringify(options.transcript.accepted),
+          rejected: options.transcript.rejected && JSON.stringify(options.transcript.rejected),
+          smtpResponse: options.transcript.response,
+          sendDurationMs: options.transcript.durationMs,
+        }),
+        ...(status === 'sending' && { attemptCount: { increment: 1 }, lastAttemptAt: new Date() }),
         updatedAt: new Date(),
       },
     });
+
+    return count > 0;
   } catch (error) {
     console.error('Error updating email job status:', error);
     throw error;
   }
 }
 
+/**
+ * Record which rate limit is currently holding a schedule back
+ * Pass null to clear it once sends go through again
+ */
+export async function updateScheduleThrottle(
+  scheduleId: string,
+  throttledBy: string | null,
+  throttledUntil: Date | null
+): Promise<void> {
+  try {
+    if (throttledBy === null) {
+      // Only write when there is something to clear, this runs after every send
+      await prisma.emailSchedule.updateMany({
+        where: { id: scheduleId, throttledBy: { not: null } },
+        data: { throttledBy: null, throttledUntil: null },
+      });
+      return;
+    }
+
+    await prisma.emailSchedule.update({
+      where: { id: scheduleId },
+      data: { throttledBy, throttledUntil },
+    });
+  } catch (error) {
+    console.error('Error updating schedule throttle:', error);
+    throw error;
+  }
+}
+
 /**
  * Get email job count by status
  */
@@ -119,23 +253,43 @@ export async function getEmailJobCountByStatus(
  */
 export async function updateScheduleCounts(scheduleId: string): Promise<void> {
   try {
-    const sentCount = await getEmailJobCountByStatus(scheduleId, 'sent');
-    const failedCount = await getEmailJobCountByStatus(scheduleId, 'failed');
+    // Complaints were delivered; bounces were not
+    const sentCount =
+      (await getEmailJobCountByStatus(scheduleId, 'sent')) +
+      (await getEmailJobCountByStatus(scheduleId, 'complained'));
+    const failedCount =
+      (await getEmailJobCountByStatus(scheduleId, 'failed')) +
+      (await getEmailJobCountByStatus(scheduleId, 'bounced'));
+    const cancelledCount = await getEmailJobCountByStatus(scheduleId, 'cancelled');
+    const suppressedCount = await getEmailJobCountByStatus(scheduleId, 'suppressed');
 
     const schedule = await prisma.emailSchedule.findUnique({
       where: { id: scheduleId },
     });
 
     if (schedule) {
-      const sentPlus = sentCount + failedCount;
-      const isCompleted = sentPlus >= schedule.totalCount;
+      const finishedCount = sentCount + failedCount + cancelledCount + suppressedCount;
+      const batchFinished = finishedCount >= schedule.totalCount;
+      // A recurring schedule waits for its next occurrence until the series ends, and an
+      // A/B test for its winner to be sent to the remainder
+      const isCompleted = batchFinished && !schedule.nextOccurrenceAt && schedule.abTestStatus !== 'testing';
+
+      // Paused and cancelled are set explicitly by the user, preparing and failed by
+      // scheduleService; none of them may be overwritten here
+      let status = isCompleted ? 'completed' : batchFinished ? 'scheduled' : 'in-progress';
+      if (
+        ['cancelled', 'preparing', 'failed'].includes(schedule.status) ||
+        (schedule.status === 'paused' && !isCompleted)
+      ) {
+        status = schedule.status;
+      }
 
       await prisma.emailSchedule.update({
         where: { id: scheduleId },
         data: {
           sentCount,
           failedCount,
-          status: isCompleted ? 'completed' : 'in-progress',
+          status,
           updatedAt: new Date(),
         },
       });
@@ -0,0 +1,348 @@
+import { getRedis } from '../config/connections';
+import { getDnsResolver } from './resolvers';
+
+/**
+ * Email address verification
+ *
+ * Checks an address's syntax (RFC 5321/5322), flags disposable domains and
+ * likely typos of common providers, and looks up whether its domain accepts
+ * mail (MX records, or an A/AAAA record as the implicit MX). Domain lookups go
+ * through the configured DNS resolver and are cached in Redis per domain. They
+ * get EMAIL_VERIFY_TIMEOUT_MS in all, so verifying a large list of uncached
+ * domains cannot hold up the request that asked for it.
+ */
+
+export type VerificationStatus = 'valid' | 'risky' | 'invalid' | 'unknown';
+
+export type VerificationReason =
+  | 'syntax' // Not a valid address
+  | 'no_mail_server' // The domain has no MX, A or AAAA records
+  | 'null_mx' // The domain publishes that it accepts no mail (RFC 7505)
+  | 'dns_error' // The lookup failed or ran out of time, so the domain could not be checked
+  | 'disposable'
+  | 'possible_typo';
+
+export interface EmailVerification {
+  email: string;
+  status: VerificationStatus;
+  reasons: VerificationReason[];
+  suggestion?: string; // The address with the likely intended domain
+}
+
+type MailServer = 'mx' | 'a' | 'none' | 'null_mx';
+
+const CACHE_TTL_SECONDS = parseInt(process.env.EMAIL_VERIFY_CACHE_TTL_SECONDS || String(24 * 60 * 60), 10);
+const DNS_LOOKUP_CONCURRENCY = parseInt(process.env.DNS_LOOKUP_CONCURRENCY || '10', 10);
+const VERIFY_TIMEOUT_MS = parseInt(process.env.EMAIL_VERIFY_TIMEOUT_MS || '5000', 10);
+
+// Printable characters allowed in a dot-atom (RFC 5322 atext)
+const ATOM_REGEX = /^[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+$/;
+// Printable ASCII inside quotes, with quotes and backslashes escaped
+const QUOTED_STRING_REGEX = /^"(?:[\x20\x21\x23-\x5B\x5D-\x7E]|\\[\x20-\x7E])*"$/;
+const LABEL_REGEX = /^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/i;
+
+const DISPOSABLE_DOMAINS = new Set([
+  '10minutemail.com',
+  'burnermail.io',
+  'discard.email',
+  'dispostable.com',
+  'emailondeck.com',
+  'fakeinbox.com',
+  'getnada.com',
+  'guerrillamail.com',
+  'guerrillamail.net',
+  'guerrillamailblock.com',
+  'maildrop.cc',
+  'mailinator.com',
+  'mailnesia.com',
+  'mintemail.com',
+  'mohmal.com',
+  'mytemp.email',
+  'sharklasers.com',
+  'spamgourmet.com',
+  'temp-mail.org',
+  'tempmail.com',
+  'tempr.email',
+  'throwawaymail.com',
+  'trashmail.com',
+  'yopmail.com',
+]);
+
+// Providers whose near-misses are worth suggesting a fix for
+const COMMON_DOMAINS = [
+  'aol.com',
+  'comcast.net',
+  'gmail.com',
+  'gmx.com',
+  'googlemail.com',
+  'hotmail.co.uk',
+  'hotmail.com',
+  'icloud.com',
+  'live.com',
+  'mail.com',
+  'me.com',
+  'msn.com',
+  'outlook.com',
+  'proton.me',
+  'protonmail.com',
+  'yahoo.co.uk',
+  'yahoo.com',
+  'yandex.com',
+];
+
+const TLD_TYPOS: Record<string, string> = {
+  con: 'com',
+  cmo: 'com',
+  ocm: 'com',
+  comm: 'com',
+  coom: 'com',
+  vom: 'com',
+  xom: 'com',
+  ent: 'net',
+  nte: 'net',
+  ogr: 'org',
+  rog: 'org',
+};
+
+function cacheKey(domain: string): string {
+  return `email-verify:domain:${domain}`;
+}
+
+/**
+ * Whether an address is syntactically valid
+ * Follows RFC 5321/5322 for a local part (dot-atom or quoted string, at most 64
+ * characters) and a domain name of LDH labels with an alphabetic TLD. Address
+ * literals (user@[192.0.2.1]) and non-ASCII addresses are not accepted.
+ */
+export function isValidEmailSyntax(email: string): boolean {
+  if (email.length > 254) return false;
+
+  const at = email.lastIndexOf('@');
+  if (at <= 0) return false;
+
+  const local = email.slice(0, at);
+  const domain = email.slice(at + 1);
+
+  if (local.length > 64) return false;
+  if (!QUOTED_STRING_REGEX.test(local) && !local.split('.').every((atom) => ATOM_REGEX.test(atom))) {
+    return false;
+  }
+
+  const labels = domain.split('.');
+  if (domain.length > 253 || labels.length < 2 || !labels.every((label) => LABEL_REGEX.test(label))) {
+    return false;
+  }
+
+  // Top-level domains are letters, or punycode for internationalized ones
+  const tld = labels[labels.length - 1];
+  return /^[a-z]{2,63}$/i.test(tld) || /^xn--[a-z0-9-]+$/i.test(tld);
+}
+
+export function isDisposableDomain(domain: string): boolean {
+  const labels = domain.toLowerCase().split('.');
+  // Subdomains of disposable services count too
+  return labels.some((_, i) => DISPOSABLE_DOMAINS.has(labels.slice(i).join('.')));
+}
+
+/**
+ * Edit distance counting adjacent transpositions as one edit (gmial → gmail)
+ */
+function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+}
+
+/**
+ * Suggest the domain a misspelled one was probably meant to be
+ * (gmial.com → gmail.com, example.con → example.com), or null
+ */
+export function suggestDomain(domain: string): string | null {
+  const lower = domain.toLowerCase();
+  if (COMMON_DOMAINS.includes(lower)) return null;
+
+  // Longer names can be further off and still be an obvious typo; very short
+  // ones (aon.com) are too likely to be real domains of their own
+  const nameLength = lower.split('.')[0].length;
+  const maxDistance = nameLength >= 6 ? 2 : nameLength >= 4 ? 1 : 0;
+  let best: { domain: string; distance: number } | null = null;
+
+  for (const candidate of COMMON_DOMAINS) {
+    const distance = editDistance(lower, candidate);
+    if (distance <= maxDistance && (!best || distance < best.distance)) {
+      best = { domain: candidate, distance };
+    }
+  }
+
+  if (best) return best.domain;
+
+  const dot = lower.lastIndexOf('.');
+  const tld = TLD_TYPOS[lower.slice(dot + 1)];
+  return tld ? `${lower.slice(0, dot)}.${tld}` : null;
+}
+
+/**
+ * Find out how a domain receives mail
+ */
+async function lookupMailServer(domain: string): Promise<MailServer> {
+  const resolver = getDnsResolver();
+  const mx = await resolver.resolveMx(domain);
+
+  if (mx.length > 0) {
+    const isNullMx = mx.length === 1 && (mx[0].exchange === '' || mx[0].exchange === '.');
+    return isNullMx ? 'null_mx' : 'mx';
+  }
+
+  // Without MX records, mail goes to the domain's own address (RFC 5321 section 5.1)
+  const addresses = await resolver.resolveAddresses(domain);
+  return addresses.length > 0 ? 'a' : 'none';
+}
+
+/**
+ * Look up many domains, using and filling the Redis cache
+ * Domains whose lookup failed or did not finish within VERIFY_TIMEOUT_MS are
+ * left out, so they are retried next time. Lookups already running when time is
+ * up still finish and fill the cache, but no new ones are started.
+ */
+async function checkDomains(domains: string[]): Promise<Map<string, MailServer>> {
+  const results = new Map<string, MailServer>();
+  if (domains.length === 0) return results;
+
+  const redis = getRedis();
+  const cached = await redis.mget(domains.map(cacheKey));
+  const misses: string[] = [];
+
+  domains.forEach((domain, i) => {
+    if (cached[i]) results.set(domain, cached[i] as MailServer);
+    else misses.push(domain);
+  });
+
+  // A few lookups at a time, so a large campaign doesn't flood the resolver
+  let next = 0;
+  let timedOut = false;
+  const looked = new Map<string, MailServer>();
+  const lookupNext = async (): Promise<void> => {
+    while (next < misses.length && !timedOut) {
+      const domain = misses[next++];
+      try {
+        const mailServer = await lookupMailServer(domain);
+        looked.set(domain, mailServer);
+        await redis.set(cacheKey(domain), mailServer, 'EX', CACHE_TTL_SECONDS);
+      } catch (error) {
+        console.warn(`DNS lookup of ${domain} failed:`, error instanceof Error ? error.message : error);
+      }
+    }
+  };
+
+  let timer: NodeJS.Timeout | undefined;
+  const deadline = new Promise<void>((resolve) => {
+    timer = setTimeout(() => {
+      timedOut = true;
+      resolve();
+    }, VERIFY_TIMEOUT_MS);
+  });
+
+  await Promise.race([
+    Promise.all(Array.from({ length: Math.min(DNS_LOOKUP_CONCURRENCY, misses.length) }, lookupNext)),
+    deadline,
+  ]);
+  clearTimeout(timer);
+
+  if (timedOut) {
+    console.warn(`⚠️  Domain verification ran out of time with ${misses.length - looked.size} domain(s) unchecked`);
+  }
+
+  // Lookups still running after the deadline don't change the answer
+  looked.forEach((mailServer, domain) => results.set(domain, mailServer));
+  return results;
+}
+
+/**
+ * Verify addresses, returning a result per lowercased address
+ *
+ * invalid: bad syntax, or the domain cannot receive mail
+ * risky: disposable domain, or a likely typo (see suggestion)
+ * unknown: the domain lookup failed
+ */
+export async function verifyEmails(emails: string[]): Promise<Map<string, EmailVerification>> {
+  const addresses = Array.from(new Set(emails.map((email) => email.trim().toLowerCase())));
+  const wellFormed = addresses.filter(isValidEmailSyntax);
+  const domains = Array.from(new Set(wellFormed.map((email) => email.slice(email.lastIndexOf('@') + 1))));
+  const mailServers = await checkDomains(domains);
+  const results = new Map<string, EmailVerification>();
+
+  for (const email of addresses) {
+    if (!isValidEmailSyntax(email)) {
+      results.set(email, { email, status: 'invalid', reasons: ['syntax'] });
+      continue;
+    }
+
+    const at = email.lastIndexOf('@');
+    const domain = email.slice(at + 1);
+    const mailServer = mailServers.get(domain);
+    const reasons: VerificationReason[] = [];
+
+    if (mailServer === 'none') reasons.push('no_mail_server');
+    if (mailServer === 'null_mx') reasons.push('null_mx');
+    if (!mailServer) reasons.push('dns_error');
+    if (isDisposableDomain(domain)) reasons.push('disposable');
+
+    const suggestedDomain = suggestDomain(domain);
+    if (suggestedDomain) reasons.push('possible_typo');
+
+    let status: VerificationStatus = 'valid';
+    if (mailServer === 'none' || mailServer === 'null_mx') status = 'invalid';
+    else if (!mailServer) status = 'unknown';
+    else if (reasons.length > 0) status = 'risky';
+
+    results.set(email, {
+      email,
+      status,
+      reasons,
+      ...(suggestedDomain && { suggestion: `${email.slice(0, at)}@${suggestedDomain}` }),
+    });
+  }
+
+  return results;
+}
+
+export interface VerificationSummary {
+  valid: number;
+  risky: number;
+  invalid: number;
+  unknown: number;
+  flagged: EmailVerification[]; // Everything not valid, up to MAX_FLAGGED
+}
+
+const MAX_FLAGGED = 500;
+
+/**
+ * Count results by status and list the ones worth a look, invalid first
+ */
+export function summarizeVerifications(results: Iterable<EmailVerification>): VerificationSummary {
+  const summary: VerificationSummary = { valid: 0, risky: 0, invalid: 0, unknown: 0, flagged: [] };
+  const order: VerificationStatus[] = ['invalid', 'risky', 'unknown'];
+  const flagged: EmailVerification[] = [];
+
+  for (const result of results) {
+    summary[result.status]++;
+    if (result.status !== 'valid') flagged.push(result);
+  }
+
+  summary.flagged = flagged
+    .sort((a, b) => order.indexOf(a.status) - order.indexOf(b.status))
+    .slice(0, MAX_FLAGGED);
+
+  return summary;
+}
@@ -0,0 +1,183 @@
+import crypto from 'crypto';
+import { Prisma, SendRecord } from '@prisma/client';
+import prisma from '../config/prisma';
+
+/**
+ * Idempotency Service
+ *
+ * Send claims: before an email goes to the transport, a SendRecord keyed by its
+ * EmailJob id is claimed with a single insert under the attempt's own id, and
+ * marked "sending" right before the transport is called. A retry finds the
+ * record and knows the email was sent, or that a previous attempt stopped after
+ * handing it to the transport with the outcome unknown; neither is sent again.
+ * An attempt only ever starts, releases or takes over a claim it holds. A fresh
+ * claim belongs to whoever made it; one that never got as far as the transport
+ * within CLAIM_STALE_MS sent nothing, so the next attempt takes it over.
+ *
+ * Idempotency keys: a request carrying an Idempotency-Key header is stored with
+ * its response, and a repeat of it within 24 hours gets that response replayed
+ * instead of running again.
+ */
+
+export type SendClaim = 'claimed' | 'busy' | 'sent' | 'in-doubt';
+
+export type IdempotentRequest =
+  | { state: 'started'; id: string }
+  | { state: 'replay'; status: number; body: unknown }
+  | { state: 'in-progress' }
+  | { state: 'mismatch' };
+
+const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+// A claim that has not reached the transport by now was left by an attempt that stopped
+const CLAIM_STALE_MS = 60 * 1000;
+
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+/**
+ * Claim the right to send an email job for one attempt
+ * "busy": another attempt holds a fresh claim. "sent": a previous attempt sent
+ * it. "in-doubt": a previous attempt called the transport and never reported
+ * back, so it may have gone out.
+ */
+export async function claimSend(emailJobId: string, attemptId: string): Promise<SendClaim> {
+  try {
+    await prisma.sendRecord.create({ data: { emailJobId, attemptId } });
+    return 'claimed';
+  } catch (error) {
+    if (!isUniqueViolation(error)) throw error;
+  }
+
+  const record = await prisma.sendRecord.findUnique({ where: { emailJobId } });
+
+  // Released since the insert failed
+  if (!record) return claimSend(emailJobId, attemptId);
+
+  if (record.status === 'sent') return 'sent';
+  if (record.status === 'sending') return 'in-doubt';
+  if (record.attemptId === attemptId) return 'claimed';
+  if (record.claimedAt.getTime() > Date.now() - CLAIM_STALE_MS) return 'busy';
+
+  // The attempt that claimed it stopped before calling the transport, so nothing went out
+  const { count } = await prisma.sendRecord.updateMany({
+    where: { emailJobId, status: 'claimed', attemptId: record.attemptId },
+    data: { attemptId, claimedAt: new Date() },
+  });
+
+  return count === 1 ? 'claimed' : claimSend(emailJobId, attemptId);
+}
+
+/**
+ * Record that the transport is about to be called
+ * From here on a lost attempt leaves the email in doubt. Returns false if the
+ * claim was taken over in the meantime.
+ */
+export async function markSendStarted(emailJobId: string, attemptId: string): Promise<boolean> {
+  const { count } = await prisma.sendRecord.updateMany({
+    where: { emailJobId, attemptId, status: 'claimed' },
+    data: { status: 'sending', startedAt: new Date() },
+  });
+  return count === 1;
+}
+
+/**
+ * Record that the transport accepted the email
+ * Written whatever became of the claim, since the email has gone out either way
+ */
+export async function confirmSend(emailJobId: string, attemptId: string, messageId?: string): Promise<void> {
+  const sent = { status: 'sent', attemptId, messageId, sentAt: new Date() };
+
+  await prisma.sendRecord.upsert({
+    where: { emailJobId },
+    create: { emailJobId, ...sent },
+    update: sent,
+  });
+}
+
+/**
+ * Give up this attempt's claim before the transport was called (the email was skipped)
+ */
+export async function releaseClaim(emailJobId: string, attemptId: string): Promise<void> {
+  await prisma.sendRecord.deleteMany({ where: { emailJobId, attemptId, status: 'claimed' } });
+}
+
+/**
+ * Give up this attempt's claim after the transport rejected the email, so a retry may send it
+ */
+export async function releaseSend(emailJobId: string, attemptId: string): Promise<void> {
+  await prisma.sendRecord.deleteMany({ where: { emailJobId, attemptId, status: 'sending' } });
+}
+
+/**
+ * Drop any unsent claim on an email job, whoever holds it
+ * Only for a deliberate retry of a failed email, which accepts the risk of a duplicate
+ */
+export async function discardSendClaim(emailJobId: string): Promise<void> {
+  await prisma.sendRecord.deleteMany({ where: { emailJobId, status: { in: ['claimed', 'sending'] } } });
+}
+
+export async function getSendRecord(emailJobId: string): Promise<SendRecord | null> {
+  return prisma.sendRecord.findUnique({ where: { emailJobId } });
+}
+
+export function hashRequestBody(body: unknown): string {
+  return crypto.createHash('sha256').update(JSON.stringify(body ?? null)).digest('hex');
+}
+
+/**
+ * Start a request under an idempotency key, or find the earlier one that used it
+ */
+export async function beginIdempotentRequest(
+  userId: string,
+  endpoint: string,
+  key: string,
+  requestHash: string
+): Promise<IdempotentRequest> {
+  const existing = await prisma.idempotencyKey.findUnique({
+    where: { userId_endpoint_key: { userId, endpoint, key } },
+  });
+
+  if (existing && existing.createdAt.getTime() > Date.now() - IDEMPOTENCY_KEY_TTL_MS) {
+    if (existing.requestHash !== requestHash) return { state: 'mismatch' };
+    if (existing.responseStatus === null) return { state: 'in-progress' };
+
+    return {
+      state: 'replay',
+      status: existing.responseStatus,
+      body: existing.responseBody ? JSON.parse(existing.responseBody) : null,
+    };
+  }
+
+  // Expired keys may be reused
+  if (existing) {
+    await prisma.idempotencyKey.deleteMany({ where: { id: existing.id } });
+  }
+
+  try {
+    const created = await prisma.idempotencyKey.create({
+      data: { userId, endpoint, key, requestHash },
+    });
+    return { state: 'started', id: created.id };
+  } catch (error) {
+    // Another request with the same key got in first
+    if (isUniqueViolation(error)) return { state: 'in-progress' };
+    throw error;
+  }
+}
+
+/**
+ * Store the response of an idempotent request
+ * Server errors release the key instead, so the client can retry
+ */
+export async function finishIdempotentRequest(id: string, status: number, body: unknown): Promise<void> {
+  if (status >= 500) {
+    await prisma.idempotencyKey.deleteMany({ where: { id } });
+    return;
+  }
+
+  await prisma.idempotencyKey.update({
+    where: { id },
+    data: { responseStatus: status, responseBody: JSON.stringify(body) },
+  });
+}
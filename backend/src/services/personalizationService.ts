@@ -0,0 +1,201 @@
+/**
+ * Personalization Service
+ *
+ * Renders merge fields in a subject or body with per-recipient values.
+ *
+ * Syntax:
+ * - {{firstName}}                      value, required for every recipient
+ * - {{firstName | "there"}}            value with a default, never required
+ * - {{#if company}}...{{/if}}          rendered only when company is non-empty
+ * - {{#if company}}...{{else}}...{{/if}}
+ *
+ * A field used only inside an {{#if}} on that same field is not required.
+ */
+
+export type RecipientVariables = Record<string, string>;
+
+export interface PersonalizedRecipient {
+  email: string;
+  variables: RecipientVariables;
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'var'; name: string; defaultValue?: string }
+  | { type: 'if'; name: string; then: TemplateNode[]; else: TemplateNode[] };
+
+const TAG_REGEX = /\{\{\s*([^}]*?)\s*\}\}/g;
+const VAR_REGEX = /^([a-zA-Z_][\w.]*)(?:\s*\|\s*"([^"]*)")?$/;
+const IF_REGEX = /^#if\s+([a-zA-Z_][\w.]*)$/;
+
+export class TemplateSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+/**
+ * Parse a template into a tree of text, variable and conditional nodes
+ */
+export function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Stack of open {{#if}} blocks; each entry is where child nodes go right now
+  const stack: Array<{ node: Extract<TemplateNode, { type: 'if' }>; inElse: boolean }> = [];
+  const current = () => {
+    const top = stack[stack.length - 1];
+    return top ? (top.inElse ? top.node.else : top.node.then) : root;
+  };
+
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  TAG_REGEX.lastIndex = 0;
+
+  while ((match = TAG_REGEX.exec(template)) !== null) {
+    if (match.index > lastIndex) {
+      current().push({ type: 'text', value: template.slice(lastIndex, match.index) });
+    }
+    lastIndex = TAG_REGEX.lastIndex;
+
+    const tag = match[1];
+    const ifMatch = tag.match(IF_REGEX);
+
+    if (ifMatch) {
+      const node: Extract<TemplateNode, { type: 'if' }> = { type: 'if', name: ifMatch[1], then: [], else: [] };
+      current().push(node);
+      stack.push({ node, inElse: false });
+    } else if (tag === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) throw new TemplateSyntaxError('{{else}} without a matching {{#if}}');
+      top.inElse = true;
+    } else if (tag === '/if') {
+      if (!stack.pop()) throw new TemplateSyntaxError('{{/if}} without a matching {{#if}}');
+    } else {
+      const varMatch = tag.match(VAR_REGEX);
+      if (!varMatch) throw new TemplateSyntaxError(`Invalid merge field: {{${tag}}}`);
+      current().push({ type: 'var', name: varMatch[1], defaultValue: varMatch[2] });
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new TemplateSyntaxError(`Unclosed {{#if ${stack[stack.length - 1].node.name}}}`);
+  }
+
+  if (lastIndex < template.length) {
+    root.push({ type: 'text', value: template.slice(lastIndex) });
+  }
+
+  return root;
+}
+
+function collectRequired(nodes: TemplateNode[], guarded: Set<string>, required: Set<string>): void {
+  for (const node of nodes) {
+    if (node.type === 'var') {
+      if (node.defaultValue === undefined && !guarded.has(node.name)) {
+        required.add(node.name);
+      }
+    } else if (node.type === 'if') {
+      collectRequired(node.then, new Set([...guarded, node.name]), required);
+      collectRequired(node.else, guarded, required);
+    }
+  }
+}
+
+/**
+ * Names of the merge fields every recipient must have a value for
+ */
+export function getRequiredVariables(...templates: string[]): string[] {
+  const required = new Set<string>();
+  for (const template of templates) {
+    collectRequired(parseTemplate(template), new Set(), required);
+  }
+  return Array.from(required);
+}
+
+// Own fields only, so {{constructor}} or {{toString}} never reach Object.prototype
+function hasValue(variables: RecipientVariables, name: string): boolean {
+  if (!Object.prototype.hasOwnProperty.call(variables, name)) return false;
+
+  const value = variables[name];
+  return value !== undefined && value !== null && String(value).trim() !== '';
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderNodes(nodes: TemplateNode[], variables: RecipientVariables, html: boolean): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+          return node.value;
+        case 'var': {
+          const value = hasValue(variables, node.name) ? String(variables[node.name]) : node.defaultValue ?? '';
+          return html ? escapeHtml(value) : value;
+        }
+        case 'if':
+          return renderNodes(hasValue(variables, node.name) ? node.then : node.else, variables, html);
+      }
+    })
+    .join('');
+}
+
+/**
+ * Render a template for one recipient
+ * With html set, values are escaped so recipient data cannot inject markup
+ */
+export function renderTemplate(
+  template: string,
+  variables: RecipientVariables,
+  options: { html?: boolean } = {}
+): string {
+  return renderNodes(parseTemplate(template), variables, options.html || false);
+}
+
+/**
+ * Find recipients missing a required merge field
+ */
+export function findMissingVariables(
+  requiredVariables: string[],
+  recipients: PersonalizedRecipient[]
+): Array<{ recipient: string; missing: string[] }> {
+  if (requiredVariables.length === 0) return [];
+
+  return recipients
+    .map((recipient) => ({
+      recipient: recipient.email,
+      missing: requiredVariables.filter((name) => !hasValue(recipient.variables, name)),
+    }))
+    .filter((entry) => entry.missing.length > 0);
+}
+
+/**
+ * Normalize API recipients: plain addresses or { email, ...mergeFields } objects
+ * The address itself is always available as {{email}}
+ */
+export function normalizeRecipients(recipients: unknown[]): PersonalizedRecipient[] {
+  return recipients.map((entry) => {
+    if (typeof entry === 'string') {
+      const email = entry.trim();
+      return { email, variables: { email } };
+    }
+
+    const { email = '', ...fields } = (entry || {}) as Record<string, unknown>;
+    const variables: RecipientVariables = {};
+
+    for (const [name, value] of Object.entries(fields)) {
+      if (value !== undefined && value !== null) {
+        variables[name] = String(value).trim();
+      }
+    }
+
+    const trimmedEmail = String(email).trim();
+    return { email: trimmedEmail, variables: { ...variables, email: trimmedEmail } };
+  });
+}
@@ -1,9 +1,36 @@
-import { Queue, Worker, QueueEvents } from 'bullmq';
+import { Queue, Worker, QueueEvents, DelayedError, UnrecoverableError } from 'bullmq';
 import { getRedis } from '../config/connections';
-import { EmailJobData } from '../types';
-import { sendEmail, updateEmailJobStatus, updateScheduleCounts } from '../services/emailService';
-import { checkRateLimit, incrementRateLimit } from '../services/rateLimitService';
+import { EmailJobData, SendErrorRecord } from '../types';
+import {
+  sendEmail,
+  updateEmailJobStatus,
+  updateScheduleCounts,
+  updateScheduleThrottle,
+} from '../services/emailService';
+import {
+  buildRateLimitRules,
+  reserveRateLimits,
+  releaseRateLimits,
+  reserveScheduleSendSlot,
+  parseRateLimitAlgorithm,
+  RateLimitAlgorithm,
+  RateLimitReservation,
+} from '../services/rateLimitService';
+import { resolveSender } from '../services/senderService';
+import { isSuppressed, addSuppression, buildUnsubscribeUrl } from '../services/suppressionService';
+import { classifySendError, getRetryDelay, SendErrorDetails } from '../services/sendErrorService';
+import { addDeadLetter } from '../services/deadLetterService';
+import {
+  claimSend,
+  confirmSend,
+  releaseClaim,
+  releaseSend,
+  getSendRecord,
+  markSendStarted,
+} from '../services/idempotencyService';
+import { getSequenceSendSettings, updateEnrollmentProgress } from '../services/sequenceService';
 import prisma from '../config/prisma';
+import { v4 as uuidv4 } from 'uuid';
 
 let emailQueue: Queue<EmailJobData> | null = null;
 let emailWorker: Worker<EmailJobData> | null = null;
@@ -11,7 +38,52 @@ let queueEvents: QueueEvents | null = null;
 
 const WORKER_CONCURRENCY = parseInt(process.env.WORKER_CONCURRENCY || '5', 10);
 const DELAY_BETWEEN_EMAILS_MS = parseInt(process.env.DELAY_BETWEEN_EMAILS_MS || '2000', 10);
+const PREPARING_RECHECK_MS = 5000;
+const CLAIM_RECHECK_MS = 5000;
 const MAX_EMAILS_PER_HOUR = parseInt(process.env.MAX_EMAILS_PER_HOUR || '200', 10);
+const MAX_EMAILS_PER_USER_PER_HOUR = parseInt(
+  process.env.MAX_EMAILS_PER_USER_PER_HOUR || String(MAX_EMAILS_PER_HOUR),
+  10
+);
+const MAX_EMAILS_PER_SENDER_PER_HOUR = parseInt(
+  process.env.MAX_EMAILS_PER_SENDER_PER_HOUR || String(MAX_EMAILS_PER_HOUR),
+  10
+);
+const RATE_LIMIT_ALGORITHM = parseRateLimitAlgorithm(process.env.RATE_LIMIT_ALGORITHM, 'fixed-window');
+const USER_RATE_LIMIT_ALGORITHM = parseRateLimitAlgorithm(
+  process.env.USER_RATE_LIMIT_ALGORITHM,
+  RATE_LIMIT_ALGORITHM
+);
+const SENDER_RATE_LIMIT_ALGORITHM = parseRateLimitAlgorithm(
+  process.env.SENDER_RATE_LIMIT_ALGORITHM,
+  RATE_LIMIT_ALGORITHM
+);
+const GLOBAL_RATE_LIMIT_ALGORITHM = parseRateLimitAlgorithm(
+  process.env.GLOBAL_RATE_LIMIT_ALGORITHM,
+  RATE_LIMIT_ALGORITHM
+);
+
+/**
+ * The job's error history with one more failed attempt
+ */
+function withError(data: EmailJobData, message: string, details?: SendErrorDetails): SendErrorRecord[] {
+  return [
+    ...(data.errorHistory || []),
+    { at: new Date().toISOString(), message, code: details?.code, category: details?.category },
+  ];
+}
+
+/**
+ * Bring what an email belongs to up to date after its status changed: the
+ * schedule's counts, or the sequence enrollment's next step
+ */
+async function updateProgress(data: EmailJobData): Promise<void> {
+  if (data.enrollmentId) {
+    await updateEnrollmentProgress(data.emailJobId);
+  } else if (data.scheduleId) {
+    await updateScheduleCounts(data.scheduleId);
+  }
+}
 
 /**
  * Initialize BullMQ queue
@@ -52,89 +124,285 @@ export async function initializeWorker(): Promise<Worker<EmailJobData>> {
 
   emailWorker = new Worker<EmailJobData>(
     'emails',
-    async (job) => {
+    async (job, token) => {
+      // Rate limit slots this attempt holds until its email goes out
+      let reservation: RateLimitReservation | null = null;
+
       try {
-        const { scheduleId, userId, recipient, subject, body } = job.data;
+        const { scheduleId, enrollmentId, emailJobId, userId, recipient, subject, body } = job.data;
 
         console.log(`⏳ Processing email job ${job.id} for ${recipient}`);
 
-        // Check rate limit before sending
-        const sender = 'noreply@reachinbox.app';
-        const rateLimitCheck = await checkRateLimit(sender, MAX_EMAILS_PER_HOUR);
+        let settings: {
+          limitKey: string; // Schedule or sequence the per-campaign rate limit and send gap apply to
+          hourlyLimit: number;
+          rateLimitAlgorithm: RateLimitAlgorithm;
+          delayMs: number;
+          senderIdentityId: string | null;
+        };
+
+        if (enrollmentId) {
+          const sequence = await getSequenceSendSettings(enrollmentId);
+
+          if (!sequence) {
+            console.log(`⏭️  Skipping job ${job.id}: sequence enrollment is missing`);
+            return { success: false, skipped: true };
+          }
+
+          // The contact left the sequence after this email was queued
+          if (sequence.enrollmentStatus !== 'active') {
+            console.log(`⏭️  Skipping job ${job.id}: enrollment is ${sequence.enrollmentStatus}`);
+            await updateEmailJobStatus(emailJobId, 'cancelled');
+            return { success: false, skipped: true };
+          }
+
+          // Held back until the sequence is resumed, which queues it again
+          if (sequence.sequenceStatus === 'paused') {
+            console.log(`⏭️  Skipping job ${job.id}: sequence is paused`);
+            await updateEmailJobStatus(emailJobId, 'paused');
+            return { success: false, skipped: true };
+          }
+
+          settings = { ...sequence, limitKey: sequence.sequenceId, rateLimitAlgorithm: RATE_LIMIT_ALGORITHM };
+        } else {
+          // Skip jobs whose schedule was paused or cancelled after they were queued
+          const schedule = scheduleId
+            ? await prisma.emailSchedule.findUnique({
+                where: { id: scheduleId },
+                select: {
+                  status: true,
+                  hourlyLimit: true,
+                  rateLimitAlgorithm: true,
+                  delayMs: true,
+                  senderIdentityId: true,
+                },
+              })
+            : null;
+
+          if (!schedule || schedule.status === 'paused' || schedule.status === 'cancelled') {
+            console.log(`⏭️  Skipping job ${job.id}: schedule is ${schedule?.status || 'missing'}`);
+            return { success: false, skipped: true };
+          }
+
+          // The rest of the batch is still being queued; hold back so a rollback can still remove this job
+          if (schedule.status === 'preparing') {
+            await job.moveToDelayed(Date.now() + PREPARING_RECHECK_MS, token);
+            throw new DelayedError();
+          }
+
+          settings = {
+            ...schedule,
+            limitKey: scheduleId!,
+            rateLimitAlgorithm: schedule.rateLimitAlgorithm as RateLimitAlgorithm,
+          };
+        }
+
+        // The recipient may have unsubscribed after the schedule was created
+        if (await isSuppressed(userId, recipient)) {
+          console.log(`⏭️  Skipping job ${job.id}: ${recipient} is suppressed`);
+
+          await updateEmailJobStatus(emailJobId, 'suppressed');
+          await updateProgress(job.data);
+
+          return { success: false, skipped: true };
+        }
 
-        if (!rateLimitCheck.canSend) {
+        const sender = await resolveSender(settings.senderIdentityId);
+
+        // Take a slot in the schedule (or sequence), user, sender-address and global rate limits
+        const rateLimitRules = buildRateLimitRules({
+          scheduleId: settings.limitKey,
+          scheduleLimit: settings.hourlyLimit,
+          scheduleAlgorithm: settings.rateLimitAlgorithm,
+          userId,
+          userLimit: MAX_EMAILS_PER_USER_PER_HOUR,
+          userAlgorithm: USER_RATE_LIMIT_ALGORITHM,
+          sender: sender.address,
+          senderLimit: MAX_EMAILS_PER_SENDER_PER_HOUR,
+          senderAlgorithm: SENDER_RATE_LIMIT_ALGORITHM,
+          globalLimit: MAX_EMAILS_PER_HOUR,
+          globalAlgorithm: GLOBAL_RATE_LIMIT_ALGORITHM,
+        });
+        const rateLimitCheck = await reserveRateLimits(rateLimitRules);
+        reservation = rateLimitCheck.reservation;
+
+        if (!rateLimitCheck.canSend && rateLimitCheck.blockedBy) {
+          const { blockedBy, nextAllowedTime } = rateLimitCheck;
           console.log(
-            `⏸️  Rate limit reached (${rateLimitCheck.currentCount}/${rateLimitCheck.limit}). Rescheduling...`
+            `⏸️  ${blockedBy.scope} rate limit reached (${blockedBy.currentCount}/${blockedBy.limit}). Rescheduling to ${nextAllowedTime.toISOString()}...`
           );
 
-          // Reschedule job to next hour
-          const nextWindow = rateLimitCheck.nextWindowTime;
-          const delayMs = nextWindow.getTime() - Date.now();
-
-          if (delayMs > 0) {
-            await job.moveToDelayed(delayMs, job.token);
-            return;
+          if (scheduleId) {
+            await updateScheduleThrottle(scheduleId, blockedBy.scope, nextAllowedTime);
           }
+
+          // Reschedule job to its slot in the earliest window where every limit allows it
+          await job.moveToDelayed(nextAllowedTime.getTime(), token);
+          throw new DelayedError();
         }
 
-        // Send email
-        const result = await sendEmail(recipient, subject, body, sender, job.data.attachments as any);
+        // Keep consecutive sends of this schedule at least delayMs apart
+        const waitMs = await reserveScheduleSendSlot(settings.limitKey, job.id!, settings.delayMs);
 
-        if (result.success) {
-          // Increment rate limit counter
-          await incrementRateLimit(sender);
+        if (waitMs > 0) {
+          await job.moveToDelayed(Date.now() + waitMs, token);
+          throw new DelayedError();
+        }
+
+        // A previous attempt may already have handed this email to the transport
+        const attemptId = uuidv4();
+        const claim = await claimSend(emailJobId, attemptId);
+
+        if (claim === 'busy') {
+          // Another attempt is about to send it; look again once it has either sent or let go
+          console.log(`⏸️  Job ${job.id}: another attempt holds email job ${emailJobId}, checking again shortly`);
+          await job.moveToDelayed(Date.now() + CLAIM_RECHECK_MS, token);
+          throw new DelayedError();
+        }
+
+        if (claim === 'sent') {
+          console.log(`⏭️  Skipping job ${job.id}: email job ${emailJobId} was already sent`);
 
-          // Update job status to sent
-          const emailJob = await prisma.emailJob.findUnique({
-            where: { id: job.data.scheduleId || '' },
+          const record = await getSendRecord(emailJobId);
+          await updateEmailJobStatus(emailJobId, 'sent', {
+            sentTime: record?.sentAt || new Date(),
+            messageId: record?.messageId || undefined,
           });
+          await updateProgress(job.data);
 
-          if (emailJob) {
-            await updateEmailJobStatus(job.data.scheduleId || '', 'sent', {
-              sentTime: new Date(),
-            });
-          }
+          return { success: true, duplicate: true };
+        }
 
-          // Add delay between emails to avoid overwhelming SMTP
-          await new Promise((resolve) => setTimeout(resolve, DELAY_BETWEEN_EMAILS_MS));
+        if (claim === 'in-doubt') {
+          // Not retried: a duplicate is worse than a missing email the user can resend
+          const errorMessage = 'A previous attempt was interrupted after calling the transport; not retried to avoid a duplicate';
+          await updateEmailJobStatus(emailJobId, 'failed', { errorMessage });
+          await addDeadLetter(job.data, withError(job.data, errorMessage));
+          await updateProgress(job.data);
 
-          // Update schedule counts
-          await updateScheduleCounts(scheduleId);
+          return { success: false, skipped: true };
+        }
 
-          console.log(`✅ Email sent successfully for job ${job.id}`);
-          return { success: true, messageId: result.messageId };
-        } else {
-          // Email send failed
-          const emailJob = await prisma.emailJob.findUnique({
-            where: { id: job.data.scheduleId || '' },
+        // Only queued or retrying emails may be sent; anything else was paused,
+        // cancelled or already sent since this job was queued
+        if (!(await updateEmailJobStatus(emailJobId, 'sending'))) {
+          await releaseClaim(emailJobId, attemptId);
+          console.log(`⏭️  Skipping job ${job.id}: email job ${emailJobId} is no longer waiting to be sent`);
+          return { success: false, skipped: true };
+        }
+
+        // Only a crash after this point leaves the email in doubt
+        if (!(await markSendStarted(emailJobId, attemptId))) {
+          console.log(`⏭️  Skipping job ${job.id}: another attempt took over email job ${emailJobId}`);
+          return { success: false, skipped: true };
+        }
+
+        // Send email
+        const result = await sendEmail(recipient, subject, body, sender.from, job.data.attachments as any, {
+          transport: sender.transport,
+          replyTo: sender.replyTo,
+          signature: sender.signature,
+          trackingId: emailJobId,
+          unsubscribeUrl: buildUnsubscribeUrl(userId, recipient),
+        });
+
+        const transcript = {
+          accepted: result.accepted,
+          rejected: result.rejected,
+          response: result.response,
+          durationMs: result.durationMs,
+        };
+
+        if (!result.success) {
+          // Rejected by the transport, so nothing went out and a retry is safe
+          await releaseSend(emailJobId, attemptId);
+
+          const details = result.errorDetails || classifySendError(undefined);
+          const errorMessage = result.error || 'Failed to send email';
+          const { attemptCount } = await prisma.emailJob.findUniqueOrThrow({
+            where: { id: emailJobId },
+            select: { attemptCount: true },
           });
+          const retryDelay = getRetryDelay(details.category, attemptCount);
+          const errorFields = { errorMessage, errorCode: details.code, errorCategory: details.category, transcript };
+          const errorHistory = withError(job.data, errorMessage, details);
+
+          if (retryDelay !== null) {
+            console.log(`🔁 ${details.category} failure for job ${job.id}, retrying in ${retryDelay}ms`);
+            await updateEmailJobStatus(emailJobId, 'retrying', errorFields);
+            await job.updateData({ ...job.data, errorHistory });
+            await job.moveToDelayed(Date.now() + retryDelay, token);
+            throw new DelayedError();
+          }
 
-          if (emailJob) {
-            await updateEmailJobStatus(job.data.scheduleId || '', 'failed', {
-              errorMessage: result.error,
-            });
+          await updateEmailJobStatus(emailJobId, 'failed', errorFields);
+          await addDeadLetter(job.data, errorHistory);
+
+          // The address itself was rejected; do not email it again
+          if (details.recipientRejected) {
+            await addSuppression(userId, recipient, 'bounced');
+            console.log(`🚫 ${recipient} bounced (${details.code}), added to suppressions`);
           }
 
-          await updateScheduleCounts(scheduleId);
+          await updateProgress(job.data);
 
-          throw new Error(result.error || 'Failed to send email');
+          // Fails the BullMQ job without its own retries
+          throw new UnrecoverableError(errorMessage);
         }
+
+        // The email went out, so it keeps its rate limit slots
+        reservation = null;
+
+        await confirmSend(emailJobId, attemptId, result.messageId);
+        if (scheduleId) {
+          await updateScheduleThrottle(scheduleId, null, null);
+        }
+
+        await updateEmailJobStatus(emailJobId, 'sent', {
+          sentTime: new Date(),
+          messageId: result.messageId,
+          transcript,
+        });
+
+        // Add delay between emails to avoid overwhelming SMTP
+        await new Promise((resolve) => setTimeout(resolve, DELAY_BETWEEN_EMAILS_MS));
+
+        // Update schedule counts, or queue the sequence's next step
+        await updateProgress(job.data);
+
+        console.log(`✅ Email sent successfully for job ${job.id}`);
+        return { success: true, messageId: result.messageId };
       } catch (error) {
+        // Rescheduled (rate limit or send retry), or a send failure already recorded above
+        if (error instanceof DelayedError || error instanceof UnrecoverableError) {
+          throw error;
+        }
+
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         console.error(`❌ Job ${job.id} failed:`, errorMessage);
 
-        // Update job status to failed
-        const emailJob = await prisma.emailJob.findUnique({
-          where: { id: job.data.scheduleId || '' },
-        });
+        // attemptsMade does not include this attempt yet
+        const willRetry = job.attemptsMade + 1 < (job.opts.attempts || 1);
+        const errorHistory = withError(job.data, errorMessage);
 
-        if (emailJob) {
-          await updateEmailJobStatus(job.data.scheduleId || '', 'failed', {
-            errorMessage,
-          });
+        await updateEmailJobStatus(job.data.emailJobId, willRetry ? 'retrying' : 'failed', { errorMessage });
+
+        if (willRetry) {
+          await job.updateData({ ...job.data, errorHistory });
+        } else {
+          await addDeadLetter(job.data, errorHistory);
         }
 
+        await updateProgress(job.data);
+
         throw error;
+      } finally {
+        // Nothing was sent (skipped, held back, or failed), so free the slots for other emails
+        if (reservation) {
+          await releaseRateLimits(reservation).catch((error) =>
+            console.error(`Error releasing rate limits of job ${job.id}:`, error)
+          );
+        }
       }
     },
     {
@@ -180,7 +448,7 @@ export async function scheduleEmailJob(data: EmailJobData): Promise<string | und
 
   const job = await queue.add(`email-${data.recipient}`, data, {
     delay: Math.max(0, delay),
-    jobId: `${data.scheduleId}-${data.recipient}-${Date.now()}`,
+    jobId: `${data.scheduleId || data.enrollmentId}-${data.recipient}-${Date.now()}`,
   });
 
   console.log(`📬 Email job scheduled: ${job.id} (delay: ${delay}ms)`);
@@ -188,6 +456,47 @@ export async function scheduleEmailJob(data: EmailJobData): Promise<string | und
   return job.id;
 }
 
+/**
+ * Schedule many email jobs in one round trip
+ * Each entry carries its own BullMQ job id so callers can store it up front
+ */
+export async function scheduleEmailJobsBulk(jobs: Array<{ jobId: string; data: EmailJobData }>): Promise<void> {
+  const queue = getQueue();
+
+  await queue.addBulk(
+    jobs.map(({ jobId, data }) => ({
+      name: `email-${data.recipient}`,
+      data,
+      opts: {
+        delay: Math.max(0, data.scheduledTime.getTime() - Date.now()),
+        jobId,
+      },
+    }))
+  );
+
+  console.log(`📬 ${jobs.length} email job(s) scheduled`);
+}
+
+/**
+ * Remove a scheduled email job from the queue
+ * Returns false if the job is currently being processed and cannot be removed
+ */
+export async function removeEmailJob(jobId: string): Promise<boolean> {
+  const queue = getQueue();
+  const job = await queue.getJob(jobId);
+
+  if (!job) return true;
+
+  if (await job.isActive()) {
+    return false;
+  }
+
+  await job.remove();
+  console.log(`🗑️  Email job removed: ${jobId}`);
+
+  return true;
+}
+
 /**
  * Get queue statistics
  */
@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import { getRedis } from '../config/connections';
 import prisma from '../config/prisma';
 
@@ -7,14 +8,174 @@ import prisma from '../config/prisma';
  * This service enforces email sending limits on a per-hour basis.
  * It uses Redis for fast lookups and PostgreSQL for persistence.
  * 
- * Strategy:
- * - Uses Redis for real-time rate limit tracking (fast, distributed)
- * - Falls back to DB if Redis key expires
- * - Keys are formatted as: rate-limit:{YYYY-MM-DD-HH}:{sender}
- * - Each hour window resets automatically (Redis TTL)
+ * Each limit picks one of three algorithms:
+ * - fixed-window: a counter per UTC hour, keyed rate-limit:{YYYY-MM-DD-HH}:{sender},
+ *   backed by the DB if the Redis key expires. Up to 2x the limit can go out
+ *   around the turn of an hour.
+ * - sliding-window: a log of send times over the last hour (Redis sorted set);
+ *   never more than the limit in any 60 minutes.
+ * - token-bucket: a bucket of `limit` tokens refilled evenly over the hour;
+ *   allows a burst, then paces sends at limit/hour.
+ *
+ * A send checks every limit and takes a slot in each of them in one Lua script,
+ * so concurrent workers cannot all pass the check before any of them counts.
+ * A send that does not go out gives its slots back.
  */
 
 const HOUR_IN_SECONDS = 3600;
+const WINDOW_MS = HOUR_IN_SECONDS * 1000;
+
+export type RateLimitAlgorithm = 'fixed-window' | 'sliding-window' | 'token-bucket';
+
+export const RATE_LIMIT_ALGORITHMS: RateLimitAlgorithm[] = ['fixed-window', 'sliding-window', 'token-bucket'];
+
+export function isRateLimitAlgorithm(value: unknown): value is RateLimitAlgorithm {
+  return RATE_LIMIT_ALGORITHMS.includes(value as RateLimitAlgorithm);
+}
+
+/**
+ * Whether an hourly limit and send gap can pace a schedule or sequence
+ * The limit divides the hour, so it must be a positive whole number; the gap may be 0
+ */
+export function isValidPacing(hourlyLimit: unknown, delayMs: unknown): boolean {
+  return (
+    Number.isInteger(hourlyLimit) && (hourlyLimit as number) > 0 && Number.isInteger(delayMs) && (delayMs as number) >= 0
+  );
+}
+
+export const INVALID_PACING_MESSAGE = 'hourlyLimit must be a positive whole number and delayMs a non-negative one';
+
+/**
+ * Read an algorithm from configuration, falling back when it is unset or unknown
+ */
+export function parseRateLimitAlgorithm(value: string | undefined, fallback: RateLimitAlgorithm): RateLimitAlgorithm {
+  if (!value) return fallback;
+  if (isRateLimitAlgorithm(value)) return value;
+
+  console.warn(`⚠️  Unknown rate limit algorithm "${value}", using ${fallback}`);
+  return fallback;
+}
+
+// Checks every limit (KEYS[i], with ARGV[3i + 2..3i + 4] its algorithm, limit and
+// fixed-window starting count) and, only if all of them allow a send, takes a
+// slot in each. Returns {1} when reserved, otherwise {0, first blocked rule,
+// its count, rule that frees up last, when it does}.
+// Token counts are stored as strings since Redis would truncate a fractional number.
+const RESERVE_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local hourEnd = tonumber(ARGV[3])
+local member = ARGV[4]
+local tokens = {}
+local firstBlocked, firstCount, latest, latestAt = 0, 0, 0, 0
+for i, key in ipairs(KEYS) do
+  local algorithm = ARGV[3 * i + 2]
+  local limit = tonumber(ARGV[3 * i + 3])
+  local count, retryAt
+  if algorithm == 'sliding-window' then
+    redis.call('ZREMRANGEBYSCORE', key, '-inf', now - window)
+    count = redis.call('ZCARD', key)
+    if count >= limit then
+      local oldest = redis.call('ZRANGE', key, count - limit, count - limit, 'WITHSCORES')
+      retryAt = tonumber(oldest[2]) + window
+    end
+  elseif algorithm == 'token-bucket' then
+    local rate = limit / window
+    local state = redis.call('HMGET', key, 'tokens', 'ts')
+    local ts = tonumber(state[2]) or now
+    tokens[i] = math.min(limit, (tonumber(state[1]) or limit) + math.max(0, now - ts) * rate)
+    count = math.max(0, limit - math.floor(tokens[i]))
+    if tokens[i] < 1 then
+      retryAt = now + math.ceil((1 - tokens[i]) / rate)
+    end
+  else
+    count = tonumber(redis.call('GET', key) or ARGV[3 * i + 4])
+    if count >= limit then
+      retryAt = hourEnd
+    end
+  end
+  if retryAt then
+    if firstBlocked == 0 then
+      firstBlocked, firstCount = i, count
+    end
+    if retryAt > latestAt then
+      latest, latestAt = i, retryAt
+    end
+  end
+end
+if firstBlocked > 0 then
+  return {0, firstBlocked, firstCount, latest, latestAt}
+end
+for i, key in ipairs(KEYS) do
+  local algorithm = ARGV[3 * i + 2]
+  if algorithm == 'sliding-window' then
+    redis.call('ZADD', key, now, member)
+    redis.call('PEXPIRE', key, window)
+  elseif algorithm == 'token-bucket' then
+    redis.call('HSET', key, 'tokens', tostring(tokens[i] - 1), 'ts', ARGV[1])
+    redis.call('PEXPIRE', key, window)
+  elseif redis.call('EXISTS', key) == 0 then
+    redis.call('SET', key, tonumber(ARGV[3 * i + 4]) + 1, 'EX', ${HOUR_IN_SECONDS + 60})
+  else
+    redis.call('INCR', key)
+  end
+end
+return {1}
+`;
+
+// Gives back the slots RESERVE_SCRIPT took for ARGV[1] (ARGV[2i], ARGV[2i + 1]
+// being rule i's algorithm and limit)
+const RELEASE_SCRIPT = `
+for i, key in ipairs(KEYS) do
+  local algorithm = ARGV[2 * i]
+  local limit = tonumber(ARGV[2 * i + 1])
+  if algorithm == 'sliding-window' then
+    redis.call('ZREM', key, ARGV[1])
+  elseif algorithm == 'token-bucket' then
+    local tokens = tonumber(redis.call('HGET', key, 'tokens'))
+    if tokens then
+      redis.call('HSET', key, 'tokens', tostring(math.min(limit, tokens + 1)))
+    end
+  elseif tonumber(redis.call('GET', key) or '0') > 0 then
+    redis.call('DECR', key)
+  end
+end
+return 1
+`;
+
+// Hands out the next free slot at or after ARGV[1], ARGV[2] ms after the last one
+const DEFER_SLOT_SCRIPT = `
+local notBefore = tonumber(ARGV[1])
+local interval = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local last = tonumber(redis.call('GET', KEYS[1]) or '0')
+local slot = math.max(notBefore, last + interval)
+redis.call('SET', KEYS[1], tostring(slot), 'PX', math.max(1, slot - now) + interval)
+return slot
+`;
+
+// Gives a job its own send slot (KEYS[2]), ARGV[1] ms after the last one handed
+// out (KEYS[1]); a job woken at its slot sends. Returns the ms to wait.
+const SEND_GAP_SCRIPT = `
+local gap = tonumber(ARGV[1])
+local now = tonumber(ARGV[2])
+local mine = tonumber(redis.call('GET', KEYS[2]))
+if mine then
+  if mine <= now then
+    redis.call('DEL', KEYS[2])
+    return 0
+  end
+  return mine - now
+end
+local last = tonumber(redis.call('GET', KEYS[1]) or '0')
+local slot = math.max(now, last + gap)
+redis.call('SET', KEYS[1], tostring(slot), 'PX', slot - now + gap)
+if slot <= now then
+  return 0
+end
+redis.call('SET', KEYS[2], tostring(slot), 'PX', slot - now + 60000)
+return slot - now
+`;
 
 /**
  * Get the current hour window as a string (YYYY-MM-DD-HH)
@@ -38,15 +199,10 @@ export function getNextHourWindow(hourWindow: string): Date {
 }
 
 /**
- * Check if a sender has reached the hourly rate limit
+ * Check if a sender has reached the hourly rate limit (fixed window)
  * Returns: { canSend: boolean, currentCount: number, limit: number }
  */
-export async function checkRateLimit(sender: string, limit: number): Promise<{
-  canSend: boolean;
-  currentCount: number;
-  limit: number;
-  nextWindowTime: Date;
-}> {
+export async function checkRateLimit(sender: string, limit: number): Promise<RateLimitCheck> {
   const redis = getRedis();
   const hourWindow = getHourWindow();
   const redisKey = `rate-limit:${hourWindow}:${sender}`;
@@ -86,6 +242,32 @@ export async function checkRateLimit(sender: string, limit: number): Promise<{
   }
 }
 
+/**
+ * Store a fixed-window count in the DB, which backs the Redis counter if its key expires
+ * Runs in the background so it doesn't hold up the send
+ */
+function persistCount(hourWindow: string, sender: string, count: number): void {
+  prisma.rateLimitCounter.upsert({
+    where: {
+      hour_sender: {
+        hour: hourWindow,
+        sender,
+      },
+    },
+    update: {
+      count,
+      updatedAt: new Date(),
+    },
+    create: {
+      hour: hourWindow,
+      sender,
+      count,
+    },
+  }).catch((error) => {
+    console.error('Error updating rate limit in DB:', error);
+  });
+}
+
 /**
  * Increment the rate limit counter for a sender
  * Safe for concurrent access across multiple workers
@@ -105,26 +287,7 @@ export async function incrementRateLimit(sender: string): Promise<number> {
       await redis.expire(redisKey, HOUR_IN_SECONDS + 60); // +60s buffer
     }
 
-    // Also update DB for persistence (async, doesn't block)
-    prisma.rateLimitCounter.upsert({
-      where: {
-        hour_sender: {
-          hour: hourWindow,
-          sender,
-        },
-      },
-      update: {
-        count: newCount,
-        updatedAt: new Date(),
-      },
-      create: {
-        hour: hourWindow,
-        sender,
-        count: newCount,
-      },
-    }).catch((error) => {
-      console.error('Error updating rate limit in DB:', error);
-    });
+    persistCount(hourWindow, sender, newCount);
 
     return newCount;
   } catch (error) {
@@ -133,8 +296,210 @@ export async function incrementRateLimit(sender: string): Promise<number> {
   }
 }
 
+export type RateLimitScope = 'schedule' | 'user' | 'sender' | 'global';
+
+export interface RateLimitRule {
+  scope: RateLimitScope;
+  key: string; // Counter identifier, e.g. schedule:{id}
+  limit: number;
+  algorithm: RateLimitAlgorithm;
+}
+
+export interface RateLimitCheck {
+  canSend: boolean;
+  currentCount: number;
+  limit: number;
+  nextWindowTime: Date; // When a send is allowed again
+}
+
+export interface RateLimitReservation {
+  id: string; // Sliding-window log entry of this send
+  hourWindow: string; // Fixed-window hour the slots were taken in
+  rules: RateLimitRule[];
+}
+
+export interface LayeredRateLimitResult {
+  canSend: boolean;
+  blockedBy: (RateLimitRule & { currentCount: number }) | null;
+  nextAllowedTime: Date;
+  reservation: RateLimitReservation | null; // Slots taken when canSend; give them back if the send fails
+}
+
+function ruleRedisKey(rule: RateLimitRule, hourWindow: string): string {
+  switch (rule.algorithm) {
+    case 'sliding-window':
+      return `rate-limit:sliding:${rule.key}`;
+    case 'token-bucket':
+      return `rate-limit:bucket:${rule.key}`;
+    default:
+      return `rate-limit:${hourWindow}:${rule.key}`;
+  }
+}
+
+/**
+ * Where each fixed-window counter starts: the DB count when its Redis key is gone
+ */
+async function fixedWindowCounts(rules: RateLimitRule[], hourWindow: string): Promise<number[]> {
+  const fixed = rules.filter((rule) => rule.algorithm === 'fixed-window');
+  if (fixed.length === 0) return rules.map(() => 0);
+
+  const cached = await getRedis().mget(fixed.map((rule) => ruleRedisKey(rule, hourWindow)));
+
+  return Promise.all(
+    rules.map(async (rule) => {
+      const i = fixed.indexOf(rule);
+      if (i === -1 || cached[i] !== null) return 0;
+
+      const dbRecord = await prisma.rateLimitCounter.findUnique({
+        where: { hour_sender: { hour: hourWindow, sender: rule.key } },
+      });
+      return dbRecord?.count || 0;
+    })
+  );
+}
+
+/**
+ * Copy the fixed-window counters of the rules to the DB
+ */
+async function persistFixedWindowCounts(rules: RateLimitRule[], hourWindow: string): Promise<void> {
+  const fixed = rules.filter((rule) => rule.algorithm === 'fixed-window');
+  if (fixed.length === 0) return;
+
+  const counts = await getRedis().mget(fixed.map((rule) => ruleRedisKey(rule, hourWindow)));
+  fixed.forEach((rule, i) => {
+    if (counts[i] !== null) persistCount(hourWindow, rule.key, parseInt(counts[i]!, 10));
+  });
+}
+
+/**
+ * Pick a time at or after notBefore for a job held back by a rule
+ * Held-back jobs get slots an even share of the window apart (the rate the limit
+ * allows), so they don't all wake at once when the limit frees up.
+ */
+export async function reserveDeferredSlot(rule: RateLimitRule, notBefore: Date): Promise<Date> {
+  const interval = Math.ceil(WINDOW_MS / Math.max(1, rule.limit));
+  const slot = (await getRedis().eval(
+    DEFER_SLOT_SCRIPT,
+    1,
+    `rate-limit:deferred:${rule.key}`,
+    notBefore.getTime(),
+    interval,
+    Date.now()
+  )) as number;
+
+  return new Date(slot);
+}
+
+/**
+ * Build the layered limits that apply to a single send
+ * Order matters: the first exhausted rule is reported as the one holding the job back
+ */
+export function buildRateLimitRules(options: {
+  scheduleId: string;
+  scheduleLimit: number;
+  scheduleAlgorithm: RateLimitAlgorithm;
+  userId: string;
+  userLimit: number;
+  userAlgorithm: RateLimitAlgorithm;
+  sender: string;
+  senderLimit: number;
+  senderAlgorithm: RateLimitAlgorithm;
+  globalLimit: number;
+  globalAlgorithm: RateLimitAlgorithm;
+}): RateLimitRule[] {
+  return [
+    {
+      scope: 'schedule',
+      key: `schedule:${options.scheduleId}`,
+      limit: options.scheduleLimit,
+      algorithm: options.scheduleAlgorithm,
+    },
+    { scope: 'user', key: `user:${options.userId}`, limit: options.userLimit, algorithm: options.userAlgorithm },
+    // Keyed by the sending address itself, so its rateLimitCounter rows name the real sender
+    { scope: 'sender', key: options.sender, limit: options.senderLimit, algorithm: options.senderAlgorithm },
+    { scope: 'global', key: 'global', limit: options.globalLimit, algorithm: options.globalAlgorithm },
+  ];
+}
+
+/**
+ * Take a send slot in every rule, or in none of them
+ * All rules are checked and counted in one Lua script, so concurrent workers
+ * cannot overshoot a limit. When held back, nextAllowedTime is a slot reserved
+ * on the rule that frees up last.
+ */
+export async function reserveRateLimits(rules: RateLimitRule[]): Promise<LayeredRateLimitResult> {
+  const now = Date.now();
+  const hourWindow = getHourWindow(new Date(now));
+  const id = `${now}-${crypto.randomUUID()}`;
+  const startCounts = await fixedWindowCounts(rules, hourWindow);
+
+  const result = (await getRedis().eval(
+    RESERVE_SCRIPT,
+    rules.length,
+    ...rules.map((rule) => ruleRedisKey(rule, hourWindow)),
+    now,
+    WINDOW_MS,
+    getNextHourWindow(hourWindow).getTime(),
+    id,
+    ...rules.flatMap((rule, i) => [rule.algorithm, rule.limit, startCounts[i]])
+  )) as number[];
+
+  if (result[0] === 1) {
+    await persistFixedWindowCounts(rules, hourWindow);
+    return { canSend: true, blockedBy: null, nextAllowedTime: new Date(now), reservation: { id, hourWindow, rules } };
+  }
+
+  // Lua indexes from 1
+  const [, blocked, currentCount, latest, retryAt] = result;
+
+  return {
+    canSend: false,
+    blockedBy: { ...rules[blocked - 1], currentCount },
+    nextAllowedTime: await reserveDeferredSlot(rules[latest - 1], new Date(retryAt)),
+    reservation: null,
+  };
+}
+
+/**
+ * Give back the slots of a send that did not go out
+ */
+export async function releaseRateLimits(reservation: RateLimitReservation): Promise<void> {
+  const { id, hourWindow, rules } = reservation;
+
+  await getRedis().eval(
+    RELEASE_SCRIPT,
+    rules.length,
+    ...rules.map((rule) => ruleRedisKey(rule, hourWindow)),
+    id,
+    ...rules.flatMap((rule) => [rule.algorithm, rule.limit])
+  );
+
+  await persistFixedWindowCounts(rules, hourWindow);
+}
+
+/**
+ * Reserve a send slot for a schedule so consecutive sends are at least delayMs apart
+ * Each waiting job gets a slot of its own, delayMs after the last one handed out,
+ * so held-back jobs wake one at a time. Returns 0 when it may send now, otherwise
+ * the milliseconds until its slot.
+ */
+export async function reserveScheduleSendSlot(scheduleId: string, jobId: string, delayMs: number): Promise<number> {
+  if (delayMs <= 0) return 0;
+
+  return (await getRedis().eval(
+    SEND_GAP_SCRIPT,
+    2,
+    `send-gap:${scheduleId}`,
+    `send-gap:${scheduleId}:${jobId}`,
+    delayMs,
+    Date.now()
+  )) as number;
+}
+
 /**
- * Reset rate limit counter for testing/admin purposes
+ * Reset rate limit counters for testing/admin purposes
+ * Clears the current hour's fixed-window counter and any sliding-window log,
+ * token bucket and deferred slots
  */
 export async function resetRateLimit(sender?: string): Promise<void> {
   const redis = getRedis();
@@ -142,7 +507,12 @@ export async function resetRateLimit(sender?: string): Promise<void> {
 
   if (sender) {
     const redisKey = `rate-limit:${hourWindow}:${sender}`;
-    await redis.del(redisKey);
+    await redis.del(
+      redisKey,
+      `rate-limit:sliding:${sender}`,
+      `rate-limit:bucket:${sender}`,
+      `rate-limit:deferred:${sender}`
+    );
     await prisma.rateLimitCounter.deleteMany({
       where: {
         hour: hourWindow,
@@ -151,7 +521,12 @@ export async function resetRateLimit(sender?: string): Promise<void> {
     });
   } else {
     // Reset all for current hour
-    const keys = await redis.keys(`rate-limit:${hourWindow}:*`);
+    const keys = [
+      ...(await redis.keys(`rate-limit:${hourWindow}:*`)),
+      ...(await redis.keys('rate-limit:sliding:*')),
+      ...(await redis.keys('rate-limit:bucket:*')),
+      ...(await redis.keys('rate-limit:deferred:*')),
+    ];
     if (keys.length > 0) {
       await redis.del(...keys);
     }
@@ -0,0 +1,396 @@
+import { PassThrough, Readable } from 'stream';
+import { parse } from 'csv-parse';
+import ExcelJS from 'exceljs';
+import { RecipientImport } from '@prisma/client';
+import prisma from '../config/prisma';
+import { toAttributeName } from './csvService';
+import { isValidEmail } from './contactService';
+import { getSuppressedAddresses } from './suppressionService';
+import { RecipientVariables } from './personalizationService';
+
+/**
+ * Recipient Import Service
+ *
+ * Reads an uploaded CSV or XLSX file row by row as it streams in, finds the
+ * header row and email column, and sorts every row into valid, duplicate,
+ * invalid or suppressed. Valid recipients are stored as a RecipientImport the
+ * user reviews and then schedules by id; role accounts (info@, support@, ...)
+ * stay valid but are reported so they can be left out.
+ */
+
+export type ImportFormat = 'csv' | 'xlsx';
+
+export interface ImportIssue {
+  row: number; // 1-based row in the file
+  email: string;
+}
+
+export interface ImportIssueSummary {
+  count: number;
+  rows: ImportIssue[]; // The first MAX_ISSUE_ROWS of them
+}
+
+export interface RecipientImportReport {
+  id: string;
+  filename: string;
+  format: ImportFormat;
+  headerRow: number | null; // null when the file has no header row
+  emailColumn: string; // Header of the email column, or its position ("column 2") without one
+  fields: string[]; // Merge fields read from the other columns
+  totalRows: number; // Data rows read
+  valid: number; // Recipients that can be scheduled, role accounts included
+  duplicates: ImportIssueSummary;
+  invalid: ImportIssueSummary;
+  roleAccounts: ImportIssueSummary;
+  suppressed: ImportIssueSummary;
+  createdAt: string;
+}
+
+export class RecipientImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecipientImportError';
+  }
+}
+
+interface FileRow {
+  number: number;
+  cells: string[];
+}
+
+interface ImportLayout {
+  headerIndex: number | null; // Index into the scanned rows
+  emailColumn: number;
+  fieldNames: string[];
+}
+
+const EMAIL_HEADER_REGEX = /^(e-?mail|mail)(\s*address)?$/i;
+// Rows read before deciding where the header and email column are
+const HEADER_SCAN_ROWS = 10;
+const MAX_ISSUE_ROWS = 100;
+const SUPPRESSION_CHECK_BATCH = 1000;
+
+// Shared mailboxes rather than people; mail to them is more often ignored or reported
+const ROLE_ACCOUNTS = new Set([
+  'abuse',
+  'admin',
+  'administrator',
+  'billing',
+  'careers',
+  'contact',
+  'enquiries',
+  'help',
+  'hello',
+  'hostmaster',
+  'hr',
+  'info',
+  'inquiries',
+  'jobs',
+  'marketing',
+  'no-reply',
+  'noreply',
+  'office',
+  'postmaster',
+  'privacy',
+  'root',
+  'sales',
+  'security',
+  'support',
+  'team',
+  'webmaster',
+]);
+
+export function isRoleAccount(email: string): boolean {
+  return ROLE_ACCOUNTS.has(email.split('@')[0].toLowerCase());
+}
+
+/**
+ * Work out the format from the file name, falling back to the MIME type
+ */
+export function detectImportFormat(filename: string, mimeType: string): ImportFormat | null {
+  const extension = filename.split('.').pop()?.toLowerCase();
+
+  if (extension === 'xlsx' || mimeType === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet') {
+    return 'xlsx';
+  }
+  if (extension === 'csv' || extension === 'txt' || mimeType === 'text/csv' || mimeType === 'text/plain') {
+    return 'csv';
+  }
+  return null;
+}
+
+/**
+ * "Ada <ada@example.com>" and "mailto:ada@example.com" both become ada@example.com
+ */
+function extractEmail(value: string): string {
+  const bracketed = value.match(/<([^>]+)>/);
+  return (bracketed ? bracketed[1] : value).trim().replace(/^mailto:/i, '').toLowerCase();
+}
+
+async function* readCsvRows(input: Readable): AsyncGenerator<FileRow> {
+  const parser = parse({
+    bom: true,
+    delimiter: [',', ';', '\t'],
+    relax_column_count: true,
+    relax_quotes: true,
+    skip_empty_lines: true,
+    trim: true,
+    info: true,
+  });
+
+  let inputError: Error | null = null;
+
+  input.on('error', (error) => {
+    inputError = error;
+    parser.destroy(error);
+  });
+  input.pipe(parser);
+
+  try {
+    for await (const { record, info } of parser as AsyncIterable<{ record: string[]; info: { lines: number } }>) {
+      yield { number: info.lines, cells: record };
+    }
+  } catch (error) {
+    if (inputError) throw inputError;
+    throw new RecipientImportError(`Could not read the CSV file: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function cellText(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value !== 'object') return String(value).trim();
+  if ('richText' in value) return value.richText.map((part) => part.text).join('').trim();
+  if ('text' in value) return String(value.text).trim();
+  if ('result' in value) return value.result === undefined ? '' : cellText(value.result as ExcelJS.CellValue);
+  return '';
+}
+
+/**
+ * Rows of the first worksheet
+ */
+async function* readXlsxRows(input: Readable): AsyncGenerator<FileRow> {
+  // The workbook reader ignores errors on its input, so end its stream instead
+  // and raise the error once it stops
+  const source = new PassThrough();
+  let inputError: Error | null = null;
+
+  input.on('error', (error) => {
+    inputError = error;
+    source.end();
+  });
+  input.pipe(source);
+
+  const workbook = new ExcelJS.stream.xlsx.WorkbookReader(source, {
+    worksheets: 'emit',
+    sharedStrings: 'cache',
+    hyperlinks: 'ignore',
+    styles: 'ignore',
+  });
+
+  try {
+    for await (const worksheet of workbook) {
+      for await (const row of worksheet) {
+        if (inputError) throw inputError;
+
+        // row.values is 1-based, with gaps for empty cells
+        const values = (row.values as ExcelJS.CellValue[]).slice(1);
+        const cells = Array.from(values, (value) => cellText(value));
+        if (cells.some((cell) => cell !== '')) {
+          yield { number: row.number, cells };
+        }
+      }
+      break;
+    }
+  } catch (error) {
+    if (inputError || error instanceof RecipientImportError) throw inputError || error;
+    throw new RecipientImportError(`Could not read the XLSX file: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (inputError) throw inputError;
+}
+
+/**
+ * Find the header row and email column among the first rows
+ * A row naming an email column is the header, and rows above it (titles,
+ * notes) are skipped. Otherwise the column holding the most addresses is used,
+ * with the first row as its header if that is the only non-address in it.
+ */
+function detectLayout(rows: FileRow[]): ImportLayout | null {
+  const headerIndex = rows.findIndex((row) => row.cells.some((cell) => EMAIL_HEADER_REGEX.test(cell)));
+
+  if (headerIndex !== -1) {
+    const header = rows[headerIndex].cells;
+    return {
+      headerIndex,
+      emailColumn: header.findIndex((cell) => EMAIL_HEADER_REGEX.test(cell)),
+      fieldNames: header.map(toAttributeName),
+    };
+  }
+
+  const addressCounts = new Map<number, number>();
+  for (const row of rows) {
+    row.cells.forEach((cell, column) => {
+      if (isValidEmail(extractEmail(cell))) {
+        addressCounts.set(column, (addressCounts.get(column) || 0) + 1);
+      }
+    });
+  }
+
+  const best = Array.from(addressCounts.entries()).sort((a, b) => b[1] - a[1])[0];
+  if (!best) return null;
+
+  const emailColumn = best[0];
+  const firstRowIsHeader =
+    rows.length > 1 &&
+    !isValidEmail(extractEmail(rows[0].cells[emailColumn] || '')) &&
+    rows.slice(1).every((row) => !row.cells[emailColumn] || isValidEmail(extractEmail(row.cells[emailColumn])));
+
+  return firstRowIsHeader
+    ? { headerIndex: 0, emailColumn, fieldNames: rows[0].cells.map(toAttributeName) }
+    : { headerIndex: null, emailColumn, fieldNames: [] };
+}
+
+function emptySummary(): ImportIssueSummary {
+  return { count: 0, rows: [] };
+}
+
+function addIssue(summary: ImportIssueSummary, issue: ImportIssue): void {
+  summary.count++;
+  if (summary.rows.length < MAX_ISSUE_ROWS) summary.rows.push(issue);
+}
+
+export function formatRecipientImport(recipientImport: RecipientImport): RecipientImportReport {
+  return {
+    ...JSON.parse(recipientImport.report),
+    id: recipientImport.id,
+    filename: recipientImport.filename,
+    format: recipientImport.format as ImportFormat,
+    createdAt: recipientImport.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Read an uploaded file and store its valid recipients with a validation report
+ */
+export async function importRecipients(
+  userId: string,
+  input: Readable,
+  file: { filename: string; format: ImportFormat }
+): Promise<RecipientImportReport> {
+  const rows = file.format === 'xlsx' ? readXlsxRows(input) : readCsvRows(input);
+
+  const report: Omit<RecipientImportReport, 'id' | 'filename' | 'format' | 'createdAt'> = {
+    headerRow: null,
+    emailColumn: '',
+    fields: [],
+    totalRows: 0,
+    valid: 0,
+    duplicates: emptySummary(),
+    invalid: emptySummary(),
+    roleAccounts: emptySummary(),
+    suppressed: emptySummary(),
+  };
+  const recipients = new Map<string, { row: number; variables: RecipientVariables }>();
+  const scanned: FileRow[] = [];
+  let layout: ImportLayout | null = null;
+
+  const processRow = (row: FileRow) => {
+    if (!layout) return;
+
+    report.totalRows++;
+    const email = extractEmail(row.cells[layout.emailColumn] || '');
+
+    if (!isValidEmail(email)) {
+      addIssue(report.invalid, { row: row.number, email: row.cells[layout.emailColumn] || '' });
+      return;
+    }
+
+    if (recipients.has(email)) {
+      addIssue(report.duplicates, { row: row.number, email });
+      return;
+    }
+
+    const variables: RecipientVariables = {};
+    row.cells.forEach((value, column) => {
+      const name = layout!.fieldNames[column];
+      if (column !== layout!.emailColumn && name && value) {
+        variables[name] = value;
+      }
+    });
+
+    recipients.set(email, { row: row.number, variables: { ...variables, email } });
+  };
+
+  for await (const row of rows) {
+    if (layout) {
+      processRow(row);
+      continue;
+    }
+
+    scanned.push(row);
+    if (scanned.length < HEADER_SCAN_ROWS) continue;
+
+    layout = detectLayout(scanned);
+    if (!layout) throw new RecipientImportError('No email column found in the file');
+    scanned.slice(layout.headerIndex === null ? 0 : layout.headerIndex + 1).forEach(processRow);
+  }
+
+  // Files shorter than the scan
+  if (!layout) {
+    layout = detectLayout(scanned);
+    if (!layout) throw new RecipientImportError('No email column found in the file');
+    scanned.slice(layout.headerIndex === null ? 0 : layout.headerIndex + 1).forEach(processRow);
+  }
+
+  const headerCells = layout.headerIndex === null ? null : scanned[layout.headerIndex].cells;
+  report.headerRow = layout.headerIndex === null ? null : scanned[layout.headerIndex].number;
+  report.emailColumn = headerCells ? headerCells[layout.emailColumn] : `column ${layout.emailColumn + 1}`;
+  report.fields = layout.fieldNames.filter((name, column) => name && column !== layout!.emailColumn);
+
+  // Suppressed addresses would be dropped at schedule time anyway; leave them out now
+  const emails = Array.from(recipients.keys());
+  for (let i = 0; i < emails.length; i += SUPPRESSION_CHECK_BATCH) {
+    const suppressed = await getSuppressedAddresses(userId, emails.slice(i, i + SUPPRESSION_CHECK_BATCH));
+    for (const email of suppressed) {
+      addIssue(report.suppressed, { row: recipients.get(email)!.row, email });
+      recipients.delete(email);
+    }
+  }
+
+  for (const [email, { row }] of recipients) {
+    if (isRoleAccount(email)) addIssue(report.roleAccounts, { row, email });
+  }
+  report.valid = recipients.size;
+
+  const recipientImport = await prisma.recipientImport.create({
+    data: {
+      userId,
+      filename: file.filename,
+      format: file.format,
+      recipients: JSON.stringify(Array.from(recipients.values(), (recipient) => recipient.variables)),
+      report: JSON.stringify(report),
+    },
+  });
+
+  return formatRecipientImport(recipientImport);
+}
+
+/**
+ * Recipients of an import, as { email, ...mergeFields } objects
+ */
+export async function getImportedRecipients(
+  userId: string,
+  importId: string,
+  options: { skipRoleAccounts?: boolean } = {}
+): Promise<RecipientVariables[] | null> {
+  const recipientImport = await prisma.recipientImport.findFirst({
+    where: { id: importId, userId },
+    select: { recipients: true },
+  });
+
+  if (!recipientImport) return null;
+
+  const recipients: RecipientVariables[] = JSON.parse(recipientImport.recipients);
+  return options.skipRoleAccounts ? recipients.filter((recipient) => !isRoleAccount(recipient.email)) : recipients;
+}
@@ -0,0 +1,189 @@
+import { Queue, Worker } from 'bullmq';
+import { getRedis } from '../config/connections';
+import prisma from '../config/prisma';
+import { EmailJobData } from '../types';
+import { getQueue, scheduleEmailJob } from './queueService';
+import { updateEmailJobStatus, updateScheduleCounts } from './emailService';
+import { getSendRecord } from './idempotencyService';
+import { addDeadLetter } from './deadLetterService';
+import { updateEnrollmentProgress } from './sequenceService';
+
+/**
+ * Reconciliation Service
+ *
+ * EmailJob rows and BullMQ jobs are updated separately, so a crash, a lost
+ * Redis or a failed write can leave a row claiming something BullMQ disagrees
+ * with. A repeatable job on the "reconciliation" queue compares overdue unsent
+ * rows with their BullMQ job and repairs the row (or re-queues a lost job).
+ */
+
+const RECONCILE_INTERVAL_MS = parseInt(process.env.RECONCILE_INTERVAL_MS || '300000', 10);
+// Rows touched more recently than this may still be mid-update by the worker
+const RECONCILE_GRACE_MS = 60 * 1000;
+const RECONCILE_BATCH_SIZE = 500;
+
+let reconciliationQueue: Queue | null = null;
+let reconciliationWorker: Worker | null = null;
+
+export interface ReconciliationResult {
+  checked: number;
+  repaired: number;
+}
+
+/**
+ * Compare unsent email jobs that are past due with BullMQ and repair drift
+ */
+export async function reconcileEmailJobs(): Promise<ReconciliationResult> {
+  const cutoff = new Date(Date.now() - RECONCILE_GRACE_MS);
+
+  const emailJobs = await prisma.emailJob.findMany({
+    where: {
+      status: { in: ['pending', 'queued', 'sending', 'retrying'] },
+      scheduledTime: { lt: cutoff },
+      updatedAt: { lt: cutoff },
+      // Rows of a batch still being prepared are owned by scheduleService
+      OR: [{ scheduleId: null }, { schedule: { status: { not: 'preparing' } } }],
+    },
+    include: { schedule: { select: { attachments: true } } },
+    orderBy: { scheduledTime: 'asc' },
+    take: RECONCILE_BATCH_SIZE,
+  });
+
+  const queue = getQueue();
+  const touchedSchedules = new Set<string>();
+  const touchedSequenceEmails: string[] = [];
+  let repaired = 0;
+
+  for (const emailJob of emailJobs) {
+    const job = emailJob.jobId ? await queue.getJob(emailJob.jobId) : undefined;
+    const state = job ? await job.getState() : 'missing';
+    const sendRecord = await getSendRecord(emailJob.id);
+    const data: EmailJobData = {
+      scheduleId: emailJob.scheduleId,
+      enrollmentId: emailJob.enrollmentId,
+      emailJobId: emailJob.id,
+      userId: emailJob.userId,
+      recipient: emailJob.recipient,
+      subject: emailJob.subject,
+      body: emailJob.body,
+      scheduledTime: new Date(),
+      attachments: emailJob.schedule?.attachments ? JSON.parse(emailJob.schedule.attachments) : [],
+    };
+    let fixed = false;
+
+    if (sendRecord?.status === 'sent') {
+      // Sent, but the status update after it never happened
+      fixed = await updateEmailJobStatus(emailJob.id, 'sent', {
+        sentTime: sendRecord.sentAt || new Date(),
+        messageId: sendRecord.messageId || undefined,
+      });
+    } else if (job && state === 'completed' && job.returnvalue?.success) {
+      fixed = await updateEmailJobStatus(emailJob.id, 'sent', {
+        sentTime: job.finishedOn ? new Date(job.finishedOn) : new Date(),
+        messageId: job.returnvalue.messageId,
+      });
+    } else if (job && state === 'failed') {
+      const errorMessage = job.failedReason || 'Failed in queue';
+      fixed = await updateEmailJobStatus(emailJob.id, 'failed', { errorMessage });
+      if (fixed) {
+        await addDeadLetter(job.data, [
+          ...(job.data.errorHistory || []),
+          { at: new Date().toISOString(), message: errorMessage },
+        ]);
+      }
+    } else if (job && ['waiting', 'delayed', 'prioritized'].includes(state)) {
+      // Waiting in BullMQ, so not being sent right now
+      if (emailJob.status === 'sending') {
+        fixed = await updateEmailJobStatus(emailJob.id, job.attemptsMade > 0 ? 'retrying' : 'queued');
+      } else if (emailJob.status === 'pending') {
+        fixed = await updateEmailJobStatus(emailJob.id, 'queued');
+      }
+    } else if (state !== 'active') {
+      if (emailJob.status === 'sending' && sendRecord?.status === 'sending') {
+        // The transport was called, so it may have gone out; failing is safer than sending twice
+        const errorMessage = 'Queue job lost while sending; delivery unknown';
+        fixed = await updateEmailJobStatus(emailJob.id, 'failed', { errorMessage });
+        if (fixed) {
+          await addDeadLetter(data, [{ at: new Date().toISOString(), message: errorMessage }]);
+        }
+      } else {
+        // Missing or finished without sending, or lost before calling the transport: queue it again
+        const jobId = await scheduleEmailJob(data);
+
+        await prisma.emailJob.update({
+          where: { id: emailJob.id },
+          data: { status: 'queued', jobId },
+        });
+        fixed = true;
+      }
+    }
+
+    if (fixed) {
+      console.log(`🔧 Reconciled email job ${emailJob.id} (${emailJob.status}, queue job ${state})`);
+      if (emailJob.scheduleId) touchedSchedules.add(emailJob.scheduleId);
+      else touchedSequenceEmails.push(emailJob.id);
+      repaired++;
+    }
+  }
+
+  for (const scheduleId of touchedSchedules) {
+    await updateScheduleCounts(scheduleId);
+  }
+
+  for (const emailJobId of touchedSequenceEmails) {
+    await updateEnrollmentProgress(emailJobId);
+  }
+
+  return { checked: emailJobs.length, repaired };
+}
+
+/**
+ * Initialize the reconciliation queue and worker, and schedule the repeatable run
+ */
+export async function initializeReconciliation(): Promise<void> {
+  if (reconciliationWorker) return;
+
+  reconciliationQueue = new Queue('reconciliation', {
+    connection: getRedis(),
+    defaultJobOptions: {
+      removeOnComplete: true,
+      removeOnFail: {
+        age: 86400,
+      },
+    },
+  });
+
+  reconciliationWorker = new Worker(
+    'reconciliation',
+    async () => {
+      const result = await reconcileEmailJobs();
+      if (result.repaired > 0) {
+        console.log(`🔧 Reconciliation repaired ${result.repaired} of ${result.checked} email job(s)`);
+      }
+      return result;
+    },
+    { connection: getRedis() }
+  );
+
+  reconciliationWorker.on('failed', (job, err) => {
+    console.error(`❌ Reconciliation job ${job?.id} failed:`, err.message);
+  });
+
+  await reconciliationQueue.add('reconcile', {}, { repeat: { every: RECONCILE_INTERVAL_MS } });
+
+  console.log(`✅ Reconciliation scheduled every ${RECONCILE_INTERVAL_MS}ms`);
+}
+
+/**
+ * Close reconciliation queue and worker
+ */
+export async function closeReconciliation(): Promise<void> {
+  if (reconciliationWorker) {
+    await reconciliationWorker.close();
+    reconciliationWorker = null;
+  }
+  if (reconciliationQueue) {
+    await reconciliationQueue.close();
+    reconciliationQueue = null;
+  }
+}
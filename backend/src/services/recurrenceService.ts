@@ -0,0 +1,403 @@
+import { DelayedError, Job, Queue, Worker } from 'bullmq';
+import { parseExpression } from 'cron-parser';
+import { EmailSchedule } from '@prisma/client';
+import { getRedis } from '../config/connections';
+import prisma from '../config/prisma';
+import { isValidTimezone, prepareSchedule } from './scheduleService';
+import { updateScheduleCounts } from './emailService';
+
+/**
+ * Recurrence Service
+ *
+ * A recurring schedule has a cron expression or RRULE, an IANA timezone and
+ * optional end conditions (end time, max occurrences). Each occurrence is a
+ * delayed job on the "recurrences" queue; when it fires it prepares a fresh
+ * batch of EmailJobs and queues the occurrence after it.
+ *
+ * Supported RRULE subset: FREQ=DAILY|WEEKLY with BYDAY, FREQ=MONTHLY with
+ * BYMONTHDAY, and BYHOUR and BYMINUTE (default 00:00). COUNT or UNTIL becomes
+ * an end condition. Any other part or combination is rejected rather than
+ * ignored, since it would send on days the rule does not mean.
+ */
+
+export interface Recurrence {
+  rule: string;
+  timezone: string;
+  endsAt: Date | null;
+  maxOccurrences: number | null;
+}
+
+export interface OccurrenceJobData {
+  scheduleId: string;
+  occurrenceAt: string; // ISO time
+}
+
+type RecurringSchedule = Pick<
+  EmailSchedule,
+  'recurrenceRule' | 'timezone' | 'recurrenceEndsAt' | 'maxOccurrences' | 'occurrenceCount'
+>;
+
+export class RecurrenceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecurrenceError';
+  }
+}
+
+let recurrenceQueue: Queue<OccurrenceJobData> | null = null;
+let recurrenceWorker: Worker<OccurrenceJobData> | null = null;
+
+const RRULE_DAYS: Record<string, number> = { SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6 };
+const RRULE_PARTS = ['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'BYHOUR', 'BYMINUTE', 'COUNT', 'UNTIL'];
+const NUMBER_LIST_REGEX = /^\d{1,2}(,\d{1,2})*$/;
+const PREPARING_RECHECK_MS = 30 * 1000;
+
+function isRRule(rule: string): boolean {
+  return /^(RRULE:)?FREQ=/i.test(rule.trim());
+}
+
+function parseRRuleDate(value: string): Date {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  if (!match) throw new RecurrenceError(`Invalid RRULE UNTIL: ${value}`);
+
+  const [, year, month, day, hour = '0', minute = '0', second = '0'] = match;
+  return new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+}
+
+/**
+ * Translate an RRULE into the equivalent cron expression plus its end conditions
+ */
+function parseRRule(rule: string): { cron: string; count?: number; until?: Date } {
+  const parts: Record<string, string> = {};
+  for (const part of rule.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+    const [key, value = ''] = part.split('=');
+    parts[key.trim().toUpperCase()] = value.trim().toUpperCase();
+  }
+
+  const unsupported = Object.keys(parts).filter((key) => !RRULE_PARTS.includes(key));
+  if (unsupported.length > 0) {
+    throw new RecurrenceError(`RRULE ${unsupported.join(', ')} is not supported; use a cron expression`);
+  }
+
+  const { FREQ, INTERVAL = '1', BYDAY, BYMONTHDAY, BYHOUR = '0', BYMINUTE = '0', COUNT, UNTIL } = parts;
+
+  if (COUNT && UNTIL) {
+    throw new RecurrenceError('RRULE cannot have both COUNT and UNTIL');
+  }
+
+  if (INTERVAL !== '1') {
+    throw new RecurrenceError('RRULE INTERVAL other than 1 is not supported; use a cron expression');
+  }
+
+  if (!NUMBER_LIST_REGEX.test(BYHOUR) || !NUMBER_LIST_REGEX.test(BYMINUTE)) {
+    throw new RecurrenceError('RRULE BYHOUR and BYMINUTE must be numbers');
+  }
+
+  const toDayOfWeek = (byDay: string) =>
+    byDay
+      .split(',')
+      .map((day) => {
+        if (!(day in RRULE_DAYS)) throw new RecurrenceError(`Invalid RRULE BYDAY: ${day}`);
+        return RRULE_DAYS[day];
+      })
+      .join(',');
+
+  let dayOfMonth = '*';
+  let dayOfWeek = '*';
+
+  switch (FREQ) {
+    case 'DAILY':
+    case 'WEEKLY':
+      if (BYMONTHDAY) throw new RecurrenceError(`RRULE FREQ=${FREQ} cannot have BYMONTHDAY`);
+      if (FREQ === 'WEEKLY' && !BYDAY) throw new RecurrenceError('RRULE FREQ=WEEKLY needs BYDAY');
+      if (BYDAY) dayOfWeek = toDayOfWeek(BYDAY);
+      break;
+    case 'MONTHLY':
+      // Weekdays of a month (BYDAY=1MO, or BYDAY with BYMONTHDAY) have no cron equivalent
+      if (BYDAY) throw new RecurrenceError('RRULE FREQ=MONTHLY with BYDAY is not supported; use a cron expression');
+      // -1 is the last day of the month
+      dayOfMonth = BYMONTHDAY === '-1' ? 'L' : BYMONTHDAY || '1';
+      if (dayOfMonth !== 'L' && !NUMBER_LIST_REGEX.test(dayOfMonth)) {
+        throw new RecurrenceError(`Invalid RRULE BYMONTHDAY: ${BYMONTHDAY}`);
+      }
+      break;
+    default:
+      throw new RecurrenceError('RRULE FREQ must be DAILY, WEEKLY or MONTHLY');
+  }
+
+  const count = COUNT ? parseInt(COUNT, 10) : undefined;
+  if (count !== undefined && !(count > 0)) {
+    throw new RecurrenceError(`Invalid RRULE COUNT: ${COUNT}`);
+  }
+
+  return {
+    cron: `${BYMINUTE} ${BYHOUR} ${dayOfMonth} * ${dayOfWeek}`,
+    count,
+    until: UNTIL ? parseRRuleDate(UNTIL) : undefined,
+  };
+}
+
+function toCronExpression(rule: string): string {
+  return isRRule(rule) ? parseRRule(rule).cron : rule.trim();
+}
+
+/**
+ * Validate a recurrence submitted through the API
+ * Explicit endsAt / maxOccurrences win over an RRULE's UNTIL / COUNT
+ */
+export function parseRecurrence(input: unknown): Recurrence {
+  if (input !== undefined && input !== null && (typeof input !== 'object' || Array.isArray(input))) {
+    throw new RecurrenceError('recurrence must be an object');
+  }
+
+  const { rule, timezone = 'UTC', endsAt, maxOccurrences } = (input || {}) as Record<string, unknown>;
+
+  if (typeof rule !== 'string' || !rule.trim()) {
+    throw new RecurrenceError('recurrence.rule is required');
+  }
+
+  if (typeof timezone !== 'string' || !isValidTimezone(timezone)) {
+    throw new RecurrenceError(`Unknown timezone: ${String(timezone)}`);
+  }
+
+  const rrule = isRRule(rule) ? parseRRule(rule) : null;
+
+  try {
+    parseExpression(toCronExpression(rule), { tz: timezone });
+  } catch (error) {
+    throw new RecurrenceError(`Invalid cron expression: ${error instanceof Error ? error.message : rule}`);
+  }
+
+  let endsAtDate = rrule?.until || null;
+  if (endsAt) {
+    endsAtDate = typeof endsAt === 'string' || typeof endsAt === 'number' ? new Date(endsAt) : null;
+    if (!endsAtDate || isNaN(endsAtDate.getTime())) throw new RecurrenceError('Invalid recurrence.endsAt');
+  }
+
+  let occurrences = rrule?.count || null;
+  if (maxOccurrences !== undefined && maxOccurrences !== null) {
+    occurrences =
+      typeof maxOccurrences === 'number' || typeof maxOccurrences === 'string' ? Number(maxOccurrences) : NaN;
+    if (!Number.isInteger(occurrences) || occurrences <= 0) {
+      throw new RecurrenceError('recurrence.maxOccurrences must be a positive whole number');
+    }
+  }
+
+  return { rule: rule.trim(), timezone, endsAt: endsAtDate, maxOccurrences: occurrences };
+}
+
+export function getSkippedOccurrences(schedule: Pick<EmailSchedule, 'skippedOccurrences'>): string[] {
+  return schedule.skippedOccurrences ? JSON.parse(schedule.skippedOccurrences) : [];
+}
+
+function iterateOccurrences(schedule: RecurringSchedule, after: Date) {
+  return parseExpression(toCronExpression(schedule.recurrenceRule || ''), {
+    currentDate: after,
+    endDate: schedule.recurrenceEndsAt || undefined,
+    tz: schedule.timezone || 'UTC',
+  });
+}
+
+/**
+ * The first occurrence strictly after `after`, or null when the series has ended
+ */
+export function getNextOccurrence(schedule: RecurringSchedule, after: Date): Date | null {
+  if (!schedule.recurrenceRule) return null;
+  if (schedule.maxOccurrences !== null && schedule.occurrenceCount >= schedule.maxOccurrences) return null;
+
+  const interval = iterateOccurrences(schedule, after);
+  return interval.hasNext() ? interval.next().toDate() : null;
+}
+
+/**
+ * Whether `at` is an occurrence of the series that has not fired yet
+ */
+export function isUpcomingOccurrence(
+  schedule: RecurringSchedule & Pick<EmailSchedule, 'nextOccurrenceAt'>,
+  at: Date
+): boolean {
+  if (!schedule.nextOccurrenceAt || at < schedule.nextOccurrenceAt) return false;
+
+  const interval = iterateOccurrences(schedule, new Date(at.getTime() - 1));
+  return interval.hasNext() && interval.next().toDate().getTime() === at.getTime();
+}
+
+/**
+ * Upcoming occurrences starting from the next one, flagged when skipped
+ * Skipped occurrences do not count towards maxOccurrences
+ */
+export function getUpcomingOccurrences(
+  schedule: RecurringSchedule & Pick<EmailSchedule, 'nextOccurrenceAt' | 'skippedOccurrences'>,
+  limit: number
+): Array<{ at: string; skipped: boolean }> {
+  if (!schedule.recurrenceRule || !schedule.nextOccurrenceAt) return [];
+
+  const skipped = new Set(getSkippedOccurrences(schedule));
+  let remaining =
+    schedule.maxOccurrences === null ? Infinity : schedule.maxOccurrences - schedule.occurrenceCount;
+
+  const interval = iterateOccurrences(schedule, new Date(schedule.nextOccurrenceAt.getTime() - 1));
+  const occurrences: Array<{ at: string; skipped: boolean }> = [];
+
+  while (occurrences.length < limit && remaining > 0 && interval.hasNext()) {
+    const at = interval.next().toISOString();
+    const isSkipped = skipped.has(at);
+    occurrences.push({ at, skipped: isSkipped });
+    if (!isSkipped) remaining--;
+  }
+
+  return occurrences;
+}
+
+function occurrenceJobId(scheduleId: string, occurrenceAt: Date): string {
+  return `occurrence-${scheduleId}-${occurrenceAt.getTime()}`;
+}
+
+/**
+ * Initialize the queue holding the next occurrence of every recurring schedule
+ */
+export async function initializeRecurrenceQueue(): Promise<Queue<OccurrenceJobData>> {
+  if (recurrenceQueue) return recurrenceQueue;
+
+  recurrenceQueue = new Queue<OccurrenceJobData>('recurrences', {
+    connection: getRedis(),
+    defaultJobOptions: {
+      attempts: 3,
+      backoff: {
+        type: 'exponential',
+        delay: 5000,
+      },
+      removeOnComplete: true,
+      removeOnFail: {
+        age: 86400,
+      },
+    },
+  });
+
+  console.log('✅ Recurrence queue initialized');
+  return recurrenceQueue;
+}
+
+function getRecurrenceQueue(): Queue<OccurrenceJobData> {
+  if (!recurrenceQueue) {
+    throw new Error('Recurrence queue not initialized. Call initializeRecurrenceQueue() first.');
+  }
+  return recurrenceQueue;
+}
+
+/**
+ * Queue an occurrence; queueing the same occurrence twice is a no-op
+ */
+export async function queueOccurrence(scheduleId: string, occurrenceAt: Date): Promise<void> {
+  await getRecurrenceQueue().add(
+    'occurrence',
+    { scheduleId, occurrenceAt: occurrenceAt.toISOString() },
+    {
+      delay: Math.max(0, occurrenceAt.getTime() - Date.now()),
+      jobId: occurrenceJobId(scheduleId, occurrenceAt),
+    }
+  );
+}
+
+/**
+ * Drop a queued occurrence, e.g. when the series is edited or cancelled
+ */
+export async function removeQueuedOccurrence(scheduleId: string, occurrenceAt: Date): Promise<void> {
+  const job = await getRecurrenceQueue().getJob(occurrenceJobId(scheduleId, occurrenceAt));
+
+  if (job && !(await job.isActive())) {
+    await job.remove();
+  }
+}
+
+/**
+ * Send one occurrence and queue the one after it
+ */
+async function processOccurrence(job: Job<OccurrenceJobData>, token?: string): Promise<void> {
+  const { scheduleId, occurrenceAt } = job.data;
+  const at = new Date(occurrenceAt);
+  const schedule = await prisma.emailSchedule.findUnique({ where: { id: scheduleId } });
+
+  // Cancelled, ended or edited since this occurrence was queued
+  if (!schedule || schedule.status === 'cancelled' || schedule.nextOccurrenceAt?.getTime() !== at.getTime()) {
+    return;
+  }
+
+  // The previous occurrence is still being prepared, however long that takes; check again shortly
+  if (schedule.status === 'preparing') {
+    await job.moveToDelayed(Date.now() + PREPARING_RECHECK_MS, token);
+    throw new DelayedError();
+  }
+
+  // Occurrences that come up while the schedule is paused are skipped, not held
+  const sending = schedule.status !== 'paused' && !getSkippedOccurrences(schedule).includes(occurrenceAt);
+
+  const occurrenceCount = schedule.occurrenceCount + (sending ? 1 : 0);
+  const next = getNextOccurrence({ ...schedule, occurrenceCount }, at);
+
+  // Advance the series before creating the batch, so a retried job cannot send it twice
+  await prisma.emailSchedule.update({
+    where: { id: scheduleId },
+    data: {
+      nextOccurrenceAt: next,
+      occurrenceCount,
+      ...(sending && { status: 'preparing', preparingOccurrenceAt: at }),
+    },
+  });
+
+  if (next) {
+    await queueOccurrence(scheduleId, next);
+  }
+
+  if (sending) {
+    console.log(`🔁 Preparing occurrence ${occurrenceAt} of schedule ${scheduleId}`);
+    await prepareSchedule(scheduleId);
+  } else {
+    console.log(`⏭️  Skipping occurrence ${occurrenceAt} of schedule ${scheduleId}`);
+  }
+
+  // Completes the schedule once the series has ended and everything was sent
+  await updateScheduleCounts(scheduleId);
+}
+
+/**
+ * Initialize the worker that fires occurrences
+ * Re-queues the next occurrence of every active series, in case Redis lost them
+ */
+export async function initializeRecurrenceWorker(): Promise<Worker<OccurrenceJobData>> {
+  if (recurrenceWorker) return recurrenceWorker;
+
+  recurrenceWorker = new Worker<OccurrenceJobData>('recurrences', processOccurrence, {
+    connection: getRedis(),
+  });
+
+  recurrenceWorker.on('failed', (job, err) => {
+    console.error(`❌ Occurrence job ${job?.id} failed:`, err.message);
+  });
+
+  const activeSeries = await prisma.emailSchedule.findMany({
+    where: { nextOccurrenceAt: { not: null }, status: { not: 'cancelled' } },
+    select: { id: true, nextOccurrenceAt: true },
+  });
+
+  for (const series of activeSeries) {
+    await queueOccurrence(series.id, series.nextOccurrenceAt!);
+  }
+
+  console.log(`✅ Recurrence worker initialized (${activeSeries.length} active series)`);
+  return recurrenceWorker;
+}
+
+/**
+ * Close recurrence queue and worker
+ */
+export async function closeRecurrenceQueue(): Promise<void> {
+  if (recurrenceWorker) {
+    await recurrenceWorker.close();
+    recurrenceWorker = null;
+  }
+  if (recurrenceQueue) {
+    await recurrenceQueue.close();
+    recurrenceQueue = null;
+  }
+}
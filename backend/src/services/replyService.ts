@@ -0,0 +1,97 @@
+import prisma from '../config/prisma';
+import { asObject, asString, headerValue, Json, normalizeMessageId, unfoldHeaders } from './bounceService';
+import { exitEnrollment } from './sequenceService';
+
+/**
+ * Reply Service
+ *
+ * Matches inbound replies to the email they answer through the Message-IDs in
+ * their In-Reply-To and References headers. A reply to a sequence email takes
+ * the contact out of the sequence. Replies arrive as raw RFC 5322 messages or
+ * as JSON/form webhooks from Postmark, Mailgun routes, or a generic
+ * { from, inReplyTo, references } shape.
+ */
+
+export interface InboundReply {
+  from?: string;
+  messageIds: string[]; // Referenced Message-IDs without angle brackets, In-Reply-To first
+}
+
+export type ReplyOutcome = 'applied' | 'unmatched' | 'ignored';
+
+/**
+ * Message-IDs in In-Reply-To/References values: "<a@x> <b@y>", or bare ids
+ */
+function referencedIds(...values: unknown[]): string[] {
+  const ids = values.flatMap((value) => {
+    if (Array.isArray(value)) return referencedIds(...value);
+    if (typeof value !== 'string') return [];
+    return value.match(/<[^<>]+>/g) || value.split(/[\s,]+/);
+  });
+
+  return Array.from(new Set(ids.map(normalizeMessageId).filter((id) => id !== '')));
+}
+
+/**
+ * Read the headers of a raw inbound message
+ */
+export function parseRawReply(raw: string): InboundReply {
+  const headers = unfoldHeaders(raw.split(/\r?\n\r?\n/)[0]);
+
+  return {
+    from: headerValue(headers, 'From'),
+    messageIds: referencedIds(headerValue(headers, 'In-Reply-To'), headerValue(headers, 'References')),
+  };
+}
+
+/**
+ * Normalize an inbound-mail webhook payload, or null if it is not one
+ */
+export function parseReplyWebhook(payload: unknown): InboundReply | null {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) return null;
+
+  const body = payload as Json;
+
+  // Postmark: a Headers array of { Name, Value }
+  if (Array.isArray(body.Headers)) {
+    const headers = body.Headers.map(asObject);
+    const header = (name: string) =>
+      headers.find((entry) => asString(entry.Name)?.toLowerCase() === name.toLowerCase())?.Value;
+    return { from: asString(body.From), messageIds: referencedIds(header('In-Reply-To'), header('References')) };
+  }
+
+  // Mailgun routes post the headers as fields of their own
+  if (body['In-Reply-To'] || body.References) {
+    return {
+      from: asString(body.sender) || asString(body.from),
+      messageIds: referencedIds(body['In-Reply-To'], body.References),
+    };
+  }
+
+  if (body.inReplyTo || body.references) {
+    return { from: asString(body.from), messageIds: referencedIds(body.inReplyTo, body.references) };
+  }
+
+  return null;
+}
+
+/**
+ * End the enrollment of the sequence email a reply answers
+ */
+export async function applyReply(reply: InboundReply): Promise<ReplyOutcome> {
+  if (reply.messageIds.length === 0) return 'unmatched';
+
+  const emailJob = await prisma.emailJob.findFirst({
+    where: { messageId: { in: reply.messageIds } },
+    select: { id: true, enrollmentId: true },
+  });
+
+  if (!emailJob) return 'unmatched';
+
+  console.log(`💬 Reply${reply.from ? ` from ${reply.from}` : ''} to email job ${emailJob.id}`);
+
+  // Replies to schedule emails need no action
+  if (!emailJob.enrollmentId) return 'ignored';
+
+  return (await exitEnrollment(emailJob.enrollmentId, 'replied')) ? 'applied' : 'ignored';
+}
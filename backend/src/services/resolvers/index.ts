@@ -0,0 +1,56 @@
+import { DnsResolver, DnsResolverProvider } from '../../types';
+import { createSystemResolver } from './systemResolver';
+import { createStubResolver, loadStubTable } from './stubResolver';
+
+/**
+ * DNS resolver factory
+ *
+ * The resolver is chosen by DNS_RESOLVER (system, stub). The stub answers from
+ * DNS_STUB_FILE so address verification works offline.
+ */
+
+const RESOLVER_PROVIDERS: DnsResolverProvider[] = ['system', 'stub'];
+
+let dnsResolver: DnsResolver | null = null;
+
+export function isDnsResolverProvider(value: string): value is DnsResolverProvider {
+  return (RESOLVER_PROVIDERS as string[]).includes(value);
+}
+
+/**
+ * Create the resolver configured in the environment
+ */
+export function createResolverFromEnv(): DnsResolver {
+  const provider = process.env.DNS_RESOLVER || 'system';
+
+  if (!isDnsResolverProvider(provider)) {
+    throw new Error(`Unknown DNS_RESOLVER "${provider}". Expected one of: ${RESOLVER_PROVIDERS.join(', ')}`);
+  }
+
+  if (provider === 'stub') {
+    return createStubResolver(process.env.DNS_STUB_FILE ? loadStubTable(process.env.DNS_STUB_FILE) : {});
+  }
+
+  return createSystemResolver({
+    servers: (process.env.DNS_SERVERS || '').split(',').map((server) => server.trim()).filter(Boolean),
+    timeoutMs: parseInt(process.env.DNS_TIMEOUT_MS || '3000', 10),
+  });
+}
+
+/**
+ * Get the shared resolver, creating it on first use
+ */
+export function getDnsResolver(): DnsResolver {
+  if (!dnsResolver) dnsResolver = createResolverFromEnv();
+  return dnsResolver;
+}
+
+/**
+ * Replace the shared resolver (e.g. with a stub in tests)
+ */
+export function setDnsResolver(resolver: DnsResolver): void {
+  dnsResolver = resolver;
+}
+
+export { createSystemResolver } from './systemResolver';
+export { createStubResolver } from './stubResolver';
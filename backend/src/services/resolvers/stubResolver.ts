@@ -0,0 +1,64 @@
+import fs from 'fs';
+import { DnsResolver } from '../../types';
+
+/**
+ * Stub DNS resolver
+ *
+ * Answers from a fixed table instead of the network, for offline runs and tests.
+ * The table maps domains to their records; "*" is used for domains not listed,
+ * and an "error" code makes the lookup fail as if the server did not answer:
+ *
+ *   {
+ *     "example.com": { "mx": ["mx1.example.com"] },
+ *     "web-only.example": { "a": ["203.0.113.7"] },
+ *     "slow.example": { "error": "ETIMEOUT" },
+ *     "*": { "mx": ["mx.default.test"] }
+ *   }
+ */
+
+export interface StubDnsRecords {
+  mx?: string[]; // Exchanges in priority order; "." is a null MX
+  a?: string[]; // A or AAAA addresses
+  error?: string;
+}
+
+export type StubDnsTable = Record<string, StubDnsRecords>;
+
+export function createStubResolver(table: StubDnsTable = {}): DnsResolver {
+  const records = new Map(Object.entries(table).map(([domain, entry]) => [domain.toLowerCase(), entry]));
+
+  const lookup = (domain: string): StubDnsRecords => {
+    const entry = records.get(domain.toLowerCase()) || records.get('*') || {};
+
+    if (entry.error) {
+      const error: NodeJS.ErrnoException = new Error(`Stub DNS lookup of ${domain} failed: ${entry.error}`);
+      error.code = entry.error;
+      throw error;
+    }
+
+    return entry;
+  };
+
+  return {
+    provider: 'stub',
+
+    async resolveMx(domain: string) {
+      return (lookup(domain).mx || []).map((exchange, i) => ({ exchange, priority: (i + 1) * 10 }));
+    },
+
+    async resolveAddresses(domain: string) {
+      return lookup(domain).a || [];
+    },
+  };
+}
+
+/**
+ * Load a stub table from a JSON file (DNS_STUB_FILE)
+ */
+export function loadStubTable(filePath: string): StubDnsTable {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not read DNS stub file ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+}
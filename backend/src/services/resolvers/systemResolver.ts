@@ -0,0 +1,41 @@
+import { Resolver } from 'dns/promises';
+import { DnsResolver } from '../../types';
+
+/**
+ * System DNS resolver
+ *
+ * Queries the servers in DNS_SERVERS (comma separated, e.g. a local resolver at
+ * 127.0.0.1:5353) or the system's configured ones.
+ */
+
+// Answers meaning the domain has no such records, as opposed to a failed lookup
+const NO_RECORDS_CODES = new Set(['ENODATA', 'ENOTFOUND']);
+
+function noRecords<T>(error: NodeJS.ErrnoException): T[] {
+  if (error.code && NO_RECORDS_CODES.has(error.code)) return [];
+  throw error;
+}
+
+export function createSystemResolver(options: { servers?: string[]; timeoutMs?: number } = {}): DnsResolver {
+  const resolver = new Resolver({ timeout: options.timeoutMs ?? 3000, tries: 2 });
+
+  if (options.servers && options.servers.length > 0) {
+    resolver.setServers(options.servers);
+  }
+
+  return {
+    provider: 'system',
+
+    async resolveMx(domain: string) {
+      return resolver.resolveMx(domain).catch(noRecords<{ exchange: string; priority: number }>);
+    },
+
+    async resolveAddresses(domain: string) {
+      const [ipv4, ipv6] = await Promise.all([
+        resolver.resolve4(domain).catch(noRecords<string>),
+        resolver.resolve6(domain).catch(noRecords<string>),
+      ]);
+      return [...ipv4, ...ipv6];
+    },
+  };
+}
@@ -0,0 +1,408 @@
+import { parseExpression } from 'cron-parser';
+import { EmailSchedule, ScheduleVariant } from '@prisma/client';
+import prisma from '../config/prisma';
+import { scheduleEmailJobsBulk, removeEmailJob } from './queueService';
+import {
+  PersonalizedRecipient,
+  RecipientVariables,
+  normalizeRecipients,
+  renderTemplate,
+} from './personalizationService';
+import { getSuppressedAddresses } from './suppressionService';
+import { UNSENT_STATUSES } from './emailService';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Schedule Service
+ *
+ * Turns a schedule and its recipients into EmailJob rows and queued BullMQ jobs.
+ * Used for one-off schedules and for each occurrence of a recurring one. Large
+ * lists are prepared in the background while the schedule is "preparing".
+ *
+ * With a local send time, each recipient's email is due at that wall-clock time
+ * in their own timezone (a "timezone" merge field, else the schedule's
+ * sendTimezone) instead of startTime + i * delayMs.
+ *
+ * A schedule with an A/B test is prepared twice: first a random sample split
+ * across its variants, then, once a winner is picked, everyone else.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+const BATCH_CHUNK_SIZE = parseInt(process.env.BATCH_CHUNK_SIZE || '500', 10);
+const LOCAL_TIME_REGEX = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+// Merge fields read as the recipient's timezone ("Timezone" or "Time Zone" CSV columns)
+const RECIPIENT_TIMEZONE_FIELDS = ['timezone', 'timeZone'];
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isValidLocalTime(localTime: string): boolean {
+  return LOCAL_TIME_REGEX.test(localTime);
+}
+
+export function getRecipientTimezone(variables: RecipientVariables): string | undefined {
+  const field = RECIPIENT_TIMEZONE_FIELDS.find((name) => variables[name]);
+  return field ? variables[field] : undefined;
+}
+
+/**
+ * The first moment at or after `after` when the clock reads localTime in timezone
+ */
+function nextLocalTime(localTime: string, timezone: string, after: Date): Date {
+  const [hour, minute] = localTime.split(':').map(Number);
+
+  return parseExpression(`${minute} ${hour} * * *`, {
+    currentDate: new Date(after.getTime() - 1),
+    tz: timezone,
+  })
+    .next()
+    .toDate();
+}
+
+/**
+ * When each recipient's email should go out
+ * In local send time mode, recipients due at the same moment are still spaced
+ * delayMs apart, and anyone past the hourly limit moves to the following hour
+ */
+export function planSendTimes(
+  schedule: Pick<EmailSchedule, 'delayMs' | 'hourlyLimit' | 'localSendTime' | 'sendTimezone'>,
+  recipients: PersonalizedRecipient[],
+  startTime: Date
+): Array<{ scheduledTime: Date; timezone?: string }> {
+  const { localSendTime, delayMs, hourlyLimit } = schedule;
+
+  if (!localSendTime) {
+    return recipients.map((_, i) => ({ scheduledTime: new Date(startTime.getTime() + i * delayMs) }));
+  }
+
+  const fallbackTimezone = schedule.sendTimezone || 'UTC';
+  const dueCounts = new Map<number, number>();
+
+  return recipients.map((recipient) => {
+    const recipientTimezone = getRecipientTimezone(recipient.variables);
+    const timezone = recipientTimezone && isValidTimezone(recipientTimezone) ? recipientTimezone : fallbackTimezone;
+
+    const dueAt = nextLocalTime(localSendTime, timezone, startTime).getTime();
+    const index = dueCounts.get(dueAt) || 0;
+    dueCounts.set(dueAt, index + 1);
+
+    const offset = Math.floor(index / hourlyLimit) * HOUR_MS + (index % hourlyLimit) * delayMs;
+
+    return { scheduledTime: new Date(dueAt + offset), timezone };
+  });
+}
+
+type BatchVariant = Pick<ScheduleVariant, 'id' | 'subject' | 'body'>;
+
+interface AbTestBatch {
+  recipients: PersonalizedRecipient[];
+  variants: BatchVariant[];
+  abTestGroup: 'test' | 'remainder';
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Pick who gets which variant in the next batch of an A/B test
+ * The test batch is a random abTestShare percent of recipients (at least one per
+ * variant), dealt out in turn; the remainder batch is everyone not in the test,
+ * all with the winning variant.
+ */
+async function planAbTestBatch(schedule: EmailSchedule, recipients: PersonalizedRecipient[]): Promise<AbTestBatch> {
+  const variants = await prisma.scheduleVariant.findMany({
+    where: { scheduleId: schedule.id },
+    orderBy: { label: 'asc' },
+  });
+
+  if (schedule.abTestStatus === 'decided') {
+    const tested = await prisma.emailJob.findMany({
+      where: { scheduleId: schedule.id, abTestGroup: 'test' },
+      select: { recipient: true },
+    });
+    const testedAddresses = new Set(tested.map((emailJob) => emailJob.recipient.toLowerCase()));
+
+    return {
+      recipients: recipients.filter((r) => !testedAddresses.has(r.email.toLowerCase())),
+      variants: variants.filter((variant) => variant.id === schedule.winningVariantId),
+      abTestGroup: 'remainder',
+    };
+  }
+
+  const testSize = Math.min(
+    recipients.length,
+    Math.max(variants.length, Math.round((recipients.length * (schedule.abTestShare || 0)) / 100))
+  );
+
+  return { recipients: shuffle(recipients).slice(0, testSize), variants, abTestGroup: 'test' };
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Undo a partly created batch: drop its queued jobs, then its rows
+ */
+async function rollbackBatch(emailJobs: Array<{ id: string; jobId: string | null }>): Promise<void> {
+  for (const emailJob of emailJobs) {
+    if (!emailJob.jobId) continue;
+    try {
+      await removeEmailJob(emailJob.jobId);
+    } catch (error) {
+      console.error(`Failed to remove job ${emailJob.jobId} during rollback:`, error);
+    }
+  }
+
+  for (const ids of chunk(emailJobs.map((emailJob) => emailJob.id), BATCH_CHUNK_SIZE)) {
+    await prisma.emailJob.deleteMany({ where: { id: { in: ids } } });
+  }
+}
+
+/**
+ * Render, store and queue one email per recipient at the times from planSendTimes
+ *
+ * Rows are written with createMany in a single transaction, then queued with
+ * addBulk chunk by chunk. If queueing fails partway, everything queued so far is
+ * removed and the rows deleted, so a batch is either fully scheduled or not at all.
+ */
+export async function createScheduleBatch(
+  schedule: EmailSchedule,
+  recipients: PersonalizedRecipient[],
+  startTime: Date,
+  options: {
+    occurrenceAt?: Date;
+    // Recipients get these variants in turn instead of the schedule's subject and body
+    variants?: BatchVariant[];
+    abTestGroup?: 'test' | 'remainder';
+    onProgress?: (queued: number) => Promise<void>;
+  } = {}
+): Promise<number> {
+  const attachments = schedule.attachments ? JSON.parse(schedule.attachments) : [];
+  const sendTimes = planSendTimes(schedule, recipients, startTime);
+  const variants = options.variants || [];
+
+  const rows = recipients.map(({ email: recipient, variables }, i) => {
+    const id = uuidv4();
+    const variant = variants.length > 0 ? variants[i % variants.length] : null;
+
+    return {
+      id,
+      scheduleId: schedule.id,
+      userId: schedule.userId,
+      recipient,
+      subject: renderTemplate(variant?.subject ?? schedule.subject, variables),
+      body: renderTemplate(variant?.body ?? schedule.body, variables, { html: true }),
+      variables: JSON.stringify(variables),
+      scheduledTime: sendTimes[i].scheduledTime,
+      occurrenceAt: options.occurrenceAt,
+      variantId: variant?.id,
+      abTestGroup: options.abTestGroup,
+      timezone: sendTimes[i].timezone,
+      status: 'pending',
+      // BullMQ job id, known up front so no per-row update is needed after queueing
+      jobId: `${schedule.id}-${id}`,
+    };
+  });
+
+  await prisma.$transaction(
+    async (tx) => {
+      for (const rowChunk of chunk(rows, BATCH_CHUNK_SIZE)) {
+        await tx.emailJob.createMany({ data: rowChunk });
+      }
+    },
+    { timeout: 60000 }
+  );
+
+  let queued = 0;
+
+  try {
+    for (const rowChunk of chunk(rows, BATCH_CHUNK_SIZE)) {
+      await scheduleEmailJobsBulk(
+        rowChunk.map((row) => ({
+          jobId: row.jobId,
+          data: {
+            scheduleId: schedule.id,
+            emailJobId: row.id,
+            userId: schedule.userId,
+            recipient: row.recipient,
+            subject: row.subject,
+            body: row.body,
+            scheduledTime: row.scheduledTime,
+            attachments,
+          },
+        }))
+      );
+
+      await prisma.emailJob.updateMany({
+        where: { id: { in: rowChunk.map((row) => row.id) }, status: 'pending' },
+        data: { status: 'queued' },
+      });
+
+      queued += rowChunk.length;
+      await options.onProgress?.(queued);
+    }
+  } catch (error) {
+    console.error(`Queueing batch for schedule ${schedule.id} failed after ${queued} job(s), rolling back`);
+    await rollbackBatch(rows);
+    throw error;
+  }
+
+  return rows.length;
+}
+
+/**
+ * Remove unsent emails from the queue and mark them cancelled
+ */
+export async function cancelUnsentEmails(scheduleId: string): Promise<number> {
+  const unsentJobs = await prisma.emailJob.findMany({
+    where: { scheduleId, status: { in: [...UNSENT_STATUSES, 'paused'] } },
+    select: { jobId: true },
+  });
+
+  for (const emailJob of unsentJobs) {
+    if (emailJob.jobId) {
+      try {
+        await removeEmailJob(emailJob.jobId);
+      } catch (error) {
+        console.error(`Failed to remove job ${emailJob.jobId}:`, error);
+      }
+    }
+  }
+
+  const { count } = await prisma.emailJob.updateMany({
+    where: { scheduleId, status: { in: [...UNSENT_STATUSES, 'paused'] } },
+    data: { status: 'cancelled' },
+  });
+
+  return count;
+}
+
+/**
+ * Create and queue the emails of a schedule in the preparing status
+ * One-off schedules prepare their whole recipient list once; recurring ones one
+ * batch per occurrence (preparingOccurrenceAt). Runs in the background and
+ * reports progress through batchSize / preparedCount.
+ */
+export async function prepareSchedule(scheduleId: string): Promise<void> {
+  const schedule = await prisma.emailSchedule.findUnique({ where: { id: scheduleId } });
+
+  if (!schedule || schedule.status !== 'preparing') return;
+
+  const occurrenceAt = schedule.preparingOccurrenceAt || undefined;
+  // An A/B test's remainder goes out from when its winner was picked
+  const startTime =
+    occurrenceAt || schedule.abTestStatus === 'decided'
+      ? new Date(Math.max(Date.now(), (occurrenceAt || schedule.startTime).getTime()))
+      : schedule.startTime;
+
+  // Recipients may have unsubscribed since the schedule was created
+  const recipients = normalizeRecipients(JSON.parse(schedule.recipients));
+  const suppressed = await getSuppressedAddresses(schedule.userId, recipients.map((r) => r.email));
+  let activeRecipients = recipients.filter((r) => !suppressed.has(r.email.toLowerCase()));
+
+  const abTestBatch = schedule.abTestStatus ? await planAbTestBatch(schedule, activeRecipients) : null;
+  const isRemainder = abTestBatch?.abTestGroup === 'remainder';
+  if (abTestBatch) activeRecipients = abTestBatch.recipients;
+
+  await prisma.emailSchedule.update({
+    where: { id: scheduleId },
+    data: { batchSize: activeRecipients.length, preparedCount: 0, preparationError: null },
+  });
+
+  try {
+    await createScheduleBatch(schedule, activeRecipients, startTime, {
+      occurrenceAt,
+      variants: abTestBatch?.variants,
+      abTestGroup: abTestBatch?.abTestGroup,
+      onProgress: async (queued) => {
+        await prisma.emailSchedule.update({
+          where: { id: scheduleId },
+          data: { preparedCount: queued },
+        });
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`❌ Preparing schedule ${scheduleId} failed:`, message);
+
+    // A failed occurrence leaves the series running, and a failed A/B remainder the test
+    // (so a winner can be picked again); a failed one-off schedule has nothing left
+    await prisma.emailSchedule.updateMany({
+      where: { id: scheduleId, status: 'preparing' },
+      data: {
+        status: occurrenceAt || isRemainder ? 'scheduled' : 'failed',
+        preparationError: message,
+        preparingOccurrenceAt: null,
+        ...(isRemainder && { abTestStatus: 'testing', winningVariantId: null }),
+      },
+    });
+    return;
+  }
+
+  await prisma.emailSchedule.update({
+    where: { id: scheduleId },
+    data: {
+      totalCount: occurrenceAt || isRemainder ? { increment: activeRecipients.length } : activeRecipients.length,
+      preparingOccurrenceAt: null,
+    },
+  });
+
+  const { count } = await prisma.emailSchedule.updateMany({
+    where: { id: scheduleId, status: 'preparing' },
+    data: { status: 'scheduled' },
+  });
+
+  // Cancelled while preparing: the emails queued since must not go out either
+  if (count === 0) {
+    await cancelUnsentEmails(scheduleId);
+  }
+
+  console.log(`✅ Schedule ${scheduleId} prepared: ${activeRecipients.length} email(s) queued`);
+}
+
+/**
+ * Restart preparations interrupted by a crash or restart
+ * Whatever the interrupted run left behind is rolled back first
+ */
+export async function resumePreparingSchedules(): Promise<void> {
+  const schedules = await prisma.emailSchedule.findMany({
+    where: { status: 'preparing' },
+    select: { id: true, preparingOccurrenceAt: true, abTestStatus: true },
+  });
+
+  for (const schedule of schedules) {
+    const leftovers = await prisma.emailJob.findMany({
+      where: {
+        scheduleId: schedule.id,
+        occurrenceAt: schedule.preparingOccurrenceAt,
+        status: { in: UNSENT_STATUSES },
+        // Unsent test emails of an A/B test are not part of its remainder batch
+        ...(schedule.abTestStatus === 'decided' && { abTestGroup: 'remainder' }),
+      },
+      select: { id: true, jobId: true },
+    });
+
+    console.log(`🔄 Resuming preparation of schedule ${schedule.id} (${leftovers.length} leftover job(s))`);
+
+    await rollbackBatch(leftovers);
+    await prepareSchedule(schedule.id);
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Send Error Service
+ *
+ * Sorts failed sends into categories, each with its own retry policy:
+ * - permanent: SMTP 5xx (invalid mailbox, policy rejection, bad credentials); never retried
+ * - temporary: SMTP 4xx (greylisting, mailbox busy, rate limited); retried over the next hour or two
+ * - network: connection, DNS and timeout errors; retried quickly
+ * - unknown: anything else (e.g. HTTP API errors); the queue's default 3 attempts
+ *
+ * A permanent failure that names the recipient's address (5.1.x/5.2.x, or
+ * 550/551/553 without an enhanced code) is a bounce and suppresses the address.
+ */
+
+export type SendErrorCategory = 'permanent' | 'temporary' | 'network' | 'unknown';
+
+export interface SendErrorDetails {
+  category: SendErrorCategory;
+  code: string | null; // e.g. "550 5.1.1" or "ECONNREFUSED"
+  recipientRejected: boolean;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// Delay before each retry; attempts run out when the list does
+const RETRY_DELAYS_MS: Record<SendErrorCategory, number[]> = {
+  permanent: [],
+  temporary: [5 * MINUTE_MS, 15 * MINUTE_MS, 30 * MINUTE_MS, 60 * MINUTE_MS],
+  network: [10 * 1000, 30 * 1000, MINUTE_MS, 5 * MINUTE_MS],
+  unknown: [2000, 4000],
+};
+
+const NETWORK_ERROR_CODES = [
+  'ECONNECTION',
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'EDNS',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'ENOTFOUND',
+  'EPIPE',
+  'ESOCKET',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+];
+
+const ENHANCED_STATUS_REGEX = /\b([245])\.(\d{1,3})\.(\d{1,3})\b/;
+const BOUNCE_RESPONSE_CODES = [550, 551, 553];
+
+/**
+ * Classify an error thrown by a transport
+ * Reads Nodemailer's responseCode/response/code properties when present
+ */
+export function classifySendError(error: unknown): SendErrorDetails {
+  const { responseCode, response, code } = (error || {}) as {
+    responseCode?: number;
+    response?: string;
+    code?: string;
+  };
+
+  const enhanced = typeof response === 'string' ? response.match(ENHANCED_STATUS_REGEX) : null;
+  const statusClass = responseCode ? Math.floor(responseCode / 100) : enhanced ? Number(enhanced[1]) : null;
+  const smtpCode = [responseCode, enhanced?.[0]].filter(Boolean).join(' ') || null;
+
+  if (statusClass === 5) {
+    const recipientRejected = enhanced
+      ? enhanced[1] === '5' && (enhanced[2] === '1' || enhanced[2] === '2')
+      : BOUNCE_RESPONSE_CODES.includes(responseCode || 0);
+
+    return { category: 'permanent', code: smtpCode, recipientRejected };
+  }
+
+  if (statusClass === 4) {
+    return { category: 'temporary', code: smtpCode, recipientRejected: false };
+  }
+
+  // Rejected credentials fail every send the same way; retrying will not help
+  if (code === 'EAUTH') {
+    return { category: 'permanent', code, recipientRejected: false };
+  }
+
+  if (code && NETWORK_ERROR_CODES.includes(code)) {
+    return { category: 'network', code, recipientRejected: false };
+  }
+
+  return { category: 'unknown', code: code || null, recipientRejected: false };
+}
+
+/**
+ * How long to wait before retrying, given the attempts made so far
+ * Returns null once the category's attempts are used up
+ */
+export function getRetryDelay(category: SendErrorCategory, attemptsMade: number): number | null {
+  const delays = RETRY_DELAYS_MS[category];
+  return attemptsMade >= 1 && attemptsMade <= delays.length ? delays[attemptsMade - 1] : null;
+}
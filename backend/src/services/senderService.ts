@@ -0,0 +1,143 @@
+import crypto from 'crypto';
+import { SenderIdentity } from '@prisma/client';
+import prisma from '../config/prisma';
+import { PUBLIC_API_URL, DEFAULT_SENDER } from '../config/app';
+import { EmailTransport, TransportConfig } from '../types';
+import { getTransportForConfig, isTransportProvider } from './transports';
+import { sendEmail } from './emailService';
+
+/**
+ * Sender Identity Service
+ *
+ * A sender identity is a From address owned by a user, with optional reply-to,
+ * signature and its own transport credentials. It must be verified (by clicking
+ * a link sent to the address) before schedules can use it.
+ */
+
+export interface ResolvedSender {
+  from: string; // Formatted for the From header, e.g. "Jane" <jane@acme.com>
+  address: string; // Bare address, also used as the rate limit key
+  replyTo?: string;
+  signature?: string;
+  transport?: EmailTransport; // Undefined uses the default transport
+}
+
+/**
+ * Parse and validate a transport config submitted by a user
+ */
+export function parseTransportConfig(input: unknown): TransportConfig | null {
+  if (input === null || input === undefined) return null;
+
+  const config = input as Partial<TransportConfig>;
+
+  if (typeof config !== 'object' || !config.provider || !isTransportProvider(config.provider)) {
+    throw new Error('transport.provider must be one of: ethereal, smtp, file, memory, http');
+  }
+
+  if (config.provider === 'smtp' && !config.host) {
+    throw new Error('transport.host is required for smtp');
+  }
+
+  if (config.provider === 'http' && !config.apiUrl) {
+    throw new Error('transport.apiUrl is required for http');
+  }
+
+  return {
+    provider: config.provider,
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    user: config.user,
+    pass: config.pass,
+    outboxDir: config.outboxDir,
+    apiUrl: config.apiUrl,
+    apiKey: config.apiKey,
+  };
+}
+
+/**
+ * Shape a sender identity for API responses, without transport secrets
+ */
+export function toSenderResponse(identity: SenderIdentity) {
+  const transport: TransportConfig | null = identity.transport ? JSON.parse(identity.transport) : null;
+
+  return {
+    id: identity.id,
+    fromName: identity.fromName,
+    fromAddress: identity.fromAddress,
+    replyTo: identity.replyTo,
+    signature: identity.signature,
+    transport: transport
+      ? {
+          provider: transport.provider,
+          host: transport.host,
+          port: transport.port,
+          secure: transport.secure,
+          user: transport.user,
+          apiUrl: transport.apiUrl,
+        }
+      : null,
+    verified: identity.verified,
+    verifiedAt: identity.verifiedAt?.toISOString(),
+    createdAt: identity.createdAt.toISOString(),
+  };
+}
+
+export function generateVerificationToken(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+/**
+ * Email a verification link to the identity's From address
+ * Sent from the default system sender, since the identity is not trusted yet
+ */
+export async function sendVerificationEmail(identity: SenderIdentity): Promise<void> {
+  if (!identity.verificationToken) {
+    throw new Error('Sender identity has no verification token');
+  }
+
+  const link = `${PUBLIC_API_URL}/senders/verify/${identity.verificationToken}`;
+
+  const result = await sendEmail(
+    identity.fromAddress,
+    'Verify your sender address',
+    `<p>Someone asked to send email as <strong>${identity.fromAddress}</strong> from ReachInbox.</p>
+     <p><a href="${link}">Verify this address</a></p>
+     <p>If this wasn't you, ignore this email.</p>`,
+    DEFAULT_SENDER
+  );
+
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to send verification email');
+  }
+}
+
+/**
+ * Build the From header, reply-to, signature and transport for a schedule's sender
+ * Falls back to the default system sender when there is no (verified) identity
+ */
+export async function resolveSender(senderIdentityId: string | null): Promise<ResolvedSender> {
+  if (!senderIdentityId) {
+    return { from: DEFAULT_SENDER, address: DEFAULT_SENDER };
+  }
+
+  const identity = await prisma.senderIdentity.findUnique({
+    where: { id: senderIdentityId },
+  });
+
+  if (!identity || !identity.verified) {
+    throw new Error(`Sender identity ${senderIdentityId} is missing or not verified`);
+  }
+
+  const transportConfig: TransportConfig | null = identity.transport
+    ? JSON.parse(identity.transport)
+    : null;
+
+  return {
+    from: `"${identity.fromName.replace(/"/g, '')}" <${identity.fromAddress}>`,
+    address: identity.fromAddress,
+    replyTo: identity.replyTo || undefined,
+    signature: identity.signature || undefined,
+    transport: transportConfig ? await getTransportForConfig(transportConfig) : undefined,
+  };
+}
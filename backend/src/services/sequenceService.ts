@@ -0,0 +1,647 @@
+import { Queue, Worker } from 'bullmq';
+import { Sequence } from '@prisma/client';
+import { v4 as uuidv4 } from 'uuid';
+import { getRedis } from '../config/connections';
+import prisma from '../config/prisma';
+import { scheduleEmailJob, scheduleEmailJobsBulk, removeEmailJob } from './queueService';
+import { updateEmailJobStatus, UNSENT_STATUSES } from './emailService';
+import { findMissingVariables, getRequiredVariables, parseTemplate, renderTemplate } from './personalizationService';
+import { getSuppressedAddresses, SuppressionReason } from './suppressionService';
+
+/**
+ * Sequence Service
+ *
+ * A sequence is a series of steps sent to each enrolled contact in turn. Each
+ * step waits delayMinutes after the previous one was sent (after enrollment for
+ * the first) as a delayed job on the "sequences" queue; when it runs, the step
+ * becomes an EmailJob on the regular email queue, so rate limits, suppressions,
+ * tracking and bounce handling apply as for schedules. Once that email is sent,
+ * the next step is queued.
+ *
+ * An enrollment exits early when the contact replies, unsubscribes, bounces or
+ * complains, when its email fails for good, when the contact lost a merge field
+ * a step needs, or when it is stopped by hand.
+ */
+
+export type StepCondition = 'not_opened' | 'not_clicked';
+export type EnrollmentStatus = 'active' | 'completed' | 'exited';
+export type ExitReason =
+  | 'replied'
+  | 'unsubscribed'
+  | 'bounced'
+  | 'complained'
+  | 'failed'
+  | 'missing_fields'
+  | 'stopped';
+
+export const STEP_CONDITIONS: StepCondition[] = ['not_opened', 'not_clicked'];
+
+export interface SequenceStepInput {
+  subject: string;
+  body: string;
+  delayMinutes: number;
+  condition: StepCondition | null;
+}
+
+export interface EnrollmentResult {
+  enrolled: number;
+  alreadyEnrolled: number; // Enrolled before, whether still active or not
+  suppressed: number; // Not enrolled because the address is suppressed
+}
+
+export interface SequenceStepJobData {
+  enrollmentId: string;
+  position: number;
+}
+
+export class SequenceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SequenceError';
+  }
+}
+
+const MINUTE_MS = 60 * 1000;
+const MAX_STEPS = 20;
+const MAX_DELAY_MINUTES = 365 * 24 * 60;
+
+// Suppressions recorded while a contact is enrolled, as the reason they left the sequence
+const SUPPRESSION_EXIT_REASONS: Record<SuppressionReason, ExitReason> = {
+  unsubscribed: 'unsubscribed',
+  manual: 'stopped',
+  bounced: 'bounced',
+  complained: 'complained',
+};
+
+// Tracking event that makes a conditional step unnecessary
+const CONDITION_EVENTS: Record<StepCondition, string> = {
+  not_opened: 'opened',
+  not_clicked: 'clicked',
+};
+
+let sequenceQueue: Queue<SequenceStepJobData> | null = null;
+let sequenceWorker: Worker<SequenceStepJobData> | null = null;
+
+function stepJobId(enrollmentId: string, position: number): string {
+  return `enrollment-${enrollmentId}-step-${position}`;
+}
+
+/**
+ * Validate the steps of a sequence request
+ * Each step: { subject, body, delayMinutes?: number (default 0), condition?: StepCondition }
+ */
+export function parseSequenceSteps(steps: unknown): SequenceStepInput[] {
+  if (!Array.isArray(steps) || steps.length === 0 || steps.length > MAX_STEPS) {
+    throw new SequenceError(`steps must be an array of 1 to ${MAX_STEPS} { subject, body } objects`);
+  }
+
+  return steps.map((step, i) => {
+    const position = i + 1;
+    const { subject, body, delayMinutes = 0, condition = null } = step || {};
+
+    if (typeof subject !== 'string' || typeof body !== 'string' || !subject.trim() || !body.trim()) {
+      throw new SequenceError(`Step ${position} needs a subject and a body`);
+    }
+
+    if (!Number.isInteger(delayMinutes) || delayMinutes < 0 || delayMinutes > MAX_DELAY_MINUTES) {
+      throw new SequenceError(`Step ${position} delayMinutes must be a whole number from 0 to ${MAX_DELAY_MINUTES}`);
+    }
+
+    if (condition !== null && !(STEP_CONDITIONS as string[]).includes(condition)) {
+      throw new SequenceError(`Step ${position} condition must be one of: ${STEP_CONDITIONS.join(', ')}`);
+    }
+
+    if (condition !== null && position === 1) {
+      throw new SequenceError('The first step cannot have a condition');
+    }
+
+    // Throws TemplateSyntaxError for malformed merge fields
+    parseTemplate(subject);
+    parseTemplate(body);
+
+    return { subject, body, delayMinutes, condition };
+  });
+}
+
+/**
+ * Initialize the queue holding each enrollment's next step
+ */
+export async function initializeSequenceQueue(): Promise<Queue<SequenceStepJobData>> {
+  if (sequenceQueue) return sequenceQueue;
+
+  sequenceQueue = new Queue<SequenceStepJobData>('sequences', {
+    connection: getRedis(),
+    defaultJobOptions: {
+      attempts: 3,
+      backoff: {
+        type: 'exponential',
+        delay: 5000,
+      },
+      removeOnComplete: true,
+      removeOnFail: {
+        age: 86400,
+      },
+    },
+  });
+
+  console.log('✅ Sequence queue initialized');
+  return sequenceQueue;
+}
+
+function getSequenceQueue(): Queue<SequenceStepJobData> {
+  if (!sequenceQueue) {
+    throw new Error('Sequence queue not initialized. Call initializeSequenceQueue() first.');
+  }
+  return sequenceQueue;
+}
+
+/**
+ * Queue a step of an enrollment to run at runAt; queueing it twice is a no-op
+ * A failed job of the step is replaced, since BullMQ keeps it for a day under the same id.
+ */
+export async function queueSequenceStep(enrollmentId: string, position: number, runAt: Date): Promise<void> {
+  const queue = getSequenceQueue();
+  const failed = await queue.getJob(stepJobId(enrollmentId, position));
+
+  if (failed && (await failed.isFailed())) {
+    await failed.remove();
+  }
+
+  await queue.add(
+    'step',
+    { enrollmentId, position },
+    {
+      delay: Math.max(0, runAt.getTime() - Date.now()),
+      jobId: stepJobId(enrollmentId, position),
+    }
+  );
+}
+
+async function removeQueuedSequenceStep(enrollmentId: string, position: number): Promise<void> {
+  const job = await getSequenceQueue().getJob(stepJobId(enrollmentId, position));
+
+  if (job && !(await job.isActive())) {
+    await job.remove();
+  }
+}
+
+/**
+ * Enroll contacts in a sequence, starting them at its first step
+ * Contacts enrolled before (even if they finished or exited) and suppressed
+ * addresses are left out. A paused sequence starts them when resumed.
+ */
+export async function enrollContacts(sequence: Sequence, contactIds: string[]): Promise<EnrollmentResult> {
+  const firstStep = await prisma.sequenceStep.findUnique({
+    where: { sequenceId_position: { sequenceId: sequence.id, position: 1 } },
+  });
+
+  if (!firstStep) {
+    throw new SequenceError('The sequence has no steps');
+  }
+
+  const [contacts, existing] = await Promise.all([
+    prisma.contact.findMany({
+      where: { userId: sequence.userId, id: { in: contactIds } },
+      select: { id: true, email: true },
+    }),
+    prisma.enrollment.findMany({
+      where: { sequenceId: sequence.id, contactId: { in: contactIds } },
+      select: { contactId: true },
+    }),
+  ]);
+
+  const enrolledBefore = new Set(existing.map((enrollment) => enrollment.contactId));
+  const suppressedEmails = await getSuppressedAddresses(
+    sequence.userId,
+    contacts.map((contact) => contact.email)
+  );
+
+  const candidates = contacts.filter((contact) => !enrolledBefore.has(contact.id));
+  const newContacts = candidates.filter((contact) => !suppressedEmails.has(contact.email));
+  const nextStepAt = new Date(Date.now() + firstStep.delayMinutes * MINUTE_MS);
+
+  await prisma.enrollment.createMany({
+    data: newContacts.map((contact) => ({ sequenceId: sequence.id, contactId: contact.id, nextStepAt })),
+    skipDuplicates: true,
+  });
+
+  if (sequence.status === 'active') {
+    const enrollments = await prisma.enrollment.findMany({
+      where: { sequenceId: sequence.id, contactId: { in: newContacts.map((contact) => contact.id) } },
+      select: { id: true },
+    });
+
+    for (const enrollment of enrollments) {
+      await queueSequenceStep(enrollment.id, 1, nextStepAt);
+    }
+  }
+
+  return {
+    enrolled: newContacts.length,
+    alreadyEnrolled: contacts.length - candidates.length,
+    suppressed: candidates.length - newContacts.length,
+  };
+}
+
+/**
+ * Queue the next step of every active enrollment that is waiting for one
+ * Used when a paused sequence is resumed; steps that came due while paused run now.
+ */
+export async function queueWaitingSteps(sequenceId: string): Promise<number> {
+  const waiting = await prisma.enrollment.findMany({
+    where: { sequenceId, status: 'active', nextStepAt: { not: null } },
+    select: { id: true, currentStep: true, nextStepAt: true },
+  });
+
+  for (const enrollment of waiting) {
+    await queueSequenceStep(enrollment.id, enrollment.currentStep + 1, enrollment.nextStepAt!);
+  }
+
+  return waiting.length;
+}
+
+/**
+ * Queue again the emails of a sequence that the worker held back while it was paused
+ * Overdue ones are spaced delayMs apart from now. Returns how many were queued.
+ */
+export async function queuePausedEmails(sequence: Sequence): Promise<number> {
+  const pausedJobs = await prisma.emailJob.findMany({
+    where: { status: 'paused', enrollment: { sequenceId: sequence.id, status: 'active' } },
+    orderBy: { scheduledTime: 'asc' },
+  });
+
+  const now = Date.now();
+  let queued = 0;
+
+  for (const emailJob of pausedJobs) {
+    const scheduledTime = new Date(now + queued * sequence.delayMs);
+
+    // The skipped BullMQ job may still exist under the old id
+    if (emailJob.jobId) {
+      await removeEmailJob(emailJob.jobId);
+    }
+
+    // Queued before the job exists, so the worker never finds it still paused
+    if (!(await updateEmailJobStatus(emailJob.id, 'queued'))) continue;
+
+    await prisma.emailJob.update({
+      where: { id: emailJob.id },
+      data: { scheduledTime, jobId: null },
+    });
+
+    const jobId = await scheduleEmailJob({
+      scheduleId: null,
+      enrollmentId: emailJob.enrollmentId,
+      emailJobId: emailJob.id,
+      userId: emailJob.userId,
+      recipient: emailJob.recipient,
+      subject: emailJob.subject,
+      body: emailJob.body,
+      scheduledTime,
+    });
+
+    await prisma.emailJob.update({
+      where: { id: emailJob.id },
+      data: { jobId },
+    });
+
+    queued++;
+  }
+
+  return queued;
+}
+
+/**
+ * Take an enrollment out of its sequence, cancelling its queued step and unsent email
+ * Returns false if it had already finished or exited.
+ */
+export async function exitEnrollment(enrollmentId: string, reason: ExitReason): Promise<boolean> {
+  const enrollment = await prisma.enrollment.findUnique({
+    where: { id: enrollmentId },
+    select: { currentStep: true },
+  });
+
+  const { count } = await prisma.enrollment.updateMany({
+    where: { id: enrollmentId, status: 'active' },
+    data: { status: 'exited', exitReason: reason, nextStepAt: null, finishedAt: new Date() },
+  });
+
+  if (!enrollment || count === 0) return false;
+
+  await removeQueuedSequenceStep(enrollmentId, enrollment.currentStep + 1);
+
+  const unsentJobs = await prisma.emailJob.findMany({
+    where: { enrollmentId, status: { in: [...UNSENT_STATUSES, 'paused'] } },
+    select: { id: true, jobId: true },
+  });
+
+  for (const emailJob of unsentJobs) {
+    // One being sent right now is left to finish
+    if (!emailJob.jobId || (await removeEmailJob(emailJob.jobId))) {
+      await updateEmailJobStatus(emailJob.id, 'cancelled');
+    }
+  }
+
+  console.log(`🚪 Enrollment ${enrollmentId} exited its sequence (${reason})`);
+  return true;
+}
+
+/**
+ * Exit every active enrollment of an address, e.g. when it unsubscribes
+ */
+export async function exitEnrollmentsOfAddress(userId: string, email: string, reason: ExitReason): Promise<number> {
+  const enrollments = await prisma.enrollment.findMany({
+    where: { status: 'active', contact: { userId, email: email.trim().toLowerCase() } },
+    select: { id: true },
+  });
+
+  let exited = 0;
+  for (const enrollment of enrollments) {
+    if (await exitEnrollment(enrollment.id, reason)) exited++;
+  }
+
+  return exited;
+}
+
+/**
+ * Exit an enrollment if its contact's address is suppressed
+ */
+async function exitIfSuppressed(enrollmentId: string, userId: string, email: string): Promise<boolean> {
+  const suppression = await prisma.suppression.findUnique({
+    where: { userId_email: { userId, email: email.toLowerCase() } },
+    select: { reason: true },
+  });
+
+  if (!suppression) return false;
+
+  await exitEnrollment(enrollmentId, SUPPRESSION_EXIT_REASONS[suppression.reason as SuppressionReason] || 'stopped');
+  return true;
+}
+
+/**
+ * Move an enrollment past the step at afterPosition: queue the following step
+ * to run delayMinutes after `from`, or complete the enrollment after the last one
+ */
+async function advanceEnrollment(enrollmentId: string, afterPosition: number, from: Date): Promise<void> {
+  const enrollment = await prisma.enrollment.findUnique({
+    where: { id: enrollmentId },
+    include: { sequence: { select: { status: true } } },
+  });
+
+  if (!enrollment || enrollment.status !== 'active' || enrollment.currentStep !== afterPosition) return;
+
+  const nextStep = await prisma.sequenceStep.findUnique({
+    where: { sequenceId_position: { sequenceId: enrollment.sequenceId, position: afterPosition + 1 } },
+  });
+
+  if (!nextStep) {
+    await prisma.enrollment.updateMany({
+      where: { id: enrollmentId, status: 'active', currentStep: afterPosition },
+      data: { status: 'completed', nextStepAt: null, finishedAt: new Date() },
+    });
+    return;
+  }
+
+  const nextStepAt = new Date(from.getTime() + nextStep.delayMinutes * MINUTE_MS);
+  const { count } = await prisma.enrollment.updateMany({
+    where: { id: enrollmentId, status: 'active', currentStep: afterPosition },
+    data: { nextStepAt },
+  });
+
+  // A paused sequence queues it when resumed
+  if (count > 0 && enrollment.sequence.status === 'active') {
+    await queueSequenceStep(enrollmentId, nextStep.position, nextStepAt);
+  }
+}
+
+/**
+ * Follow up on a sequence email whose status changed: queue the next step once
+ * it was sent, or exit the enrollment if it failed, was suppressed, bounced or
+ * drew a complaint. Safe to call more than once for the same status.
+ */
+export async function updateEnrollmentProgress(emailJobId: string): Promise<void> {
+  const emailJob = await prisma.emailJob.findUnique({
+    where: { id: emailJobId },
+    select: {
+      status: true,
+      sentTime: true,
+      userId: true,
+      recipient: true,
+      enrollmentId: true,
+      sequenceStep: { select: { position: true } },
+    },
+  });
+
+  if (!emailJob?.enrollmentId || !emailJob.sequenceStep) return;
+
+  const { enrollmentId } = emailJob;
+
+  switch (emailJob.status) {
+    case 'sent':
+      await advanceEnrollment(enrollmentId, emailJob.sequenceStep.position, emailJob.sentTime || new Date());
+      break;
+    case 'bounced':
+    case 'complained':
+      await exitEnrollment(enrollmentId, emailJob.status);
+      break;
+    case 'failed':
+    case 'suppressed':
+      // An address the server rejected has been suppressed as bounced by now
+      if (!(await exitIfSuppressed(enrollmentId, emailJob.userId, emailJob.recipient))) {
+        await exitEnrollment(enrollmentId, 'failed');
+      }
+      break;
+  }
+}
+
+/**
+ * Whether any earlier email of the enrollment was opened or clicked, as a condition asks
+ */
+async function hasEngaged(enrollmentId: string, condition: StepCondition): Promise<boolean> {
+  const events = await prisma.trackingEvent.count({
+    where: { type: CONDITION_EVENTS[condition], emailJob: { enrollmentId } },
+  });
+
+  return events > 0;
+}
+
+/**
+ * Run a due step: skip it if its condition is not met, otherwise render it for
+ * the contact and queue the email. Stale jobs (the enrollment moved on, exited
+ * or its sequence is paused) do nothing.
+ */
+export async function runSequenceStep(enrollmentId: string, position: number): Promise<void> {
+  const enrollment = await prisma.enrollment.findUnique({
+    where: { id: enrollmentId },
+    include: { sequence: true, contact: true },
+  });
+
+  if (
+    !enrollment ||
+    enrollment.status !== 'active' ||
+    enrollment.currentStep !== position - 1 ||
+    enrollment.sequence.status !== 'active'
+  ) {
+    return;
+  }
+
+  const { sequence, contact } = enrollment;
+  const step = await prisma.sequenceStep.findUnique({
+    where: { sequenceId_position: { sequenceId: sequence.id, position } },
+  });
+
+  if (!step) {
+    await advanceEnrollment(enrollmentId, enrollment.currentStep, new Date());
+    return;
+  }
+
+  if (await exitIfSuppressed(enrollmentId, sequence.userId, contact.email)) return;
+
+  if (step.condition && (await hasEngaged(enrollmentId, step.condition as StepCondition))) {
+    console.log(`⏭️  Skipping step ${position} of enrollment ${enrollmentId}: condition ${step.condition} not met`);
+
+    const { count } = await prisma.enrollment.updateMany({
+      where: { id: enrollmentId, status: 'active', currentStep: position - 1 },
+      data: { currentStep: position, nextStepAt: null },
+    });
+
+    // The following step is timed from now, as if this one had been sent
+    if (count > 0) await advanceEnrollment(enrollmentId, position, new Date());
+    return;
+  }
+
+  const variables = { ...JSON.parse(contact.attributes), email: contact.email };
+
+  // Checked when enrolling, but the contact's attributes may have changed since
+  const [missing] = findMissingVariables(getRequiredVariables(step.subject, step.body), [
+    { email: contact.email, variables },
+  ]);
+
+  if (missing) {
+    console.log(`⏭️  Step ${position} of enrollment ${enrollmentId} needs ${missing.missing.join(', ')}`);
+    await exitEnrollment(enrollmentId, 'missing_fields');
+    return;
+  }
+
+  const id = uuidv4();
+  const emailJob = {
+    id,
+    userId: sequence.userId,
+    recipient: contact.email,
+    subject: renderTemplate(step.subject, variables),
+    body: renderTemplate(step.body, variables, { html: true }),
+    variables: JSON.stringify(variables),
+    enrollmentId,
+    sequenceStepId: step.id,
+    scheduledTime: new Date(),
+    status: 'pending',
+    jobId: `${enrollmentId}-${id}`,
+  };
+
+  // Claiming the step and writing the email together keeps a retried job from sending it twice
+  const claimed = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.enrollment.updateMany({
+      where: { id: enrollmentId, status: 'active', currentStep: position - 1 },
+      data: { currentStep: position, nextStepAt: null },
+    });
+
+    if (count === 0) return false;
+
+    await tx.emailJob.create({ data: emailJob });
+    return true;
+  });
+
+  if (!claimed) return;
+
+  // If this fails the row stays pending, and reconciliation queues it
+  await scheduleEmailJobsBulk([
+    {
+      jobId: emailJob.jobId,
+      data: {
+        scheduleId: null,
+        enrollmentId,
+        emailJobId: id,
+        userId: sequence.userId,
+        recipient: emailJob.recipient,
+        subject: emailJob.subject,
+        body: emailJob.body,
+        scheduledTime: emailJob.scheduledTime,
+      },
+    },
+  ]);
+  await updateEmailJobStatus(id, 'queued');
+
+  console.log(`📨 Step ${position} of sequence ${sequence.id} queued for ${contact.email}`);
+}
+
+/**
+ * Limits and sender a sequence email is sent with, along with whether its
+ * enrollment and sequence are still active; null if the enrollment was deleted
+ */
+export async function getSequenceSendSettings(enrollmentId: string): Promise<{
+  sequenceId: string;
+  sequenceStatus: string;
+  enrollmentStatus: string;
+  hourlyLimit: number;
+  delayMs: number;
+  senderIdentityId: string | null;
+} | null> {
+  const enrollment = await prisma.enrollment.findUnique({
+    where: { id: enrollmentId },
+    select: {
+      status: true,
+      sequence: { select: { id: true, status: true, hourlyLimit: true, delayMs: true, senderIdentityId: true } },
+    },
+  });
+
+  if (!enrollment) return null;
+
+  const { id, status, ...settings } = enrollment.sequence;
+  return { sequenceId: id, sequenceStatus: status, enrollmentStatus: enrollment.status, ...settings };
+}
+
+/**
+ * Initialize the worker that runs due steps
+ * Re-queues the next step of every active enrollment, in case Redis lost them
+ */
+export async function initializeSequenceWorker(): Promise<Worker<SequenceStepJobData>> {
+  if (sequenceWorker) return sequenceWorker;
+
+  sequenceWorker = new Worker<SequenceStepJobData>(
+    'sequences',
+    async (job) => {
+      await runSequenceStep(job.data.enrollmentId, job.data.position);
+    },
+    { connection: getRedis() }
+  );
+
+  sequenceWorker.on('failed', (job, err) => {
+    console.error(`❌ Sequence step ${job?.id} failed:`, err.message);
+  });
+
+  const waiting = await prisma.enrollment.findMany({
+    where: { status: 'active', nextStepAt: { not: null }, sequence: { status: 'active' } },
+    select: { id: true, currentStep: true, nextStepAt: true },
+  });
+
+  for (const enrollment of waiting) {
+    await queueSequenceStep(enrollment.id, enrollment.currentStep + 1, enrollment.nextStepAt!);
+  }
+
+  console.log(`✅ Sequence worker initialized (${waiting.length} waiting enrollment(s))`);
+  return sequenceWorker;
+}
+
+/**
+ * Close sequence queue and worker
+ */
+export async function closeSequenceQueue(): Promise<void> {
+  if (sequenceWorker) {
+    await sequenceWorker.close();
+    sequenceWorker = null;
+  }
+  if (sequenceQueue) {
+    await sequenceQueue.close();
+    sequenceQueue = null;
+  }
+}
@@ -0,0 +1,84 @@
+import crypto from 'crypto';
+import prisma from '../config/prisma';
+import { PUBLIC_API_URL, LINK_SIGNING_SECRET } from '../config/app';
+
+/**
+ * Suppression Service
+ *
+ * Addresses a user must not email again. Every scheduled email carries a
+ * signed unsubscribe link for its recipient; following it adds them here, as
+ * do a permanent delivery failure, a hard bounce or a spam complaint.
+ */
+
+export type SuppressionReason = 'unsubscribed' | 'manual' | 'bounced' | 'complained';
+
+function signUnsubscribePayload(payload: string): string {
+  return crypto
+    .createHmac('sha256', LINK_SIGNING_SECRET)
+    .update(`unsubscribe:${payload}`)
+    .digest('base64url')
+    .slice(0, 22);
+}
+
+/**
+ * Build the unsubscribe URL for one recipient of one user's emails
+ */
+export function buildUnsubscribeUrl(userId: string, email: string): string {
+  const payload = Buffer.from(JSON.stringify([userId, email.toLowerCase()])).toString('base64url');
+  return `${PUBLIC_API_URL}/suppressions/unsubscribe/${payload}.${signUnsubscribePayload(payload)}`;
+}
+
+/**
+ * Read an unsubscribe token, or null if it was tampered with
+ */
+export function parseUnsubscribeToken(token: string): { userId: string; email: string } | null {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(signUnsubscribePayload(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const [userId, email] = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    return typeof userId === 'string' && typeof email === 'string' ? { userId, email } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Suppress an address for a user; suppressing twice keeps the first reason
+ */
+export async function addSuppression(userId: string, email: string, reason: SuppressionReason): Promise<void> {
+  const normalized = email.trim().toLowerCase();
+
+  await prisma.suppression.upsert({
+    where: { userId_email: { userId, email: normalized } },
+    create: { userId, email: normalized, reason },
+    update: {},
+  });
+}
+
+export async function isSuppressed(userId: string, email: string): Promise<boolean> {
+  const suppression = await prisma.suppression.findUnique({
+    where: { userId_email: { userId, email: email.trim().toLowerCase() } },
+    select: { id: true },
+  });
+
+  return suppression !== null;
+}
+
+/**
+ * Which of these addresses the user has suppressed (lowercased)
+ */
+export async function getSuppressedAddresses(userId: string, emails: string[]): Promise<Set<string>> {
+  if (emails.length === 0) return new Set();
+
+  const suppressions = await prisma.suppression.findMany({
+    where: { userId, email: { in: emails.map((email) => email.toLowerCase()) } },
+    select: { email: true },
+  });
+
+  return new Set(suppressions.map((suppression) => suppression.email));
+}
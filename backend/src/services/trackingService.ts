@@ -0,0 +1,107 @@
+import crypto from 'crypto';
+import prisma from '../config/prisma';
+import { PUBLIC_API_URL, LINK_SIGNING_SECRET } from '../config/app';
+
+/**
+ * Tracking Service
+ *
+ * Adds a 1x1 open pixel and rewrites http(s) links to redirect URLs, both keyed
+ * by EmailJob id. Redirect URLs are signed so the click endpoint cannot be used
+ * as an open redirect to arbitrary sites.
+ */
+
+export type TrackingEventType = 'opened' | 'clicked';
+
+export interface TrackingCounts {
+  opens: number;
+  clicks: number;
+}
+
+const HREF_REGEX = /href=(["'])(https?:\/\/[^"']+)\1/gi;
+
+// Smallest transparent GIF
+export const TRACKING_PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+export function signTrackingUrl(emailJobId: string, url: string): string {
+  return crypto
+    .createHmac('sha256', LINK_SIGNING_SECRET)
+    .update(`${emailJobId}:${url}`)
+    .digest('base64url')
+    .slice(0, 22);
+}
+
+export function verifyTrackingUrl(emailJobId: string, url: string, signature: string): boolean {
+  const expected = Buffer.from(signTrackingUrl(emailJobId, url));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Rewrite links through the click endpoint and append the open pixel
+ */
+export function addTracking(html: string, emailJobId: string): string {
+  const rewritten = html.replace(HREF_REGEX, (_match, quote: string, href: string) => {
+    // Bodies are HTML, so query strings arrive with escaped ampersands
+    const url = href.replace(/&amp;/g, '&');
+    const trackedUrl =
+      `${PUBLIC_API_URL}/track/click/${emailJobId}` +
+      `?url=${encodeURIComponent(url)}&sig=${signTrackingUrl(emailJobId, url)}`;
+    return `href=${quote}${trackedUrl.replace(/&/g, '&amp;')}${quote}`;
+  });
+
+  const pixel = `<img src="${PUBLIC_API_URL}/track/open/${emailJobId}.gif" width="1" height="1" alt="" style="display: none;" />`;
+
+  return `${rewritten}${pixel}`;
+}
+
+/**
+ * Store an open or click
+ * Returns false when the email job does not exist
+ */
+export async function recordTrackingEvent(
+  emailJobId: string,
+  type: TrackingEventType,
+  details: { url?: string; userAgent?: string; ipAddress?: string } = {}
+): Promise<boolean> {
+  const emailJob = await prisma.emailJob.findUnique({
+    where: { id: emailJobId },
+    select: { id: true },
+  });
+
+  if (!emailJob) return false;
+
+  await prisma.trackingEvent.create({
+    data: {
+      emailJobId,
+      type,
+      url: details.url,
+      userAgent: details.userAgent,
+      ipAddress: details.ipAddress,
+    },
+  });
+
+  return true;
+}
+
+/**
+ * Open and click counts per email job
+ */
+export async function getTrackingCounts(emailJobIds: string[]): Promise<Map<string, TrackingCounts>> {
+  const counts = new Map<string, TrackingCounts>();
+  if (emailJobIds.length === 0) return counts;
+
+  const groups = await prisma.trackingEvent.groupBy({
+    by: ['emailJobId', 'type'],
+    where: { emailJobId: { in: emailJobIds } },
+    _count: { _all: true },
+  });
+
+  for (const group of groups) {
+    const entry = counts.get(group.emailJobId) || { opens: 0, clicks: 0 };
+    if (group.type === 'opened') entry.opens = group._count._all;
+    if (group.type === 'clicked') entry.clicks = group._count._all;
+    counts.set(group.emailJobId, entry);
+  }
+
+  return counts;
+}
@@ -0,0 +1,49 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import { EmailTransport, OutgoingEmail, TransportConfig, TransportSendResult } from '../../types';
+
+/**
+ * File (outbox) transport
+ *
+ * Renders each message to RFC 822 and writes it to `<outboxDir>/<timestamp>-<messageId>.eml`.
+ * Works fully offline; open the files in any mail client to inspect them.
+ */
+export function createFileTransport(config: TransportConfig): EmailTransport {
+  const outboxDir = path.resolve(config.outboxDir || './outbox');
+
+  const transporter = nodemailer.createTransport({
+    streamTransport: true,
+    buffer: true,
+    newline: 'unix',
+  });
+
+  return {
+    provider: 'file',
+
+    async send(email: OutgoingEmail): Promise<TransportSendResult> {
+      const info = await transporter.sendMail(email);
+      const messageId: string = info.messageId;
+      const safeId = messageId.replace(/[<>]/g, '').replace(/[^a-zA-Z0-9.@-]/g, '_');
+
+      await fs.mkdir(outboxDir, { recursive: true });
+      await fs.writeFile(path.join(outboxDir, `${Date.now()}-${safeId}.eml`), info.message as Buffer);
+
+      return {
+        messageId,
+        accepted: [email.to],
+        rejected: [],
+        response: `Written to ${outboxDir}`,
+      };
+    },
+
+    async verify(): Promise<void> {
+      await fs.mkdir(outboxDir, { recursive: true });
+      await fs.access(outboxDir, fs.constants.W_OK);
+    },
+
+    close(): void {
+      transporter.close();
+    },
+  };
+}
@@ -0,0 +1,73 @@
+import { EmailTransport, OutgoingEmail, TransportConfig, TransportSendResult } from '../../types';
+
+/**
+ * HTTP API transport (stub)
+ *
+ * Posts the message as JSON to `apiUrl` with `Authorization: Bearer <apiKey>` and
+ * expects `{ messageId }` back. Real providers (SendGrid, Postmark, SES...) each
+ * have their own payload shape; adapt toRequestBody() when wiring one up.
+ */
+
+function toRequestBody(email: OutgoingEmail): Record<string, unknown> {
+  return {
+    from: email.from,
+    to: email.to,
+    replyTo: email.replyTo,
+    subject: email.subject,
+    html: email.html,
+    text: email.text,
+    headers: email.headers,
+    attachments: email.attachments?.map((a) => ({
+      filename: a.filename,
+      contentType: a.contentType,
+      contentBase64: a.content.toString('base64'),
+    })),
+  };
+}
+
+export function createHttpApiTransport(config: TransportConfig): EmailTransport {
+  if (!config.apiUrl) {
+    throw new Error('HTTP API transport requires an apiUrl');
+  }
+
+  const apiUrl = config.apiUrl;
+
+  return {
+    provider: 'http',
+
+    async send(email: OutgoingEmail): Promise<TransportSendResult> {
+      const response = await fetch(apiUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+        },
+        body: JSON.stringify(toRequestBody(email)),
+      });
+
+      const responseText = await response.text();
+
+      if (!response.ok) {
+        throw new Error(`HTTP API responded ${response.status}: ${responseText}`);
+      }
+
+      const data = responseText ? JSON.parse(responseText) : {};
+
+      return {
+        messageId: data.messageId || data.id || '',
+        accepted: [email.to],
+        rejected: [],
+        response: `${response.status} ${response.statusText}`,
+      };
+    },
+
+    async verify(): Promise<void> {
+      // The stub has no health endpoint to call; just check the URL parses
+      new URL(apiUrl);
+    },
+
+    close(): void {
+      // Stateless
+    },
+  };
+}
@@ -0,0 +1,108 @@
+import { EmailTransport, TransportConfig, TransportProvider } from '../../types';
+import { createSmtpTransport, createEtherealTransport } from './smtpTransport';
+import { createFileTransport } from './fileTransport';
+import { createMemoryTransport } from './memoryTransport';
+import { createHttpApiTransport } from './httpApiTransport';
+
+/**
+ * Email transport factory
+ *
+ * The default transport is chosen by EMAIL_TRANSPORT (ethereal, smtp, file, memory, http).
+ * Sender profiles can carry their own TransportConfig; those transports are
+ * created on first use and cached by their config.
+ */
+
+const TRANSPORT_PROVIDERS: TransportProvider[] = ['ethereal', 'smtp', 'file', 'memory', 'http'];
+
+const transportCache = new Map<string, Promise<EmailTransport>>();
+
+export function isTransportProvider(value: string): value is TransportProvider {
+  return (TRANSPORT_PROVIDERS as string[]).includes(value);
+}
+
+/**
+ * Read the default transport config from the environment
+ */
+export function getTransportConfigFromEnv(): TransportConfig {
+  const provider = process.env.EMAIL_TRANSPORT || 'ethereal';
+
+  if (!isTransportProvider(provider)) {
+    throw new Error(
+      `Unknown EMAIL_TRANSPORT "${provider}". Expected one of: ${TRANSPORT_PROVIDERS.join(', ')}`
+    );
+  }
+
+  switch (provider) {
+    case 'ethereal':
+      return { provider, user: process.env.ETHEREAL_USER, pass: process.env.ETHEREAL_PASS };
+    case 'smtp':
+      return {
+        provider,
+        host: process.env.SMTP_HOST,
+        port: parseInt(process.env.SMTP_PORT || '587', 10),
+        secure: process.env.SMTP_SECURE === 'true',
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS,
+      };
+    case 'file':
+      return { provider, outboxDir: process.env.OUTBOX_DIR };
+    case 'http':
+      return { provider, apiUrl: process.env.EMAIL_API_URL, apiKey: process.env.EMAIL_API_KEY };
+    default:
+      return { provider };
+  }
+}
+
+/**
+ * Create a transport for a config
+ */
+export async function createTransport(config: TransportConfig): Promise<EmailTransport> {
+  switch (config.provider) {
+    case 'ethereal':
+      return createEtherealTransport(config);
+    case 'smtp':
+      return createSmtpTransport(config);
+    case 'file':
+      return createFileTransport(config);
+    case 'memory':
+      return createMemoryTransport();
+    case 'http':
+      return createHttpApiTransport(config);
+    default:
+      throw new Error(`Unknown transport provider: ${(config as TransportConfig).provider}`);
+  }
+}
+
+/**
+ * Get a cached transport for a config, creating it on first use
+ */
+export function getTransportForConfig(config: TransportConfig): Promise<EmailTransport> {
+  const key = JSON.stringify(config);
+  let transport = transportCache.get(key);
+
+  if (!transport) {
+    transport = createTransport(config);
+    // Don't cache failures, so the next send can try again
+    transport.catch(() => transportCache.delete(key));
+    transportCache.set(key, transport);
+  }
+
+  return transport;
+}
+
+/**
+ * Close every cached transport
+ */
+export async function closeTransports(): Promise<void> {
+  const transports = await Promise.allSettled(transportCache.values());
+  transportCache.clear();
+
+  for (const result of transports) {
+    if (result.status === 'fulfilled') {
+      result.value.close();
+    }
+  }
+}
+
+export { createMemoryTransport } from './memoryTransport';
+export type { MemoryTransport } from './memoryTransport';
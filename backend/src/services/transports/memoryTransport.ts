@@ -0,0 +1,50 @@
+import { v4 as uuidv4 } from 'uuid';
+import { EmailTransport, OutgoingEmail, TransportSendResult } from '../../types';
+
+/**
+ * In-memory transport
+ *
+ * Keeps every message in an array instead of sending it. Meant for tests and
+ * local runs: inspect with getSentMessages(), reset with clearSentMessages().
+ */
+
+export interface MemoryTransport extends EmailTransport {
+  getSentMessages(): Array<OutgoingEmail & { messageId: string }>;
+  clearSentMessages(): void;
+}
+
+export function createMemoryTransport(): MemoryTransport {
+  let sentMessages: Array<OutgoingEmail & { messageId: string }> = [];
+
+  return {
+    provider: 'memory',
+
+    async send(email: OutgoingEmail): Promise<TransportSendResult> {
+      const messageId = `<${uuidv4()}@memory.local>`;
+      sentMessages.push({ ...email, messageId });
+
+      return {
+        messageId,
+        accepted: [email.to],
+        rejected: [],
+        response: 'Stored in memory',
+      };
+    },
+
+    async verify(): Promise<void> {
+      // Nothing to connect to
+    },
+
+    close(): void {
+      sentMessages = [];
+    },
+
+    getSentMessages() {
+      return [...sentMessages];
+    },
+
+    clearSentMessages() {
+      sentMessages = [];
+    },
+  };
+}
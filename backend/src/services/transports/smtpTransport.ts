@@ -0,0 +1,72 @@
+import nodemailer from 'nodemailer';
+import { EmailTransport, OutgoingEmail, TransportConfig, TransportSendResult } from '../../types';
+
+/**
+ * SMTP transport
+ *
+ * Sends through any SMTP server via Nodemailer. Ethereal is the same transport
+ * pointed at smtp.ethereal.email (see createEtherealTransport).
+ */
+
+function toAddressList(list: Array<string | { address: string }> | undefined): string[] {
+  return (list || []).map((entry) => (typeof entry === 'string' ? entry : entry.address));
+}
+
+export function createSmtpTransport(config: TransportConfig): EmailTransport {
+  if (!config.host) {
+    throw new Error('SMTP transport requires a host');
+  }
+
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port || 587,
+    secure: config.secure || false,
+    auth: config.user ? { user: config.user, pass: config.pass } : undefined,
+  });
+
+  return {
+    provider: config.provider,
+
+    async send(email: OutgoingEmail): Promise<TransportSendResult> {
+      const info = await transporter.sendMail(email);
+
+      return {
+        messageId: info.messageId,
+        accepted: toAddressList(info.accepted),
+        rejected: toAddressList(info.rejected),
+        response: info.response,
+      };
+    },
+
+    async verify(): Promise<void> {
+      await transporter.verify();
+    },
+
+    close(): void {
+      transporter.close();
+    },
+  };
+}
+
+/**
+ * Ethereal (fake SMTP for testing)
+ * Uses the configured account, or creates a throwaway one (needs network access)
+ */
+export async function createEtherealTransport(config: TransportConfig): Promise<EmailTransport> {
+  let { user, pass } = config;
+
+  if (!user || !pass) {
+    const testAccount = await nodemailer.createTestAccount();
+    user = testAccount.user;
+    pass = testAccount.pass;
+  }
+
+  return createSmtpTransport({
+    ...config,
+    host: 'smtp.ethereal.email',
+    port: 587,
+    secure: false,
+    user,
+    pass,
+  });
+}
@@ -8,8 +8,36 @@ export interface EmailScheduleData {
   userId: string;
 }
 
+/**
+ * EmailJob lifecycle: pending → queued → sending → sent, or → retrying → sending
+ * again until attempts run out and it ends as failed. paused, cancelled and
+ * suppressed are set around it by the schedule controls and suppression list;
+ * bounced and complained come later from bounce reports about a sent email.
+ */
+export type EmailJobStatus =
+  | 'pending'
+  | 'queued'
+  | 'sending'
+  | 'retrying'
+  | 'sent'
+  | 'failed'
+  | 'paused'
+  | 'cancelled'
+  | 'suppressed'
+  | 'bounced'
+  | 'complained';
+
+export interface SendErrorRecord {
+  at: string;
+  message: string;
+  code?: string | null;
+  category?: string;
+}
+
 export interface EmailJobData {
-  scheduleId: string;
+  scheduleId: string | null; // null for sequence emails
+  enrollmentId?: string | null; // Sequence enrollment the email is a step of
+  emailJobId: string;
   userId: string;
   recipient: string;
   subject: string;
@@ -20,6 +48,7 @@ export interface EmailJobData {
     contentBase64: string;
     contentType: string;
   }>;
+  errorHistory?: SendErrorRecord[]; // Failed attempts so far, carried into the dead letter
 }
 
 export interface ScheduleEmailResponse {
@@ -47,4 +76,94 @@ export interface ScheduleListResponse {
   status: string;
   createdAt: string;
   startTime: string;
+  nextOccurrenceAt?: string; // Recurring schedules only
+  abTestStatus?: string; // testing or decided; A/B tests only
+}
+
+export type TransportProvider = 'ethereal' | 'smtp' | 'file' | 'memory' | 'http';
+
+export interface TransportConfig {
+  provider: TransportProvider;
+  // smtp / ethereal
+  host?: string;
+  port?: number;
+  secure?: boolean;
+  user?: string;
+  pass?: string;
+  // file
+  outboxDir?: string;
+  // http
+  apiUrl?: string;
+  apiKey?: string;
+}
+
+export interface OutgoingEmail {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  replyTo?: string;
+  headers?: Record<string, string>;
+  attachments?: Array<{
+    filename: string;
+    content: Buffer;
+    contentType: string;
+  }>;
+}
+
+export interface TransportSendResult {
+  messageId: string;
+  accepted: string[];
+  rejected: string[];
+  response?: string;
+}
+
+export interface EmailTransport {
+  readonly provider: TransportProvider;
+  send(email: OutgoingEmail): Promise<TransportSendResult>;
+  verify(): Promise<void>;
+  close(): void;
+}
+
+export type DnsResolverProvider = 'system' | 'stub';
+
+/**
+ * Looks up the records that tell whether a domain accepts mail
+ * A domain without the records resolves to []; lookups that could not be
+ * answered (timeouts, SERVFAIL) throw.
+ */
+export interface DnsResolver {
+  readonly provider: DnsResolverProvider;
+  resolveMx(domain: string): Promise<Array<{ exchange: string; priority: number }>>;
+  resolveAddresses(domain: string): Promise<string[]>; // A and AAAA
+}
+
+export interface AuthenticatedUser {
+  id: string;
+  email: string;
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+export interface AuthResponse extends AuthTokens {
+  user: {
+    id: string;
+    email: string;
+    name: string | null;
+    avatar: string | null;
+    tokenVersion: number; // Carried by the frontend's NextAuth tokens, so logout revokes them too
+  };
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by authMiddleware once the bearer token has been verified
+      user?: AuthenticatedUser;
+    }
+  }
 }
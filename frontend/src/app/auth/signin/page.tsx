@@ -1,30 +1,140 @@
 'use client';
 
-import { signIn } from 'next-auth/react';
-import { Button, Card } from '@/components/ui';
+import { Suspense, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useAuth } from '@/lib/auth-context';
+import { Button, Card, Input } from '@/components/ui';
+
+function SignInForm() {
+  const { login, signup, loginWithGoogle } = useAuth();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  // Set when a Google sign-in matched a password account; logging in with the password links it
+  const linkToken = searchParams.get('linkToken') || undefined;
+  const notLinked = searchParams.get('error') === 'OAuthAccountNotLinked';
+  const [mode, setMode] = useState<'login' | 'signup'>('login');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState(searchParams.get('email') || '');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim() || !password) {
+      setError('Please enter email and password');
+      return;
+    }
+
+    setError('');
+    setLoading(true);
+
+    try {
+      if (mode === 'signup') {
+        await signup(name, email, password);
+      } else {
+        await login(email, password, linkToken);
+      }
+      router.push('/');
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message || 'Authentication failed');
+      setLoading(false);
+    }
+  };
 
-export default function SignIn() {
   return (
-    <div className="flex items-center justify-center min-h-screen bg-gray-100">
-      <Card className="w-full max-w-md">
+    <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-blue-50 to-blue-100">
+      <Card className="w-full max-w-md shadow-xl">
         <div className="text-center">
-          <h1 className="text-3xl font-bold mb-2">📧 ReachInbox</h1>
-          <p className="text-gray-600 mb-8">Email Scheduler Dashboard</p>
+          <h1 className="text-4xl font-bold mb-2">📧 ReachInbox</h1>
+          <p className="text-gray-600 mb-8 font-semibold">Email Scheduler Dashboard</p>
 
           <Button
             variant="primary"
             size="lg"
-            className="w-full flex items-center justify-center gap-2"
-            onClick={() => signIn('google', { callbackUrl: '/' })}
+            className="w-full mb-4 flex items-center justify-center gap-2"
+            onClick={loginWithGoogle}
+            disabled={loading}
           >
             🔐 Sign in with Google
           </Button>
 
+          <div className="relative mb-6">
+            <div className="absolute inset-0 flex items-center">
+              <div className="w-full border-t border-gray-300"></div>
+            </div>
+            <div className="relative flex justify-center text-sm">
+              <span className="px-2 bg-white text-gray-500">or</span>
+            </div>
+          </div>
+
+          {notLinked && (
+            <p className="text-sm text-amber-700 bg-amber-50 rounded p-3 mb-4 text-left">
+              {linkToken
+                ? 'An account with this email already exists. Sign in with its password to link your Google account to it.'
+                : 'This email belongs to an account linked to a different Google account.'}
+            </p>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {mode === 'signup' && (
+              <Input
+                placeholder="Your Name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                disabled={loading}
+              />
+            )}
+            <Input
+              type="email"
+              placeholder="Your Email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              disabled={loading}
+            />
+            <Input
+              type="password"
+              placeholder="Password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              helperText={mode === 'signup' ? 'At least 8 characters' : undefined}
+              disabled={loading}
+            />
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <Button
+              type="submit"
+              variant="secondary"
+              size="lg"
+              className="w-full"
+              loading={loading}
+            >
+              {mode === 'signup' ? 'Create Account' : 'Sign In'}
+            </Button>
+          </form>
+
           <p className="text-sm text-gray-500 mt-6">
-            Click above to authenticate with your Google account
+            {mode === 'signup' ? 'Already have an account? ' : "Don't have an account? "}
+            <button
+              type="button"
+              className="text-blue-600 underline"
+              onClick={() => {
+                setMode(mode === 'signup' ? 'login' : 'signup');
+                setError('');
+              }}
+            >
+              {mode === 'signup' ? 'Sign in' : 'Sign up'}
+            </button>
           </p>
         </div>
       </Card>
     </div>
   );
 }
+
+export default function SignIn() {
+  return (
+    <Suspense>
+      <SignInForm />
+    </Suspense>
+  );
+}
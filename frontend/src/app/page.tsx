@@ -12,7 +12,7 @@ import { formatDate, getStatusColor } from '@/lib/utils';
 import { ScheduledEmailSchedule, SentEmail } from '@/types';
 
 export default function Dashboard() {
-  const { user, logout } = useAuth();
+  const { user, loading: authLoading, logout } = useAuth();
   const router = useRouter();
   const [activeTab, setActiveTab] = useState<'scheduled' | 'sent'>('scheduled');
   const [isComposeOpen, setIsComposeOpen] = useState(false);
@@ -24,23 +24,23 @@ export default function Dashboard() {
 
   // Redirect to login if not authenticated
   useEffect(() => {
-    if (!user) {
-      router.push('/login');
+    if (!authLoading && !user) {
+      router.push('/auth/signin');
     }
-  }, [user, router]);
+  }, [authLoading, user, router]);
 
   // Fetch emails based on active tab
   useEffect(() => {
-    if (!user?.email) return;
+    if (!user) return;
 
     const fetchEmails = async () => {
       setLoading(true);
       try {
         if (activeTab === 'scheduled') {
-          const response = await API.getScheduledEmails(user.email);
+          const response = await API.getScheduledEmails();
           setScheduledEmails(response.data);
         } else {
-          const response = await API.getSentEmails(user.email);
+          const response = await API.getSentEmails();
           setSentEmails(response.data);
         }
       } catch (error) {
@@ -56,8 +56,8 @@ export default function Dashboard() {
     return () => clearInterval(interval);
   }, [activeTab, user]);
 
-  const handleLogout = () => {
-    logout();
+  const handleLogout = async () => {
+    await logout();
     setToast({ message: 'Logged out successfully', type: 'success' });
   };
 
@@ -190,7 +190,6 @@ export default function Dashboard() {
         <ComposeEmailModal
           isOpen={isComposeOpen}
           onClose={() => setIsComposeOpen(false)}
-          userId={user.email}
           onSuccess={handleComposeSuccess}
         />
       )}
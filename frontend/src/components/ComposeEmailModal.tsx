@@ -1,51 +1,194 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Modal, Button, Input, TextArea, Toast } from './ui';
 import { parseEmails } from '@/lib/utils';
 import { API } from '@/lib/api';
+import {
+  SenderIdentity,
+  EmailTemplate,
+  Recurrence,
+  RateLimitAlgorithm,
+  ContactList,
+  RecipientImportReport,
+  AbTestMetric,
+  EmailVerification,
+  VerificationSummary,
+} from '@/types';
+
+const VERIFICATION_REASONS: Record<EmailVerification['reasons'][number], string> = {
+  syntax: 'not a valid address',
+  no_mail_server: 'domain has no mail server',
+  null_mx: 'domain accepts no mail',
+  dns_error: 'domain could not be checked',
+  disposable: 'disposable address',
+  possible_typo: 'possible typo',
+};
 
 interface ComposeEmailModalProps {
   isOpen: boolean;
   onClose: () => void;
-  userId: string;
   onSuccess?: () => void;
 }
 
 export const ComposeEmailModal: React.FC<ComposeEmailModalProps> = ({
   isOpen,
   onClose,
-  userId,
   onSuccess,
 }) => {
   const [subject, setSubject] = useState('');
   const [body, setBody] = useState('');
   const [recipientsText, setRecipientsText] = useState('');
-  const [csvContent, setCsvContent] = useState('');
+  const [recipientImport, setRecipientImport] = useState<RecipientImportReport | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [skipRoleAccounts, setSkipRoleAccounts] = useState(false);
   const [attachments, setAttachments] = useState<Array<{ filename: string; contentBase64: string; contentType: string }>>([]);
   const fileInputRef = React.useRef<HTMLInputElement | null>(null);
   const [startTime, setStartTime] = useState('');
   const [delayMs, setDelayMs] = useState('2000');
   const [hourlyLimit, setHourlyLimit] = useState('200');
+  const [rateLimitAlgorithm, setRateLimitAlgorithm] = useState<RateLimitAlgorithm>('fixed-window');
   const [loading, setLoading] = useState(false);
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [senders, setSenders] = useState<SenderIdentity[]>([]);
+  const [senderIdentityId, setSenderIdentityId] = useState('');
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [selectedTemplate, setSelectedTemplate] = useState<EmailTemplate | null>(null);
+  const [templateName, setTemplateName] = useState('');
+  const [savingTemplate, setSavingTemplate] = useState(false);
+  const [repeat, setRepeat] = useState<'none' | 'daily' | 'weekly' | 'monthly' | 'custom'>('none');
+  const [customRule, setCustomRule] = useState('');
+  const [repeatUntil, setRepeatUntil] = useState('');
+  const [localSendTime, setLocalSendTime] = useState('');
+  const [lists, setLists] = useState<ContactList[]>([]);
+  const [listIds, setListIds] = useState<string[]>([]);
+  const [tagFilter, setTagFilter] = useState('');
+  // Subject and body above are variant A; these are B onwards
+  const [abTesting, setAbTesting] = useState(false);
+  const [extraVariants, setExtraVariants] = useState<Array<{ subject: string; body: string }>>([{ subject: '', body: '' }]);
+  const [abTestShare, setAbTestShare] = useState('20');
+  const [abTestWaitHours, setAbTestWaitHours] = useState('4');
+  const [abTestMetric, setAbTestMetric] = useState<AbTestMetric>('opens');
+  // Per-recipient verification of the last submission, shown when anything was flagged
+  const [verification, setVerification] = useState<VerificationSummary | null>(null);
+  // Kept across retries of the same submission so the backend schedules it only once
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID());
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setVerification(null);
+
+    API.getSenders()
+      .then((response) => setSenders(response.data))
+      .catch((error) => console.error('Failed to load senders:', error));
+
+    API.getTemplates()
+      .then((response) => setTemplates(response.data))
+      .catch((error) => console.error('Failed to load templates:', error));
+
+    API.getLists()
+      .then((response) => setLists(response.data))
+      .catch((error) => console.error('Failed to load lists:', error));
+  }, [isOpen]);
+
+  // the schedule only records the template if it is sent unchanged
+  const usesTemplate =
+    selectedTemplate !== null && subject === selectedTemplate.subject && body === selectedTemplate.body;
+
+  const handleTemplateChange = (templateId: string) => {
+    const template = templates.find((t) => t.id === templateId) || null;
+    setSelectedTemplate(template);
+    if (template) {
+      setSubject(template.subject);
+      setBody(template.body);
+    }
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!templateName.trim() || !subject.trim() || !body.trim()) {
+      setToast({ message: 'A template needs a name, subject and body', type: 'error' });
+      return;
+    }
+
+    setSavingTemplate(true);
+
+    try {
+      const response = await API.createTemplate({ name: templateName.trim(), subject, body });
+      setTemplates((prev) => [response.data, ...prev]);
+      setSelectedTemplate(response.data);
+      setTemplateName('');
+      setToast({ message: `Saved template "${response.data.name}"`, type: 'success' });
+    } catch (error: any) {
+      setToast({
+        message: error.response?.data?.error || error.message || 'Failed to save template',
+        type: 'error',
+      });
+    } finally {
+      setSavingTemplate(false);
+    }
+  };
 
-  // parse emails from both uploaded CSV/TXT content and manual recipients input
-  const emails = parseEmails(`${csvContent}\n${recipientsText}`);
+  // bare addresses from the manual recipients input; uploaded files are read and validated by the backend
+  const emails = parseEmails(recipientsText);
+  const importedCount = recipientImport
+    ? recipientImport.valid - (skipRoleAccounts ? recipientImport.roleAccounts.count : 0)
+    : 0;
+  const mergeFields = recipientImport?.fields || [];
+  // saved contacts in the chosen lists (and with every tag) are resolved by the backend
+  const tags = tagFilter.split(',').map((tag) => tag.trim()).filter(Boolean);
+  const hasAudience = listIds.length > 0 || tags.length > 0;
+
+  const toggleList = (listId: string) => {
+    setListIds((prev) => (prev.includes(listId) ? prev.filter((id) => id !== listId) : [...prev, listId]));
+  };
+
+  const updateVariant = (index: number, field: 'subject' | 'body', value: string) => {
+    setExtraVariants((prev) => prev.map((variant, i) => (i === index ? { ...variant, [field]: value } : variant)));
+  };
 
   const toDateTimeLocal = (d: Date) => {
     const pad = (n: number) => String(n).padStart(2, '0');
     return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
   };
 
+  // presets repeat at the start time's minute, hour, weekday or day of month, in the browser's timezone
+  const buildRecurrence = (): Recurrence | undefined => {
+    if (repeat === 'none') return undefined;
+
+    const start = new Date(startTime);
+    const at = `${start.getMinutes()} ${start.getHours()}`;
+    const rules = {
+      daily: `${at} * * *`,
+      weekly: `${at} * * ${start.getDay()}`,
+      monthly: `${at} ${start.getDate()} * *`,
+      custom: customRule.trim(),
+    };
+
+    return {
+      rule: rules[repeat],
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      endsAt: repeatUntil ? new Date(`${repeatUntil}T23:59:59`).toISOString() : undefined,
+    };
+  };
+
   const validateForm = (): boolean => {
     const newErrors: Record<string, string> = {};
 
     if (!subject.trim()) newErrors.subject = 'Subject is required';
     if (!body.trim()) newErrors.body = 'Body is required';
-    if (emails.length === 0) newErrors.csvContent = 'At least one valid email is required';
+    if (emails.length === 0 && importedCount === 0 && !hasAudience) {
+      newErrors.csvContent = 'Add at least one valid email, file, list or tag';
+    }
     if (!startTime) newErrors.startTime = 'Start time is required';
+    if (repeat === 'custom' && !customRule.trim()) newErrors.customRule = 'Enter a cron expression or RRULE';
+    if (abTesting) {
+      if (extraVariants.some((variant) => !variant.subject.trim() || !variant.body.trim())) {
+        newErrors.variants = 'Every variant needs a subject and body';
+      } else if (repeat !== 'none') {
+        newErrors.variants = 'A/B tests cannot repeat';
+      }
+    }
 
     const startDate = new Date(startTime);
     if (startDate <= new Date()) {
@@ -65,31 +208,78 @@ export const ComposeEmailModal: React.FC<ComposeEmailModalProps> = ({
     }
 
     setLoading(true);
+    setVerification(null);
 
     try {
-      const response = await API.scheduleEmails(userId, {
+      const response = await API.scheduleEmails({
         subject,
         body,
         recipients: emails,
+        importId: recipientImport?.id,
+        skipRoleAccounts: recipientImport ? skipRoleAccounts : undefined,
+        listIds: listIds.length > 0 ? listIds : undefined,
+        tags: tags.length > 0 ? tags : undefined,
         startTime: new Date(startTime).toISOString(),
         delayMs: parseInt(delayMs, 10),
         hourlyLimit: parseInt(hourlyLimit, 10),
+        rateLimitAlgorithm,
         attachments,
-      });
+        senderIdentityId: senderIdentityId || undefined,
+        templateId: usesTemplate ? selectedTemplate.id : undefined,
+        templateVersion: usesTemplate ? selectedTemplate.version : undefined,
+        recurrence: buildRecurrence(),
+        localSendTime: localSendTime || undefined,
+        sendTimezone: localSendTime ? Intl.DateTimeFormat().resolvedOptions().timeZone : undefined,
+        variants: abTesting ? [{ subject, body }, ...extraVariants] : undefined,
+        abTest: abTesting
+          ? {
+              share: parseInt(abTestShare, 10),
+              waitMinutes: Math.round(parseFloat(abTestWaitHours) * 60),
+              metric: abTestMetric,
+            }
+          : undefined,
+      }, idempotencyKey);
 
+      const suppressed: string[] = response.data.suppressed || [];
+      const verified: VerificationSummary | undefined = response.data.verification;
+      const scheduled = response.data.upcomingOccurrences
+        ? `${response.data.message}.`
+        : `Scheduling ${response.data.totalEmails} email(s)...`;
       setToast({
-        message: `Successfully scheduled ${response.data.totalEmails} email(s)!`,
+        message: [
+          scheduled,
+          suppressed.length > 0 ? `Skipped ${suppressed.length} unsubscribed recipient(s).` : '',
+          verified?.invalid ? `Skipped ${verified.invalid} undeliverable address(es).` : '',
+        ].filter(Boolean).join(' '),
         type: 'success',
       });
 
       // Reset form
       setSubject('');
       setBody('');
-      setCsvContent('');
+      setSelectedTemplate(null);
+      setAbTesting(false);
+      setExtraVariants([{ subject: '', body: '' }]);
+      setRecipientImport(null);
+      setSkipRoleAccounts(false);
+      setListIds([]);
+      setTagFilter('');
       setStartTime('');
       setDelayMs('2000');
       setHourlyLimit('200');
+      setRepeat('none');
+      setCustomRule('');
+      setRepeatUntil('');
+      setLocalSendTime('');
       setErrors({});
+      setIdempotencyKey(crypto.randomUUID());
+
+      // Stay open to show flagged recipients; the user closes the report when done
+      if (verified && verified.flagged.length > 0) {
+        setVerification(verified);
+        onSuccess?.();
+        return;
+      }
 
       setTimeout(() => {
         onClose();
@@ -97,7 +287,15 @@ export const ComposeEmailModal: React.FC<ComposeEmailModalProps> = ({
       }, 2000);
     } catch (error: any) {
       console.error('Schedule error:', error);
-      const errorMsg = error.response?.data?.error || error.response?.data?.message || error.message || 'Failed to schedule emails';
+      // The server answered, so an edited resubmission is a new request; 409 means the first is still running
+      if (error.response && error.response.status !== 409) {
+        setIdempotencyKey(crypto.randomUUID());
+      }
+      setVerification(error.response?.data?.verification || null);
+      const missing = error.response?.data?.missingVariables as Array<{ recipient: string; missing: string[] }> | undefined;
+      const errorMsg = missing?.length
+        ? `${error.response.data.error}: ${missing.slice(0, 3).map((m) => `${m.recipient} (${m.missing.join(', ')})`).join('; ')}${missing.length > 3 ? '…' : ''}`
+        : error.response?.data?.error || error.response?.data?.message || error.message || 'Failed to schedule emails';
       setToast({
         message: errorMsg,
         type: 'error',
@@ -107,23 +305,36 @@ export const ComposeEmailModal: React.FC<ComposeEmailModalProps> = ({
     }
   };
 
+  // the backend streams the file, finds the email column and reports what it skipped
+  const uploadRecipientFile = async (file: File) => {
+    setImporting(true);
+
+    try {
+      const response = await API.uploadRecipients(file);
+      setRecipientImport(response.data);
+      setSkipRoleAccounts(false);
+    } catch (error: any) {
+      setToast({
+        message: error.response?.data?.error || error.message || 'Failed to read the file',
+        type: 'error',
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
     if (files.length === 0) return;
 
     files.forEach((file) => {
       const ext = file.name.split('.').pop()?.toLowerCase();
-      const isText = file.type.startsWith('text') || ext === 'csv' || ext === 'txt';
+      const isRecipientFile = file.type.startsWith('text') || ext === 'csv' || ext === 'txt' || ext === 'xlsx';
 
-      const reader = new FileReader();
-      if (isText) {
-        reader.onload = (event) => {
-          const content = event.target?.result as string;
-          // append to existing csvContent
-          setCsvContent((prev) => (prev ? prev + '\n' + content : content));
-        };
-        reader.readAsText(file);
+      if (isRecipientFile) {
+        uploadRecipientFile(file);
       } else {
+        const reader = new FileReader();
         // read as data URL for binary attachments
         reader.onload = (event) => {
           const dataUrl = event.target?.result as string;
@@ -145,8 +356,6 @@ export const ComposeEmailModal: React.FC<ComposeEmailModalProps> = ({
   const removeRecipient = (email: string) => {
     // remove from manual text if present
     setRecipientsText((prev) => prev.split(/[,\n]+/).map(s => s.trim()).filter(Boolean).filter(e => e !== email).join('\n'));
-    // also remove from csvContent if present
-    setCsvContent((prev) => prev.split(/[,\n]+/).map(s => s.trim()).filter(Boolean).filter(e => e !== email).join('\n'));
   };
 
   const handleSendLater = async () => {
@@ -176,6 +385,69 @@ export const ComposeEmailModal: React.FC<ComposeEmailModalProps> = ({
         }
       >
         <form className="flex flex-col gap-4">
+          {verification && (
+            <div className="rounded-lg border border-gray-200 p-3 text-sm">
+              <div className="flex items-center justify-between">
+                <p className="font-medium text-gray-700">
+                  Address check: {verification.valid} valid, {verification.risky} risky, {verification.invalid} undeliverable
+                  (skipped), {verification.unknown} unchecked
+                </p>
+                <button type="button" className="text-blue-600 underline" onClick={() => setVerification(null)}>
+                  Dismiss
+                </button>
+              </div>
+              <ul className="mt-2 max-h-48 overflow-y-auto">
+                {verification.flagged.map((result) => (
+                  <li key={result.email} className="flex flex-wrap gap-x-2 py-0.5">
+                    <span className={result.status === 'invalid' ? 'text-red-600' : 'text-yellow-700'}>{result.status}</span>
+                    <span className="text-gray-700">{result.email}</span>
+                    <span className="text-gray-500">{result.reasons.map((reason) => VERIFICATION_REASONS[reason]).join(', ')}</span>
+                    {result.suggestion && <span className="text-gray-500">did you mean {result.suggestion}?</span>}
+                  </li>
+                ))}
+              </ul>
+              {verification.invalid + verification.risky + verification.unknown > verification.flagged.length && (
+                <p className="text-gray-500 mt-1">
+                  …and {verification.invalid + verification.risky + verification.unknown - verification.flagged.length} more
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="flex flex-col gap-1">
+            <label className="text-sm font-medium text-gray-700">From</label>
+            <select
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              value={senderIdentityId}
+              onChange={(e) => setSenderIdentityId(e.target.value)}
+            >
+              <option value="">ReachInbox default sender</option>
+              {senders.map((sender) => (
+                <option key={sender.id} value={sender.id} disabled={!sender.verified}>
+                  {sender.fromName} &lt;{sender.fromAddress}&gt;{sender.verified ? '' : ' (unverified)'}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {templates.length > 0 && (
+            <div className="flex flex-col gap-1">
+              <label className="text-sm font-medium text-gray-700">Template</label>
+              <select
+                className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                value={selectedTemplate?.id || ''}
+                onChange={(e) => handleTemplateChange(e.target.value)}
+              >
+                <option value="">No template</option>
+                {templates.map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {template.name} (v{template.version})
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           <Input
             label="Subject Line"
             placeholder="Enter email subject"
@@ -187,7 +459,7 @@ export const ComposeEmailModal: React.FC<ComposeEmailModalProps> = ({
 
           <TextArea
             label="Email Body"
-            placeholder="Enter email content in HTML or plain text"
+            placeholder={'Enter email content in HTML or plain text. Personalize with {{firstName | "there"}} or {{#if company}}...{{/if}}'}
             value={body}
             onChange={(e) => setBody(e.target.value)}
             error={errors.body}
@@ -195,6 +467,102 @@ export const ComposeEmailModal: React.FC<ComposeEmailModalProps> = ({
             required
           />
 
+          <div className="flex items-end gap-2">
+            <div className="flex-1">
+              <Input
+                label="Save as Template"
+                placeholder="Template name"
+                value={templateName}
+                onChange={(e) => setTemplateName(e.target.value)}
+              />
+            </div>
+            <Button type="button" variant="outline" onClick={handleSaveTemplate} loading={savingTemplate}>
+              Save
+            </Button>
+          </div>
+
+          <div>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <input type="checkbox" checked={abTesting} onChange={(e) => setAbTesting(e.target.checked)} />
+              A/B test the subject and body (the ones above are variant A)
+            </label>
+
+            {abTesting && (
+              <div className="flex flex-col gap-3 mt-3">
+                {extraVariants.map((variant, i) => (
+                  <div key={i} className="flex flex-col gap-2 rounded-lg border border-gray-200 p-3">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium text-gray-700">Variant {String.fromCharCode(66 + i)}</span>
+                      {extraVariants.length > 1 && (
+                        <button
+                          type="button"
+                          className="text-sm text-blue-600 underline"
+                          onClick={() => setExtraVariants((prev) => prev.filter((_, j) => j !== i))}
+                        >
+                          Remove
+                        </button>
+                      )}
+                    </div>
+                    <Input
+                      placeholder="Subject"
+                      value={variant.subject}
+                      onChange={(e) => updateVariant(i, 'subject', e.target.value)}
+                    />
+                    <TextArea
+                      placeholder="Body"
+                      value={variant.body}
+                      onChange={(e) => updateVariant(i, 'body', e.target.value)}
+                      rows={4}
+                    />
+                  </div>
+                ))}
+                {errors.variants && <span className="text-sm text-red-600">{errors.variants}</span>}
+                {extraVariants.length < 4 && (
+                  <button
+                    type="button"
+                    className="text-sm text-blue-600 underline self-start"
+                    onClick={() => setExtraVariants((prev) => [...prev, { subject: '', body: '' }])}
+                  >
+                    Add variant
+                  </button>
+                )}
+
+                <div className="grid grid-cols-3 gap-4">
+                  <Input
+                    label="Test Share (%)"
+                    type="number"
+                    min="1"
+                    max="100"
+                    value={abTestShare}
+                    onChange={(e) => setAbTestShare(e.target.value)}
+                    helperText="Recipients split across the variants"
+                  />
+                  <Input
+                    label="Pick Winner After (hours)"
+                    type="number"
+                    min="0.1"
+                    step="0.5"
+                    value={abTestWaitHours}
+                    onChange={(e) => setAbTestWaitHours(e.target.value)}
+                    helperText="Counted from the start time"
+                  />
+                  <div className="flex flex-col gap-1">
+                    <label className="text-sm font-medium text-gray-700">Winner</label>
+                    <select
+                      className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      value={abTestMetric}
+                      onChange={(e) => setAbTestMetric(e.target.value as AbTestMetric)}
+                    >
+                      <option value="opens">Best open rate</option>
+                      <option value="clicks">Best click rate</option>
+                      <option value="manual">I'll pick it</option>
+                    </select>
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+
           <div>
             <label className="text-sm font-medium text-gray-700 block mb-2">
               Recipients (one per line or comma-separated)
@@ -207,13 +575,15 @@ export const ComposeEmailModal: React.FC<ComposeEmailModalProps> = ({
             />
 
             <div className="flex items-center justify-between">
-              <label className="text-sm font-medium text-gray-700 block mb-2 mt-4">Or upload Email List (CSV/TXT)</label>
-              <button type="button" className="text-sm text-blue-600 underline" onClick={triggerUpload}>Upload List</button>
+              <label className="text-sm font-medium text-gray-700 block mb-2 mt-4">Or upload Email List (CSV/XLSX)</label>
+              <button type="button" className="text-sm text-blue-600 underline" onClick={triggerUpload} disabled={importing}>
+                {importing ? 'Checking…' : 'Upload List'}
+              </button>
             </div>
             <input
               ref={fileInputRef}
               type="file"
-              accept=".csv,.txt,image/*,application/pdf"
+              accept=".csv,.txt,.xlsx,image/*,application/pdf"
               onChange={handleFileUpload}
               className="hidden"
             />
@@ -222,6 +592,82 @@ export const ComposeEmailModal: React.FC<ComposeEmailModalProps> = ({
             {emails.length > 0 && (
               <p className="text-sm text-green-600 mt-2">✅ {emails.length} valid email(s) found</p>
             )}
+            {recipientImport && (
+              <div className="mt-3 rounded-lg border border-gray-200 p-3 text-sm">
+                <div className="flex items-center justify-between">
+                  <p className="font-medium text-gray-700">
+                    {recipientImport.filename}: {importedCount} of {recipientImport.totalRows} row(s) will be sent
+                  </p>
+                  <button type="button" className="text-blue-600 underline" onClick={() => setRecipientImport(null)}>
+                    Remove
+                  </button>
+                </div>
+                <p className="text-gray-500 mt-1">
+                  Emails from {recipientImport.emailColumn}
+                  {recipientImport.headerRow ? ` (header on row ${recipientImport.headerRow})` : ''}
+                </p>
+                {([
+                  ['Duplicates', recipientImport.duplicates, 'skipped'],
+                  ['Invalid addresses', recipientImport.invalid, 'skipped'],
+                  ['Suppressed', recipientImport.suppressed, 'skipped'],
+                  ['Role accounts', recipientImport.roleAccounts, skipRoleAccounts ? 'skipped' : 'included'],
+                ] as const).map(([label, issues, outcome]) =>
+                  issues.count > 0 ? (
+                    <details key={label} className="mt-1">
+                      <summary className="cursor-pointer text-gray-700">
+                        {label}: {issues.count} ({outcome})
+                      </summary>
+                      <ul className="ml-4 mt-1 text-gray-500">
+                        {issues.rows.map((issue) => (
+                          <li key={issue.row}>
+                            Row {issue.row}: {issue.email || '(empty)'}
+                          </li>
+                        ))}
+                        {issues.count > issues.rows.length && <li>…and {issues.count - issues.rows.length} more</li>}
+                      </ul>
+                    </details>
+                  ) : null
+                )}
+                {recipientImport.roleAccounts.count > 0 && (
+                  <label className="flex items-center gap-2 mt-2 text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={skipRoleAccounts}
+                      onChange={(e) => setSkipRoleAccounts(e.target.checked)}
+                    />
+                    Skip role accounts (info@, support@, …)
+                  </label>
+                )}
+              </div>
+            )}
+            {mergeFields.length > 0 && (
+              <p className="text-sm text-gray-500 mt-1">
+                Merge fields: {mergeFields.map((field) => `{{${field}}}`).join(', ')}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label className="text-sm font-medium text-gray-700 block mb-2">Or send to saved contacts</label>
+            {lists.length > 0 ? (
+              <div className="flex flex-wrap gap-3 mb-3">
+                {lists.map((list) => (
+                  <label key={list.id} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input type="checkbox" checked={listIds.includes(list.id)} onChange={() => toggleList(list.id)} />
+                    {list.name} ({list.contactCount})
+                  </label>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500 mb-3">No contact lists yet</p>
+            )}
+            <Input
+              label="Tags"
+              placeholder="vip, newsletter"
+              value={tagFilter}
+              onChange={(e) => setTagFilter(e.target.value)}
+              helperText="Contacts must have every tag; combined with the lists above"
+            />
           </div>
 
           <div className="grid grid-cols-3 gap-4">
@@ -252,6 +698,66 @@ export const ComposeEmailModal: React.FC<ComposeEmailModalProps> = ({
               helperText="Max emails per hour"
             />
           </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="flex flex-col gap-1">
+              <label className="text-sm font-medium text-gray-700">Rate Limit Algorithm</label>
+              <select
+                className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                value={rateLimitAlgorithm}
+                onChange={(e) => setRateLimitAlgorithm(e.target.value as RateLimitAlgorithm)}
+              >
+                <option value="fixed-window">Fixed window (per clock hour)</option>
+                <option value="sliding-window">Sliding window (any 60 minutes)</option>
+                <option value="token-bucket">Token bucket (burst, then steady)</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="flex flex-col gap-1">
+              <label className="text-sm font-medium text-gray-700">Repeat</label>
+              <select
+                className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                value={repeat}
+                onChange={(e) => setRepeat(e.target.value as typeof repeat)}
+              >
+                <option value="none">Does not repeat</option>
+                <option value="daily">Daily</option>
+                <option value="weekly">Weekly</option>
+                <option value="monthly">Monthly</option>
+                <option value="custom">Custom (cron or RRULE)</option>
+              </select>
+            </div>
+
+            {repeat === 'custom' && (
+              <Input
+                label="Rule"
+                placeholder="0 9 * * 1 or FREQ=WEEKLY;BYDAY=MO;BYHOUR=9"
+                value={customRule}
+                onChange={(e) => setCustomRule(e.target.value)}
+                error={errors.customRule}
+              />
+            )}
+
+            <Input
+              label="Recipient Local Time"
+              type="time"
+              value={localSendTime}
+              onChange={(e) => setLocalSendTime(e.target.value)}
+              helperText="Optional: deliver at this time in each recipient's timezone column"
+            />
+
+            {repeat !== 'none' && (
+              <Input
+                label="Repeat Until"
+                type="date"
+                value={repeatUntil}
+                onChange={(e) => setRepeatUntil(e.target.value)}
+                helperText="Optional"
+              />
+            )}
+          </div>
         </form>
       </Modal>
 
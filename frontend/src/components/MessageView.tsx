@@ -1,17 +1,75 @@
 "use client";
 
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { formatDate } from '@/lib/utils';
+import { API } from '@/lib/api';
+import { Button } from './ui';
+import { ScheduleDetails } from '@/types';
 
 interface Props {
   item: any;
 }
 
 export const MessageView: React.FC<Props> = ({ item }) => {
+  const [retrying, setRetrying] = useState(false);
+  const [retryMessage, setRetryMessage] = useState('');
+  const [abTest, setAbTest] = useState<ScheduleDetails['abTest']>(null);
+  const [choosingWinner, setChoosingWinner] = useState<string | null>(null);
+
+  useEffect(() => {
+    setRetryMessage('');
+  }, [item?.id]);
+
+  // Variant results come with the schedule details
+  const loadAbTest = React.useCallback(() => {
+    if (!item?.abTestStatus) {
+      setAbTest(null);
+      return;
+    }
+
+    API.getScheduleDetails(item.id)
+      .then((response) => setAbTest(response.data.abTest))
+      .catch((error) => console.error('Failed to load A/B test results:', error));
+  }, [item?.id, item?.abTestStatus]);
+
+  useEffect(() => {
+    loadAbTest();
+  }, [loadAbTest]);
+
   if (!item) return null;
 
   const isScheduled = !!item.totalCount;
 
+  const handleRetryFailed = async () => {
+    setRetrying(true);
+    setRetryMessage('');
+
+    try {
+      const response = await API.retryFailedEmails(item.id);
+      setRetryMessage(response.data.message);
+    } catch (error: any) {
+      setRetryMessage(error.response?.data?.error || 'Failed to retry emails');
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  const handleChooseWinner = async (variantId: string) => {
+    setChoosingWinner(variantId);
+
+    try {
+      const response = await API.chooseAbTestWinner(item.id, variantId);
+      setRetryMessage(response.data.message);
+      loadAbTest();
+    } catch (error: any) {
+      setRetryMessage(error.response?.data?.error || 'Failed to pick the winner');
+    } finally {
+      setChoosingWinner(null);
+    }
+  };
+
+  const percent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
   return (
     <div className="bg-white rounded-lg p-6 shadow-sm">
       <div className="flex justify-between items-start mb-4">
@@ -19,9 +77,73 @@ export const MessageView: React.FC<Props> = ({ item }) => {
           <h3 className="text-lg font-bold text-gray-900">{item.subject}</h3>
           <div className="text-sm text-gray-500">{isScheduled ? `${item.totalCount} recipients` : item.recipient}</div>
         </div>
-        <div className="text-sm text-gray-500">{isScheduled ? formatDate(item.startTime) : (item.sentTime ? formatDate(item.sentTime) : '—')}</div>
+        <div className="text-right">
+          <div className="text-sm text-gray-500">{isScheduled ? formatDate(item.startTime) : (item.sentTime ? formatDate(item.sentTime) : '—')}</div>
+          {isScheduled && item.failedCount > 0 && (
+            <Button variant="outline" size="sm" className="mt-2" loading={retrying} onClick={handleRetryFailed}>
+              Retry failed ({item.failedCount})
+            </Button>
+          )}
+          {retryMessage && <div className="text-xs text-gray-500 mt-1">{retryMessage}</div>}
+        </div>
       </div>
 
+      {abTest && (
+        <div className="mb-6">
+          <h4 className="text-sm font-semibold text-gray-800 mb-1">A/B test</h4>
+          <p className="text-xs text-gray-500 mb-2">
+            {abTest.share}% of recipients,{' '}
+            {abTest.status === 'decided'
+              ? 'winner sent to the rest'
+              : abTest.metric === 'manual'
+                ? 'waiting for you to pick a winner'
+                : `best ${abTest.metric === 'opens' ? 'open' : 'click'} rate wins${abTest.decideAt ? ` at ${formatDate(abTest.decideAt)}` : ''}`}
+          </p>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-1">Variant</th>
+                <th>Subject</th>
+                <th>Sent</th>
+                <th>Opens</th>
+                <th>Clicks</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {abTest.variants.map((variant) => (
+                <tr key={variant.id} className="border-t">
+                  <td className="py-1 font-medium">
+                    {variant.label}
+                    {variant.id === abTest.winningVariantId && ' 🏆'}
+                  </td>
+                  <td className="text-gray-700">{variant.subject}</td>
+                  <td>
+                    {variant.sent}/{variant.recipients}
+                    {variant.remainder > 0 && <span className="text-gray-500"> +{variant.remainder}</span>}
+                  </td>
+                  <td>{percent(variant.openRate)}</td>
+                  <td>{percent(variant.clickRate)}</td>
+                  <td className="text-right">
+                    {abTest.status === 'testing' && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        loading={choosingWinner === variant.id}
+                        disabled={choosingWinner !== null}
+                        onClick={() => handleChooseWinner(variant.id)}
+                      >
+                        Pick winner
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       <div className="prose max-w-none mb-6">
         {/* If body exists show it, otherwise placeholder */}
         {item.body ? (
@@ -0,0 +1,16 @@
+/**
+ * Runs once when the server starts
+ * Loading the NextAuth options checks NEXTAUTH_SECRET, so a missing secret stops
+ * the server here instead of failing the first sign-in
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  try {
+    await import('./lib/auth');
+  } catch (error) {
+    // Next only logs errors from here and starts anyway
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
@@ -1,10 +1,37 @@
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { getSession, signOut } from 'next-auth/react';
+import { Recurrence, RateLimitAlgorithm, AbTestOptions, SequenceStepInput, EnrollmentStatus } from '@/types';
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
 
 let instance: AxiosInstance;
+let accessToken: string | null = null;
+let refreshPromise: Promise<string | null> | null = null;
 
-export function getApiClient(userId?: string): AxiosInstance {
+/**
+ * Fetch a fresh backend token from the NextAuth session
+ * Concurrent callers share one session request
+ */
+async function refreshAccessToken(): Promise<string | null> {
+  if (!refreshPromise) {
+    refreshPromise = getSession()
+      .then((session) => {
+        accessToken = session?.accessToken ?? null;
+        return accessToken;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+
+  return refreshPromise;
+}
+
+export function clearAccessToken(): void {
+  accessToken = null;
+}
+
+export function getApiClient(): AxiosInstance {
   if (!instance) {
     instance = axios.create({
       baseURL: API_URL,
@@ -12,49 +39,393 @@ export function getApiClient(userId?: string): AxiosInstance {
         'Content-Type': 'application/json',
       },
     });
-  }
 
-  if (userId) {
-    instance.defaults.headers['x-user-id'] = userId;
+    instance.interceptors.request.use(async (config) => {
+      const token = accessToken ?? (await refreshAccessToken());
+      if (token) {
+        config.headers.Authorization = `Bearer ${token}`;
+      }
+      return config;
+    });
+
+    // Silently refresh an expired token from the session and retry the request once;
+    // a revoked one means the user logged out elsewhere, so end this session too
+    instance.interceptors.response.use(undefined, async (error: AxiosError<{ code?: string }>) => {
+      const original = error.config as (InternalAxiosRequestConfig & { _retried?: boolean }) | undefined;
+
+      if (error.response?.status === 401 && error.response.data?.code === 'TOKEN_REVOKED') {
+        clearAccessToken();
+        await signOut({ callbackUrl: '/auth/signin' });
+        return Promise.reject(error);
+      }
+
+      if (error.response?.status === 401 && error.response.data?.code === 'TOKEN_EXPIRED' && original && !original._retried) {
+        original._retried = true;
+        const token = await refreshAccessToken();
+
+        if (token) {
+          original.headers.Authorization = `Bearer ${token}`;
+          return instance(original);
+        }
+      }
+
+      return Promise.reject(error);
+    });
   }
 
   return instance;
 }
 
 export const API = {
-  scheduleEmails: async (
-    userId: string,
-    data: {
-      subject: string;
-      body: string;
-      recipients: string[];
-      startTime: string;
-      delayMs: number;
-      hourlyLimit: number;
-      attachments?: Array<{ filename: string; contentBase64: string; contentType: string }>;
-    }
-  ) => {
-    const client = getApiClient(userId);
-    return client.post('/emails/schedule', data);
+  signup: async (data: { name: string; email: string; password: string }) => {
+    const client = getApiClient();
+    return client.post('/auth/signup', data);
   },
 
-  getScheduledEmails: async (userId: string) => {
-    const client = getApiClient(userId);
+  logout: async () => {
+    const client = getApiClient();
+    return client.post('/auth/logout');
+  },
+
+  scheduleEmails: async (data: {
+    subject: string;
+    body: string;
+    recipients: Array<string | ({ email: string } & Record<string, string>)>;
+    listIds?: string[];
+    tags?: string[];
+    importId?: string;
+    skipRoleAccounts?: boolean;
+    startTime: string;
+    delayMs: number;
+    hourlyLimit: number;
+    rateLimitAlgorithm?: RateLimitAlgorithm;
+    attachments?: Array<{ filename: string; contentBase64: string; contentType: string }>;
+    senderIdentityId?: string;
+    templateId?: string;
+    templateVersion?: number;
+    recurrence?: Recurrence;
+    localSendTime?: string;
+    sendTimezone?: string;
+    variants?: Array<{ subject: string; body: string }>;
+    abTest?: AbTestOptions;
+  }, idempotencyKey?: string) => {
+    const client = getApiClient();
+    return client.post('/emails/schedule', data, {
+      headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
+    });
+  },
+
+  chooseAbTestWinner: async (scheduleId: string, variantId: string) => {
+    const client = getApiClient();
+    return client.post(`/emails/schedule/${scheduleId}/ab-test/winner`, { variantId });
+  },
+
+  getScheduledEmails: async () => {
+    const client = getApiClient();
     return client.get('/emails/scheduled');
   },
 
-  getSentEmails: async (userId: string) => {
-    const client = getApiClient(userId);
+  getSentEmails: async () => {
+    const client = getApiClient();
     return client.get('/emails/sent');
   },
 
-  getScheduleDetails: async (userId: string, scheduleId: string) => {
-    const client = getApiClient(userId);
+  getScheduleDetails: async (scheduleId: string) => {
+    const client = getApiClient();
     return client.get(`/emails/schedule/${scheduleId}`);
   },
 
-  getQueueStatus: async (userId: string) => {
-    const client = getApiClient(userId);
+  pauseSchedule: async (scheduleId: string) => {
+    const client = getApiClient();
+    return client.post(`/emails/schedule/${scheduleId}/pause`);
+  },
+
+  resumeSchedule: async (scheduleId: string) => {
+    const client = getApiClient();
+    return client.post(`/emails/schedule/${scheduleId}/resume`);
+  },
+
+  cancelSchedule: async (scheduleId: string) => {
+    const client = getApiClient();
+    return client.post(`/emails/schedule/${scheduleId}/cancel`);
+  },
+
+  getScheduleProgress: async (scheduleId: string) => {
+    const client = getApiClient();
+    return client.get(`/emails/schedule/${scheduleId}/progress`);
+  },
+
+  getScheduleFailures: async (scheduleId: string) => {
+    const client = getApiClient();
+    return client.get(`/emails/schedule/${scheduleId}/failures`);
+  },
+
+  retryFailedEmails: async (scheduleId: string, emailJobId?: string) => {
+    const client = getApiClient();
+    return client.post(
+      emailJobId
+        ? `/emails/schedule/${scheduleId}/failures/${emailJobId}/retry`
+        : `/emails/schedule/${scheduleId}/failures/retry`
+    );
+  },
+
+  dropFailedEmails: async (scheduleId: string, emailJobId?: string) => {
+    const client = getApiClient();
+    return client.delete(
+      emailJobId ? `/emails/schedule/${scheduleId}/failures/${emailJobId}` : `/emails/schedule/${scheduleId}/failures`
+    );
+  },
+
+  getScheduleOccurrences: async (scheduleId: string, limit = 10) => {
+    const client = getApiClient();
+    return client.get(`/emails/schedule/${scheduleId}/occurrences`, { params: { limit } });
+  },
+
+  skipOccurrence: async (scheduleId: string, occurrence: string) => {
+    const client = getApiClient();
+    return client.post(`/emails/schedule/${scheduleId}/occurrences/${encodeURIComponent(occurrence)}/skip`);
+  },
+
+  unskipOccurrence: async (scheduleId: string, occurrence: string) => {
+    const client = getApiClient();
+    return client.delete(`/emails/schedule/${scheduleId}/occurrences/${encodeURIComponent(occurrence)}/skip`);
+  },
+
+  updateRecurrence: async (
+    scheduleId: string,
+    data: Partial<Recurrence> & { subject?: string; body?: string }
+  ) => {
+    const client = getApiClient();
+    return client.put(`/emails/schedule/${scheduleId}/recurrence`, data);
+  },
+
+  getSenders: async () => {
+    const client = getApiClient();
+    return client.get('/senders');
+  },
+
+  createSender: async (data: {
+    fromName: string;
+    fromAddress: string;
+    replyTo?: string;
+    signature?: string;
+    transport?: Record<string, unknown>;
+  }) => {
+    const client = getApiClient();
+    return client.post('/senders', data);
+  },
+
+  updateSender: async (
+    senderId: string,
+    data: { fromName?: string; fromAddress?: string; replyTo?: string; signature?: string; transport?: Record<string, unknown> | null }
+  ) => {
+    const client = getApiClient();
+    return client.put(`/senders/${senderId}`, data);
+  },
+
+  deleteSender: async (senderId: string) => {
+    const client = getApiClient();
+    return client.delete(`/senders/${senderId}`);
+  },
+
+  resendSenderVerification: async (senderId: string) => {
+    const client = getApiClient();
+    return client.post(`/senders/${senderId}/resend-verification`);
+  },
+
+  getTemplates: async () => {
+    const client = getApiClient();
+    return client.get('/templates');
+  },
+
+  getTemplate: async (templateId: string) => {
+    const client = getApiClient();
+    return client.get(`/templates/${templateId}`);
+  },
+
+  getTemplateVersion: async (templateId: string, version: number) => {
+    const client = getApiClient();
+    return client.get(`/templates/${templateId}/versions/${version}`);
+  },
+
+  createTemplate: async (data: { name: string; subject: string; body: string }) => {
+    const client = getApiClient();
+    return client.post('/templates', data);
+  },
+
+  updateTemplate: async (templateId: string, data: { name?: string; subject?: string; body?: string }) => {
+    const client = getApiClient();
+    return client.put(`/templates/${templateId}`, data);
+  },
+
+  deleteTemplate: async (templateId: string) => {
+    const client = getApiClient();
+    return client.delete(`/templates/${templateId}`);
+  },
+
+  getSuppressions: async () => {
+    const client = getApiClient();
+    return client.get('/suppressions');
+  },
+
+  addSuppression: async (email: string) => {
+    const client = getApiClient();
+    return client.post('/suppressions', { email });
+  },
+
+  removeSuppression: async (email: string) => {
+    const client = getApiClient();
+    return client.delete(`/suppressions/${encodeURIComponent(email)}`);
+  },
+
+  getContacts: async (params: { listId?: string; tag?: string; search?: string; limit?: number; offset?: number } = {}) => {
+    const client = getApiClient();
+    return client.get('/contacts', { params });
+  },
+
+  createContact: async (data: {
+    email: string;
+    attributes?: Record<string, string>;
+    tags?: string[];
+    listIds?: string[];
+  }) => {
+    const client = getApiClient();
+    return client.post('/contacts', data);
+  },
+
+  updateContact: async (contactId: string, data: {
+    attributes?: Record<string, string>;
+    tags?: string[];
+    listIds?: string[];
+  }) => {
+    const client = getApiClient();
+    return client.put(`/contacts/${contactId}`, data);
+  },
+
+  deleteContact: async (contactId: string) => {
+    const client = getApiClient();
+    return client.delete(`/contacts/${contactId}`);
+  },
+
+  importContacts: async (data: {
+    csv: string;
+    mapping?: Record<string, string>;
+    tags?: string[];
+    listId?: string;
+  }) => {
+    const client = getApiClient();
+    return client.post('/contacts/import', data);
+  },
+
+  uploadRecipients: async (file: File) => {
+    const client = getApiClient();
+    const form = new FormData();
+    form.append('file', file);
+    // Not JSON: the browser sets the multipart boundary
+    return client.post('/imports', form, { headers: { 'Content-Type': 'multipart/form-data' } });
+  },
+
+  getRecipientImport: async (importId: string) => {
+    const client = getApiClient();
+    return client.get(`/imports/${importId}`);
+  },
+
+  getLists: async () => {
+    const client = getApiClient();
+    return client.get('/lists');
+  },
+
+  createList: async (data: { name: string; description?: string }) => {
+    const client = getApiClient();
+    return client.post('/lists', data);
+  },
+
+  updateList: async (listId: string, data: { name?: string; description?: string }) => {
+    const client = getApiClient();
+    return client.put(`/lists/${listId}`, data);
+  },
+
+  deleteList: async (listId: string) => {
+    const client = getApiClient();
+    return client.delete(`/lists/${listId}`);
+  },
+
+  addListContacts: async (listId: string, contactIds: string[]) => {
+    const client = getApiClient();
+    return client.post(`/lists/${listId}/contacts`, { contactIds });
+  },
+
+  removeListContact: async (listId: string, contactId: string) => {
+    const client = getApiClient();
+    return client.delete(`/lists/${listId}/contacts/${contactId}`);
+  },
+
+  getSequences: async () => {
+    const client = getApiClient();
+    return client.get('/sequences');
+  },
+
+  getSequence: async (sequenceId: string) => {
+    const client = getApiClient();
+    return client.get(`/sequences/${sequenceId}`);
+  },
+
+  createSequence: async (data: {
+    name: string;
+    steps: SequenceStepInput[];
+    senderIdentityId?: string;
+    hourlyLimit?: number;
+    delayMs?: number;
+  }) => {
+    const client = getApiClient();
+    return client.post('/sequences', data);
+  },
+
+  updateSequence: async (sequenceId: string, data: {
+    name?: string;
+    senderIdentityId?: string | null;
+    hourlyLimit?: number;
+    delayMs?: number;
+  }) => {
+    const client = getApiClient();
+    return client.put(`/sequences/${sequenceId}`, data);
+  },
+
+  deleteSequence: async (sequenceId: string) => {
+    const client = getApiClient();
+    return client.delete(`/sequences/${sequenceId}`);
+  },
+
+  pauseSequence: async (sequenceId: string) => {
+    const client = getApiClient();
+    return client.post(`/sequences/${sequenceId}/pause`);
+  },
+
+  resumeSequence: async (sequenceId: string) => {
+    const client = getApiClient();
+    return client.post(`/sequences/${sequenceId}/resume`);
+  },
+
+  enrollContacts: async (sequenceId: string, data: { contactIds?: string[]; listIds?: string[]; tags?: string[] }) => {
+    const client = getApiClient();
+    return client.post(`/sequences/${sequenceId}/enrollments`, data);
+  },
+
+  getEnrollments: async (
+    sequenceId: string,
+    params: { status?: EnrollmentStatus; contactId?: string; limit?: number; offset?: number } = {}
+  ) => {
+    const client = getApiClient();
+    return client.get(`/sequences/${sequenceId}/enrollments`, { params });
+  },
+
+  stopEnrollment: async (sequenceId: string, enrollmentId: string) => {
+    const client = getApiClient();
+    return client.post(`/sequences/${sequenceId}/enrollments/${enrollmentId}/stop`);
+  },
+
+  getQueueStatus: async () => {
+    const client = getApiClient();
     return client.get('/emails/queue/status');
   },
 };
@@ -1,54 +1,81 @@
 'use client';
 
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext } from 'react';
+import { SessionProvider, useSession, signIn, signOut } from 'next-auth/react';
 import { User } from '@/types';
+import { API, clearAccessToken } from '@/lib/api';
 
 interface AuthContextType {
   user: User | null;
-  login: (name: string, email: string) => void;
-  logout: () => void;
+  loading: boolean;
+  login: (email: string, password: string, linkToken?: string) => Promise<void>;
+  signup: (name: string, email: string, password: string) => Promise<void>;
+  loginWithGoogle: () => Promise<void>;
+  logout: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-export function AuthProvider({ children }: { children: React.ReactNode }) {
-  const [user, setUser] = useState<User | null>(null);
-
-  // Load user from localStorage on mount
-  useEffect(() => {
-    const storedUser = localStorage.getItem('demo_user');
-    if (storedUser) {
-      try {
-        setUser(JSON.parse(storedUser));
-      } catch (e) {
-        console.error('Failed to parse stored user', e);
+/**
+ * Exposes the NextAuth session as the dashboard's user
+ * The session is the only source of identity; nothing is kept in localStorage
+ */
+function AuthStateProvider({ children }: { children: React.ReactNode }) {
+  const { data: session, status } = useSession();
+
+  const user: User | null = session?.user?.email
+    ? {
+        id: session.user.id,
+        name: session.user.name || session.user.email.split('@')[0],
+        email: session.user.email,
+        avatar: session.user.image || `https://api.dicebear.com/7.x/avataaars/svg?seed=${session.user.email}`,
       }
+    : null;
+
+  const login = async (email: string, password: string, linkToken?: string) => {
+    const result = await signIn('credentials', { email, password, linkToken: linkToken || '', redirect: false });
+    if (!result || result.error) {
+      throw new Error('Invalid email or password');
     }
-  }, []);
-
-  const login = (name: string, email: string) => {
-    const newUser: User = {
-      id: email,
-      name,
-      email,
-      avatar: `https://api.dicebear.com/7.x/avataaars/svg?seed=${email}`,
-    };
-    setUser(newUser);
-    localStorage.setItem('demo_user', JSON.stringify(newUser));
   };
 
-  const logout = () => {
-    setUser(null);
-    localStorage.removeItem('demo_user');
+  const signup = async (name: string, email: string, password: string) => {
+    await API.signup({ name, email, password });
+    await login(email, password);
+  };
+
+  const loginWithGoogle = async () => {
+    await signIn('google', { callbackUrl: '/' });
+  };
+
+  // Revokes the backend tokens first, so this session's tokens stop working everywhere
+  const logout = async () => {
+    try {
+      await API.logout();
+    } catch (error) {
+      console.error('Error revoking tokens on logout:', error);
+    }
+    clearAccessToken();
+    await signOut({ redirect: false });
   };
 
   return (
-    <AuthContext.Provider value={{ user, login, logout }}>
+    <AuthContext.Provider
+      value={{ user, loading: status === 'loading', login, signup, loginWithGoogle, logout }}
+    >
       {children}
     </AuthContext.Provider>
   );
 }
 
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  return (
+    <SessionProvider>
+      <AuthStateProvider>{children}</AuthStateProvider>
+    </SessionProvider>
+  );
+}
+
 export function useAuth() {
   const context = useContext(AuthContext);
   if (context === undefined) {
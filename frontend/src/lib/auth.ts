@@ -0,0 +1,150 @@
+import type { NextAuthOptions } from 'next-auth';
+import GoogleProvider from 'next-auth/providers/google';
+import CredentialsProvider from 'next-auth/providers/credentials';
+import { SignJWT } from 'jose';
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
+
+// Signs the session cookie and the tokens the backend verifies; the server refuses
+// to start without it (see instrumentation.ts). Not needed while `next build` runs.
+const NEXTAUTH_SECRET = process.env.NEXTAUTH_SECRET || '';
+
+if (!NEXTAUTH_SECRET && process.env.NEXT_PHASE !== 'phase-production-build') {
+  throw new Error('NEXTAUTH_SECRET must be set (the same value as the backend)');
+}
+
+const NEXTAUTH_KEY = new TextEncoder().encode(NEXTAUTH_SECRET);
+
+/**
+ * Sign a short-lived token the backend verifies with the shared NEXTAUTH_SECRET
+ */
+export async function signBackendToken(claims: {
+  sub?: string;
+  email: string;
+  name?: string | null;
+  picture?: string | null;
+  googleId?: string;
+  tokenVersion?: number;
+}): Promise<string> {
+  const token = new SignJWT({
+    email: claims.email,
+    name: claims.name,
+    picture: claims.picture,
+    googleId: claims.googleId,
+    tokenVersion: claims.tokenVersion,
+  })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setIssuer('nextauth')
+    .setIssuedAt()
+    .setExpirationTime('15m');
+
+  if (claims.sub) {
+    token.setSubject(claims.sub);
+  }
+
+  return token.sign(NEXTAUTH_KEY);
+}
+
+export const authOptions: NextAuthOptions = {
+  secret: NEXTAUTH_SECRET,
+  providers: [
+    GoogleProvider({
+      clientId: process.env.GOOGLE_CLIENT_ID || '',
+      clientSecret: process.env.GOOGLE_CLIENT_SECRET || '',
+    }),
+    CredentialsProvider({
+      name: 'Email',
+      credentials: {
+        email: { label: 'Email', type: 'email' },
+        password: { label: 'Password', type: 'password' },
+        // From a Google sign-in refused because the address has a password account
+        linkToken: { label: 'Link token', type: 'text' },
+      },
+      async authorize(credentials) {
+        if (!credentials?.email || !credentials.password) return null;
+
+        const response = await fetch(`${API_URL}/auth/login`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            email: credentials.email,
+            password: credentials.password,
+            linkToken: credentials.linkToken || undefined,
+          }),
+        });
+
+        if (!response.ok) return null;
+
+        const { user } = await response.json();
+        return { id: user.id, email: user.email, name: user.name, image: user.avatar, tokenVersion: user.tokenVersion };
+      },
+    }),
+  ],
+  callbacks: {
+    // Google sign-in: find the backend user by Google account, or send the user
+    // to link it to their password account first
+    async signIn({ user, account }) {
+      if (account?.provider !== 'google') return true;
+      if (!user.email) return false;
+
+      const syncToken = await signBackendToken({
+        email: user.email,
+        name: user.name,
+        picture: user.image,
+        googleId: account.providerAccountId,
+      });
+
+      const response = await fetch(`${API_URL}/auth/oauth`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${syncToken}` },
+      });
+      const data = await response.json();
+
+      if (response.status === 409 && data.code === 'ACCOUNT_NOT_LINKED') {
+        const params = new URLSearchParams({ error: 'OAuthAccountNotLinked', email: user.email });
+        if (data.linkToken) params.set('linkToken', data.linkToken);
+        return `/auth/signin?${params}`;
+      }
+
+      if (!response.ok) {
+        throw new Error(`Failed to sync user with backend (${response.status})`);
+      }
+
+      // The jwt callback is handed this same user object
+      user.id = data.id;
+      user.name = data.name;
+      user.image = data.avatar;
+      user.tokenVersion = data.tokenVersion;
+      return true;
+    },
+    async jwt({ token, user }) {
+      if (user) {
+        token.id = user.id;
+        token.name = user.name;
+        token.picture = user.image;
+        token.tokenVersion = user.tokenVersion;
+      }
+      return token;
+    },
+    async session({ session, token }) {
+      if (session.user) {
+        session.user.id = token.id as string;
+      }
+      // Re-signed on every session fetch, so getSession() doubles as a token refresh
+      session.accessToken = await signBackendToken({
+        sub: token.id,
+        email: token.email || '',
+        name: token.name,
+        picture: token.picture,
+        tokenVersion: token.tokenVersion,
+      });
+      return session;
+    },
+  },
+  pages: {
+    signIn: '/auth/signin',
+  },
+  session: {
+    strategy: 'jwt',
+  },
+};
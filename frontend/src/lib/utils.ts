@@ -49,11 +49,18 @@ export function getStatusColor(status: string): string {
     case 'completed':
       return 'bg-green-100 text-green-800';
     case 'pending':
+    case 'queued':
+    case 'preparing':
     case 'scheduled':
       return 'bg-blue-100 text-blue-800';
     case 'failed':
+    case 'bounced':
+    case 'complained':
       return 'bg-red-100 text-red-800';
     case 'in-progress':
+    case 'sending':
+    case 'retrying':
+    case 'paused':
       return 'bg-yellow-100 text-yellow-800';
     default:
       return 'bg-gray-100 text-gray-800';
@@ -5,6 +5,185 @@ export interface User {
   avatar?: string;
 }
 
+export interface SenderIdentity {
+  id: string;
+  fromName: string;
+  fromAddress: string;
+  replyTo?: string | null;
+  signature?: string | null;
+  transport: {
+    provider: 'ethereal' | 'smtp' | 'file' | 'memory' | 'http';
+    host?: string;
+    port?: number;
+    secure?: boolean;
+    user?: string;
+    apiUrl?: string;
+  } | null;
+  verified: boolean;
+  verifiedAt?: string;
+  createdAt: string;
+}
+
+export interface EmailTemplate {
+  id: string;
+  name: string;
+  version: number;
+  currentVersion: number;
+  subject: string;
+  body: string;
+  createdAt: string;
+  updatedAt: string;
+  versions?: Array<{
+    version: number;
+    subject: string;
+    createdAt: string;
+  }>;
+}
+
+export interface Suppression {
+  email: string;
+  reason: 'unsubscribed' | 'manual' | 'bounced' | 'complained';
+  createdAt: string;
+}
+
+export interface Contact {
+  id: string;
+  email: string;
+  attributes: Record<string, string>;
+  tags: string[];
+  listIds: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ContactList {
+  id: string;
+  name: string;
+  description: string | null;
+  contactCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ContactImportResult {
+  total: number;
+  created: number;
+  updated: number;
+  duplicates: number;
+  invalid: Array<{ row: number; email: string }>;
+}
+
+export type SequenceStepCondition = 'not_opened' | 'not_clicked';
+export type EnrollmentStatus = 'active' | 'completed' | 'exited';
+export type EnrollmentExitReason = 'replied' | 'unsubscribed' | 'bounced' | 'complained' | 'failed' | 'stopped';
+
+export interface SequenceStepInput {
+  subject: string;
+  body: string;
+  delayMinutes?: number;
+  condition?: SequenceStepCondition | null;
+}
+
+export interface Sequence {
+  id: string;
+  name: string;
+  status: 'active' | 'paused';
+  senderIdentityId: string | null;
+  hourlyLimit: number;
+  delayMs: number;
+  stepCount: number;
+  enrollments: Record<EnrollmentStatus, number>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SequenceDetails extends Sequence {
+  steps: Array<{
+    id: string;
+    position: number;
+    subject: string;
+    body: string;
+    delayMinutes: number;
+    condition: SequenceStepCondition | null;
+    waiting: number; // Active contacts whose next step this is
+    sent: number;
+    uniqueOpens: number;
+    uniqueClicks: number;
+  }>;
+}
+
+export interface Enrollment {
+  id: string;
+  contactId: string;
+  email: string;
+  status: EnrollmentStatus;
+  currentStep: number;
+  totalSteps: number;
+  nextStepAt: string | null;
+  exitReason: EnrollmentExitReason | null;
+  lastEmail: { step: number | null; status: string; sentTime: string | null } | null;
+  enrolledAt: string;
+  finishedAt: string | null;
+}
+
+export interface EnrollmentResult {
+  sequenceId: string;
+  enrolled: number;
+  alreadyEnrolled: number;
+  suppressed: number;
+  message: string;
+}
+
+export type VerificationStatus = 'valid' | 'risky' | 'invalid' | 'unknown';
+
+export interface EmailVerification {
+  email: string;
+  status: VerificationStatus;
+  reasons: Array<'syntax' | 'no_mail_server' | 'null_mx' | 'dns_error' | 'disposable' | 'possible_typo'>;
+  suggestion?: string;
+}
+
+export interface VerificationSummary {
+  valid: number;
+  risky: number;
+  invalid: number;
+  unknown: number;
+  flagged: EmailVerification[]; // Not valid, invalid first (first 500)
+}
+
+export interface ImportIssueSummary {
+  count: number;
+  rows: Array<{ row: number; email: string }>; // First 100
+}
+
+export interface RecipientImportReport {
+  id: string;
+  filename: string;
+  format: 'csv' | 'xlsx';
+  headerRow: number | null;
+  emailColumn: string;
+  fields: string[];
+  totalRows: number;
+  valid: number;
+  duplicates: ImportIssueSummary;
+  invalid: ImportIssueSummary;
+  roleAccounts: ImportIssueSummary;
+  suppressed: ImportIssueSummary;
+  createdAt: string;
+}
+
+export interface Occurrence {
+  at: string;
+  skipped: boolean;
+}
+
+export interface Recurrence {
+  rule: string; // Cron expression or RRULE
+  timezone: string;
+  endsAt?: string;
+  maxOccurrences?: number;
+}
+
 export interface ScheduledEmailSchedule {
   id: string;
   subject: string;
@@ -14,6 +193,8 @@ export interface ScheduledEmailSchedule {
   status: string;
   createdAt: string;
   startTime: string;
+  nextOccurrenceAt?: string;
+  abTestStatus?: AbTestStatus;
 }
 
 export interface SentEmail {
@@ -24,6 +205,32 @@ export interface SentEmail {
   status: string;
 }
 
+export type RateLimitAlgorithm = 'fixed-window' | 'sliding-window' | 'token-bucket';
+
+export type AbTestMetric = 'opens' | 'clicks' | 'manual';
+
+export type AbTestStatus = 'testing' | 'decided';
+
+export interface AbTestOptions {
+  share?: number; // Percent of recipients in the test (default 20)
+  waitMinutes?: number; // From the start time until the winner is picked (default 240)
+  metric?: AbTestMetric;
+}
+
+export interface VariantResult {
+  id: string;
+  label: string;
+  subject: string;
+  body: string;
+  recipients: number;
+  sent: number;
+  uniqueOpens: number;
+  uniqueClicks: number;
+  openRate: number;
+  clickRate: number;
+  remainder: number; // Winner's emails sent after the test
+}
+
 export interface ScheduleDetails {
   id: string;
   subject: string;
@@ -31,11 +238,60 @@ export interface ScheduleDetails {
   startTime: string;
   delayMs: number;
   hourlyLimit: number;
+  rateLimitAlgorithm: RateLimitAlgorithm;
+  sender: {
+    id: string;
+    fromName: string;
+    fromAddress: string;
+  } | null;
+  template: {
+    id: string;
+    name: string;
+    version: number;
+  } | null;
   status: string;
   totalCount: number;
   sentCount: number;
   failedCount: number;
   createdAt: string;
+  rateLimit: {
+    heldBy: 'schedule' | 'user' | 'sender' | 'global';
+    until: string;
+  } | null;
+  recurrence: {
+    rule: string;
+    timezone: string;
+    endsAt?: string;
+    maxOccurrences: number | null;
+    occurrenceCount: number;
+    upcoming: Occurrence[];
+  } | null;
+  abTest: {
+    status: AbTestStatus;
+    share: number;
+    metric: AbTestMetric;
+    decideAt?: string;
+    winningVariantId: string | null;
+    variants: VariantResult[];
+  } | null;
+  delivery: {
+    localSendTime: string | null;
+    sendTimezone: string | null;
+    firstAt: string | null;
+    lastAt: string | null;
+    byTimezone: Array<{
+      timezone: string;
+      count: number;
+      firstAt: string;
+      lastAt: string;
+    }>;
+  };
+  tracking: {
+    opens: number;
+    uniqueOpens: number;
+    clicks: number;
+    uniqueClicks: number;
+  };
   emails: Array<{
     id: string;
     recipient: string;
@@ -44,6 +300,21 @@ export interface ScheduleDetails {
     scheduledTime: string;
     sentTime?: string;
     errorMessage?: string;
+    errorCode?: string | null;
+    errorCategory?: 'permanent' | 'temporary' | 'network' | 'unknown' | null;
+    messageId?: string | null;
+    accepted: string[];
+    rejected: string[];
+    smtpResponse?: string | null;
+    sendDurationMs?: number | null;
+    attemptCount: number;
+    lastAttemptAt?: string;
+    occurrenceAt?: string;
+    timezone?: string | null;
+    variant?: string;
+    abTestGroup?: 'test' | 'remainder' | null;
+    opens: number;
+    clicks: number;
   }>;
 }
 
@@ -0,0 +1,23 @@
+import { DefaultSession } from 'next-auth';
+
+declare module 'next-auth' {
+  interface User {
+    // Backend tokenVersion at sign-in; logging out anywhere bumps it and revokes this session
+    tokenVersion?: number;
+  }
+
+  interface Session {
+    // Signed with NEXTAUTH_SECRET, sent to the backend as a bearer token
+    accessToken: string;
+    user: DefaultSession['user'] & {
+      id: string;
+    };
+  }
+}
+
+declare module 'next-auth/jwt' {
+  interface JWT {
+    id?: string;
+    tokenVersion?: number;
+  }
+}